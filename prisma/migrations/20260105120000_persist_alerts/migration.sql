@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "AlertSeverity" AS ENUM ('LOW', 'MEDIUM', 'HIGH', 'CRITICAL');
+
+-- AlterTable
+ALTER TABLE "AlertRule" ADD COLUMN     "conditions" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN     "notificationMethods" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN     "severity" "AlertSeverity" NOT NULL DEFAULT 'MEDIUM',
+ADD COLUMN     "type" TEXT;
+
+-- Backfill existing rules as custom rules with their single metric condition
+UPDATE "AlertRule" SET "type" = 'custom',
+"conditions" = jsonb_build_array(jsonb_build_object('field', "metric", 'operator', "operator", 'value', "threshold"));
+
+ALTER TABLE "AlertRule" ALTER COLUMN "type" SET NOT NULL;
+
+-- AlterTable: map the old Severity values onto AlertSeverity in place
+ALTER TABLE "Alert" ALTER COLUMN "severity" TYPE "AlertSeverity" USING (
+    CASE "severity"::TEXT
+        WHEN 'CRITICAL' THEN 'CRITICAL'
+        WHEN 'WARNING' THEN 'MEDIUM'
+        ELSE 'LOW'
+    END
+)::"AlertSeverity";
+
+-- AlterTable
+ALTER TABLE "Alert" ADD COLUMN     "acknowledged" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "acknowledgedAt" TIMESTAMP(3),
+ADD COLUMN     "metadata" JSONB,
+ADD COLUMN     "title" TEXT,
+ADD COLUMN     "type" TEXT;
+
+-- Backfill existing alerts from their rule
+UPDATE "Alert" a SET "title" = r."name", "type" = r."type"
+FROM "AlertRule" r WHERE r."id" = a."ruleId";
+
+ALTER TABLE "Alert" ALTER COLUMN "title" SET NOT NULL,
+ALTER COLUMN "type" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Alert_ruleId_idx" ON "Alert"("ruleId");
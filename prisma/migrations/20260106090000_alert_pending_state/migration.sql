@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "AlertPendingState" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "since" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AlertPendingState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AlertPendingState_ruleId_subject_key" ON "AlertPendingState"("ruleId", "subject");
+
+-- AddForeignKey
+ALTER TABLE "AlertPendingState" ADD CONSTRAINT "AlertPendingState_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "AlertRule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "AlertDelivery" (
+    "id" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "channel" TEXT NOT NULL,
+    "target" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "statusCode" INTEGER,
+    "error" TEXT,
+    "durationMs" INTEGER NOT NULL,
+    "alertId" TEXT NOT NULL,
+
+    CONSTRAINT "AlertDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AlertDelivery_alertId_idx" ON "AlertDelivery"("alertId");
+
+-- CreateIndex
+CREATE INDEX "AlertDelivery_timestamp_idx" ON "AlertDelivery"("timestamp");
+
+-- AddForeignKey
+ALTER TABLE "AlertDelivery" ADD CONSTRAINT "AlertDelivery_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "Alert"("id") ON DELETE CASCADE ON UPDATE CASCADE;
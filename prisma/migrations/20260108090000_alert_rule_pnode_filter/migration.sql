@@ -0,0 +1,4 @@
+-- AlterTable: pnodeFilter becomes a list of pubkeys (existing single values are kept)
+ALTER TABLE "AlertRule" ALTER COLUMN "pnodeFilter" SET DATA TYPE TEXT[] USING CASE WHEN "pnodeFilter" IS NULL THEN ARRAY[]::TEXT[] ELSE string_to_array("pnodeFilter", ',') END;
+ALTER TABLE "AlertRule" ALTER COLUMN "pnodeFilter" SET DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "AlertRule" ALTER COLUMN "pnodeFilter" SET NOT NULL;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "PNodeSnapshot" ADD COLUMN     "latencyP50" DOUBLE PRECISION,
+ADD COLUMN     "latencyP95" DOUBLE PRECISION,
+ADD COLUMN     "latencyP99" DOUBLE PRECISION,
+ADD COLUMN     "probeFailures" INTEGER,
+ADD COLUMN     "probeSamples" INTEGER;
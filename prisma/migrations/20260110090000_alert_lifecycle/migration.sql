@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "AlertRule" ADD COLUMN     "escalationMethods" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN     "escalationMinutes" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Alert" ADD COLUMN     "ackNote" TEXT,
+ADD COLUMN     "acknowledgedBy" TEXT,
+ADD COLUMN     "escalatedAt" TIMESTAMP(3),
+ADD COLUMN     "resolveTimeMs" INTEGER,
+ADD COLUMN     "resolvedBy" TEXT,
+ADD COLUMN     "subject" TEXT;
+
+-- Backfill subjects of existing alerts
+UPDATE "Alert" a SET "subject" = COALESCE((SELECT p."pubkey" FROM "PNode" p WHERE p."id" = a."pnodeId"), 'network');
+
+-- DropIndex
+DROP INDEX "Alert_ruleId_idx";
+
+-- CreateIndex
+CREATE INDEX "Alert_ruleId_resolved_idx" ON "Alert"("ruleId", "resolved");
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Alert" ADD COLUMN     "silenceId" TEXT,
+ADD COLUMN     "silenced" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "AlertSilence" (
+    "id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'silence',
+    "reason" TEXT NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startsAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "pubkeys" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "locations" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "ruleTypes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+
+    CONSTRAINT "AlertSilence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AlertSilence_endsAt_idx" ON "AlertSilence"("endsAt");
+
+-- AddForeignKey
+ALTER TABLE "Alert" ADD CONSTRAINT "Alert_silenceId_fkey" FOREIGN KEY ("silenceId") REFERENCES "AlertSilence"("id") ON DELETE SET NULL ON UPDATE CASCADE;
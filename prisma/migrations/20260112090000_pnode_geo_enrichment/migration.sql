@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "PNode" ADD COLUMN     "countryCode" TEXT,
+ADD COLUMN     "geoUpdatedAt" TIMESTAMP(3),
+ADD COLUMN     "ipAddress" TEXT,
+ADD COLUMN     "region" TEXT;
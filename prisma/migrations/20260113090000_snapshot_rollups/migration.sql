@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "PNodeRollup" (
+    "id" TEXT NOT NULL,
+    "resolution" TEXT NOT NULL,
+    "bucketStart" TIMESTAMP(3) NOT NULL,
+    "metric" TEXT NOT NULL,
+    "samples" INTEGER NOT NULL,
+    "min" DOUBLE PRECISION NOT NULL,
+    "avg" DOUBLE PRECISION NOT NULL,
+    "max" DOUBLE PRECISION NOT NULL,
+    "p95" DOUBLE PRECISION NOT NULL,
+    "pnodeId" TEXT NOT NULL,
+
+    CONSTRAINT "PNodeRollup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "NetworkRollup" (
+    "id" TEXT NOT NULL,
+    "resolution" TEXT NOT NULL,
+    "bucketStart" TIMESTAMP(3) NOT NULL,
+    "metric" TEXT NOT NULL,
+    "samples" INTEGER NOT NULL,
+    "min" DOUBLE PRECISION NOT NULL,
+    "avg" DOUBLE PRECISION NOT NULL,
+    "max" DOUBLE PRECISION NOT NULL,
+    "p95" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "NetworkRollup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PNodeRollup_resolution_bucketStart_idx" ON "PNodeRollup"("resolution", "bucketStart");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PNodeRollup_pnodeId_resolution_bucketStart_metric_key" ON "PNodeRollup"("pnodeId", "resolution", "bucketStart", "metric");
+
+-- CreateIndex
+CREATE INDEX "NetworkRollup_resolution_bucketStart_idx" ON "NetworkRollup"("resolution", "bucketStart");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NetworkRollup_resolution_bucketStart_metric_key" ON "NetworkRollup"("resolution", "bucketStart", "metric");
+
+-- AddForeignKey
+ALTER TABLE "PNodeRollup" ADD CONSTRAINT "PNodeRollup_pnodeId_fkey" FOREIGN KEY ("pnodeId") REFERENCES "PNode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
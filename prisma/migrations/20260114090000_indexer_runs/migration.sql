@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "IndexerRun" (
+    "id" TEXT NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "status" TEXT NOT NULL,
+    "durationMs" INTEGER,
+    "sources" JSONB NOT NULL DEFAULT '{}',
+    "rowCounts" JSONB NOT NULL DEFAULT '{}',
+    "timings" JSONB NOT NULL DEFAULT '{}',
+    "error" TEXT,
+
+    CONSTRAINT "IndexerRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IndexerRun_startedAt_idx" ON "IndexerRun"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "IndexerRun_status_startedAt_idx" ON "IndexerRun"("status", "startedAt");
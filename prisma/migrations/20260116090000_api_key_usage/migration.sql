@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "ApiKeyUsage" (
+    "apiKeyId" TEXT NOT NULL,
+    "windowStart" TIMESTAMP(3) NOT NULL,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ApiKeyUsage_pkey" PRIMARY KEY ("apiKeyId","windowStart")
+);
+
+-- CreateIndex
+CREATE INDEX "ApiKeyUsage_windowStart_idx" ON "ApiKeyUsage"("windowStart");
+
+-- AddForeignKey
+ALTER TABLE "ApiKeyUsage" ADD CONSTRAINT "ApiKeyUsage_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "ApiKey"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Alert_ruleId_subject_timestamp_idx" ON "Alert"("ruleId", "subject", "timestamp");
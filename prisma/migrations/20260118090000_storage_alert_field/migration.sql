@@ -0,0 +1,13 @@
+-- The seeded "Storage Nearly Full" rule checked `storageUtilization`, which pNodes don't have
+UPDATE "AlertRule"
+SET "metric" = 'storage.utilization',
+    "conditions" = (
+        SELECT jsonb_agg(
+            CASE WHEN condition->>'field' = 'storageUtilization'
+                THEN jsonb_set(condition, '{field}', '"storage.utilization"')
+                ELSE condition
+            END
+        )
+        FROM jsonb_array_elements("conditions") AS condition
+    )
+WHERE "metric" = 'storageUtilization';
@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+/**
+ * Indexer Replay Script
+ *
+ * Re-derives network events, anomalies and rollups from the pNode/network snapshots
+ * already in the database over a date range, via the replay cron endpoint. Only rows
+ * that differ from what the snapshots imply are written, so running it twice over the
+ * same range changes nothing the second time. The range is capped at 31 days.
+ *
+ * Usage:
+ *   node scripts/replay-indexer.js <from> [to] [--dry-run] [--port=3001]
+ *
+ * Examples:
+ *   node scripts/replay-indexer.js 2026-01-10 --dry-run        # what would change since Jan 10
+ *   node scripts/replay-indexer.js 2026-01-10 2026-01-12       # replay two days
+ *   node scripts/replay-indexer.js 2026-01-10T06:00Z --port=3000
+ */
+
+const args = process.argv.slice(2);
+const flags = args.filter((arg) => arg.startsWith('--'));
+const [FROM, TO] = args.filter((arg) => !arg.startsWith('--'));
+const DRY_RUN = flags.includes('--dry-run');
+const portFlag = flags.find((flag) => flag.startsWith('--port='));
+const PORT = (portFlag && portFlag.split('=')[1]) || process.env.PORT || 3001;
+const CRON_SECRET = process.env.CRON_SECRET || '';
+const BASE_URL = `http://localhost:${PORT}`;
+
+if (!FROM) {
+    console.error('Usage: node scripts/replay-indexer.js <from> [to] [--dry-run] [--port=3001]');
+    process.exit(1);
+}
+
+if (!CRON_SECRET) {
+    console.error('CRON_SECRET must be set: the replay endpoint is closed without it');
+    process.exit(1);
+}
+
+function printDiff(label, diff) {
+    console.log(
+        `  ${label.padEnd(12)} ${diff.derived} derived, ${diff.unchanged} unchanged, ` +
+        `${diff.created} ${DRY_RUN ? 'to create' : 'created'}, ${diff.deleted} ${DRY_RUN ? 'to delete' : 'deleted'}`
+    );
+}
+
+async function replay() {
+    const headers = {
+        'Content-Type': 'application/json',
+    };
+
+    headers['Authorization'] = `Bearer ${CRON_SECRET}`;
+
+    console.log(`${DRY_RUN ? 'Dry run: replaying' : 'Replaying'} ${FROM} - ${TO || 'now'} against ${BASE_URL}...\n`);
+
+    const response = await fetch(`${BASE_URL}/api/cron/replay`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ from: FROM, to: TO, dryRun: DRY_RUN }),
+        signal: AbortSignal.timeout(10 * 60 * 1000), // Long ranges take a while
+    });
+
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+        console.error(`❌ Replay failed: ${data.error || response.statusText}`);
+        process.exit(1);
+    }
+
+    const result = data.result;
+    console.log(`${result.from} - ${result.to}: ${result.snapshotSets} snapshot sets in ${result.durationMs}ms`);
+    printDiff('Events:', result.events);
+    printDiff('Anomalies:', result.anomalies);
+    console.log(`  Hourly rollups ${DRY_RUN ? 'to rewrite' : 'rewritten'}: ${result.hourlyRollups.length}`);
+    console.log(`  Daily rollups ${DRY_RUN ? 'to rewrite' : 'rewritten'}:  ${result.dailyRollups.length}`);
+
+    if (result.changes.length + result.hourlyRollups.length + result.dailyRollups.length > 0) {
+        console.log(`\nChanges${result.changes.length >= 200 ? ' (first 200 rows)' : ''}:`);
+        for (const change of result.changes) {
+            const sign = change.action === 'create' ? '+' : '-';
+            const pnode = change.pnodePubkey ? ` [${change.pnodePubkey}]` : '';
+            console.log(`  ${sign} ${change.timestamp} ${change.table.padEnd(9)} ${change.title}${pnode}`);
+        }
+        for (const hour of result.hourlyRollups) {
+            console.log(`  ~ ${hour} hourly rollup`);
+        }
+        for (const day of result.dailyRollups) {
+            console.log(`  ~ ${day} daily rollup`);
+        }
+    }
+
+    console.log(DRY_RUN ? '\n✅ Dry run complete, nothing was written' : '\n✅ Replay complete');
+}
+
+replay().catch((error) => {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Replay failed: ${errorMessage}`);
+    process.exit(1);
+});
@@ -0,0 +1,339 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { DEFAULT_ALERT_RULES } from '@/types/alerts'
+import type { PNode } from '@/types/pnode'
+
+const db = vi.hoisted(() => ({
+  alertRule: { upsert: vi.fn(), findMany: vi.fn(), update: vi.fn() },
+  networkSnapshot: { findFirst: vi.fn() },
+  alert: { findMany: vi.fn(), updateMany: vi.fn(), create: vi.fn() },
+  alertPendingState: { deleteMany: vi.fn(), createMany: vi.fn(), findMany: vi.fn() },
+  pNode: { findUnique: vi.fn() },
+  alertSilence: { findMany: vi.fn() },
+}))
+const notifier = vi.hoisted(() => ({ enqueue: vi.fn() }))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/services/notification.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/notification.service')>()),
+  getNotificationService: () => notifier,
+}))
+
+import {
+  AlertService,
+  isDefaultRule,
+  matchesSilence,
+  parseAlertRuleInput,
+  parseSilenceInput,
+} from '@/services/alert.service'
+
+describe('parseAlertRuleInput', () => {
+  it('should expand the metric/operator/threshold shorthand into a condition', () => {
+    const { rule, error } = parseAlertRuleInput({
+      name: 'High CPU',
+      scope: 'pnode',
+      pubkeys: ['node1pubkey123456789'],
+      metric: 'networkMetrics.cpuPercent',
+      operator: 'gt',
+      threshold: 90,
+      duration: 10,
+    })
+
+    expect(error).toBeUndefined()
+    expect(rule).toMatchObject({
+      type: 'custom',
+      severity: 'medium',
+      enabled: true,
+      pubkeys: ['node1pubkey123456789'],
+      conditions: [{ field: 'networkMetrics.cpuPercent', operator: 'gt', value: 90, duration: 10 }],
+    })
+  })
+
+  it('should accept NetworkSnapshot columns for network scope', () => {
+    const { error } = parseAlertRuleInput({
+      name: 'Low health',
+      scope: 'network',
+      conditions: [{ field: 'healthScore', operator: 'lt', value: 60 }],
+    })
+    expect(error).toBeUndefined()
+  })
+
+  it.each([
+    [{ scope: 'pnode', metric: 'storage.utilization', operator: 'gt', threshold: 90 }, 'name is required'],
+    [{ name: 'x', scope: 'global', metric: 'storage.utilization', operator: 'gt', threshold: 90 }, 'scope'],
+    [{ name: 'x', scope: 'network', metric: 'notAColumn', operator: 'gt', threshold: 1 }, 'Unknown network metric'],
+    [{ name: 'x', scope: 'pnode', metric: 'storageUtilization', operator: 'gt', threshold: 90 }, 'Unknown pNode field'],
+    [
+      { name: 'x', type: 'pnode_offline', scope: 'network', metric: 'healthScore', operator: 'lt', threshold: 1 },
+      'scope pnode',
+    ],
+    [
+      { name: 'x', type: 'network_storage_low', scope: 'network', metric: 'healthScore', operator: 'lt', threshold: 1 },
+      'not supported',
+    ],
+    [{ name: 'x', scope: 'pnode', metric: 'storage.utilization', operator: 'gte', threshold: 90 }, 'operator'],
+    [{ name: 'x', scope: 'pnode', metric: 'storage.utilization', operator: 'gt', threshold: '90' }, 'must be a number'],
+    [{ name: 'x', scope: 'network', pubkeys: ['abc'], metric: 'healthScore', operator: 'lt', threshold: 1 }, 'pubkeys'],
+    [{ name: 'x', scope: 'pnode' }, 'condition'],
+    [
+      {
+        name: 'x',
+        scope: 'pnode',
+        metric: 'status',
+        operator: 'eq',
+        threshold: 'offline',
+        notifyWebhook: 'http://10.0.0.5/',
+      },
+      'private',
+    ],
+  ])('should reject invalid input %#', (body, message) => {
+    const { error } = parseAlertRuleInput(body)
+    expect(error).toContain(message)
+  })
+
+  it('should accept every default rule', () => {
+    for (const rule of DEFAULT_ALERT_RULES) {
+      expect(parseAlertRuleInput(rule).error).toBeUndefined()
+    }
+  })
+
+  it('should merge partial updates over the existing rule', () => {
+    const base = DEFAULT_ALERT_RULES[1]
+    const { rule } = parseAlertRuleInput({ enabled: false, threshold: 40 }, base)
+
+    expect(rule).toMatchObject({ name: base.name, enabled: false, conditions: base.conditions })
+  })
+
+  it('should keep pubkeys on partial updates but drop them when the scope changes', () => {
+    const base = parseAlertRuleInput({
+      name: 'Watched nodes',
+      scope: 'pnode',
+      pubkeys: ['abc'],
+      metric: 'performanceScore',
+      operator: 'lt',
+      threshold: 50,
+    }).rule!
+
+    expect(parseAlertRuleInput({ enabled: false }, base).rule?.pubkeys).toEqual(['abc'])
+    expect(parseAlertRuleInput({ scope: 'pnode' }, base).rule?.pubkeys).toEqual(['abc'])
+
+    const { rule, error } = parseAlertRuleInput(
+      { scope: 'network', metric: 'healthScore', operator: 'lt', threshold: 60 },
+      base,
+    )
+    expect(error).toBeUndefined()
+    expect(rule).toMatchObject({ scope: 'network', pubkeys: undefined })
+  })
+})
+
+describe('isDefaultRule', () => {
+  it('should recognise seeded rule ids', () => {
+    expect(isDefaultRule('default-0')).toBe(true)
+    expect(isDefaultRule('clx123')).toBe(false)
+  })
+})
+
+describe('parseSilenceInput', () => {
+  const now = new Date('2026-01-11T10:00:00Z')
+
+  it('should derive endsAt from durationMinutes and default to a silence starting now', () => {
+    const { silence, error } = parseSilenceInput(
+      { reason: 'Upgrade', locations: [' Germany '], durationMinutes: 90, createdBy: 'mallory' },
+      now,
+    )
+
+    expect(error).toBeUndefined()
+    expect(silence).not.toHaveProperty('createdBy')
+    expect(silence).toMatchObject({
+      kind: 'silence',
+      startsAt: now,
+      endsAt: new Date('2026-01-11T11:30:00Z'),
+      pubkeys: [],
+      locations: ['Germany'],
+      ruleTypes: [],
+    })
+  })
+
+  it.each([
+    [{ pubkeys: ['abc'], durationMinutes: 10 }, 'reason'],
+    [{ reason: 'x', durationMinutes: 10 }, 'At least one'],
+    [{ reason: 'x', ruleTypes: ['nope'], durationMinutes: 10 }, 'Unknown rule type'],
+    [{ reason: 'x', pubkeys: ['abc'] }, 'durationMinutes'],
+    [{ reason: 'x', pubkeys: ['abc'], endsAt: '2026-01-11T09:00:00Z' }, 'after startsAt'],
+    [{ reason: 'x', kind: 'mute', pubkeys: ['abc'], durationMinutes: 10 }, 'kind'],
+  ])('should reject invalid input %#', (body, message) => {
+    expect(parseSilenceInput(body, now).error).toContain(message)
+  })
+})
+
+describe('matchesSilence', () => {
+  const silence = { pubkeys: [], locations: ['germany'], ruleTypes: ['pnode_offline' as const] }
+
+  it('should require every non-empty matcher to match', () => {
+    expect(matchesSilence(silence, { pubkey: 'a', location: 'Frankfurt, Germany', type: 'pnode_offline' })).toBe(true)
+    expect(matchesSilence(silence, { pubkey: 'a', location: 'Paris, France', type: 'pnode_offline' })).toBe(false)
+    expect(matchesSilence(silence, { pubkey: 'a', location: 'Germany', type: 'pnode_storage_full' })).toBe(false)
+    expect(matchesSilence(silence, { type: 'pnode_offline' })).toBe(false)
+  })
+})
+
+describe('AlertService lifecycle', () => {
+  const ruleRow = {
+    id: 'rule-offline',
+    name: 'pNode Goes Offline',
+    description: null,
+    type: 'pnode_offline',
+    enabled: true,
+    severity: 'MEDIUM',
+    scope: 'PNODE',
+    pnodeFilter: [],
+    conditions: [{ field: 'status', operator: 'eq', value: 'offline' }],
+    cooldownMinutes: 0,
+    lastTriggered: null,
+    notificationMethods: ['browser'],
+    notifyEmail: null,
+    notifyWebhook: null,
+    escalationMinutes: 10,
+    escalationMethods: [],
+  }
+
+  const alertRow = (overrides: Record<string, unknown>) => ({
+    id: 'alert-1',
+    timestamp: new Date(),
+    severity: 'MEDIUM',
+    type: 'pnode_offline',
+    title: 'pNode Offline',
+    message: '',
+    value: 0,
+    threshold: 0,
+    metadata: null,
+    subject: 'nodeA',
+    acknowledged: false,
+    acknowledgedAt: null,
+    acknowledgedBy: null,
+    ackNote: null,
+    resolved: false,
+    resolvedAt: null,
+    resolvedBy: null,
+    resolveTimeMs: null,
+    escalatedAt: null,
+    silenced: false,
+    silenceId: null,
+    ruleId: 'rule-offline',
+    pnodeId: null,
+    pnode: null,
+    ...overrides,
+  })
+
+  const pnode = (id: string, status: PNode['status']) => ({ id, status, storage: { capacityBytes: 0 } }) as PNode
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.alertRule.upsert.mockResolvedValue({})
+    db.alertRule.findMany.mockResolvedValue([ruleRow])
+    db.networkSnapshot.findFirst.mockResolvedValue(null)
+    db.alert.updateMany.mockResolvedValue({ count: 1 })
+    db.alertSilence.findMany.mockResolvedValue([])
+  })
+
+  it('should auto-resolve alerts whose pNode no longer matches, leaving unseen pNodes open', async () => {
+    const opened = new Date(Date.now() - 60_000)
+    db.alert.findMany
+      .mockResolvedValueOnce([
+        { id: 'alert-a', timestamp: opened, subject: 'nodeA' },
+        { id: 'alert-c', timestamp: opened, subject: 'nodeC' },
+      ])
+      .mockResolvedValueOnce([])
+
+    await new AlertService().checkAlerts([pnode('nodeA', 'online')])
+
+    expect(db.alert.updateMany).toHaveBeenCalledTimes(1)
+    const { where, data } = db.alert.updateMany.mock.calls[0][0]
+    expect(where.id).toBe('alert-a')
+    expect(data).toMatchObject({ resolved: true, resolvedBy: 'system' })
+    expect(data.resolveTimeMs).toBeGreaterThanOrEqual(60_000)
+  })
+
+  it('should skip pNodes with an open or cooling-down alert without holding back the others', async () => {
+    db.alertRule.findMany.mockResolvedValue([{ ...ruleRow, cooldownMinutes: 60 }])
+    db.alert.findMany
+      // autoResolve: nodeA's alert is still open
+      .mockResolvedValueOnce([{ id: 'alert-a', timestamp: new Date(), subject: 'nodeA' }])
+      // open or within the cooldown: nodeA (open) and nodeB (resolved 10 minutes ago)
+      .mockResolvedValueOnce([{ subject: 'nodeA' }, { subject: 'nodeB' }])
+      .mockResolvedValueOnce([])
+    db.pNode.findUnique.mockResolvedValue(null)
+    db.alert.create.mockImplementation(({ data }) => Promise.resolve(alertRow({ ...data, id: 'new' })))
+
+    await new AlertService().checkAlerts([
+      pnode('nodeA', 'offline'),
+      pnode('nodeB', 'offline'),
+      pnode('nodeC', 'offline'),
+    ])
+
+    const { where } = db.alert.findMany.mock.calls[1][0]
+    expect(where).toMatchObject({ ruleId: 'rule-offline', subject: { in: ['nodeA', 'nodeB', 'nodeC'] } })
+    expect(where.OR[0]).toEqual({ resolved: false })
+    expect(Date.now() - where.OR[1].timestamp.gt.getTime()).toBeGreaterThanOrEqual(60 * 60_000)
+    expect(db.alert.create).toHaveBeenCalledTimes(1)
+    expect(db.alert.create.mock.calls[0][0].data).toMatchObject({ subject: 'nodeC' })
+    expect(db.alertRule.update).toHaveBeenCalledTimes(1)
+  })
+
+  it('should escalate unacknowledged alerts past the window once', async () => {
+    process.env.ALERT_WEBHOOK_URL = 'https://example.com/hook'
+    db.alert.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        alertRow({ id: 'old', timestamp: new Date(Date.now() - 20 * 60_000) }),
+        alertRow({ id: 'recent', timestamp: new Date(Date.now() - 60_000) }),
+      ])
+
+    await new AlertService().checkAlerts([])
+
+    expect(db.alert.updateMany).toHaveBeenCalledTimes(1)
+    expect(db.alert.updateMany.mock.calls[0][0]).toMatchObject({
+      where: { id: 'old', acknowledged: false, escalatedAt: null },
+      data: { severity: 'HIGH' },
+    })
+    expect(notifier.enqueue).toHaveBeenCalledWith({
+      channel: 'webhook',
+      target: 'https://example.com/hook',
+      alert: expect.objectContaining({ id: 'old', severity: 'high' }),
+      rule: expect.objectContaining({ id: 'rule-offline' }),
+      event: 'alert.escalated',
+    })
+    delete process.env.ALERT_WEBHOOK_URL
+  })
+
+  it('should record silenced alerts without notifying or escalating them', async () => {
+    process.env.ALERT_WEBHOOK_URL = 'https://example.com/hook'
+    db.alertRule.findMany.mockResolvedValue([{ ...ruleRow, notificationMethods: ['webhook'] }])
+    db.alertSilence.findMany.mockResolvedValue([
+      {
+        id: 'silence-1',
+        kind: 'maintenance',
+        reason: 'Upgrade',
+        createdBy: null,
+        createdAt: new Date(),
+        startsAt: new Date(Date.now() - 60_000),
+        endsAt: new Date(Date.now() + 60_000),
+        pubkeys: ['nodeA'],
+        locations: [],
+        ruleTypes: [],
+      },
+    ])
+    db.alert.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([alertRow({ id: 'old', timestamp: new Date(Date.now() - 20 * 60_000) })])
+    db.pNode.findUnique.mockResolvedValue(null)
+    db.alert.create.mockImplementation(({ data }) => Promise.resolve(alertRow({ ...data, id: 'new' })))
+
+    await new AlertService().checkAlerts([pnode('nodeA', 'offline')])
+
+    expect(db.alert.create.mock.calls[0][0].data).toMatchObject({ silenced: true, silenceId: 'silence-1' })
+    expect(db.alert.updateMany).not.toHaveBeenCalled()
+    expect(notifier.enqueue).not.toHaveBeenCalled()
+    delete process.env.ALERT_WEBHOOK_URL
+  })
+})
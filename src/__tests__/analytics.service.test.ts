@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+const db = vi.hoisted(() => ({
+  networkRollup: { findMany: vi.fn() },
+  networkSnapshot: { findMany: vi.fn() },
+  pNodeRollup: { findFirst: vi.fn(), groupBy: vi.fn() },
+  pNodeSnapshot: { findFirst: vi.fn(), findMany: vi.fn(), groupBy: vi.fn() },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+import { AdvancedAnalyticsService } from '@/services/analytics.service'
+
+const now = new Date(Date.UTC(2026, 0, 31, 12))
+const daysAgo = (days: number) => new Date(Date.UTC(2026, 0, 31 - days))
+
+const rollup = (day: Date, metric: string, avg: number, max = avg) => ({
+  resolution: 'daily',
+  bucketStart: day,
+  metric,
+  samples: 2880,
+  min: avg,
+  avg,
+  max,
+  p95: max,
+})
+
+describe('AdvancedAnalyticsService history beyond raw retention', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(now)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should build 30-day growth from daily rollups, topped up with raw snapshots', async () => {
+    // Raw snapshots only go back 7 days (RETENTION_RAW_DAYS); the days before are rollups
+    db.networkRollup.findMany.mockResolvedValue([
+      rollup(daysAgo(20), 'totalPNodes', 90.4, 95),
+      rollup(daysAgo(20), 'totalCapacityBytes', 2 * 1024 ** 4),
+      rollup(daysAgo(20), 'healthScore', 80),
+      rollup(daysAgo(1), 'totalPNodes', 110, 112),
+      rollup(daysAgo(1), 'totalCapacityBytes', 3 * 1024 ** 4),
+      rollup(daysAgo(1), 'healthScore', 85),
+    ])
+    db.networkSnapshot.findMany.mockResolvedValue([
+      {
+        timestamp: new Date(Date.UTC(2026, 0, 31, 1)),
+        totalPNodes: 120,
+        totalCapacityBytes: BigInt(4 * 1024 ** 4),
+        healthScore: 90,
+      },
+      {
+        timestamp: new Date(Date.UTC(2026, 0, 31, 2)),
+        totalPNodes: 122,
+        totalCapacityBytes: BigInt(4 * 1024 ** 4),
+        healthScore: 92,
+      },
+    ])
+
+    const growth = await new AdvancedAnalyticsService().getNetworkGrowth(30)
+
+    expect(db.networkRollup.findMany.mock.calls[0][0].where).toMatchObject({
+      resolution: 'daily',
+      bucketStart: { gte: daysAgo(30) },
+    })
+    // Raw snapshots are only read for the day after the last rollup
+    expect(db.networkSnapshot.findMany.mock.calls[0][0].where.timestamp.gte).toEqual(daysAgo(0))
+    expect(growth).toEqual([
+      { date: '2026-01-11', pnodes: 90, peakPnodes: 95, capacityTB: 2, healthScore: 80 },
+      { date: '2026-01-30', pnodes: 110, peakPnodes: 112, capacityTB: 3, healthScore: 85 },
+      { date: '2026-01-31', pnodes: 121, peakPnodes: 122, capacityTB: 4, healthScore: 91 },
+    ])
+  })
+
+  it('should rank the current fleet by 30-day averages from rollups and raw snapshots', async () => {
+    const pnode = (id: string) => ({
+      id,
+      pubkey: `${id}-pub`,
+      location: null,
+      version: '0.8.0',
+      firstSeen: daysAgo(60),
+    })
+    const snapshot = (id: string, performanceScore: number) => ({
+      pnodeId: id,
+      timestamp: now,
+      performanceScore,
+      uptime: 99,
+      utilization: 10,
+      capacityBytes: BigInt(1024 ** 4),
+      pnode: pnode(id),
+    })
+    db.pNodeSnapshot.findFirst.mockResolvedValue({ timestamp: now })
+    // Right now node-b scores higher...
+    db.pNodeSnapshot.findMany.mockResolvedValue([snapshot('node-a', 70), snapshot('node-b', 90)])
+    db.pNodeRollup.findFirst.mockResolvedValue({ bucketStart: daysAgo(1) })
+    // ...but node-a averaged far better over the month
+    db.pNodeRollup.groupBy.mockResolvedValue([
+      { pnodeId: 'node-a', metric: 'performanceScore', _avg: { avg: 95 }, _sum: { samples: 9000 } },
+      { pnodeId: 'node-b', metric: 'performanceScore', _avg: { avg: 40 }, _sum: { samples: 9000 } },
+    ])
+    db.pNodeSnapshot.groupBy.mockResolvedValue([
+      { pnodeId: 'node-a', _avg: { performanceScore: 70, uptime: 99, utilization: 10 }, _count: { _all: 1000 } },
+      { pnodeId: 'node-b', _avg: { performanceScore: 90, uptime: 99, utilization: 10 }, _count: { _all: 1000 } },
+    ])
+
+    const top = await new AdvancedAnalyticsService().getTopPNodes(10, 'performance')
+
+    expect(db.pNodeRollup.groupBy.mock.calls[0][0].where).toMatchObject({
+      resolution: 'daily',
+      bucketStart: { gte: daysAgo(30), lte: daysAgo(1) },
+    })
+    expect(db.pNodeSnapshot.groupBy.mock.calls[0][0].where.timestamp.gte).toEqual(daysAgo(0))
+    expect(top.map(({ rank, pubkey, performanceScore }) => ({ rank, pubkey, performanceScore }))).toEqual([
+      { rank: 1, pubkey: 'node-a-pub', performanceScore: 92.5 },
+      { rank: 2, pubkey: 'node-b-pub', performanceScore: 45 },
+    ])
+  })
+})
@@ -0,0 +1,313 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+type KeyRow = {
+  id: string
+  key: string
+  name: string
+  description: string | null
+  permissions: string[]
+  rateLimit: number
+  lastUsed: Date | null
+  totalRequests: bigint
+  active: boolean
+  expiresAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/** In-memory `ApiKey` and `ApiKeyUsage` tables supporting the calls the service makes */
+const db = vi.hoisted(() => {
+  const keys = new Map<string, KeyRow>()
+  const usage = new Map<string, number>()
+  const usageKey = (where: { apiKeyId_windowStart: { apiKeyId: string; windowStart: Date } }) =>
+    `${where.apiKeyId_windowStart.apiKeyId}|${where.apiKeyId_windowStart.windowStart.toISOString()}`
+
+  return {
+    keys,
+    usage,
+    apiKey: {
+      findMany: vi.fn(async () => [...keys.values()]),
+      findUnique: vi.fn(
+        async ({ where }: { where: { key?: string; id?: string } }) =>
+          [...keys.values()].find((row) => (where.id ? row.id === where.id : row.key === where.key)) ?? null,
+      ),
+      create: vi.fn(async ({ data }: { data: Partial<KeyRow> }) => {
+        const row: KeyRow = {
+          id: `key-${keys.size + 1}`,
+          key: data.key!,
+          name: data.name!,
+          description: data.description ?? null,
+          permissions: data.permissions ?? [],
+          rateLimit: data.rateLimit ?? 1000,
+          lastUsed: null,
+          totalRequests: BigInt(0),
+          active: true,
+          expiresAt: data.expiresAt ?? null,
+          createdAt: new Date(0),
+          updatedAt: new Date(0),
+        }
+        keys.set(row.id, row)
+        return row
+      }),
+      update: vi.fn(
+        async ({
+          where,
+          data,
+        }: {
+          where: { id: string }
+          data: Record<string, unknown> & { totalRequests?: unknown }
+        }) => {
+          const row = keys.get(where.id)
+          if (!row) {
+            throw new Prisma.PrismaClientKnownRequestError('Record to update not found', {
+              code: 'P2025',
+              clientVersion: 'test',
+            })
+          }
+          const { totalRequests, ...rest } = data
+          Object.assign(row, rest)
+          if (totalRequests) row.totalRequests += BigInt(1)
+          return row
+        },
+      ),
+    },
+    apiKeyUsage: {
+      upsert: vi.fn(async ({ where }: { where: { apiKeyId_windowStart: { apiKeyId: string; windowStart: Date } } }) => {
+        const requests = (usage.get(usageKey(where)) ?? 0) + 1
+        usage.set(usageKey(where), requests)
+        return { requests }
+      }),
+      update: vi.fn(),
+    },
+  }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+import {
+  ACTOR_HEADER,
+  ApiKeyService,
+  actorFromHeaders,
+  apiKeyFromHeaders,
+  hashApiKey,
+  isAdminAuthorized,
+  isCronAuthorized,
+  parseApiKeyInput,
+  requiredScope,
+} from '@/services/api-key.service'
+import { signSession, verifySession } from '@/lib/session'
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 16, 12, minutes))
+
+describe('ApiKeyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.keys.clear()
+    db.usage.clear()
+  })
+
+  it('should store only the hash of a minted key and accept it for its scopes', async () => {
+    const service = new ApiKeyService()
+    const { key, apiKey } = await service.mint({ name: 'grafana', permissions: ['read:pnodes'], rateLimit: 10 })
+
+    expect(key).toMatch(/^xk_/)
+    expect(db.keys.get(apiKey.id)?.key).toBe(hashApiKey(key))
+    expect(JSON.stringify(apiKey)).not.toContain(key)
+
+    const check = await service.authenticate(key, 'read:pnodes', at(5))
+    expect(check).toEqual({
+      ok: true,
+      apiKey: { id: apiKey.id, name: 'grafana' },
+      rateLimit: { limit: 10, remaining: 9, resetAt: at(60) },
+    })
+    expect(db.keys.get(apiKey.id)).toMatchObject({ lastUsed: at(5), totalRequests: BigInt(1) })
+
+    expect(await service.authenticate(key, 'write:alerts', at(5))).toMatchObject({
+      ok: false,
+      status: 403,
+      error: 'API key lacks the write:alerts scope',
+    })
+    expect(await service.authenticate('xk_unknown', 'read:pnodes', at(5))).toMatchObject({ ok: false, status: 401 })
+  })
+
+  it('should enforce the hourly rate limit and start over the next hour', async () => {
+    const service = new ApiKeyService()
+    const { key } = await service.mint({ name: 'bot', permissions: ['*'], rateLimit: 2 })
+
+    expect((await service.authenticate(key, 'read:analytics', at(1))).ok).toBe(true)
+    expect((await service.authenticate(key, 'read:analytics', at(2))).ok).toBe(true)
+    expect(await service.authenticate(key, 'read:analytics', at(3))).toMatchObject({
+      ok: false,
+      status: 429,
+      rateLimit: { limit: 2, remaining: 0, resetAt: at(60) },
+    })
+    expect((await service.authenticate(key, 'read:analytics', at(61))).ok).toBe(true)
+  })
+
+  it('should reject rotated-out, revoked and expired keys', async () => {
+    const service = new ApiKeyService()
+    const minted = await service.mint({ name: 'ci', permissions: ['*'], rateLimit: 100, expiresAt: at(30) })
+
+    const rotated = await service.rotate(minted.apiKey.id)
+    expect(rotated?.key).not.toBe(minted.key)
+    expect((await service.authenticate(minted.key, 'read:pnodes', at(1))).ok).toBe(false)
+    expect((await service.authenticate(rotated!.key, 'read:pnodes', at(1))).ok).toBe(true)
+    expect(await service.authenticate(rotated!.key, 'read:pnodes', at(30))).toMatchObject({
+      status: 401,
+      error: 'API key has expired',
+    })
+
+    expect((await service.revoke(minted.apiKey.id))?.active).toBe(false)
+    expect(await service.authenticate(rotated!.key, 'read:pnodes', at(1))).toMatchObject({ status: 401 })
+    expect(await service.revoke('missing')).toBeNull()
+  })
+
+  it('should check the key behind a session on every request and sign in without using the limit', async () => {
+    const service = new ApiKeyService()
+    const { key, apiKey } = await service.mint({ name: 'ops', permissions: ['write:alerts'], rateLimit: 1 })
+
+    const signedIn = await service.verify(key, at(1))
+    expect(signedIn).toEqual({
+      apiKey: expect.objectContaining({ id: apiKey.id, name: 'ops' }),
+      fingerprint: expect.any(String),
+    })
+    expect(await service.verify('xk_unknown', at(1))).toEqual({ error: 'Invalid or revoked API key' })
+    expect(db.usage.size).toBe(0)
+
+    const session = { keyId: apiKey.id, fingerprint: signedIn.fingerprint! }
+    expect((await service.authenticateSession(session, 'write:alerts', at(1))).ok).toBe(true)
+    expect(await service.authenticateSession(session, 'use:prpc', at(1))).toMatchObject({ status: 403 })
+
+    await service.revoke(apiKey.id)
+    expect(await service.authenticateSession(session, 'write:alerts', at(1))).toMatchObject({ status: 401 })
+    expect(await service.verify(key, at(1))).toEqual({ error: 'Invalid or revoked API key' })
+  })
+
+  it('should end sessions signed in with a key once it is rotated', async () => {
+    const service = new ApiKeyService()
+    const { key, apiKey } = await service.mint({ name: 'ops', permissions: ['write:alerts'], rateLimit: 100 })
+    const old = { keyId: apiKey.id, fingerprint: (await service.verify(key, at(1))).fingerprint! }
+
+    const rotated = await service.rotate(apiKey.id)
+
+    expect(await service.authenticateSession(old, 'write:alerts', at(2))).toEqual({
+      ok: false,
+      status: 401,
+      error: 'Session ended: the API key was rotated',
+    })
+    const renewed = { keyId: apiKey.id, fingerprint: (await service.verify(rotated!.key, at(2))).fingerprint! }
+    expect((await service.authenticateSession(renewed, 'write:alerts', at(2))).ok).toBe(true)
+  })
+})
+
+describe('sessions', () => {
+  const session = { keyId: 'key-1', name: 'ops', fingerprint: 'fp', expiresAt: at(60).getTime() }
+
+  it('should round-trip a signed session until it expires', () => {
+    const token = signSession(session, 'secret')
+    expect(verifySession(token, 'secret', at(59))).toEqual(session)
+    expect(verifySession(token, 'secret', at(60))).toBeNull()
+  })
+
+  it('should reject forged, re-signed and malformed cookies', () => {
+    const [, signature] = signSession(session, 'secret').split('.')
+    const forged = Buffer.from(JSON.stringify({ ...session, keyId: 'key-2' })).toString('base64url')
+    expect(verifySession(`${forged}.${signature}`, 'secret', at(0))).toBeNull()
+    expect(verifySession(signSession(session, 'other'), 'secret', at(0))).toBeNull()
+    expect(verifySession('garbage', 'secret', at(0))).toBeNull()
+    expect(verifySession(undefined, 'secret', at(0))).toBeNull()
+  })
+})
+
+describe('isAdminAuthorized', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should accept only the exact bearer secret, and nothing when it is unset', () => {
+    vi.stubEnv('ADMIN_SECRET', 'hunter2')
+    expect(isAdminAuthorized('Bearer hunter2')).toBe(true)
+    expect(isAdminAuthorized('Bearer hunter')).toBe(false)
+    expect(isAdminAuthorized(null)).toBe(false)
+
+    vi.stubEnv('ADMIN_SECRET', '')
+    expect(isAdminAuthorized('Bearer ')).toBe(false)
+  })
+})
+
+describe('isCronAuthorized', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should accept only the exact bearer secret, and nothing when it is unset', () => {
+    vi.stubEnv('CRON_SECRET', 'cron-secret')
+    expect(isCronAuthorized('Bearer cron-secret')).toBe(true)
+    expect(isCronAuthorized('Bearer cron')).toBe(false)
+
+    vi.stubEnv('CRON_SECRET', '')
+    expect(isCronAuthorized('Bearer ')).toBe(false)
+    expect(isCronAuthorized(null)).toBe(false)
+  })
+})
+
+describe('requiredScope', () => {
+  it('should map routes and methods to scopes', () => {
+    expect(requiredScope('/api/pnodes', 'GET')).toBe('read:pnodes')
+    expect(requiredScope('/api/pnodes/abc', 'GET')).toBe('read:pnodes')
+    expect(requiredScope('/api/analytics/history', 'GET')).toBe('read:analytics')
+    expect(requiredScope('/api/alerts/rules', 'GET')).toBe('read:alerts')
+    expect(requiredScope('/api/alerts/rules', 'POST')).toBe('write:alerts')
+    expect(requiredScope('/api/mcp/sse', 'POST')).toBe('use:mcp')
+    expect(requiredScope('/api/v1/analytics/events', 'GET')).toBe('read:analytics')
+    expect(requiredScope('/api/metrics', 'GET')).toBe('read:metrics')
+    expect(requiredScope('/api/export', 'GET')).toBe('read:export')
+    // Own-secret routes and preflights skip API keys; unlisted routes need full access
+    vi.stubEnv('CRON_SECRET', 'cron-secret')
+    expect(requiredScope('/api/cron/index', 'GET')).toBeNull()
+    vi.stubEnv('CRON_SECRET', '')
+    expect(requiredScope('/api/cron/replay', 'POST')).toBe('*')
+    vi.unstubAllEnvs()
+    expect(requiredScope('/api/admin/keys', 'POST')).toBeNull()
+    expect(requiredScope('/api/pnodes', 'OPTIONS')).toBeNull()
+    expect(requiredScope('/api/v1/openapi.json', 'GET')).toBeNull()
+    expect(requiredScope('/api/pnodesx', 'GET')).toBe('*')
+  })
+})
+
+describe('apiKeyFromHeaders', () => {
+  it('should read X-API-Key or an xk_ bearer token', () => {
+    expect(apiKeyFromHeaders(new Headers({ 'x-api-key': 'xk_a', authorization: 'Bearer xk_b' }))).toBe('xk_a')
+    expect(apiKeyFromHeaders(new Headers({ authorization: 'Bearer xk_b' }))).toBe('xk_b')
+    // Other bearer tokens (e.g. ADMIN_SECRET) aren't API keys
+    expect(apiKeyFromHeaders(new Headers({ authorization: 'Bearer secret' }))).toBeNull()
+    expect(apiKeyFromHeaders(new Headers())).toBeNull()
+  })
+})
+
+describe('actorFromHeaders', () => {
+  it('should decode the key name the middleware set, or return null for anonymous requests', () => {
+    expect(actorFromHeaders(new Headers({ [ACTOR_HEADER]: encodeURIComponent('Zoë (on-call)') }))).toBe('Zoë (on-call)')
+    expect(actorFromHeaders(new Headers())).toBeNull()
+  })
+})
+
+describe('parseApiKeyInput', () => {
+  const now = at(0)
+
+  it('should default the rate limit and dedupe permissions', () => {
+    expect(parseApiKeyInput({ name: ' grafana ', permissions: ['read:pnodes', 'read:pnodes'] }, now)).toEqual({
+      input: { name: 'grafana', permissions: ['read:pnodes'], rateLimit: 1000 },
+    })
+  })
+
+  it('should reject missing names, unknown scopes, bad limits and past expiry', () => {
+    expect(parseApiKeyInput({ permissions: ['*'] }, now).error).toBe('name is required')
+    expect(parseApiKeyInput({ name: 'x', permissions: ['read:everything'] }, now).error).toMatch(/^permissions must/)
+    expect(parseApiKeyInput({ name: 'x', permissions: ['*'], rateLimit: 0 }, now).error).toMatch(/^rateLimit/)
+    expect(parseApiKeyInput({ name: 'x', permissions: ['*'], expiresAt: '2020-01-01' }, now).error).toBe(
+      'expiresAt must be in the future',
+    )
+  })
+})
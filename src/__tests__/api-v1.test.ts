@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { V1_ENDPOINTS, handleV1 } from '@/lib/api-v1'
+import { buildOpenApiDocument } from '@/lib/openapi'
+
+const request = (query: string) => new NextRequest(`http://localhost/api/v1/analytics/events${query}`)
+
+const event = {
+  id: 'e1',
+  timestamp: new Date(Date.UTC(2026, 0, 16)),
+  type: 'NODE_OFFLINE',
+  severity: 'WARNING',
+  title: 'pNode Went Offline',
+  description: null,
+  metadata: null,
+  pnode: null,
+}
+
+describe('handleV1', () => {
+  it('should pass parsed and defaulted parameters and wrap the payload', async () => {
+    const handler = vi.fn(async () => ({ data: [event], meta: { count: 1 } }))
+    const response = await handleV1(V1_ENDPOINTS.listEvents, request('?severity=WARNING'), handler)
+
+    expect(handler).toHaveBeenCalledWith({ limit: 50, severity: 'WARNING' })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({
+      success: true,
+      data: [{ ...event, timestamp: '2026-01-16T00:00:00.000Z' }],
+      meta: { count: 1 },
+    })
+  })
+
+  it('should reject invalid parameters without calling the handler', async () => {
+    const handler = vi.fn()
+    const response = await handleV1(V1_ENDPOINTS.listEvents, request('?limit=0&severity=LOUD'), handler)
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(response.status).toBe(400)
+    const body = await response.json()
+    expect(body.success).toBe(false)
+    expect(body.error.code).toBe('bad_request')
+    expect(body.error.issues.map((issue: { path: string }) => issue.path)).toEqual(['limit', 'severity'])
+  })
+
+  it('should log handler errors and answer with a generic message', async () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const response = await handleV1(V1_ENDPOINTS.listEvents, request(''), async () => {
+      throw new Error('connect ECONNREFUSED 10.0.0.12:5432')
+    })
+
+    expect(response.status).toBe(500)
+    expect((await response.json()).error).toEqual({ code: 'internal_error', message: 'Internal error' })
+    expect(String(log.mock.calls[0][1])).toContain('ECONNREFUSED')
+  })
+
+  it('should log a payload that breaks the response schema but still send it', async () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const response = await handleV1(V1_ENDPOINTS.listEvents, request(''), async () => ({
+      data: [event, { ...event, id: 'e2', severity: 'SEVERE' }],
+      meta: { count: 2 },
+    }))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).data.map((item: { id: string }) => item.id)).toEqual(['e1', 'e2'])
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('does not match its schema'), expect.any(String))
+  })
+})
+
+describe('buildOpenApiDocument', () => {
+  it('should describe every v1 endpoint with resolvable schema references', () => {
+    const spec = buildOpenApiDocument()
+
+    expect(Object.keys(spec.paths)).toEqual([
+      ...Object.values(V1_ENDPOINTS).map((endpoint) => endpoint.path),
+      '/api/v1/openapi.json',
+    ])
+    const refs = JSON.stringify(spec).match(/#\/components\/schemas\/\w+/g) ?? []
+    for (const ref of new Set(refs)) {
+      expect(spec.components.schemas).toHaveProperty(ref.split('/').pop()!)
+    }
+
+    const events = spec.paths['/api/v1/analytics/events'].get
+    expect(events['x-scope']).toBe('read:analytics')
+    expect(events.parameters).toContainEqual({
+      name: 'limit',
+      in: 'query',
+      required: false,
+      schema: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+    })
+    expect(events.responses['200'].content?.['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/ListEventsResponse',
+    })
+  })
+})
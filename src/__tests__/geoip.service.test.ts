@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { GeoIPResolver, MmdbGeoIPProvider, createProviders } from '@/services/geoip.service'
+import type { GeoIPProvider, GeoIPResult } from '@/services/geoip.service'
+
+const result = (ip: string, source: string): GeoIPResult => ({
+  ip,
+  country: 'Germany',
+  countryCode: 'DE',
+  region: 'HE',
+  city: 'Frankfurt am Main',
+  lat: 50.11,
+  lon: 8.68,
+  isp: 'Hetzner Online GmbH',
+  org: 'Hetzner Online GmbH',
+  as: 'AS24940 Hetzner Online GmbH',
+  location: 'EU-Central',
+  source,
+})
+
+const provider = (name: string, lookup: GeoIPProvider['lookup'], remote = false): GeoIPProvider => ({
+  name,
+  remote,
+  lookup: vi.fn(lookup),
+})
+
+describe('GeoIPResolver', () => {
+  it('should use the first provider that resolves the IP', async () => {
+    const local = provider('local', async () => null)
+    const remote = provider('remote', async (ip) => result(ip, 'remote'), true)
+    const resolver = new GeoIPResolver([local, remote])
+
+    const geo = await resolver.lookup('203.0.113.7')
+
+    expect(geo).toMatchObject({ source: 'remote', location: 'EU-Central' })
+    expect(local.lookup).toHaveBeenCalledWith('203.0.113.7')
+    expect(resolver.remote).toBe(true)
+  })
+
+  it('should fall through providers that throw and not cache the failure', async () => {
+    const failing = provider('local', async () => {
+      throw new Error('database missing')
+    })
+    const resolver = new GeoIPResolver([failing])
+
+    const first = await resolver.lookup('203.0.113.7')
+    await resolver.lookup('203.0.113.7')
+
+    expect(first).toMatchObject({ location: 'Unknown', error: 'local: database missing' })
+    expect(failing.lookup).toHaveBeenCalledTimes(2)
+  })
+
+  it('should cache resolved IPs and misses', async () => {
+    const local = provider('local', async (ip) => (ip === '203.0.113.7' ? result(ip, 'local') : null))
+    const resolver = new GeoIPResolver([local])
+
+    await resolver.lookup('203.0.113.7')
+    await resolver.lookup('203.0.113.7')
+    const miss = await resolver.lookup('198.51.100.1')
+    await resolver.lookup('198.51.100.1')
+
+    expect(miss).toMatchObject({ location: 'Unknown' })
+    expect(miss.error).toBeUndefined()
+    expect(local.lookup).toHaveBeenCalledTimes(2)
+  })
+
+  it('should resolve private addresses without asking providers', async () => {
+    const local = provider('local', async (ip) => result(ip, 'local'))
+    const resolver = new GeoIPResolver([local])
+
+    for (const ip of ['10.0.0.5', '192.168.1.10', '172.20.0.1', '127.0.0.1']) {
+      expect(await resolver.lookup(ip)).toMatchObject({ location: 'Private' })
+    }
+    expect(local.lookup).not.toHaveBeenCalled()
+  })
+})
+
+describe('MmdbGeoIPProvider', () => {
+  it('should report a missing database as an error', async () => {
+    const mmdb = new MmdbGeoIPProvider('/nonexistent/city.mmdb')
+    await expect(mmdb.lookup('203.0.113.7')).rejects.toThrow(/City database unavailable/)
+    expect(mmdb.remote).toBe(false)
+  })
+})
+
+describe('createProviders', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should fall back to ip-api by default while the City database is missing', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.stubEnv('GEOIP_PROVIDERS', '')
+    vi.stubEnv('GEOIP_CITY_DB', '/nonexistent/city.mmdb')
+    expect(createProviders().map((p) => p.name)).toEqual(['ip-api'])
+
+    vi.stubEnv('GEOIP_CITY_DB', __filename)
+    expect(createProviders().map((p) => p.name)).toEqual(['mmdb'])
+  })
+
+  it('should use GEOIP_PROVIDERS as configured', () => {
+    vi.stubEnv('GEOIP_PROVIDERS', 'mmdb, ip-api')
+    vi.stubEnv('GEOIP_CITY_DB', '/nonexistent/city.mmdb')
+    expect(createProviders().map((p) => p.name)).toEqual(['mmdb', 'ip-api'])
+  })
+})
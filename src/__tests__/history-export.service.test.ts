@@ -0,0 +1,215 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const db = vi.hoisted(() => ({
+  pNodeSnapshot: { findMany: vi.fn() },
+  networkSnapshot: { findMany: vi.fn() },
+  pNodeRollup: { findMany: vi.fn() },
+  networkEvent: { findMany: vi.fn() },
+  validatorSnapshot: { findMany: vi.fn() },
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+import { EXPORT_BATCH_SIZE, HistoryExportService, parseHistoryExportQuery } from '@/services/history-export.service'
+import type { HistoryExportQuery } from '@/services/history-export.service'
+
+const at = (day: number) => new Date(Date.UTC(2026, 0, day))
+
+const query = (overrides: Partial<HistoryExportQuery>): HistoryExportQuery => ({
+  dataset: 'pnode-snapshots',
+  format: 'csv',
+  from: at(1),
+  to: at(31),
+  pubkeys: [],
+  resolution: 'daily',
+  ...overrides,
+})
+
+const pnodeSnapshot = (id: string) => ({
+  id,
+  timestamp: at(2),
+  status: 'online',
+  performanceScore: 95,
+  uptime: 99.5,
+  averageLatency: 40,
+  successRate: 99,
+  capacityBytes: BigInt(2e12),
+  usedBytes: BigInt(5e11),
+  utilization: 25,
+  fileSystems: 1,
+  uptimeSeconds: null,
+  cpuPercent: null,
+  ramUsed: null,
+  ramTotal: null,
+  activeStreams: null,
+  packetsReceived: null,
+  packetsSent: null,
+  isPublic: true,
+  pnrpcPort: 6000,
+  latencyP50: null,
+  latencyP95: null,
+  latencyP99: null,
+  probeSamples: null,
+  probeFailures: null,
+  pnode: { pubkey: 'node-a' },
+})
+
+async function read(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+describe('parseHistoryExportQuery', () => {
+  const now = at(31)
+  const parse = (search: string) => parseHistoryExportQuery(new URLSearchParams(search), now)
+
+  it('should default the format and end, and merge pubkeys', () => {
+    expect(parse('dataset=events&from=2026-01-01&pubkey=a,b&pubkey=a')).toEqual({
+      query: { dataset: 'events', format: 'csv', from: at(1), to: now, pubkeys: ['a', 'b'], resolution: 'daily' },
+    })
+    expect(parse('dataset=network-rollups&from=2025-06-01&resolution=hourly').query).toMatchObject({
+      dataset: 'network-rollups',
+      resolution: 'hourly',
+    })
+  })
+
+  it('should reject bad datasets, formats and ranges', () => {
+    expect(parse('dataset=alerts&from=2026-01-01').error).toMatch(/^dataset must be one of/)
+    expect(parse('dataset=events&format=xlsx&from=2026-01-01').error).toMatch(/^format must be one of/)
+    expect(parse('dataset=events').error).toMatch(/^from is required/)
+    expect(parse('dataset=events&from=yesterday').error).toBe('from and to must be ISO 8601 dates or times')
+    expect(parse('dataset=events&from=2026-01-10&to=2026-01-10').error).toBe('from must be before to')
+    expect(parse('dataset=network-snapshots&from=2026-01-01&pubkey=a').error).toBe(
+      'pubkey does not apply to network-snapshots',
+    )
+    expect(parse('dataset=pnode-snapshots&from=2026-01-01&resolution=daily').error).toBe(
+      'resolution does not apply to pnode-snapshots',
+    )
+    expect(parse('dataset=pnode-rollups&from=2026-01-01&resolution=raw').error).toMatch(/^resolution must be one of/)
+  })
+})
+
+describe('HistoryExportService', () => {
+  const service = new HistoryExportService()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should page through the range in (timestamp, id) order and stream CSV', async () => {
+    const full = Array.from({ length: EXPORT_BATCH_SIZE }, (_, i) => pnodeSnapshot(`s${i}`))
+    db.pNodeSnapshot.findMany.mockResolvedValueOnce(full).mockResolvedValueOnce([pnodeSnapshot('last')])
+
+    const text = new TextDecoder().decode(await read(service.stream(query({ pubkeys: ['node-a'] }))))
+    const lines = text.trimEnd().split('\n')
+
+    expect(lines).toHaveLength(EXPORT_BATCH_SIZE + 2)
+    expect(lines[0]).toMatch(/^timestamp,pubkey,status,performanceScore,/)
+    expect(lines[1]).toMatch(/^2026-01-02T00:00:00.000Z,node-a,online,95,99.5,40,99,2000000000000,500000000000,25,1,,/)
+    expect(db.pNodeSnapshot.findMany).toHaveBeenCalledTimes(2)
+    expect(db.pNodeSnapshot.findMany.mock.calls[0][0]).toMatchObject({
+      where: { timestamp: { gte: at(1), lt: at(31) }, pnode: { pubkey: { in: ['node-a'] } } },
+      orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+      take: EXPORT_BATCH_SIZE,
+    })
+    expect(db.pNodeSnapshot.findMany.mock.calls[0][0]).not.toHaveProperty('cursor')
+    expect(db.pNodeSnapshot.findMany.mock.calls[1][0]).toMatchObject({
+      cursor: { id: `s${EXPORT_BATCH_SIZE - 1}` },
+      skip: 1,
+    })
+  })
+
+  it('should export months of rollups for one resolution, paged on (bucketStart, id)', async () => {
+    db.pNodeRollup.findMany.mockResolvedValue([
+      {
+        id: 'r1',
+        resolution: 'daily',
+        bucketStart: at(2),
+        metric: 'performanceScore',
+        samples: 2880,
+        min: 60,
+        avg: 91.5,
+        max: 100,
+        p95: 99,
+        pnodeId: 'p1',
+        pnode: { pubkey: 'node-a' },
+      },
+    ])
+    const rollups = query({ dataset: 'pnode-rollups', from: new Date(Date.UTC(2025, 9, 1)), pubkeys: ['node-a'] })
+
+    const text = new TextDecoder().decode(await read(service.stream(rollups)))
+
+    expect(text).toBe(
+      'bucketStart,pubkey,resolution,metric,samples,min,avg,max,p95\n' +
+        '2026-01-02T00:00:00.000Z,node-a,daily,performanceScore,2880,60,91.5,100,99\n',
+    )
+    expect(db.pNodeRollup.findMany.mock.calls[0][0]).toMatchObject({
+      where: {
+        resolution: 'daily',
+        bucketStart: { gte: rollups.from, lt: at(31) },
+        pnode: { pubkey: { in: ['node-a'] } },
+      },
+      orderBy: [{ bucketStart: 'asc' }, { id: 'asc' }],
+    })
+    expect(service.filename(rollups)).toBe('pnode-rollups-daily-2025-10-01-2026-01-31.csv')
+  })
+
+  it('should quote CSV fields and keep NDJSON bigints exact', async () => {
+    const event = {
+      id: 'e1',
+      timestamp: at(3),
+      type: 'NODE_OFFLINE',
+      severity: 'WARNING',
+      title: 'pNode "node-a" went offline, again',
+      description: null,
+      metadata: { previousStatus: 'online' },
+      pnode: null,
+    }
+    db.networkEvent.findMany.mockResolvedValue([event])
+    const csv = new TextDecoder().decode(await read(service.stream(query({ dataset: 'events' }))))
+    expect(csv.split('\n')[1]).toBe(
+      '2026-01-03T00:00:00.000Z,e1,NODE_OFFLINE,WARNING,,"pNode ""node-a"" went offline, again",,"{""previousStatus"":""online""}"',
+    )
+
+    db.validatorSnapshot.findMany.mockResolvedValue([
+      {
+        id: 'v1',
+        timestamp: at(3),
+        activatedStake: BigInt('400000000000000001'),
+        lastVote: BigInt(1),
+        rootSlot: BigInt(2),
+        epochCredits: BigInt(3),
+        priorCredits: BigInt(4),
+        isDelinquent: false,
+        epochVoteAccount: true,
+        validator: { nodePubkey: 'node-v', votePubkey: 'vote-v' },
+      },
+    ])
+    const ndjson = new TextDecoder().decode(
+      await read(service.stream(query({ dataset: 'validator-snapshots', format: 'ndjson', pubkeys: ['vote-v'] }))),
+    )
+    expect(ndjson).toBe(
+      '{"timestamp":"2026-01-03T00:00:00.000Z","nodePubkey":"node-v","votePubkey":"vote-v",' +
+        '"activatedStake":400000000000000001,"lastVote":1,"rootSlot":2,"epochCredits":3,"priorCredits":4,' +
+        '"isDelinquent":false,"epochVoteAccount":true}\n',
+    )
+    expect(db.validatorSnapshot.findMany.mock.calls[0][0].where.validator).toEqual({
+      OR: [{ nodePubkey: { in: ['vote-v'] } }, { votePubkey: { in: ['vote-v'] } }],
+    })
+  })
+
+  it('should write a complete Parquet file, even for an empty range', async () => {
+    db.pNodeSnapshot.findMany.mockResolvedValueOnce([pnodeSnapshot('s1')]).mockResolvedValueOnce([])
+    const magic = (bytes: Uint8Array) => [
+      new TextDecoder().decode(bytes.slice(0, 4)),
+      new TextDecoder().decode(bytes.slice(-4)),
+    ]
+
+    const file = await read(service.stream(query({ format: 'parquet' })))
+    const empty = await read(service.stream(query({ format: 'parquet' })))
+
+    expect(magic(file)).toEqual(['PAR1', 'PAR1'])
+    expect(magic(empty)).toEqual(['PAR1', 'PAR1'])
+    expect(file.length).toBeGreaterThan(empty.length)
+  })
+})
@@ -0,0 +1,327 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { PNode } from '@/types/pnode'
+
+/** Transaction client handed to the cycle's write callback */
+const tx = vi.hoisted(() => ({
+  pNode: {
+    findMany: vi.fn(),
+    createManyAndReturn: vi.fn(),
+    updateMany: vi.fn(),
+    update: vi.fn(),
+  },
+  pNodeSnapshot: { createMany: vi.fn() },
+  networkSnapshot: { create: vi.fn() },
+  anomaly: { createMany: vi.fn() },
+  networkEvent: { createManyAndReturn: vi.fn() },
+}))
+
+const db = vi.hoisted(() => ({
+  pNode: { findMany: vi.fn(), findUnique: vi.fn(), update: vi.fn() },
+  pNodeSnapshot: { findFirst: vi.fn(), findMany: vi.fn() },
+  networkSnapshot: { findMany: vi.fn() },
+  networkEvent: { create: vi.fn() },
+  indexerRun: { create: vi.fn(), update: vi.fn() },
+  $transaction: vi.fn(),
+}))
+
+const mocks = vi.hoisted(() => ({
+  pnodeService: {
+    fetchAllPNodes: vi.fn(),
+    fetchVoteAccounts: vi.fn(async () => null),
+    fetchEpochInfo: vi.fn(async () => null),
+    fetchPerformanceSamples: vi.fn(async () => null),
+    fetchInflationRate: vi.fn(async () => null),
+    fetchSupply: vi.fn(async () => null),
+    fetchStakeMinimumDelegation: vi.fn(async () => null),
+    fetchNetworkStats: vi.fn(),
+    setFleetSnapshot: vi.fn(),
+  },
+  publishCycle: vi.fn(() => ({ sequence: 1, added: [], changed: [], removed: [] })),
+  leaseHeld: false,
+  leaseLost: false,
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/lease', () => ({
+  Lease: class {
+    async run<T>(fn: () => Promise<T>) {
+      return mocks.leaseHeld ? { acquired: false } : { acquired: true, result: await fn() }
+    }
+    async renew() {
+      return !mocks.leaseLost
+    }
+  },
+}))
+vi.mock('@/services/pnode.service', () => ({ pnodeService: mocks.pnodeService }))
+vi.mock('@/services/alert.service', () => ({ getAlertService: () => ({ checkAlerts: vi.fn() }) }))
+vi.mock('@/services/retention.service', () => ({ getRetentionService: () => ({ runIfDue: vi.fn() }) }))
+vi.mock('@/services/live-updates.service', () => ({
+  getLiveUpdatesService: () => ({ publishCycle: mocks.publishCycle }),
+}))
+vi.mock('@/services/geoip.service', () => ({
+  getGeoIPResolver: () => ({ remote: false }),
+  lookupGeoIP: vi.fn(),
+  toPNodeGeo: vi.fn(),
+}))
+
+import { IndexerService, buildIndexerStatus } from '@/services/indexer.service'
+import type { IndexerRun } from '@/types/indexer'
+
+const pnode = (id: string, overrides: Partial<PNode> = {}) =>
+  ({
+    id,
+    gossipEndpoint: `10.0.0.${id.length}:9001`,
+    version: '1.0.0',
+    location: 'Frankfurt, DE',
+    status: 'online',
+    performanceScore: 80,
+    performance: { uptime: 99, averageLatency: 20, successRate: 100 },
+    storage: { capacityBytes: 1e12, usedBytes: 1e10, utilization: 1, fileSystems: 1 },
+    ...overrides,
+  }) as PNode
+
+describe('IndexerService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mocks.leaseHeld = false
+    mocks.leaseLost = false
+    db.$transaction.mockImplementation(async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx))
+    db.networkSnapshot.findMany.mockResolvedValue([])
+    db.indexerRun.create.mockResolvedValue({ id: 'run-1' })
+    db.networkEvent.create.mockImplementation(async ({ data }) => ({
+      ...data,
+      id: 'error-event',
+      timestamp: new Date(),
+    }))
+    // No earlier cycles: every pNode is new
+    db.pNodeSnapshot.findFirst.mockResolvedValue(null)
+    db.pNodeSnapshot.findMany.mockResolvedValue([])
+    db.pNode.findMany.mockImplementation(
+      async ({ where, select }: { where: { pubkey: { in: string[] } }; select: Record<string, boolean> }) =>
+        select.firstSeen
+          ? []
+          : where.pubkey.in.map((pubkey) => ({
+              pubkey,
+              ipAddress: `10.0.0.${pubkey.length}`,
+              geoUpdatedAt: new Date(),
+            })),
+    )
+
+    mocks.pnodeService.fetchAllPNodes.mockResolvedValue([pnode('known'), pnode('newcomer')])
+    mocks.pnodeService.fetchNetworkStats.mockResolvedValue({
+      totalPNodes: 2,
+      onlinePNodes: 2,
+      offlinePNodes: 0,
+      totalCapacity: 2e12,
+      totalUsed: 2e10,
+      healthScore: 90,
+      averagePerformance: 80,
+    })
+
+    tx.pNode.findMany.mockResolvedValue([
+      {
+        id: 'id-known',
+        pubkey: 'known',
+        gossipEndpoint: '10.0.0.99:9001',
+        rpcEndpoint: null,
+        version: '1.0.0',
+        location: 'Frankfurt, DE',
+      },
+    ])
+    tx.pNodeSnapshot.createMany.mockImplementation(async ({ data }: { data: unknown[] }) => ({ count: data.length }))
+    tx.pNode.createManyAndReturn.mockResolvedValue([{ id: 'id-newcomer', pubkey: 'newcomer' }])
+    tx.networkEvent.createManyAndReturn.mockImplementation(async ({ data }: { data: { title: string }[] }) =>
+      data.map((event, i) => ({ ...event, id: `event-${i}`, timestamp: new Date(), description: null })),
+    )
+  })
+
+  it('should write the cycle in one transaction with bulk inserts and record phase timings', async () => {
+    const indexer = new IndexerService()
+
+    await indexer.runIndexingCycle()
+
+    expect(db.$transaction).toHaveBeenCalledTimes(1)
+    expect(tx.pNode.createManyAndReturn).toHaveBeenCalledWith(
+      expect.objectContaining({ data: [expect.objectContaining({ pubkey: 'newcomer' })] }),
+    )
+    // Only the changed node (its endpoint moved) gets an individual update
+    expect(tx.pNode.update).toHaveBeenCalledTimes(1)
+    expect(tx.pNode.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'id-known' },
+        data: expect.objectContaining({ gossipEndpoint: '10.0.0.5:9001' }),
+      }),
+    )
+    expect(tx.pNodeSnapshot.createMany).toHaveBeenCalledTimes(1)
+    expect(tx.pNodeSnapshot.createMany.mock.calls[0][0].data.map((row: { pnodeId: string }) => row.pnodeId)).toEqual([
+      'id-known',
+      'id-newcomer',
+    ])
+    expect(tx.networkSnapshot.create).toHaveBeenCalledTimes(1)
+    expect(tx.networkEvent.createManyAndReturn.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ title: 'New pNode Detected', pnodeId: 'id-known' }),
+      expect.objectContaining({ title: 'New pNode Detected', pnodeId: 'id-newcomer' }),
+    ])
+    expect(mocks.publishCycle).toHaveBeenCalledWith(expect.any(Array), expect.anything(), [
+      expect.objectContaining({ id: 'event-0', pnodeId: 'known' }),
+      expect.objectContaining({ id: 'event-1' }),
+    ])
+    expect(Object.keys(indexer.getLastCycleTimings() ?? {})).toEqual([
+      'fetch',
+      'detect',
+      'write',
+      'geo',
+      'alerts',
+      'retention',
+    ])
+  })
+
+  it('should detect transitions against the stored last cycle rather than in-memory state', async () => {
+    const lastCycleAt = new Date('2026-01-15T11:59:30Z')
+    db.pNodeSnapshot.findFirst.mockResolvedValue({ timestamp: lastCycleAt })
+    db.pNodeSnapshot.findMany.mockResolvedValue([
+      { status: 'online', performanceScore: 80, pnode: { pubkey: 'known' } },
+      { status: 'online', performanceScore: 80, pnode: { pubkey: 'departed' } },
+    ])
+    db.pNode.findMany.mockImplementation(
+      async ({ where, select }: { where: { pubkey: { in: string[] } }; select: Record<string, boolean> }) =>
+        select.firstSeen
+          ? where.pubkey.in
+              .filter((pubkey) => pubkey === 'returning')
+              .map((pubkey) => ({ pubkey, firstSeen: new Date('2026-01-01T00:00:00Z') }))
+          : [],
+    )
+    mocks.pnodeService.fetchAllPNodes.mockResolvedValue([
+      pnode('known', { status: 'offline' }),
+      pnode('returning'),
+      pnode('newcomer'),
+    ])
+
+    // A fresh instance, as after a restart or cold start
+    await new IndexerService().runIndexingCycle()
+
+    expect(db.pNodeSnapshot.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { timestamp: { gte: new Date(lastCycleAt.getTime() - 10000) } } }),
+    )
+    const titles = tx.networkEvent.createManyAndReturn.mock.calls[0][0].data.map(
+      (event: { title: string; pnodeId?: string }) => [event.title, event.pnodeId],
+    )
+    expect(titles).toEqual([
+      ['pNode Status Changed to OFFLINE', 'id-known'],
+      ['pNode Rejoined Network', undefined],
+      ['New pNode Detected', 'id-newcomer'],
+      ['pNode Left Network', undefined],
+    ])
+  })
+
+  it('should record a partial run with per-source results and row counts', async () => {
+    mocks.pnodeService.fetchVoteAccounts.mockRejectedValueOnce(new Error('RPC timeout'))
+
+    await new IndexerService().runIndexingCycle()
+
+    expect(db.indexerRun.create).toHaveBeenCalledWith({ data: expect.objectContaining({ status: 'running' }) })
+    expect(db.indexerRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: expect.objectContaining({
+        status: 'partial',
+        sources: expect.objectContaining({ pnodes: { ok: true }, voteAccounts: { ok: false, error: 'RPC timeout' } }),
+        rowCounts: expect.objectContaining({ pnodeSnapshots: 2, networkSnapshots: 1, events: 2 }),
+        finishedAt: expect.any(Date),
+      }),
+    })
+  })
+
+  it('should skip a cycle while one is running in this process or another holds the lease', async () => {
+    const indexer = new IndexerService()
+
+    const outcomes = await Promise.all([indexer.runIndexingCycle(), indexer.runIndexingCycle()])
+    mocks.leaseHeld = true
+    const elsewhere = await indexer.runIndexingCycle()
+
+    expect(outcomes).toEqual(['completed', 'skipped'])
+    expect(elsewhere).toBe('skipped')
+    expect(mocks.pnodeService.fetchAllPNodes).toHaveBeenCalledTimes(1)
+    expect(db.indexerRun.create).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not write a cycle after losing the lease to another instance', async () => {
+    mocks.leaseLost = true
+
+    expect(await new IndexerService().runIndexingCycle()).toBe('failed')
+    expect(db.$transaction).not.toHaveBeenCalled()
+    expect(mocks.pnodeService.setFleetSnapshot).not.toHaveBeenCalled()
+    expect(db.indexerRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: expect.objectContaining({
+        status: 'failed',
+        error: 'Lost the indexer lease to another instance before writing',
+      }),
+    })
+  })
+
+  it('should not publish or cache a cycle whose write transaction fails', async () => {
+    tx.networkSnapshot.create.mockRejectedValueOnce(new Error('connection reset'))
+    const indexer = new IndexerService()
+
+    expect(await indexer.runIndexingCycle()).toBe('failed')
+    expect(mocks.pnodeService.setFleetSnapshot).not.toHaveBeenCalled()
+    expect(mocks.publishCycle).not.toHaveBeenCalled()
+    expect(indexer.getLastCycleTimings()).toBeNull()
+    expect(db.indexerRun.update).toHaveBeenCalledWith({
+      where: { id: 'run-1' },
+      data: expect.objectContaining({ status: 'failed', error: 'connection reset', rowCounts: {} }),
+    })
+    expect(db.networkEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        title: 'Indexer Error',
+        description: expect.stringContaining('connection reset'),
+      }),
+    })
+  })
+})
+
+describe('buildIndexerStatus', () => {
+  const now = new Date('2026-01-14T12:00:00Z')
+  const staleAfterMs = 5 * 60 * 1000
+  const run = (minutesAgo: number, overrides: Partial<IndexerRun> = {}): IndexerRun => ({
+    id: `run-${minutesAgo}`,
+    startedAt: new Date(now.getTime() - minutesAgo * 60000).toISOString(),
+    finishedAt: new Date(now.getTime() - minutesAgo * 60000 + 5000).toISOString(),
+    status: 'success',
+    durationMs: 5000,
+    sources: { pnodes: { ok: true } },
+    rowCounts: {},
+    timings: {},
+    error: null,
+    ...overrides,
+  })
+
+  it('should report fresh data while the last success is recent', () => {
+    const last = run(2)
+
+    const status = buildIndexerStatus([run(1, { status: 'running', finishedAt: null }), last], last, {
+      now,
+      staleAfterMs,
+    })
+
+    expect(status).toMatchObject({ freshness: 'fresh', running: true, consecutiveFailures: 0, failingSources: [] })
+  })
+
+  it('should report stale data, failures since the last success and failing sources', () => {
+    const failed = run(1, { status: 'failed', error: 'fetch failed', sources: { pnodes: { ok: false } } })
+    const success = run(30)
+
+    const status = buildIndexerStatus([failed, run(2, { status: 'failed' }), success], success, { now, staleAfterMs })
+
+    expect(status.freshness).toBe('stale')
+    expect(status.stalenessMs).toBe(30 * 60000 - 5000)
+    expect(status.consecutiveFailures).toBe(2)
+    expect(status.failingSources).toEqual(['pnodes'])
+  })
+
+  it('should report unknown freshness before any cycle completed and ignore abandoned runs', () => {
+    const status = buildIndexerStatus([run(60, { status: 'running', finishedAt: null })], null, { now, staleAfterMs })
+
+    expect(status).toMatchObject({ freshness: 'unknown', stalenessMs: null, running: false })
+  })
+})
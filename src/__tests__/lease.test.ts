@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+
+type LeaseRow = { name: string; holder: string; acquiredAt: Date; expiresAt: Date }
+type LeaseWhere = {
+  name: string
+  holder?: string
+  OR?: ({ holder: string } | { expiresAt: { lt: Date } })[]
+}
+
+/** In-memory `Lease` table supporting the filters the lease uses */
+const db = vi.hoisted(() => {
+  const rows = new Map<string, LeaseRow>()
+  const matches = (row: LeaseRow, where: LeaseWhere) =>
+    row.name === where.name &&
+    (where.holder === undefined || row.holder === where.holder) &&
+    (!where.OR ||
+      where.OR.some((condition) =>
+        'holder' in condition ? row.holder === condition.holder : row.expiresAt < condition.expiresAt.lt,
+      ))
+
+  return {
+    rows,
+    lease: {
+      updateMany: vi.fn(async ({ where, data }: { where: LeaseWhere; data: Partial<LeaseRow> }) => {
+        const row = rows.get(where.name)
+        if (!row || !matches(row, where)) return { count: 0 }
+        Object.assign(row, data)
+        return { count: 1 }
+      }),
+      create: vi.fn(async ({ data }: { data: LeaseRow }) => {
+        if (rows.has(data.name)) {
+          throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+            code: 'P2002',
+            clientVersion: 'test',
+          })
+        }
+        rows.set(data.name, { ...data })
+        return data
+      }),
+      deleteMany: vi.fn(async ({ where }: { where: LeaseWhere }) => {
+        const row = rows.get(where.name)
+        if (!row || !matches(row, where)) return { count: 0 }
+        rows.delete(where.name)
+        return { count: 1 }
+      }),
+    },
+  }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: { lease: db.lease } }))
+
+import { Lease } from '@/lib/lease'
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 15, 12, 0, seconds))
+
+describe('Lease', () => {
+  beforeEach(() => {
+    db.rows.clear()
+  })
+
+  it('should let only one holder acquire the lease until it expires', async () => {
+    const a = new Lease('indexer', { ttlMs: 30000, holder: 'a' })
+    const b = new Lease('indexer', { ttlMs: 30000, holder: 'b' })
+
+    expect(await a.tryAcquire(at(0))).toBe(true)
+    expect(await b.tryAcquire(at(10))).toBe(false)
+    // Re-acquiring our own lease extends it
+    expect(await a.tryAcquire(at(20))).toBe(true)
+    expect(await b.tryAcquire(at(40))).toBe(false)
+    // Expired: b takes over and a can no longer renew
+    expect(await b.tryAcquire(at(51))).toBe(true)
+    expect(await a.renew(at(52))).toBe(false)
+    expect(db.rows.get('indexer')?.holder).toBe('b')
+  })
+
+  it('should run work under the lease and release it afterwards, even on failure', async () => {
+    const a = new Lease('indexer', { ttlMs: 30000, holder: 'a' })
+    const b = new Lease('indexer', { ttlMs: 30000, holder: 'b' })
+
+    const result = await a.run(async () => {
+      expect(await b.run(async () => 'b ran')).toEqual({ acquired: false })
+      return 'a ran'
+    })
+
+    expect(result).toEqual({ acquired: true, result: 'a ran' })
+    await expect(
+      b.run(async () => {
+        throw new Error('boom')
+      }),
+    ).rejects.toThrow('boom')
+    expect(db.rows.size).toBe(0)
+  })
+
+  it('should surface database errors other than a lost race', async () => {
+    db.lease.create.mockRejectedValueOnce(new Error('connection refused'))
+    const lease = new Lease('indexer', { ttlMs: 30000 })
+
+    await expect(lease.tryAcquire()).rejects.toThrow('connection refused')
+  })
+})
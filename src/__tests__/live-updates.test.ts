@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest'
+import { applyPNodeDiff, diffPNodes } from '@/lib/live-updates'
+import { LiveUpdatesService } from '@/services/live-updates.service'
+import type { NetworkStats, PNode } from '@/types/pnode'
+
+const pnode = (id: string, overrides: Partial<PNode> = {}) =>
+  ({ id, status: 'online', performanceScore: 80, lastSeen: new Date('2026-01-11T10:00:00Z'), ...overrides }) as PNode
+
+const stats = (overrides: Partial<NetworkStats> = {}) =>
+  ({ totalPNodes: 2, onlinePNodes: 2, offlinePNodes: 0, healthScore: 90, ...overrides }) as NetworkStats
+
+describe('diffPNodes', () => {
+  it('should report added, removed and only the changed fields of existing pNodes', () => {
+    const previous = [pnode('a'), pnode('b'), pnode('c')]
+    const current = [pnode('a'), pnode('b', { status: 'offline', performanceScore: 40 }), pnode('d')]
+
+    const diff = diffPNodes(previous, current)
+
+    expect(diff.added.map((p) => p.id)).toEqual(['d'])
+    expect(diff.removed).toEqual(['c'])
+    expect(diff.changed).toEqual([{ id: 'b', status: 'offline', performanceScore: 40 }])
+    expect(diff.transitions).toEqual([{ pnodeId: 'b', from: 'online', to: 'offline' }])
+  })
+
+  it('should treat equal dates as unchanged', () => {
+    const diff = diffPNodes([pnode('a')], [pnode('a', { lastSeen: new Date('2026-01-11T10:00:00Z') })])
+    expect(diff.changed).toEqual([])
+  })
+
+  it('should only send per-cycle timestamps alongside a real change', () => {
+    const performance = { averageLatency: 20, successRate: 100, uptime: 99, lastUpdated: 1 }
+    const later = { lastSeen: new Date('2026-01-11T10:01:00Z'), performance: { ...performance, lastUpdated: 2 } }
+    const previous = [pnode('a', { performance }), pnode('b', { performance })]
+
+    const diff = diffPNodes(previous, [pnode('a', later), pnode('b', { ...later, performanceScore: 60 })])
+
+    expect(diff.changed).toEqual([{ id: 'b', performanceScore: 60, ...later }])
+  })
+})
+
+describe('applyPNodeDiff', () => {
+  it('should patch cached pNodes in place and append new ones', () => {
+    const cached = [pnode('a'), pnode('b'), pnode('c')]
+
+    const patched = applyPNodeDiff(cached, {
+      added: [pnode('d'), pnode('a')],
+      changed: [{ id: 'b', status: 'offline' }],
+      removed: ['c'],
+    })
+
+    expect(patched.map((p) => p.id)).toEqual(['a', 'b', 'd'])
+    expect(patched[1]).toMatchObject({ id: 'b', status: 'offline', performanceScore: 80 })
+  })
+})
+
+describe('LiveUpdatesService', () => {
+  it('should number updates and send only changed network stats', () => {
+    const service = new LiveUpdatesService()
+    const listener = vi.fn()
+    const unsubscribe = service.subscribe(listener)
+
+    service.publishCycle([pnode('a')], stats())
+    service.publishCycle([pnode('a')], stats({ onlinePNodes: 1, offlinePNodes: 1 }))
+    service.publishCycle([pnode('a')], stats({ onlinePNodes: 1, offlinePNodes: 1, lastUpdated: Date.now() }))
+    unsubscribe()
+    service.publishCycle([pnode('a')], stats())
+
+    expect(listener).toHaveBeenCalledTimes(3)
+    const [first, second, third] = listener.mock.calls.map(([update]) => update)
+    expect(first).toMatchObject({ sequence: 1, added: [expect.objectContaining({ id: 'a' })] })
+    expect(second).toMatchObject({ sequence: 2, added: [], networkStats: { onlinePNodes: 1, offlinePNodes: 1 } })
+    expect(third).toMatchObject({ sequence: 3, networkStats: null })
+    expect(service.getSequence()).toBe(4)
+  })
+})
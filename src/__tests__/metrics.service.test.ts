@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { formatMetrics, gauge } from '@/lib/prometheus'
+
+const db = vi.hoisted(() => ({
+  networkSnapshot: { findFirst: vi.fn() },
+  pNodeSnapshot: { findFirst: vi.fn(), findMany: vi.fn() },
+}))
+
+const getStatus = vi.hoisted(() => vi.fn())
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/services/indexer.service', () => ({ indexerService: { getStatus } }))
+
+import { MetricsService } from '@/services/metrics.service'
+import { getIndexerMetrics } from '@/lib/indexer-metrics'
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 16, 12, minutes))
+
+const pnodeSnapshot = (pubkey: string, minutes: number, status: string, performanceScore: number) => ({
+  timestamp: at(minutes),
+  status,
+  performanceScore,
+  uptime: 99.5,
+  averageLatency: 40,
+  successRate: 99,
+  capacityBytes: BigInt(2e12),
+  usedBytes: BigInt(5e11),
+  utilization: 25,
+  uptimeSeconds: BigInt(86400),
+  cpuPercent: 12.5,
+  ramUsed: null,
+  ramTotal: null,
+  activeStreams: 8,
+  packetsReceived: BigInt(1500),
+  packetsSent: BigInt(1200),
+  pnode: { pubkey, version: '0.8.0', location: pubkey === 'node-a' ? 'Frankfurt, DE' : null },
+})
+
+describe('formatMetrics', () => {
+  it('should render families with escaped labels and skip empty ones', () => {
+    expect(
+      formatMetrics([
+        gauge('opue_up', 'Whether "it" works\nat all', [{ labels: { location: 'Paris, "FR"\\' }, value: 1 }]),
+        gauge('opue_missing', 'Never set', [{ value: null }]),
+      ]),
+    ).toBe(
+      [
+        '# HELP opue_up Whether "it" works\\nat all',
+        '# TYPE opue_up gauge',
+        'opue_up{location="Paris, \\"FR\\"\\\\"} 1',
+        '',
+      ].join('\n'),
+    )
+  })
+})
+
+describe('MetricsService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    globalThis.indexerMetrics = undefined
+    db.networkSnapshot.findFirst.mockResolvedValue({
+      timestamp: at(0),
+      totalPNodes: 2,
+      onlinePNodes: 1,
+      offlinePNodes: 1,
+      delinquentPNodes: 0,
+      totalCapacityBytes: BigInt(4e12),
+      totalUsedBytes: BigInt(1e12),
+      networkUtilization: 25,
+      healthScore: 87,
+      averagePerformance: 80,
+      averageLatency: 40,
+      versionDistribution: { '0.8.0': 2 },
+      geoDistribution: { 'Frankfurt, DE': 1, Unknown: 1 },
+      currentTps: null,
+      currentEpoch: 700,
+    })
+    db.pNodeSnapshot.findFirst.mockResolvedValue({ timestamp: at(1) })
+    db.pNodeSnapshot.findMany.mockResolvedValue([
+      pnodeSnapshot('node-a', 0, 'online', 70),
+      pnodeSnapshot('node-a', 1, 'online', 95),
+      pnodeSnapshot('node-b', 1, 'offline', 0),
+    ])
+    getStatus.mockResolvedValue({
+      freshness: 'fresh',
+      stalenessMs: 60000,
+      running: false,
+      consecutiveFailures: 0,
+      lastRun: {
+        status: 'partial',
+        durationMs: 8500,
+        sources: { pnodes: { ok: true }, supply: { ok: false, error: 'timeout' } },
+        timings: { fetch: 8000 },
+      },
+      lastSuccessfulRun: { finishedAt: at(0).toISOString() },
+    })
+  })
+
+  it('should export network, per-pNode and indexer metrics', async () => {
+    getIndexerMetrics().recordCycle('partial', 8500, { pnodes: { ok: true }, supply: { ok: false } })
+    const text = await new MetricsService().collect(at(2))
+    const lines = text.split('\n')
+
+    expect(lines).toContain('opue_network_health_score 87')
+    expect(lines).toContain('opue_network_capacity_bytes 4000000000000')
+    expect(lines).toContain('opue_network_pnodes_by_location{location="Frankfurt, DE"} 1')
+    expect(text).not.toContain('opue_network_tps')
+
+    // The latest snapshot of each node, labelled by pubkey; version and location only on the info series
+    expect(lines).toContain('opue_pnode_info{pubkey="node-a",version="0.8.0",location="Frankfurt, DE"} 1')
+    expect(lines).toContain('opue_pnode_info{pubkey="node-b",version="0.8.0",location="Unknown"} 1')
+    expect(lines).toContain('opue_pnode_performance_score{pubkey="node-a"} 95')
+    expect(lines).toContain('opue_pnode_performance_score{pubkey="node-b"} 0')
+    expect(lines).toContain('opue_pnode_status{pubkey="node-b",status="offline"} 1')
+    expect(lines).toContain('opue_pnode_status{pubkey="node-b",status="online"} 0')
+    expect(lines).toContain('opue_pnode_uptime_seconds{pubkey="node-a"} 86400')
+    expect(lines).toContain('# TYPE opue_pnode_packets_received_total counter')
+    expect(lines).toContain('opue_pnode_packets_sent_total{pubkey="node-a"} 1200')
+    expect(text).not.toContain('opue_pnode_ram_used_bytes')
+
+    expect(lines).toContain('opue_indexer_staleness_seconds 60')
+    expect(lines).toContain('opue_indexer_last_cycle_duration_seconds 8.5')
+    expect(lines).toContain('opue_indexer_source_up{source="supply"} 0')
+    expect(lines).toContain('opue_indexer_cycles_total{status="partial"} 1')
+    expect(lines).toContain('opue_indexer_source_errors_total{source="supply"} 1')
+    expect(lines).toContain('opue_indexer_cycle_duration_seconds_bucket{le="10"} 1')
+    expect(lines).toContain('opue_indexer_cycle_duration_seconds_bucket{le="5"} 0')
+    expect(lines).toContain('opue_metrics_section_up{section="pnodes"} 1')
+  })
+
+  it('should still serve the other sections when one fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    db.pNodeSnapshot.findFirst.mockRejectedValue(new Error('connection lost'))
+
+    const lines = (await new MetricsService().collect(at(2))).split('\n')
+
+    expect(lines).toContain('opue_network_health_score 87')
+    expect(lines).toContain('opue_metrics_section_up{section="pnodes"} 0')
+    expect(lines).toContain('opue_metrics_section_up{section="network"} 1')
+    expect(lines.some((line) => line.startsWith('opue_pnode_'))).toBe(false)
+  })
+})
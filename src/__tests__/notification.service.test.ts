@@ -0,0 +1,189 @@
+import crypto from 'crypto'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { Alert, AlertRule } from '@/types/alerts'
+
+const createDelivery = vi.fn()
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    alertDelivery: {
+      create: (...args: unknown[]) => createDelivery(...args),
+    },
+  },
+}))
+
+import {
+  NotificationService,
+  renderAlertEmail,
+  signWebhookPayload,
+  webhookUrlError,
+} from '@/services/notification.service'
+
+const alert: Alert = {
+  id: 'alert-1',
+  ruleId: 'rule-1',
+  type: 'pnode_offline',
+  severity: 'high',
+  title: 'pNode Offline: node1pub...',
+  message: 'Unknown location pNode has gone offline',
+  pnodeId: 'node1pubkey123456789',
+  metadata: {},
+  timestamp: new Date('2026-01-07T10:00:00Z'),
+  acknowledged: false,
+  resolved: false,
+  silenced: false,
+}
+
+const rule: AlertRule = {
+  id: 'rule-1',
+  name: 'pNode Goes Offline',
+  description: '',
+  type: 'pnode_offline',
+  enabled: true,
+  severity: 'high',
+  scope: 'pnode',
+  conditions: [{ field: 'status', operator: 'eq', value: 'offline' }],
+  cooldownMinutes: 60,
+  notificationMethods: ['webhook'],
+}
+
+describe('NotificationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    createDelivery.mockResolvedValue({})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('sendWebhook', () => {
+    it('should sign the body with HMAC-SHA256', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce(new Response('ok', { status: 200 }))
+      const service = new NotificationService({ webhookSecret: 'secret', baseDelayMs: 0 })
+
+      const result = await service.sendWebhook('https://example.com/hook', alert, rule)
+
+      expect(result.success).toBe(true)
+      const [, init] = vi.mocked(fetch).mock.calls[0] as [string, RequestInit]
+      const headers = init.headers as Record<string, string>
+      const expected = crypto
+        .createHmac('sha256', 'secret')
+        .update(`${headers['X-Opue-Timestamp']}.${init.body}`)
+        .digest('hex')
+      expect(headers['X-Opue-Signature']).toBe(`sha256=${expected}`)
+      expect(JSON.parse(init.body as string).event).toBe('alert.triggered')
+    })
+
+    it('should retry 5xx responses and log every attempt', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(new Response('', { status: 503 }))
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(new Response('ok', { status: 200 }))
+      const service = new NotificationService({ maxAttempts: 4, baseDelayMs: 0 })
+
+      const result = await service.sendWebhook('https://example.com/hook', alert, rule)
+
+      expect(result).toMatchObject({ success: true, attempts: 3 })
+      expect(createDelivery).toHaveBeenCalledTimes(3)
+      expect(createDelivery.mock.calls[0][0].data).toMatchObject({ attempt: 1, success: false, statusCode: 503 })
+      expect(createDelivery.mock.calls[2][0].data).toMatchObject({ attempt: 3, success: true, alertId: 'alert-1' })
+    })
+
+    it('should not retry 4xx responses', async () => {
+      vi.mocked(fetch).mockResolvedValue(new Response('', { status: 404 }))
+      const service = new NotificationService({ maxAttempts: 4, baseDelayMs: 0 })
+
+      const result = await service.sendWebhook('https://example.com/hook', alert, rule)
+
+      expect(result).toMatchObject({ success: false, attempts: 1 })
+      expect(fetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should give up after maxAttempts', async () => {
+      vi.mocked(fetch).mockRejectedValue(new Error('timeout'))
+      const service = new NotificationService({ maxAttempts: 3, baseDelayMs: 0 })
+
+      const result = await service.sendWebhook('https://example.com/hook', alert, rule)
+
+      expect(result).toMatchObject({ success: false, attempts: 3, error: 'timeout' })
+    })
+  })
+
+  describe('enqueue', () => {
+    it('should return before the delivery and its retries finish, and drain() should wait for them', async () => {
+      let respond: (response: Response) => void = () => {}
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(new Response('', { status: 503 }))
+        .mockReturnValueOnce(new Promise((resolve) => (respond = resolve)))
+      const service = new NotificationService({ maxAttempts: 2, baseDelayMs: 0 })
+
+      service.enqueue({ channel: 'webhook', target: 'https://example.com/hook', alert, rule, event: 'alert.triggered' })
+      expect(createDelivery).not.toHaveBeenCalled()
+
+      const drained = service.drain()
+      await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2))
+      respond(new Response('ok', { status: 200 }))
+      await drained
+
+      expect(createDelivery).toHaveBeenCalledTimes(2)
+      expect(createDelivery.mock.calls[1][0].data).toMatchObject({ attempt: 2, success: true })
+    })
+  })
+
+  describe('sendEmail', () => {
+    it('should send the templated email through the transport', async () => {
+      const sendMail = vi.fn().mockResolvedValue({ response: '250 OK' })
+      const service = new NotificationService({
+        transporter: { sendMail } as never,
+        emailFrom: 'alerts@example.com',
+      })
+
+      const result = await service.sendEmail('ops@example.com', alert, rule)
+
+      expect(result.success).toBe(true)
+      expect(sendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from: 'alerts@example.com',
+          to: 'ops@example.com',
+          subject: '[Opue] [HIGH] pNode Offline: node1pub...',
+        }),
+      )
+      expect(createDelivery.mock.calls[0][0].data).toMatchObject({ channel: 'email', statusCode: 250 })
+    })
+  })
+
+  describe('helpers', () => {
+    it('should escape HTML in email bodies', () => {
+      const { html } = renderAlertEmail({ ...alert, message: '<script>' }, rule)
+      expect(html).toContain('&lt;script&gt;')
+      expect(html).not.toContain('<script>')
+    })
+
+    it('should produce a stable signature', () => {
+      expect(signWebhookPayload('k', '1', '{}')).toBe(signWebhookPayload('k', '1', '{}'))
+      expect(signWebhookPayload('k', '1', '{}')).not.toBe(signWebhookPayload('k', '2', '{}'))
+    })
+
+    it('should accept public http(s) webhook URLs', () => {
+      expect(webhookUrlError('https://hooks.example.com/opue')).toBeUndefined()
+      expect(webhookUrlError('http://93.184.216.34:8080/hook')).toBeUndefined()
+    })
+
+    it.each([
+      ['not a url', 'valid URL'],
+      ['ftp://example.com/hook', 'http or https'],
+      ['http://localhost:3000/hook', 'must not point at'],
+      ['http://127.0.0.1/hook', 'must not point at'],
+      ['http://2130706433/hook', 'must not point at'],
+      ['http://[::1]/hook', 'must not point at'],
+      ['http://[::ffff:127.0.0.1]/hook', 'must not point at'],
+      ['http://192.168.1.10/hook', 'must not point at'],
+      ['http://172.20.0.1/hook', 'must not point at'],
+      ['http://169.254.169.254/latest/meta-data', 'must not point at'],
+      ['http://[fe80::1]/hook', 'must not point at'],
+    ])('should reject %s', (url, message) => {
+      expect(webhookUrlError(url)).toContain(message)
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { parsePNodeQuery, queryPNodes } from '@/lib/pnode-query'
+import { V1_ENDPOINTS } from '@/lib/api-v1'
+import type { PNode, PNodeStatus } from '@/types/pnode'
+
+const pnode = (id: string, performanceScore: number, status: PNodeStatus = 'online', location?: string): PNode => ({
+  id,
+  status,
+  storage: { capacityBytes: performanceScore * 1e9, usedBytes: 0, utilization: 0, fileSystems: 0 },
+  performanceScore,
+  performance: { averageLatency: 20, successRate: 100, uptime: 99, lastUpdated: Date.UTC(2026, 0, 16) },
+  version: '0.8.0',
+  location,
+  lastSeen: new Date(Date.UTC(2026, 0, 16)),
+  gossipEndpoint: `10.0.0.${performanceScore}:9001`,
+})
+
+const fleet = [
+  pnode('a', 90, 'online', 'Frankfurt, Germany'),
+  pnode('b', 70, 'delinquent', 'Paris, France'),
+  pnode('c', 90, 'online'),
+  pnode('d', 40, 'offline', 'Frankfurt, Germany'),
+  pnode('e', 85),
+]
+
+const query = (params: string) => {
+  const parsed = parsePNodeQuery(new URLSearchParams(params))
+  if (!parsed.query) throw new Error(parsed.error)
+  return parsed.query
+}
+
+describe('queryPNodes', () => {
+  it('should return the whole fleet in snapshot order without parameters', () => {
+    expect(queryPNodes(fleet, query(''))).toEqual({ pnodes: fleet, total: 5, nextCursor: null })
+  })
+
+  it('should combine filters', () => {
+    const ids = (params: string) => queryPNodes(fleet, query(params)).pnodes.map((p) => p.id)
+
+    expect(ids('status=online,delinquent&minPerformance=80')).toEqual(['a', 'c', 'e'])
+    expect(ids('location=Frankfurt, Germany&location=Unknown&maxPerformance=89')).toEqual(['d', 'e'])
+    expect(ids('search=paris')).toEqual(['b'])
+    expect(ids(`minStorage=${70e9}&maxStorage=${85e9}`)).toEqual(['b', 'e'])
+    expect(ids('id=e,a&id=zz')).toEqual(['a', 'e'])
+  })
+
+  it('should sort by status health and by location, with nodes without one as "Unknown"', () => {
+    const ids = (params: string) => queryPNodes(fleet, query(params)).pnodes.map((p) => p.id)
+
+    expect(ids('sort=status')).toEqual(['a', 'c', 'e', 'b', 'd'])
+    expect(ids('sort=location')).toEqual(['a', 'd', 'b', 'c', 'e'])
+  })
+
+  it('should page through a sort with stable cursors and count all matches', () => {
+    const first = queryPNodes(fleet, query('sort=performance&limit=2&fields=performanceScore'))
+    expect(first.pnodes).toEqual([
+      { id: 'a', performanceScore: 90 },
+      { id: 'c', performanceScore: 90 },
+    ])
+    expect(first.total).toBe(5)
+
+    const second = queryPNodes(
+      fleet,
+      query(`sort=performance&limit=2&fields=performanceScore&cursor=${first.nextCursor}`),
+    )
+    expect(second.pnodes.map((p) => p.id)).toEqual(['e', 'b'])
+
+    const last = queryPNodes(fleet, query(`sort=performance&limit=2&cursor=${second.nextCursor}`))
+    expect(last.pnodes.map((p) => p.id)).toEqual(['d'])
+    expect(last.nextCursor).toBeNull()
+  })
+})
+
+describe('parsePNodeQuery', () => {
+  it('should order pages by id unless a sort is given', () => {
+    expect(query('limit=10').sort).toEqual({ field: 'id', order: 'asc' })
+    expect(query('sort=uptime').sort).toEqual({ field: 'uptime', order: 'desc' })
+    expect(query('sort=location').sort).toEqual({ field: 'location', order: 'asc' })
+  })
+
+  it('should reject invalid values and cursors from another sort', () => {
+    const error = (params: string) => parsePNodeQuery(new URLSearchParams(params)).error
+
+    expect(error('status=busy')).toMatch(/^status must be one of/)
+    expect(error('minPerformance=101')).toBe('minPerformance must be a number between 0 and 100')
+    expect(error('limit=0')).toBe('limit must be an integer between 1 and 1000')
+    expect(error('sort=name')).toMatch(/^sort must be one of/)
+    expect(error('fields=id,secret')).toMatch(/^Unknown field "secret"/)
+    expect(error('cursor=nonsense')).toBe('cursor is invalid or was issued for a different sort')
+
+    const { nextCursor } = queryPNodes(fleet, query('sort=performance&limit=1'))
+    expect(error(`sort=uptime&cursor=${nextCursor}`)).toBe('cursor is invalid or was issued for a different sort')
+  })
+})
+
+describe('v1 listPNodes response', () => {
+  // handleV1 only logs schema mismatches, so hold pages to the schema here
+  it.each(['', 'sort=performance&limit=2', 'fields=status,storage'])('should match the schema for "%s"', (params) => {
+    const page = queryPNodes(fleet, query(params))
+    const wire = JSON.parse(
+      JSON.stringify({ success: true, data: page.pnodes, meta: { total: page.total, nextCursor: page.nextCursor } }),
+    )
+
+    expect(V1_ENDPOINTS.listPNodes.response.safeParse(wire).error).toBeUndefined()
+  })
+})
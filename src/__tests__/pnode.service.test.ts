@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { pnodeService } from '@/services/pnode.service'
+import { getProberService } from '@/services/prober.service'
+import type { PNode } from '@/types/pnode'
 
 // Mock response data matching Xandeum RPC format
 const mockClusterNodes = {
@@ -135,6 +137,96 @@ describe('pnodeService', () => {
   })
 })
 
+describe('fleet snapshot', () => {
+  const cachedPNode = (id: string, overrides: Partial<PNode> = {}) =>
+    ({
+      id,
+      status: 'online',
+      isPublic: false,
+      gossipEndpoint: '203.0.113.7:9001',
+      pnrpcPort: 6000,
+      performanceScore: 70,
+      storage: { capacityBytes: 1e12, usedBytes: 1e9, utilization: 0.1, fileSystems: 1 },
+      performance: { averageLatency: 25, successRate: 99.5, uptime: 10, lastUpdated: 0, isEstimated: true },
+      ...overrides,
+    }) as PNode
+
+  beforeEach(() => {
+    globalThis.pnodeFleetSnapshot = undefined
+  })
+
+  afterEach(() => {
+    globalThis.pnodeFleetSnapshot = undefined
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should share one fleet fetch between concurrent requests and reuse it while fresh', async () => {
+    const fetchAll = vi.spyOn(pnodeService, 'fetchAllPNodes').mockResolvedValue([cachedPNode('a')])
+
+    const [first, second] = await Promise.all([pnodeService.getFleetSnapshot(), pnodeService.getFleetSnapshot()])
+    const third = await pnodeService.getFleetSnapshot()
+
+    expect(fetchAll).toHaveBeenCalledTimes(1)
+    expect(first).toBe(second)
+    expect(third).toBe(first)
+  })
+
+  it('should read a single pNode from the snapshot without fetching the fleet', async () => {
+    const fetchAll = vi.spyOn(pnodeService, 'fetchAllPNodes')
+    const probe = vi.spyOn(getProberService(), 'probe')
+    pnodeService.setFleetSnapshot([cachedPNode('a'), cachedPNode('b')])
+
+    const pnode = await pnodeService.fetchPNode('b')
+
+    expect(pnode?.id).toBe('b')
+    expect(await pnodeService.fetchPNode('missing')).toBeNull()
+    expect(fetchAll).not.toHaveBeenCalled()
+    // Not public, so get-stats isn't reachable
+    expect(probe).not.toHaveBeenCalled()
+  })
+
+  it('should refetch a stale fleet snapshot to find a pNode that joined since', async () => {
+    const fetchAll = vi
+      .spyOn(pnodeService, 'fetchAllPNodes')
+      .mockResolvedValue([cachedPNode('a'), cachedPNode('newcomer')])
+    globalThis.pnodeFleetSnapshot = { pnodes: [cachedPNode('a')], updatedAt: Date.now() - 10 * 60 * 1000 }
+
+    const pnode = await pnodeService.fetchPNode('newcomer')
+
+    expect(pnode?.id).toBe('newcomer')
+    expect(fetchAll).toHaveBeenCalledTimes(1)
+    // The refreshed snapshot then answers without another fetch
+    expect((await pnodeService.fetchPNode('a'))?.id).toBe('a')
+    expect(fetchAll).toHaveBeenCalledTimes(1)
+  })
+
+  it('should refresh a public pNode with a get-stats call to that node', async () => {
+    // Probing only happens server-side
+    vi.stubGlobal('window', undefined)
+    const prober = getProberService()
+    const probe = vi.spyOn(prober, 'probe').mockResolvedValue({
+      sample: { timestamp: Date.now(), latencyMs: 12, success: true },
+      result: {
+        active_streams: 3,
+        cpu_percent: 7.5,
+        packets_received: 100,
+        packets_sent: 90,
+        ram_total: 8e9,
+        ram_used: 2e9,
+        uptime: 15 * 24 * 60 * 60,
+      },
+    })
+    pnodeService.setFleetSnapshot([cachedPNode('a', { isPublic: true })])
+
+    const pnode = await pnodeService.fetchPNode('a')
+
+    expect(probe).toHaveBeenCalledWith('a', '203.0.113.7', 6000)
+    expect(pnode?.networkMetrics).toMatchObject({ cpuPercent: 7.5, activeStreams: 3 })
+    expect(pnode?.performance.uptime).toBe(50)
+  })
+})
+
 describe('pNode Data Transformation', () => {
   it('should assign correct status based on last_seen timestamp', async () => {
     const recentTimestamp = Math.floor(Date.now() / 1000) - 60 // 1 minute ago (online)
@@ -0,0 +1,101 @@
+// @vitest-environment node
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { ProberService } from '@/services/prober.service'
+
+/**
+ * Minimal stand-in for a pNode's pnRPC endpoint. Behaviour is picked per request
+ * with the `mode` variable so each test can script responses.
+ */
+let mode: 'ok' | 'slow' | 'rpc-error' | 'http-error' = 'ok'
+
+const server = http.createServer((req, res) => {
+  let body = ''
+  req.on('data', (chunk) => {
+    body += chunk
+  })
+  req.on('end', () => {
+    const { method, id } = JSON.parse(body)
+    const reply = () => {
+      if (mode === 'http-error') {
+        res.writeHead(503)
+        res.end()
+        return
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(
+        JSON.stringify(
+          mode === 'rpc-error'
+            ? { jsonrpc: '2.0', error: { code: -32601, message: 'unavailable' }, id }
+            : { jsonrpc: '2.0', result: { method, cpu_percent: 12.5, uptime: 3600 }, error: null, id },
+        ),
+      )
+    }
+    if (mode === 'slow') setTimeout(reply, 300)
+    else reply()
+  })
+})
+
+let port: number
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  port = (server.address() as AddressInfo).port
+})
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve))
+})
+
+describe('ProberService', () => {
+  it('should time get-stats and return its result', async () => {
+    mode = 'ok'
+    const prober = new ProberService()
+
+    const { sample, result } = await prober.probe<{ method: string; cpu_percent: number }>('node1', '127.0.0.1', port)
+
+    expect(sample.success).toBe(true)
+    expect(sample.latencyMs).toBeGreaterThan(0)
+    expect(result).toMatchObject({ method: 'get-stats', cpu_percent: 12.5 })
+  })
+
+  it('should count HTTP errors, JSON-RPC errors and timeouts as failures', async () => {
+    const prober = new ProberService({ timeoutMs: 100 })
+
+    mode = 'ok'
+    await prober.probe('node1', '127.0.0.1', port)
+    mode = 'http-error'
+    await prober.probe('node1', '127.0.0.1', port)
+    mode = 'rpc-error'
+    await prober.probe('node1', '127.0.0.1', port)
+    mode = 'slow'
+    const { sample } = await prober.probe('node1', '127.0.0.1', port)
+
+    expect(sample).toMatchObject({ success: false, error: 'pnRPC request timed out' })
+    expect(prober.getStats('node1')).toMatchObject({ samples: 4, failures: 3, successRate: 25 })
+  })
+
+  it('should report latency percentiles over the rolling window', () => {
+    const prober = new ProberService({ windowMs: 60_000 })
+    const now = Date.now()
+
+    // Outside the window
+    prober.record('node1', { timestamp: now - 120_000, latencyMs: 5000, success: true })
+    for (let i = 1; i <= 100; i++) {
+      prober.record('node1', { timestamp: now, latencyMs: i, success: true })
+    }
+
+    const stats = prober.getStats('node1')!
+    expect(stats.samples).toBe(100)
+    expect(stats.successRate).toBe(100)
+    expect(stats.averageLatency).toBe(50.5)
+    expect(stats.latencyP50).toBe(50.5)
+    expect(stats.latencyP95).toBeCloseTo(95.05)
+    expect(stats.latencyP99).toBeCloseTo(99.01)
+  })
+
+  it('should return null for nodes that were never probed', () => {
+    expect(new ProberService().getStats('unknown')).toBeNull()
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+type Range = { gte?: Date; lt?: Date; lte?: Date }
+type SnapshotRow = { id: string; timestamp: Date; pnodeId: string; status: string; performanceScore: number }
+type EventRow = { id: string; timestamp: Date; type: string; title: string; pnodeId: string | null }
+
+const inRange = (timestamp: Date, range: Range) =>
+  (!range.gte || timestamp >= range.gte) &&
+  (!range.lt || timestamp < range.lt) &&
+  (!range.lte || timestamp <= range.lte)
+
+/** In-memory snapshots and events; no anomalies (too little network history) */
+const db = vi.hoisted(() => {
+  const state = { snapshots: [] as SnapshotRow[], events: [] as EventRow[], nextId: 1 }
+  return {
+    state,
+    pNode: { findMany: vi.fn() },
+    pNodeSnapshot: {
+      findFirst: vi.fn(async ({ where }: { where: { timestamp: Range } }) => {
+        const rows = state.snapshots.filter((row) => inRange(row.timestamp, where.timestamp))
+        return rows.length > 0 ? rows[rows.length - 1] : null
+      }),
+      findMany: vi.fn(async ({ where }: { where: { timestamp: Range } }) =>
+        state.snapshots.filter((row) => inRange(row.timestamp, where.timestamp)),
+      ),
+    },
+    networkSnapshot: { findMany: vi.fn(async () => []) },
+    networkEvent: {
+      findMany: vi.fn(async ({ where }: { where: { timestamp: Range } }) =>
+        state.events.filter((row) => inRange(row.timestamp, where.timestamp)),
+      ),
+      deleteMany: vi.fn(async ({ where }: { where: { id: { in: string[] } } }) => {
+        state.events = state.events.filter((row) => !where.id.in.includes(row.id))
+      }),
+      createMany: vi.fn(async ({ data }: { data: Omit<EventRow, 'id'>[] }) => {
+        state.events.push(...data.map((row) => ({ ...row, pnodeId: row.pnodeId ?? null, id: `e${state.nextId++}` })))
+      }),
+    },
+    anomaly: { findMany: vi.fn(async () => []), deleteMany: vi.fn(), createMany: vi.fn() },
+    $transaction: vi.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+  }
+})
+
+const retention = vi.hoisted(() => ({
+  rebuildHours: vi.fn(async () => [] as Date[]),
+  rebuildDays: vi.fn(async (times: Date[]) => times),
+}))
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+vi.mock('@/lib/lease', () => ({
+  Lease: class {
+    async run<T>(fn: () => Promise<T>) {
+      return { acquired: true, result: await fn() }
+    }
+  },
+}))
+vi.mock('@/services/retention.service', () => ({ getRetentionService: () => retention }))
+
+import { ReplayService, parseReplayOptions } from '@/services/replay.service'
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 16, 12, 0, seconds))
+const snapshot = (seconds: number, pnodeId: string, status = 'online'): SnapshotRow => ({
+  id: `s-${seconds}-${pnodeId}`,
+  timestamp: at(seconds),
+  pnodeId,
+  status,
+  performanceScore: 80,
+})
+
+describe('ReplayService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    db.pNode.findMany.mockResolvedValue([
+      { id: 'id-a', pubkey: 'pubkey-a', firstSeen: at(-3600), version: '1.0.0', location: null },
+      // First seen in the first set of the range
+      { id: 'id-b', pubkey: 'pubkey-b', firstSeen: at(0), version: '1.0.0', location: null },
+    ])
+    db.state.snapshots = [
+      // Set before the range seeds the previous states
+      snapshot(-30, 'id-a'),
+      snapshot(0, 'id-a'),
+      snapshot(0, 'id-b'),
+      snapshot(30, 'id-a', 'offline'),
+      snapshot(30, 'id-b'),
+    ]
+    db.state.events = [
+      // Written before events were stamped with their cycle time
+      { id: 'stored-new', timestamp: at(2), type: 'NODE_ONLINE', title: 'New pNode Detected', pnodeId: 'id-b' },
+      // Not implied by the snapshots
+      { id: 'stored-stale', timestamp: at(31), type: 'NODE_OFFLINE', title: 'pNode Left Network', pnodeId: 'id-a' },
+    ]
+  })
+
+  it('should report the differences from stored events without writing them in a dry run', async () => {
+    const result = await new ReplayService().replay({ from: at(-10), to: at(60), dryRun: true })
+
+    expect(result?.snapshotSets).toBe(2)
+    expect(result?.events).toEqual({ derived: 2, unchanged: 1, created: 1, deleted: 1 })
+    expect(result?.changes).toEqual([
+      {
+        action: 'create',
+        table: 'events',
+        timestamp: at(30).toISOString(),
+        title: 'pNode Status Changed to OFFLINE',
+        pnodePubkey: 'pubkey-a',
+      },
+      {
+        action: 'delete',
+        table: 'events',
+        timestamp: at(31).toISOString(),
+        title: 'pNode Left Network',
+        pnodePubkey: 'pubkey-a',
+      },
+    ])
+    expect(db.$transaction).not.toHaveBeenCalled()
+    expect(retention.rebuildHours).toHaveBeenCalledWith(at(-10), at(60), { dryRun: true })
+    expect(retention.rebuildDays).toHaveBeenCalledWith([at(30), at(31)], { dryRun: true })
+  })
+
+  it('should apply only the differences and change nothing when replayed again', async () => {
+    const service = new ReplayService()
+    await service.replay({ from: at(-10), to: at(60), dryRun: false })
+
+    expect(db.state.events.map((event) => [event.id, event.title, event.pnodeId, event.timestamp])).toEqual([
+      ['stored-new', 'New pNode Detected', 'id-b', at(2)],
+      ['e1', 'pNode Status Changed to OFFLINE', 'id-a', at(30)],
+    ])
+
+    const again = await service.replay({ from: at(-10), to: at(60), dryRun: false })
+    expect(again?.events).toEqual({ derived: 2, unchanged: 2, created: 0, deleted: 0 })
+    expect(again?.changes).toEqual([])
+  })
+})
+
+describe('parseReplayOptions', () => {
+  const now = at(0)
+
+  it('should default `to` to now and dryRun to false', () => {
+    expect(parseReplayOptions({ from: '2026-01-15T12:00:00Z' }, now)).toEqual({
+      options: { from: new Date('2026-01-15T12:00:00Z'), to: now, dryRun: false },
+    })
+  })
+
+  it('should reject invalid dates, reversed and overlong ranges', () => {
+    expect(parseReplayOptions({}, now)).toEqual({ error: 'from must be an ISO date' })
+    expect(parseReplayOptions({ from: '2026-01-15', to: 'soon' }, now)).toEqual({ error: 'to must be an ISO date' })
+    expect(parseReplayOptions({ from: '2026-01-17' }, now)).toEqual({ error: 'from must be before to' })
+    expect(parseReplayOptions({ from: '2025-11-01' }, now)).toEqual({ error: 'Range must be at most 31 days' })
+    expect(parseReplayOptions({ from: '2026-01-15', dryRun: 'yes' }, now)).toEqual({
+      error: 'dryRun must be a boolean',
+    })
+  })
+})
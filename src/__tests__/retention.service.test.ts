@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+type Row = Record<string, unknown> & { timestamp?: Date; bucketStart?: Date; resolution?: string }
+
+/**
+ * In-memory stand-ins for the tables the retention service touches, supporting just the
+ * filters it uses (timestamp/bucketStart ranges and resolution)
+ */
+const tables = vi.hoisted(() => ({
+  pNodeSnapshot: [] as Row[],
+  networkSnapshot: [] as Row[],
+  pNodeRollup: [] as Row[],
+  networkRollup: [] as Row[],
+}))
+
+const db = vi.hoisted(() => {
+  type Where = Record<string, unknown>
+  const matches = (row: Row, where: Where = {}) =>
+    Object.entries(where).every(([key, condition]) => {
+      const value = row[key]
+      if (condition instanceof Date) return (value as Date).getTime() === condition.getTime()
+      if (condition && typeof condition === 'object') {
+        const { gte, lt, lte } = condition as { gte?: Date; lt?: Date; lte?: Date }
+        const time = (value as Date).getTime()
+        return (!gte || time >= gte.getTime()) && (!lt || time < lt.getTime()) && (!lte || time <= lte.getTime())
+      }
+      return value === condition
+    })
+  const table = (name: keyof typeof tables, timeField: 'timestamp' | 'bucketStart') => ({
+    findFirst: vi.fn(async ({ where, orderBy }: { where?: Where; orderBy: Record<string, 'asc' | 'desc'> }) => {
+      const rows = tables[name].filter((row) => matches(row, where))
+      const direction = orderBy[timeField] === 'desc' ? -1 : 1
+      rows.sort((a, b) => direction * ((a[timeField] as Date).getTime() - (b[timeField] as Date).getTime()))
+      return rows[0] ?? null
+    }),
+    findMany: vi.fn(async ({ where }: { where?: Where } = {}) => tables[name].filter((row) => matches(row, where))),
+    createMany: vi.fn(async ({ data }: { data: Row[] }) => {
+      tables[name].push(...data)
+      return { count: data.length }
+    }),
+    deleteMany: vi.fn(async ({ where }: { where?: Where } = {}) => {
+      const before = tables[name].length
+      tables[name] = tables[name].filter((row) => !matches(row, where))
+      return { count: before - tables[name].length }
+    }),
+  })
+
+  return {
+    pNodeSnapshot: table('pNodeSnapshot', 'timestamp'),
+    networkSnapshot: table('networkSnapshot', 'timestamp'),
+    pNodeRollup: table('pNodeRollup', 'bucketStart'),
+    networkRollup: table('networkRollup', 'bucketStart'),
+    validatorSnapshot: { deleteMany: vi.fn(async () => ({ count: 0 })) },
+    economicsSnapshot: { deleteMany: vi.fn(async () => ({ count: 0 })) },
+    indexerRun: { deleteMany: vi.fn(async () => ({ count: 0 })) },
+    apiKeyUsage: { deleteMany: vi.fn(async () => ({ count: 0 })) },
+    networkEvent: { groupBy: vi.fn(async () => []) },
+    pNode: { count: vi.fn(async () => 0) },
+    dailyAnalytics: { upsert: vi.fn() },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  }
+})
+
+vi.mock('@/lib/prisma', () => ({ prisma: db }))
+
+import { RetentionService } from '@/services/retention.service'
+
+const at = (iso: string) => new Date(`2026-01-12T${iso}Z`)
+
+const pnodeSnapshot = (timestamp: Date, performanceScore: number) => ({
+  timestamp,
+  pnodeId: 'pnode-1',
+  performanceScore,
+  uptime: 99,
+  utilization: 10,
+  averageLatency: 20,
+  successRate: 100,
+})
+
+const networkSnapshot = (timestamp: Date, totalPNodes: number) => ({
+  timestamp,
+  totalPNodes,
+  onlinePNodes: totalPNodes,
+  healthScore: 90,
+  averagePerformance: 80,
+  averageLatency: 25,
+  networkUtilization: 5,
+  totalCapacityBytes: BigInt(1e12),
+  totalUsedBytes: BigInt(5e10),
+})
+
+describe('RetentionService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tables.pNodeSnapshot = [
+      pnodeSnapshot(at('01:05:00'), 60),
+      pnodeSnapshot(at('01:35:00'), 80),
+      pnodeSnapshot(at('02:15:00'), 90),
+      pnodeSnapshot(at('03:05:00'), 95),
+    ]
+    tables.networkSnapshot = [
+      networkSnapshot(at('01:05:00'), 10),
+      networkSnapshot(at('01:35:00'), 12),
+      networkSnapshot(at('02:15:00'), 12),
+      networkSnapshot(at('03:05:00'), 13),
+    ]
+    tables.pNodeRollup = []
+    tables.networkRollup = []
+  })
+
+  it('should roll completed hours into min/avg/max/p95 rollups', async () => {
+    const service = new RetentionService({ rawDays: 7, hourlyDays: 90, dailyDays: 0 })
+
+    const result = await service.run(at('03:10:00'))
+
+    // The current hour (03:00) is still filling up
+    expect(result.hourlyBuckets).toBe(2)
+    expect(tables.pNodeRollup).toContainEqual(
+      expect.objectContaining({
+        pnodeId: 'pnode-1',
+        resolution: 'hourly',
+        bucketStart: at('01:00:00'),
+        metric: 'performanceScore',
+        samples: 2,
+        min: 60,
+        avg: 70,
+        max: 80,
+      }),
+    )
+    expect(tables.networkRollup).toContainEqual(
+      expect.objectContaining({ bucketStart: at('01:00:00'), metric: 'totalPNodes', avg: 11, max: 12 }),
+    )
+  })
+
+  it('should be idempotent and pick up where the last run stopped', async () => {
+    const service = new RetentionService({ rawDays: 7, hourlyDays: 90, dailyDays: 0 })
+
+    await service.run(at('03:10:00'))
+    const rollupCount = tables.networkRollup.length
+    const second = await service.run(at('04:10:00'))
+
+    expect(second.hourlyBuckets).toBe(1)
+    expect(tables.networkRollup.length).toBe(rollupCount + 8)
+    expect(tables.networkRollup.filter((row) => row.bucketStart!.getTime() === at('01:00:00').getTime())).toHaveLength(
+      8,
+    )
+  })
+
+  it('should roll completed days into daily rollups and DailyAnalytics', async () => {
+    const previousDay = new Date('2026-01-11T10:00:00Z')
+    tables.pNodeSnapshot.unshift(pnodeSnapshot(previousDay, 50))
+    tables.networkSnapshot.unshift(
+      networkSnapshot(previousDay, 8),
+      networkSnapshot(new Date('2026-01-11T22:00:00Z'), 9),
+    )
+    db.pNode.count.mockResolvedValueOnce(2)
+    const service = new RetentionService({ rawDays: 7, hourlyDays: 90, dailyDays: 0 })
+
+    const result = await service.run(at('03:10:00'))
+
+    expect(result.dailyBuckets).toBe(1)
+    expect(tables.pNodeRollup).toContainEqual(
+      expect.objectContaining({ resolution: 'daily', metric: 'performanceScore', samples: 1, avg: 50 }),
+    )
+    expect(db.dailyAnalytics.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { date: new Date('2026-01-11T00:00:00Z') },
+        update: expect.objectContaining({ avgPNodes: 9, peakPNodes: 9, minPNodes: 8, avgUptime: 99, newPNodes: 2 }),
+      }),
+    )
+  })
+
+  it('should never prune raw snapshots that are not rolled up yet', async () => {
+    const service = new RetentionService({ rawDays: 0, hourlyDays: 90, dailyDays: 0 })
+
+    const result = await service.run(at('03:10:00'))
+
+    expect(result.pruned).toMatchObject({ pnodeSnapshots: 3, networkSnapshots: 3 })
+    expect(tables.pNodeSnapshot.map((row) => row.timestamp)).toEqual([at('03:05:00')])
+  })
+
+  it('should rebuild only rolled-up hours whose rollups no longer match the raw snapshots', async () => {
+    const service = new RetentionService({ rawDays: 7, hourlyDays: 90, dailyDays: 0 })
+    await service.run(at('03:10:00'))
+    tables.pNodeSnapshot[0].performanceScore = 40
+    const hourlyScore = () =>
+      tables.pNodeRollup.find(
+        (row) => row.bucketStart!.getTime() === at('01:00:00').getTime() && row.metric === 'performanceScore',
+      )
+
+    // 03:00 hasn't been rolled up yet, so it's left to the next regular run
+    expect(await service.rebuildHours(at('00:00:00'), at('04:00:00'), { dryRun: true }, at('03:20:00'))).toEqual([
+      at('01:00:00'),
+    ])
+    expect(hourlyScore()).toMatchObject({ min: 60, avg: 70 })
+
+    await service.rebuildHours(at('00:00:00'), at('04:00:00'), {}, at('03:20:00'))
+    expect(hourlyScore()).toMatchObject({ min: 40, avg: 60 })
+    expect(await service.rebuildHours(at('00:00:00'), at('04:00:00'), {}, at('03:20:00'))).toEqual([])
+  })
+
+  it('should run at most once per clock hour', async () => {
+    const service = new RetentionService({ rawDays: 7, hourlyDays: 90, dailyDays: 0 })
+
+    expect(await service.runIfDue(at('03:10:00'))).not.toBeNull()
+    expect(await service.runIfDue(at('03:50:00'))).toBeNull()
+    expect(await service.runIfDue(at('04:01:00'))).not.toBeNull()
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import {
+  downsample,
+  mergeSummaries,
+  parseHistoryOptions,
+  resolveHistoryOptions,
+  selectHistoryTier,
+  summarize,
+} from '@/lib/time-series'
+
+const HOUR = 60 * 60 * 1000
+const start = Date.UTC(2026, 0, 12)
+
+describe('downsample', () => {
+  const points = [
+    { timestamp: start, value: 80 },
+    { timestamp: start + 20 * 60 * 1000, value: 90 },
+    { timestamp: start + HOUR + 5 * 60 * 1000, value: 70 },
+    { timestamp: start + 25 * HOUR, value: 60 },
+  ]
+
+  it('should average points into hourly buckets stamped with the bucket start', () => {
+    expect(downsample(points, 'hourly')).toEqual([
+      { timestamp: start, value: 85 },
+      { timestamp: start + HOUR, value: 70 },
+      { timestamp: start + 25 * HOUR, value: 60 },
+    ])
+  })
+
+  it('should average points into daily buckets', () => {
+    expect(downsample(points, 'daily')).toEqual([
+      { timestamp: start, value: 80 },
+      { timestamp: start + 24 * HOUR, value: 60 },
+    ])
+  })
+
+  it('should return raw points unchanged', () => {
+    expect(downsample(points, 'raw')).toBe(points)
+  })
+})
+
+describe('history options', () => {
+  it('should pick a resolution suited to the range', () => {
+    expect(resolveHistoryOptions()).toEqual({ range: '30d', resolution: 'daily' })
+    expect(resolveHistoryOptions({ range: '24h' })).toEqual({ range: '24h', resolution: 'hourly' })
+    expect(resolveHistoryOptions({ range: '90d', resolution: 'raw' })).toEqual({ range: '90d', resolution: 'raw' })
+  })
+
+  it('should parse query parameters and reject unknown values', () => {
+    expect(parseHistoryOptions(new URLSearchParams('range=7d&resolution=raw'))).toEqual({
+      options: { range: '7d', resolution: 'raw' },
+    })
+    expect(parseHistoryOptions(new URLSearchParams(''))).toEqual({
+      options: { range: undefined, resolution: undefined },
+    })
+    expect(parseHistoryOptions(new URLSearchParams('range=1y'))).toHaveProperty('error')
+    expect(parseHistoryOptions(new URLSearchParams('resolution=minutely'))).toHaveProperty('error')
+  })
+})
+
+describe('rollup tiers', () => {
+  const now = start + 30 * 24 * HOUR
+  const rawRetention = 7 * 24 * HOUR
+
+  it('should read raw snapshots inside raw retention and rollups beyond it', () => {
+    expect(selectHistoryTier(now - 24 * HOUR, 'hourly', rawRetention, now)).toBe('raw')
+    expect(selectHistoryTier(now - 30 * 24 * HOUR, 'daily', rawRetention, now)).toBe('daily')
+    expect(selectHistoryTier(now - 30 * 24 * HOUR, 'hourly', rawRetention, now)).toBe('hourly')
+    expect(selectHistoryTier(now - 30 * 24 * HOUR, 'raw', rawRetention, now)).toBe('raw')
+  })
+
+  it('should summarize values and merge summaries weighted by samples', () => {
+    const first = summarize([10, 20, 30, 40])
+    const second = summarize([100])
+
+    expect(first).toMatchObject({ samples: 4, min: 10, avg: 25, max: 40 })
+    expect(first.p95).toBeCloseTo(38.5)
+    expect(mergeSummaries([first, second])).toMatchObject({ samples: 5, min: 10, avg: 40, max: 100 })
+    expect(mergeSummaries([])).toMatchObject({ samples: 0 })
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { buildVersionRegistry, compareVersions, parseVersion } from '@/lib/versions'
+
+describe('parseVersion', () => {
+  it('should parse release, prefixed and pre-release versions', () => {
+    expect(parseVersion('0.8.0')).toEqual({ major: 0, minor: 8, patch: 0, prerelease: undefined })
+    expect(parseVersion('v1.2')).toEqual({ major: 1, minor: 2, patch: 0, prerelease: undefined })
+    expect(parseVersion('0.8.0-trynet.20251201')?.prerelease).toBe('trynet.20251201')
+    expect(parseVersion('unknown')).toBeNull()
+  })
+
+  it('should order a pre-release before its release', () => {
+    expect(compareVersions(parseVersion('0.8.0-rc.1')!, parseVersion('0.8.0')!)).toBeLessThan(0)
+    expect(compareVersions(parseVersion('0.10.0')!, parseVersion('0.9.5')!)).toBeGreaterThan(0)
+  })
+})
+
+describe('buildVersionRegistry', () => {
+  const fleet = ['0.8.0', '0.8.0', '0.7.3', '0.7.0', '0.9.0-trynet.1', 'unknown']
+
+  it('should take the newest stable fleet version as latest', () => {
+    const registry = buildVersionRegistry(fleet)
+
+    expect(registry.latest).toBe('0.8.0')
+    expect(registry.releases).toEqual(['0.8.0', '0.7.3', '0.7.0'])
+    expect(registry.getInfo('0.8.0')).toEqual({ latest: '0.8.0', outdated: false, versionsBehind: 0 })
+    expect(registry.getInfo('0.7.0')).toEqual({ latest: '0.8.0', outdated: true, versionsBehind: 2 })
+    expect(registry.getInfo('0.9.0-trynet.1')?.outdated).toBe(false)
+    expect(registry.getInfo('unknown')).toBeNull()
+  })
+
+  it('should ignore a version too few nodes report', () => {
+    const registry = buildVersionRegistry([...Array(10).fill('0.8.0'), '0.7.3', '9.9.9'])
+
+    expect(registry.latest).toBe('0.8.0')
+    expect(registry.getInfo('0.8.0')?.outdated).toBe(false)
+    expect(registry.getInfo('9.9.9')?.outdated).toBe(false)
+    expect(buildVersionRegistry(['0.8.0', '0.8.0', '0.9.0'], { minShare: 0.5 }).latest).toBe('0.8.0')
+    expect(buildVersionRegistry(['0.8.0', '0.8.0', '0.9.0'], { minShare: 0.3 }).latest).toBe('0.9.0')
+  })
+
+  it('should fall back to the most widely run version when none reaches the share', () => {
+    expect(buildVersionRegistry(['0.7.0', '0.7.0', '0.8.0'], { minShare: 0.9 }).latest).toBe('0.7.0')
+  })
+
+  it('should prefer a configured target version', () => {
+    const registry = buildVersionRegistry(fleet, { target: 'v0.9.0' })
+
+    expect(registry.latest).toBe('0.9.0')
+    expect(registry.getInfo('0.8.0')).toMatchObject({ outdated: true, versionsBehind: 1 })
+    expect(registry.getInfo('0.9.0-trynet.1')).toMatchObject({ outdated: true, versionsBehind: 1 })
+  })
+})
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeyService, isAdminAuthorized } from '@/services/api-key.service';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/admin/keys/[id]/rotate
+ * Issue a new key for an API key, keeping its name, scopes and limits. The old key stops
+ * working immediately and the new one is only returned in this response.
+ * Requires `Authorization: Bearer <ADMIN_SECRET>`.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    if (!isAdminAuthorized(request.headers.get('authorization'))) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const { id } = await params;
+        const issued = await getApiKeyService().rotate(id);
+        if (!issued) {
+            return NextResponse.json({ success: false, error: `API key ${id} not found` }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, data: issued });
+    } catch (error) {
+        console.error('[API] API key rotate error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to rotate API key' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeyService, isAdminAuthorized } from '@/services/api-key.service';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * DELETE /api/admin/keys/[id]
+ * Revoke an API key. It stops working immediately; the row and its usage are kept.
+ * Requires `Authorization: Bearer <ADMIN_SECRET>`.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    if (!isAdminAuthorized(request.headers.get('authorization'))) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const { id } = await params;
+        const revoked = await getApiKeyService().revoke(id);
+        if (!revoked) {
+            return NextResponse.json({ success: false, error: `API key ${id} not found` }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, data: revoked });
+    } catch (error) {
+        console.error('[API] API key revoke error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to revoke API key' },
+            { status: 500 }
+        );
+    }
+}
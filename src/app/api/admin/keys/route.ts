@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeyService, isAdminAuthorized, parseApiKeyInput } from '@/services/api-key.service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/keys
+ * List API keys (without the keys themselves). Requires `Authorization: Bearer <ADMIN_SECRET>`.
+ */
+export async function GET(request: NextRequest) {
+    if (!isAdminAuthorized(request.headers.get('authorization'))) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const keys = await getApiKeyService().list();
+        return NextResponse.json({ success: true, data: keys });
+    } catch (error) {
+        console.error('[API] API key list error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to list API keys' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/admin/keys
+ * Mint an API key. The key is only returned in this response.
+ * Body: { name, permissions: string[], description?, rateLimit? (requests/hour, default 1000), expiresAt? }
+ */
+export async function POST(request: NextRequest) {
+    if (!isAdminAuthorized(request.headers.get('authorization'))) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const body = await request.json().catch(() => null);
+        const { input, error } = parseApiKeyInput(body);
+        if (error) {
+            return NextResponse.json({ success: false, error }, { status: 400 });
+        }
+
+        const issued = await getApiKeyService().mint(input!);
+        return NextResponse.json({ success: true, data: issued }, { status: 201 });
+    } catch (error) {
+        console.error('[API] API key mint error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to create API key' },
+            { status: 500 }
+        );
+    }
+}
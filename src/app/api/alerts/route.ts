@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAlertService } from '@/services/alert.service';
+import { actorFromHeaders } from '@/services/api-key.service';
 
 /**
  * GET /api/alerts
@@ -13,10 +14,7 @@ export async function GET(request: NextRequest) {
         const unresolved = searchParams.get('unresolved') === 'true';
 
         // Get alerts - filter by unresolved if requested
-        let alerts = unresolved ? alertService.getActiveAlerts() : alertService.getAlerts();
-
-        // Apply limit
-        alerts = alerts.slice(0, limit);
+        const alerts = await alertService.getAlerts({ limit, unresolved });
 
         return NextResponse.json({
             success: true,
@@ -37,13 +35,23 @@ export async function GET(request: NextRequest) {
 
 /**
  * PATCH /api/alerts
- * Resolve alerts
+ * Resolve or acknowledge an alert, recorded under the name of the API key or signed-in
+ * session the request was made with
+ * Body: { alertId: string, action?: 'resolve' | 'acknowledge', note?: string }
  */
 export async function PATCH(request: NextRequest) {
     try {
+        const actor = actorFromHeaders(request.headers);
+        if (!actor) {
+            return NextResponse.json(
+                { success: false, error: 'Sign in or send an API key to update alerts' },
+                { status: 401 }
+            );
+        }
+
         const alertService = getAlertService();
         const body = await request.json();
-        const { alertId } = body;
+        const { alertId, action = 'resolve', note } = body;
 
         if (!alertId) {
             return NextResponse.json(
@@ -52,12 +60,24 @@ export async function PATCH(request: NextRequest) {
             );
         }
 
-        alertService.resolveAlert(alertId);
+        if (action === 'acknowledge') {
+            await alertService.acknowledgeAlert(alertId, actor, typeof note === 'string' ? note.trim() : undefined);
+            return NextResponse.json({ success: true, message: 'Alert acknowledged' });
+        }
+
+        if (action !== 'resolve') {
+            return NextResponse.json(
+                { success: false, error: `Invalid action: ${action}` },
+                { status: 400 }
+            );
+        }
+
+        await alertService.resolveAlert(alertId, actor);
         return NextResponse.json({ success: true, message: 'Alert resolved' });
     } catch (error) {
         console.error('[API] Alert resolve error:', error);
         return NextResponse.json(
-            { success: false, error: 'Failed to resolve alert(s)' },
+            { success: false, error: 'Failed to update alert' },
             { status: 500 }
         );
     }
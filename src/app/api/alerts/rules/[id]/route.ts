@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAlertService, isDefaultRule, parseAlertRuleInput } from '@/services/alert.service';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/alerts/rules/[id]
+ * Get a single alert rule
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const rule = await getAlertService().getRule(id);
+        if (!rule) {
+            return NextResponse.json({ success: false, error: `Rule ${id} not found` }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, data: rule });
+    } catch (error) {
+        console.error('[API] Alert rule fetch error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch alert rule' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * PUT /api/alerts/rules/[id]
+ * Update an alert rule. Omitted fields keep their current value.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const alertService = getAlertService();
+        const existing = await alertService.getRule(id);
+        if (!existing) {
+            return NextResponse.json({ success: false, error: `Rule ${id} not found` }, { status: 404 });
+        }
+
+        const body = await request.json().catch(() => null);
+        const { rule, error } = parseAlertRuleInput(body, existing);
+        if (error) {
+            return NextResponse.json({ success: false, error }, { status: 400 });
+        }
+
+        const updated = await alertService.updateRule(id, rule!);
+
+        return NextResponse.json({ success: true, data: updated });
+    } catch (error) {
+        console.error('[API] Alert rule update error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to update alert rule' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/alerts/rules/[id]
+ * Delete a custom alert rule and its alerts. Built-in rules can only be disabled.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        if (isDefaultRule(id)) {
+            return NextResponse.json(
+                { success: false, error: 'Built-in rules cannot be deleted; disable them instead' },
+                { status: 400 }
+            );
+        }
+
+        const deleted = await getAlertService().deleteRule(id);
+        if (!deleted) {
+            return NextResponse.json({ success: false, error: `Rule ${id} not found` }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, message: `Rule ${id} deleted` });
+    } catch (error) {
+        console.error('[API] Alert rule delete error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to delete alert rule' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAlertService } from '@/services/alert.service';
+import { getAlertService, parseAlertRuleInput } from '@/services/alert.service';
 
 /**
  * GET /api/alerts/rules
@@ -11,7 +11,7 @@ export async function GET(request: NextRequest) {
         const searchParams = request.nextUrl.searchParams;
         const includeDisabled = searchParams.get('includeDisabled') === 'true';
 
-        let rules = alertService.getRules();
+        let rules = await alertService.getRules();
 
         // Filter out disabled rules if not requested
         if (!includeDisabled) {
@@ -31,6 +31,32 @@ export async function GET(request: NextRequest) {
     }
 }
 
+/**
+ * POST /api/alerts/rules
+ * Create a custom alert rule
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const alertService = getAlertService();
+        const body = await request.json().catch(() => null);
+
+        const { rule, error } = parseAlertRuleInput(body);
+        if (error) {
+            return NextResponse.json({ success: false, error }, { status: 400 });
+        }
+
+        const created = await alertService.createRule(rule!);
+
+        return NextResponse.json({ success: true, data: created }, { status: 201 });
+    } catch (error) {
+        console.error('[API] Alert rule create error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to create alert rule' },
+            { status: 500 }
+        );
+    }
+}
+
 /**
  * PATCH /api/alerts/rules
  * Update an alert rule (enable/disable)
@@ -49,7 +75,7 @@ export async function PATCH(request: NextRequest) {
         }
 
         if (typeof enabled === 'boolean') {
-            alertService.toggleRule(ruleId, enabled);
+            await alertService.toggleRule(ruleId, enabled);
         }
 
         return NextResponse.json({
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAlertService } from '@/services/alert.service';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * DELETE /api/alerts/silences/[id]
+ * End a silence now (cancels it if it hasn't started). The row is kept for history.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const expired = await getAlertService().expireSilence(id);
+        if (!expired) {
+            return NextResponse.json(
+                { success: false, error: `Silence ${id} not found or already ended` },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true, message: `Silence ${id} ended` });
+    } catch (error) {
+        console.error('[API] Alert silence expire error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to end alert silence' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAlertService, parseSilenceInput } from '@/services/alert.service';
+import { actorFromHeaders } from '@/services/api-key.service';
+
+/**
+ * GET /api/alerts/silences
+ * Get silences and maintenance windows that haven't ended yet
+ * Query params:
+ *   - active: only those in effect now (true/false)
+ *   - includeExpired: also return ended ones (true/false)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const searchParams = request.nextUrl.searchParams;
+        const silences = await getAlertService().getSilences({
+            active: searchParams.get('active') === 'true',
+            includeExpired: searchParams.get('includeExpired') === 'true',
+        });
+
+        return NextResponse.json({
+            success: true,
+            data: silences,
+        });
+    } catch (error) {
+        console.error('[API] Alert silences fetch error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch alert silences' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/alerts/silences
+ * Create a silence or maintenance window, recorded under the calling API key or session
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const actor = actorFromHeaders(request.headers);
+        if (!actor) {
+            return NextResponse.json(
+                { success: false, error: 'Sign in or send an API key to create silences' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json().catch(() => null);
+
+        const { silence, error } = parseSilenceInput(body);
+        if (error) {
+            return NextResponse.json({ success: false, error }, { status: 400 });
+        }
+
+        const created = await getAlertService().createSilence({ ...silence!, createdBy: actor });
+
+        return NextResponse.json({ success: true, data: created }, { status: 201 });
+    } catch (error) {
+        console.error('[API] Alert silence create error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to create alert silence' },
+            { status: 500 }
+        );
+    }
+}
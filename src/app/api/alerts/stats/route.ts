@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { getAlertService } from '@/services/alert.service';
+
+/**
+ * GET /api/alerts/stats
+ * Get alert counts (total, active, critical, acknowledged, by type)
+ */
+export async function GET() {
+    try {
+        const alertService = getAlertService();
+        const stats = await alertService.getAlertStats();
+
+        return NextResponse.json({
+            success: true,
+            data: stats,
+        });
+    } catch (error) {
+        console.error('[API] Alert stats fetch error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to fetch alert stats' },
+            { status: 500 }
+        );
+    }
+}
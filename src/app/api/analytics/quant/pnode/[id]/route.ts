@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getQuantAnalyticsService } from '@/services/quant-analytics.service'
 import { pnodeService } from '@/services/pnode.service'
+import { parseHistoryOptions } from '@/lib/time-series'
+import type { PNodeDetails } from '@/types/pnode'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -9,6 +11,7 @@ interface RouteParams {
 /**
  * GET /api/analytics/quant/pnode/[id]
  * Get quantitative analytics for a specific pNode
+ * History used for risk and forecasts follows the `range` / `resolution` params of /api/pnodes/[id]
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
@@ -16,8 +19,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const quantService = getQuantAnalyticsService()
     const searchParams = request.nextUrl.searchParams
 
-    // Fetch all pNodes and find the specific one
-    const allPNodes = await pnodeService.fetchAllPNodes()
+    const parsed = parseHistoryOptions(searchParams)
+    if ('error' in parsed) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    // Fleet snapshot (needed for benchmarks) and the specific pNode
+    const allPNodes = await pnodeService.getFleetSnapshot()
     const pnode = allPNodes.find((p) => p.id === id)
 
     if (!pnode) {
@@ -31,13 +39,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const type = searchParams.get('type') || 'all'
 
     // Optionally fetch detailed data with history
-    let pnodeHistory: {
-      performanceScores: { timestamp: number; value: number }[]
-      storageUtilization: { timestamp: number; value: number }[]
-      uptimeHistory: { timestamp: number; value: number }[]
-    } | undefined
+    let pnodeHistory: PNodeDetails['history'] | undefined
     try {
-      const details = await pnodeService.fetchPNodeDetails(id)
+      const details = await pnodeService.fetchPNodeDetails(id, parsed.options)
       pnodeHistory = details.history
     } catch {
       // Continue with basic pnode data if details fetch fails
@@ -72,7 +76,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       type,
       data,
       meta: {
-        hasHistory: !!pnodeHistory,
+        hasHistory: history.length > 0,
+        historyPoints: history.length,
+        range: pnodeHistory?.range,
+        resolution: pnodeHistory?.resolution,
         networkSize: allPNodes.length,
         timestamp: new Date().toISOString(),
       },
@@ -12,7 +12,7 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams
 
     // Fetch all pNodes for analysis
-    const pnodes = await pnodeService.fetchAllPNodes()
+    const pnodes = await pnodeService.getFleetSnapshot()
 
     if (pnodes.length < 3) {
       return NextResponse.json({
@@ -45,7 +45,7 @@ When showing pNode IDs, truncate them for readability (first 8 chars...last 4 ch
         }),
         execute: async ({ limit = 10 }) => {
           try {
-            const pnodes = await pnodeService.fetchAllPNodes()
+            const pnodes = await pnodeService.getFleetSnapshot()
             return {
               total: pnodes.length,
               online: pnodes.filter((p) => p.status === 'online').length,
@@ -164,7 +164,7 @@ When showing pNode IDs, truncate them for readability (first 8 chars...last 4 ch
         }),
         execute: async ({ status, location, minPerformance, limit = 10 }) => {
           try {
-            let pnodes = await pnodeService.fetchAllPNodes()
+            let pnodes = await pnodeService.getFleetSnapshot()
 
             if (status) {
               pnodes = pnodes.filter((p) => p.status === status)
@@ -272,7 +272,7 @@ When showing pNode IDs, truncate them for readability (first 8 chars...last 4 ch
         inputSchema: z.object({}),
         execute: async () => {
           try {
-            const pnodes = await pnodeService.fetchAllPNodes()
+            const pnodes = await pnodeService.getFleetSnapshot()
 
             // Aggregate by location
             const locationStats: Record<
@@ -1,20 +1,37 @@
 import { NextResponse } from 'next/server';
+import { isCronAuthorized } from '@/services/api-key.service';
 import { indexerService } from '@/services/indexer.service';
+import { getNotificationService } from '@/services/notification.service';
 
 export const dynamic = 'force-dynamic'; // Prevent caching
 
 export async function GET(request: Request) {
     try {
-        // Check for authorization if needed (e.g. CRON_SECRET)
-        const authHeader = request.headers.get('authorization');
-        if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+        // Without CRON_SECRET the middleware only lets full-access API keys through
+        if (process.env.CRON_SECRET && !isCronAuthorized(request.headers.get('authorization'))) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
         console.log('[Cron] Triggering indexing cycle...');
-        await indexerService.runIndexingCycle();
+        const outcome = await indexerService.runIndexingCycle();
+        // Alert notifications are delivered in the background; finish them (outside the
+        // indexer lease) before the function returns
+        await getNotificationService().drain();
 
-        return NextResponse.json({ success: true, message: 'Indexing cycle completed' });
+        if (outcome === 'failed') {
+            return NextResponse.json(
+                { success: false, outcome, error: 'Indexing cycle failed (see /api/indexer/status)' },
+                { status: 500 }
+            );
+        }
+
+        // A skipped cycle isn't an error: another process or replica is already indexing
+        return NextResponse.json({
+            success: true,
+            outcome,
+            message: outcome === 'skipped' ? 'Skipped, another indexing cycle is running' : 'Indexing cycle completed',
+            timings: outcome === 'completed' ? indexerService.getLastCycleTimings() : null,
+        });
     } catch (error) {
         console.error('[Cron] Indexing failed:', error);
         return NextResponse.json(
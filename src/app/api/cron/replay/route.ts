@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { isCronAuthorized } from '@/services/api-key.service';
+import { getReplayService, parseReplayOptions } from '@/services/replay.service';
+
+export const dynamic = 'force-dynamic'; // Prevent caching
+
+/**
+ * POST /api/cron/replay
+ * Re-derive NetworkEvent, Anomaly and rollup rows from stored snapshots over a range.
+ * Body: { from: ISO date, to?: ISO date (default now), dryRun?: boolean }
+ * With dryRun the changes are reported but not written. Used by scripts/replay-indexer.js.
+ * Requires `Authorization: Bearer <CRON_SECRET>`; closed when CRON_SECRET is unset.
+ */
+export async function POST(request: Request) {
+    try {
+        if (!isCronAuthorized(request.headers.get('authorization'))) {
+            return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const body = await request.json().catch(() => null);
+        const parsed = parseReplayOptions(body);
+        if ('error' in parsed) {
+            return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+        }
+
+        console.log(
+            `[Cron] Replaying ${parsed.options.from.toISOString()} - ${parsed.options.to.toISOString()}${parsed.options.dryRun ? ' (dry run)' : ''}...`
+        );
+        const result = await getReplayService().replay(parsed.options);
+        if (!result) {
+            return NextResponse.json(
+                { success: false, error: 'Another replay is already running' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({ success: true, result });
+    } catch (error) {
+        console.error('[Cron] Replay failed:', error);
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
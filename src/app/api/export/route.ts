@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    HISTORY_EXPORT_CONTENT_TYPES,
+    getHistoryExportService,
+    parseHistoryExportQuery,
+} from '@/services/history-export.service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/export
+ * Stream stored history as CSV, NDJSON or Parquet: `dataset` (pnode-snapshots,
+ * network-snapshots, pnode-rollups, network-rollups, events, validator-snapshots),
+ * `from`/`to`, optional `pubkey`s and a rollup `resolution`; see parseHistoryExportQuery. The body is written batch by batch as rows are read.
+ */
+export async function GET(request: NextRequest) {
+    const parsed = parseHistoryExportQuery(request.nextUrl.searchParams);
+    if (parsed.error !== undefined) {
+        return NextResponse.json({ success: false, error: parsed.error }, { status: 400 });
+    }
+
+    const exportService = getHistoryExportService();
+    return new Response(exportService.stream(parsed.query), {
+        headers: {
+            'Content-Type': HISTORY_EXPORT_CONTENT_TYPES[parsed.query.format],
+            'Content-Disposition': `attachment; filename="${exportService.filename(parsed.query)}"`,
+            'Cache-Control': 'no-store',
+        },
+    });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { indexerService } from '@/services/indexer.service';
+
+export const dynamic = 'force-dynamic'; // Freshness must never be cached
+
+/**
+ * GET /api/indexer/status
+ * Freshness of indexed data from the IndexerRun ledger: time since the last successful
+ * cycle, whether it counts as stale, consecutive failures and sources failing upstream.
+ */
+export async function GET() {
+    try {
+        const status = await indexerService.getStatus();
+
+        return NextResponse.json({ success: true, data: status });
+    } catch (error) {
+        console.error('[API] Indexer status error:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to fetch indexer status',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { getLiveUpdatesService } from '@/services/live-updates.service';
+import type { LiveUpdate } from '@/lib/live-updates';
+
+export const dynamic = 'force-dynamic'; // Never cache the stream
+export const runtime = 'nodejs';
+
+/** Comment line sent periodically so proxies don't close an idle stream */
+const HEARTBEAT_MS = 25000;
+
+/**
+ * GET /api/live
+ * Server-Sent Events stream of indexer updates.
+ * Events:
+ *   - hello: { sequence } on connect; clients should refetch to resync after a reconnect
+ *   - update: LiveUpdate diff (changed pNodes, status transitions, network stats, events)
+ */
+export async function GET(request: NextRequest) {
+    const liveService = getLiveUpdatesService();
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (chunk: string) => {
+                try {
+                    controller.enqueue(encoder.encode(chunk));
+                } catch {
+                    // Stream already closed
+                    cleanup();
+                }
+            };
+
+            send(`retry: 5000\nevent: hello\ndata: ${JSON.stringify({ sequence: liveService.getSequence() })}\n\n`);
+
+            const unsubscribe = liveService.subscribe((update: LiveUpdate) => {
+                send(`id: ${update.sequence}\nevent: update\ndata: ${JSON.stringify(update)}\n\n`);
+            });
+            const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+
+            cleanup = () => {
+                clearInterval(heartbeat);
+                unsubscribe();
+            };
+
+            request.signal.addEventListener('abort', () => {
+                cleanup();
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed
+                }
+            });
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        },
+    });
+}
@@ -17,7 +17,7 @@ const handler = createMcpHandler(
       {},
       async () => {
         try {
-          const pnodes = await pnodeService.fetchAllPNodes()
+          const pnodes = await pnodeService.getFleetSnapshot()
           return {
             content: [
               {
@@ -160,7 +160,7 @@ const handler = createMcpHandler(
       },
       async ({ status, location, version, minPerformance, maxPerformance, limit = 10 }) => {
         try {
-          let pnodes = await pnodeService.fetchAllPNodes()
+          let pnodes = await pnodeService.getFleetSnapshot()
 
           // Apply filters
           if (status) {
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getMetricsService } from '@/services/metrics.service';
+import { PROMETHEUS_CONTENT_TYPE } from '@/lib/prometheus';
+
+export const dynamic = 'force-dynamic'; // Every scrape must read current values
+
+/**
+ * GET /api/metrics
+ * Fleet, per-pNode and indexer metrics in the Prometheus text exposition format.
+ */
+export async function GET() {
+    try {
+        const body = await getMetricsService().collect();
+
+        return new NextResponse(body, {
+            headers: {
+                'Content-Type': PROMETHEUS_CONTENT_TYPE,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('[API] Metrics error:', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to collect metrics',
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { pnodeService } from '@/services/pnode.service';
+import { parseHistoryOptions } from '@/lib/time-series';
 
 /**
  * GET /api/pnodes/[id]
- * Fetch detailed pNode information (runs server-side for GeoIP)
+ * Fetch detailed pNode information with history from indexer snapshots.
+ * Reads the node from the fleet snapshot and refreshes it with a get-stats call to the node itself.
+ * Query params:
+ *   - range: 24h | 7d | 30d | 90d (default 30d)
+ *   - resolution: raw | hourly | daily (default hourly up to 7d, daily beyond)
  */
 export async function GET(
     request: NextRequest,
@@ -11,7 +16,12 @@ export async function GET(
 ) {
     try {
         const { id } = await params;
-        const pnode = await pnodeService.fetchPNodeDetails(id);
+        const parsed = parseHistoryOptions(request.nextUrl.searchParams);
+        if ('error' in parsed) {
+            return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+
+        const pnode = await pnodeService.fetchPNodeDetails(id, parsed.options);
         return NextResponse.json(pnode);
     } catch (error) {
         const message = error instanceof Error ? error.message : 'Failed to fetch pNode';
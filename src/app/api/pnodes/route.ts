@@ -1,14 +1,35 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { pnodeService } from '@/services/pnode.service';
+import { parsePNodeQuery, queryPNodes } from '@/lib/pnode-query';
 
 /**
  * GET /api/pnodes
- * Fetch all pNodes with real stats (runs server-side for pnRPC access)
+ * Fetch pNodes with real stats from the fleet snapshot (refreshed by the indexer,
+ * refetched from the pnRPC seed nodes only when stale).
+ *
+ * Query params filter (status, version, location, search, min/maxStorage,
+ * min/maxPerformance), sort (sort, order), page (limit, cursor) and project (fields)
+ * the list; see parsePNodeQuery. The body stays a plain array: the number of matching
+ * nodes is in X-Total-Count and the next page in X-Next-Cursor and a `Link: rel="next"` header.
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
+    const parsed = parsePNodeQuery(request.nextUrl.searchParams);
+    if (parsed.error !== undefined) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
     try {
-        const pnodes = await pnodeService.fetchAllPNodes();
-        return NextResponse.json(pnodes);
+        const pnodes = await pnodeService.getFleetSnapshot();
+        const page = queryPNodes(pnodes, parsed.query);
+
+        const headers = new Headers({ 'X-Total-Count': String(page.total) });
+        if (page.nextCursor) {
+            const next = new URL(request.nextUrl);
+            next.searchParams.set('cursor', page.nextCursor);
+            headers.set('X-Next-Cursor', page.nextCursor);
+            headers.set('Link', `<${next.pathname}${next.search}>; rel="next"`);
+        }
+        return NextResponse.json(page.pnodes, { headers });
     } catch (error) {
         const message = error instanceof Error ? error.message : 'Failed to fetch pNodes';
         console.error('[API] Failed to fetch pNodes:', message);
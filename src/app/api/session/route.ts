@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiKeyService } from '@/services/api-key.service';
+import { SESSION_COOKIE, SESSION_TTL_MS, getSessionSecret, signSession, verifySession } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/session
+ * Who the dashboard is signed in as: `{ name, expiresAt }`, or null.
+ */
+export async function GET(request: NextRequest) {
+    const secret = getSessionSecret();
+    const session = secret ? verifySession(request.cookies.get(SESSION_COOKIE)?.value, secret) : null;
+
+    return NextResponse.json({
+        success: true,
+        data: session ? { name: session.name, expiresAt: new Date(session.expiresAt).toISOString() } : null,
+    });
+}
+
+/**
+ * POST /api/session
+ * Sign the dashboard in with an API key; requests from this browser then act with the
+ * key's scopes and name until the session expires (12 hours) or the key is revoked or rotated.
+ * Body: { key: string }
+ */
+export async function POST(request: NextRequest) {
+    const secret = getSessionSecret();
+    if (!secret) {
+        return NextResponse.json(
+            { success: false, error: 'Sign-in is disabled (SESSION_SECRET is not set)' },
+            { status: 503 }
+        );
+    }
+
+    try {
+        const body = await request.json().catch(() => null);
+        const key = body && typeof body === 'object' ? (body as Record<string, unknown>).key : undefined;
+        if (typeof key !== 'string' || key.trim() === '') {
+            return NextResponse.json({ success: false, error: 'Must provide key' }, { status: 400 });
+        }
+
+        const { apiKey, fingerprint, error } = await getApiKeyService().verify(key.trim());
+        if (error !== undefined) {
+            return NextResponse.json({ success: false, error }, { status: 401 });
+        }
+
+        const expiresAt = Date.now() + SESSION_TTL_MS;
+        const response = NextResponse.json({
+            success: true,
+            data: { name: apiKey.name, expiresAt: new Date(expiresAt).toISOString() },
+        });
+        const session = { keyId: apiKey.id, name: apiKey.name, fingerprint, expiresAt };
+        response.cookies.set(SESSION_COOKIE, signSession(session, secret), {
+            httpOnly: true,
+            // Never sent with cross-site requests, so other sites can't act with the session
+            sameSite: 'strict',
+            secure: process.env.NODE_ENV === 'production',
+            path: '/',
+            maxAge: SESSION_TTL_MS / 1000,
+        });
+        return response;
+    } catch (error) {
+        console.error('[API] Sign-in error:', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to sign in' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/session
+ * Sign out.
+ */
+export async function DELETE() {
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+}
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server';
+import { getAnalyticsService } from '@/services/analytics.service';
+import { V1_ENDPOINTS, handleV1 } from '@/lib/api-v1';
+
+/**
+ * GET /api/v1/analytics/anomalies
+ * Most recent anomalies detected by the indexer
+ */
+export async function GET(request: NextRequest) {
+    return handleV1(V1_ENDPOINTS.listAnomalies, request, async ({ limit }) => {
+        const anomalies = await getAnalyticsService().getAnomalies(limit);
+        return { data: anomalies, meta: { count: anomalies.length } };
+    });
+}
@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server';
+import { getAnalyticsService } from '@/services/analytics.service';
+import { V1_ENDPOINTS, handleV1 } from '@/lib/api-v1';
+
+/**
+ * GET /api/v1/analytics/events
+ * Most recent network events, optionally of one severity
+ */
+export async function GET(request: NextRequest) {
+    return handleV1(V1_ENDPOINTS.listEvents, request, async ({ limit, severity }) => {
+        const events = await getAnalyticsService().getNetworkEvents(limit, severity);
+        return { data: events, meta: { count: events.length } };
+    });
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { getAnalyticsService } from '@/services/analytics.service';
+import { V1_ENDPOINTS, handleV1 } from '@/lib/api-v1';
+
+/**
+ * GET /api/v1/analytics/history
+ * Network history for charts: averages, growth, version or geographic breakdowns
+ */
+export async function GET(request: NextRequest) {
+    return handleV1(V1_ENDPOINTS.getHistory, request, async ({ type, days, resolution }) => {
+        const analyticsService = getAnalyticsService();
+        const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+        let data: unknown;
+        switch (type) {
+            case 'network':
+                data = await analyticsService.getNetworkHistory(startDate, new Date(), resolution);
+                break;
+            case 'growth':
+                data = await analyticsService.getNetworkGrowth(days);
+                break;
+            case 'versions':
+                data = await analyticsService.getVersionTrends(days);
+                break;
+            case 'geo':
+                data = await analyticsService.getGeographicAnalysis();
+                break;
+        }
+
+        return { data, meta: { type, days, resolution, generatedAt: new Date().toISOString() } };
+    });
+}
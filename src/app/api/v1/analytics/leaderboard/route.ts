@@ -0,0 +1,14 @@
+import { NextRequest } from 'next/server';
+import { getAnalyticsService } from '@/services/analytics.service';
+import { V1_ENDPOINTS, handleV1 } from '@/lib/api-v1';
+
+/**
+ * GET /api/v1/analytics/leaderboard
+ * Top pNodes by performance, uptime or capacity
+ */
+export async function GET(request: NextRequest) {
+    return handleV1(V1_ENDPOINTS.getLeaderboard, request, async ({ limit, metric }) => ({
+        data: await getAnalyticsService().getTopPNodes(limit, metric),
+        meta: { metric, generatedAt: new Date().toISOString() },
+    }));
+}
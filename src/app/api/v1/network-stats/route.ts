@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server';
+import { pnodeService } from '@/services/pnode.service';
+import { V1_ENDPOINTS, handleV1 } from '@/lib/api-v1';
+
+/**
+ * GET /api/v1/network-stats
+ * Network-wide statistics computed from the fleet snapshot
+ */
+export async function GET(request: NextRequest) {
+    return handleV1(V1_ENDPOINTS.getNetworkStats, request, async () => ({
+        data: await pnodeService.fetchNetworkStats(),
+    }));
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+/**
+ * GET /api/v1/openapi.json
+ * OpenAPI 3.1 document of the v1 API, generated from its zod schemas
+ */
+export async function GET() {
+    return NextResponse.json(buildOpenApiDocument());
+}
@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { pnodeService } from '@/services/pnode.service';
+import { V1_ENDPOINTS, handleV1, v1Error } from '@/lib/api-v1';
+import { parsePNodeQuery, queryPNodes } from '@/lib/pnode-query';
+
+/**
+ * GET /api/v1/pnodes
+ * Filtered, sorted and paged fleet snapshot (same parameters as /api/pnodes), in the v1 envelope
+ */
+export async function GET(request: NextRequest) {
+    return handleV1(V1_ENDPOINTS.listPNodes, request, async () => {
+        // The schema has checked each parameter; cursors are checked against the sort here
+        const parsed = parsePNodeQuery(request.nextUrl.searchParams);
+        if (parsed.error !== undefined) return v1Error(400, parsed.error);
+
+        const page = queryPNodes(await pnodeService.getFleetSnapshot(), parsed.query);
+        return { data: page.pnodes, meta: { total: page.total, nextCursor: page.nextCursor } };
+    });
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import Link from 'next/link'
+import { useQuery } from '@tanstack/react-query'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -13,10 +14,16 @@ import {
   MessageSquare,
   Network,
   Server,
+  Radio,
+  Activity,
+  Layers,
+  Gauge,
+  Download,
 } from 'lucide-react'
+import type { JsonSchema, OpenApiDocument, OpenApiOperation } from '@/lib/openapi'
 
 interface Endpoint {
-  method: 'GET' | 'POST' | 'DELETE'
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
   path: string
   description: string
   params?: { name: string; type: string; description: string }[]
@@ -37,29 +44,15 @@ const apiSections: APISection[] = [
     icon: Database,
     description: 'Retrieve pNode data from the Xandeum network',
     endpoints: [
-      {
-        method: 'GET',
-        path: '/api/pnodes',
-        description: 'Get all pNodes with their current status and metrics',
-        response: `{
-  "pnodes": [{
-    "id": "6cXp...",
-    "pubkey": "6cXp...",
-    "address": "192.190.136.28",
-    "status": "online",
-    "version": "2.0.15",
-    "storage": { "total": 100, "used": 0.05, "available": 99.95 },
-    "performance": { "uptime": 99.8, "latency": 45, "score": 95 },
-    "location": { "city": "Frankfurt", "country": "Germany", "region": "Europe" }
-  }],
-  "total": 25
-}`,
-      },
       {
         method: 'GET',
         path: '/api/pnodes/[id]',
-        description: 'Get detailed information for a specific pNode',
-        params: [{ name: 'id', type: 'string', description: 'pNode pubkey or address' }],
+        description: 'Get detailed information for a specific pNode, with history averaged from indexer snapshots',
+        params: [
+          { name: 'id', type: 'string', description: 'pNode pubkey or address' },
+          { name: 'range', type: 'string', description: '24h, 7d, 30d or 90d (default 30d)' },
+          { name: 'resolution', type: 'string', description: 'raw, hourly or daily (default hourly up to 7d, daily beyond)' },
+        ],
         response: `{
   "id": "6cXp...",
   "pubkey": "6cXp...",
@@ -69,29 +62,14 @@ const apiSections: APISection[] = [
   "storage": { "total": 100, "used": 0.05, "available": 99.95, "unit": "GB" },
   "performance": { "uptime": 99.8, "latency": 45, "score": 95, "cpu": 12.5, "ram": 50 },
   "network": { "packetsIn": 1500000, "packetsOut": 1200000, "peers": 8 },
-  "location": { "city": "Frankfurt", "country": "Germany", "lat": 50.11, "lon": 8.68 }
-}`,
-      },
-    ],
-  },
-  {
-    title: 'Network Stats',
-    icon: Network,
-    description: 'Network-wide statistics and metrics',
-    endpoints: [
-      {
-        method: 'GET',
-        path: '/api/network-stats',
-        description: 'Get aggregated network statistics',
-        response: `{
-  "totalPNodes": 25,
-  "onlinePNodes": 23,
-  "totalStorage": 2500,
-  "usedStorage": 125,
-  "averagePerformance": 94.5,
-  "averageLatency": 42,
-  "networkHealth": 98,
-  "epoch": { "current": 27, "slot": 8598, "progress": 0.85 }
+  "location": { "city": "Frankfurt", "country": "Germany", "lat": 50.11, "lon": 8.68 },
+  "history": {
+    "performanceScores": [{ "timestamp": 1767225600000, "value": 94.5 }],
+    "storageUtilization": [{ "timestamp": 1767225600000, "value": 0.05 }],
+    "uptimeHistory": [{ "timestamp": 1767225600000, "value": 99.8 }],
+    "range": "30d",
+    "resolution": "daily"
+  }
 }`,
       },
     ],
@@ -122,36 +100,6 @@ const apiSections: APISection[] = [
     icon: TrendingUp,
     description: 'Historical data, predictions, and analysis',
     endpoints: [
-      {
-        method: 'GET',
-        path: '/api/analytics/history',
-        description: 'Get 30-day historical network data',
-        params: [{ name: 'days', type: 'number', description: 'Number of days (default: 30)' }],
-        response: `{
-  "history": [{
-    "date": "2024-12-01",
-    "totalPNodes": 20,
-    "onlinePNodes": 18,
-    "totalStorage": 2000,
-    "avgPerformance": 92
-  }]
-}`,
-      },
-      {
-        method: 'GET',
-        path: '/api/analytics/anomalies',
-        description: 'Get detected anomalies in the network',
-        response: `{
-  "anomalies": [{
-    "id": "anom_123",
-    "type": "performance_drop",
-    "severity": "warning",
-    "pnodeId": "6cXp...",
-    "message": "Performance dropped 15% in last hour",
-    "detectedAt": "2024-12-15T10:30:00Z"
-  }]
-}`,
-      },
       {
         method: 'GET',
         path: '/api/analytics/predictions',
@@ -161,21 +109,6 @@ const apiSections: APISection[] = [
     "7day": { "pnodes": 28, "storage": 2800, "confidence": 0.85 },
     "30day": { "pnodes": 35, "storage": 3500, "confidence": 0.72 }
   }
-}`,
-      },
-      {
-        method: 'GET',
-        path: '/api/analytics/leaderboard',
-        description: 'Get top performing pNodes',
-        params: [{ name: 'limit', type: 'number', description: 'Number of results (default: 10)' }],
-        response: `{
-  "leaderboard": [{
-    "rank": 1,
-    "pnodeId": "6cXp...",
-    "score": 98.5,
-    "uptime": 99.9,
-    "storage": 100
-  }]
 }`,
       },
       {
@@ -193,10 +126,102 @@ const apiSections: APISection[] = [
   "regressions": { "growth_rate": 0.12, "r_squared": 0.78 }
 }`,
       },
+    ],
+  },
+  {
+    title: 'Live Updates',
+    icon: Radio,
+    description: 'Server-Sent Events pushed by the indexer after each cycle',
+    endpoints: [
+      {
+        method: 'GET',
+        path: '/api/live',
+        description: 'SSE stream: a hello event on connect, then one update diff per indexer cycle',
+        response: `event: update
+data: {
+  "sequence": 42,
+  "timestamp": 1736589600000,
+  "added": [],
+  "changed": [{ "id": "6cXp...", "status": "offline", "lastSeen": "..." }],
+  "removed": [],
+  "transitions": [{ "pnodeId": "6cXp...", "from": "online", "to": "offline" }],
+  "networkStats": { "onlinePNodes": 211, "offlinePNodes": 9 },
+  "events": [{ "id": "...", "type": "NODE_OFFLINE", "title": "..." }]
+}`,
+      },
+    ],
+  },
+  {
+    title: 'Indexer',
+    icon: Activity,
+    description: 'Health of the background indexer, from its per-cycle run ledger',
+    endpoints: [
+      {
+        method: 'GET',
+        path: '/api/indexer/status',
+        description: 'Freshness of indexed data: time since the last successful cycle, failures and failing sources',
+        response: `{
+  "success": true,
+  "data": {
+    "freshness": "stale",
+    "stalenessMs": 780000,
+    "staleAfterMs": 300000,
+    "running": false,
+    "consecutiveFailures": 3,
+    "failingSources": ["voteAccounts"],
+    "lastRun": { "status": "failed", "error": "fetch failed", "sources": { "pnodes": { "ok": false } } },
+    "lastSuccessfulRun": {
+      "status": "partial",
+      "finishedAt": "2026-01-14T11:47:00.000Z",
+      "rowCounts": { "pnodeSnapshots": 220, "events": 4 },
+      "timings": { "fetch": 8120, "write": 640 }
+    }
+  }
+}`,
+      },
+    ],
+  },
+  {
+    title: 'Metrics',
+    icon: Gauge,
+    description: 'Prometheus scrape target for fleet, per-pNode and indexer metrics',
+    endpoints: [
       {
         method: 'GET',
-        path: '/api/analytics/events',
-        description: 'Get recent network events',
+        path: '/api/metrics',
+        description:
+          'Prometheus text format; needs the read:metrics scope (X-API-Key or Authorization: Bearer xk_...)',
+        response: `# HELP opue_network_health_score Network health score (0-100)
+# TYPE opue_network_health_score gauge
+opue_network_health_score 87
+# HELP opue_pnode_performance_score Performance score (0-100)
+# TYPE opue_pnode_performance_score gauge
+opue_pnode_performance_score{pubkey="6cXp..."} 95
+# HELP opue_indexer_cycles_total Indexer cycles run by this process, by result
+# TYPE opue_indexer_cycles_total counter
+opue_indexer_cycles_total{status="success"} 1440`,
+      },
+    ],
+  },
+  {
+    title: 'Historical Export',
+    icon: Download,
+    description: 'Stored snapshots and events over a date range, streamed as CSV, NDJSON or Parquet',
+    endpoints: [
+      {
+        method: 'GET',
+        path: '/api/export',
+        description: 'Stream one dataset for a date range; needs the read:export scope',
+        params: [
+          { name: 'dataset', type: 'string', description: 'pnode-snapshots, network-snapshots, pnode-rollups, network-rollups, events or validator-snapshots' },
+          { name: 'format', type: 'string', description: 'csv (default), ndjson or parquet' },
+          { name: 'from', type: 'string', description: 'Start of the range (ISO 8601, inclusive)' },
+          { name: 'to', type: 'string', description: 'End of the range (ISO 8601, exclusive; default now)' },
+          { name: 'pubkey', type: 'string', description: 'Repeated or comma-separated; not for network-snapshots or network-rollups' },
+          { name: 'resolution', type: 'string', description: 'Rollup datasets only: daily (default) or hourly; raw snapshots are kept for RETENTION_RAW_DAYS' },
+        ],
+        response: `timestamp,pubkey,status,performanceScore,uptime,averageLatency,successRate,capacityBytes,...
+2026-01-02T00:00:00.000Z,6cXp...,online,95,99.5,40,99,2000000000000,...`,
       },
     ],
   },
@@ -234,8 +259,23 @@ const apiSections: APISection[] = [
   "pnodeId": "6cXp...",
   "threshold": 90,
   "message": "Custom alert message"
+}`,
+      },
+      {
+        method: 'PATCH',
+        path: '/api/alerts',
+        description: 'Acknowledge (optional note) or resolve an alert as the API key or signed-in session',
+        body: `{
+  "alertId": "alert_123",
+  "action": "acknowledge" | "resolve",
+  "note": "Investigating disk on host"
 }`,
       },
+      {
+        method: 'GET',
+        path: '/api/alerts/stats',
+        description: 'Get alert counts (total, active, critical, acknowledged, by type)',
+      },
       {
         method: 'GET',
         path: '/api/alerts/rules',
@@ -244,14 +284,65 @@ const apiSections: APISection[] = [
       {
         method: 'POST',
         path: '/api/alerts/rules',
-        description: 'Create or update alert rules',
+        description: 'Create a custom rule on any pNode field path or NetworkSnapshot column',
+        body: `{
+  "name": "High CPU",
+  "type": "custom",
+  "severity": "high",
+  "scope": "pnode",            // "network" | "pnode"
+  "pubkeys": ["6cXp..."],      // optional, pnode scope only
+  "metric": "networkMetrics.cpuPercent",
+  "operator": "gt",            // gt | lt | eq | ne | contains | not_contains
+  "threshold": 90,
+  "duration": 10,              // optional, minutes sustained
+  "notificationMethods": ["browser", "webhook"]
+}`,
+      },
+      {
+        method: 'PATCH',
+        path: '/api/alerts/rules',
+        description: 'Enable or disable a rule',
+        body: `{ "ruleId": "default-0", "enabled": false }`,
+      },
+      {
+        method: 'GET',
+        path: '/api/alerts/rules/:id',
+        description: 'Get a single alert rule',
+      },
+      {
+        method: 'PUT',
+        path: '/api/alerts/rules/:id',
+        description: 'Update a rule; omitted fields keep their current value',
+      },
+      {
+        method: 'DELETE',
+        path: '/api/alerts/rules/:id',
+        description: 'Delete a custom rule (built-in rules can only be disabled)',
+      },
+      {
+        method: 'GET',
+        path: '/api/alerts/silences',
+        description: 'Get active and scheduled silences (?active=true for in-effect only, ?includeExpired=true for history)',
+      },
+      {
+        method: 'POST',
+        path: '/api/alerts/silences',
+        description: 'Create a silence or maintenance window (requires a session or API key); matching alerts are recorded without notifications',
         body: `{
-  "type": "pnode_performance_drop",
-  "threshold": 85,
-  "enabled": true,
-  "notification": { "browser": true, "email": false }
+  "kind": "maintenance",       // "maintenance" | "silence"
+  "reason": "Upgrading EU nodes",
+  "pubkeys": ["6cXp..."],      // any of pubkeys, locations, ruleTypes
+  "locations": ["Germany"],    // case-insensitive substring
+  "ruleTypes": ["pnode_offline"],
+  "startsAt": "2026-01-12T02:00:00Z", // optional, defaults to now
+  "durationMinutes": 120       // or "endsAt"
 }`,
       },
+      {
+        method: 'DELETE',
+        path: '/api/alerts/silences/:id',
+        description: 'End a silence now (cancels a scheduled one)',
+      },
     ],
   },
   {
@@ -289,9 +380,192 @@ const apiSections: APISection[] = [
 const methodColors: Record<string, string> = {
   GET: 'bg-green-500/10 text-green-600 dark:text-green-400',
   POST: 'bg-blue-500/10 text-blue-600 dark:text-blue-400',
+  PUT: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+  PATCH: 'bg-purple-500/10 text-purple-600 dark:text-purple-400',
   DELETE: 'bg-red-500/10 text-red-600 dark:text-red-400',
 }
 
+const tagIcons: Record<string, React.ElementType> = {
+  pNodes: Database,
+  Network,
+  Analytics: TrendingUp,
+  Meta: FileCode,
+}
+
+function refName(schema: JsonSchema): string | null {
+  return typeof schema.$ref === 'string' ? schema.$ref.split('/').pop()! : null
+}
+
+/** One-line type of a JSON Schema: `PNode[]`, `"asc" | "desc"`, `string | null` */
+function typeOf(schema: JsonSchema): string {
+  const ref = refName(schema)
+  if (ref) return ref
+  if ('const' in schema) return JSON.stringify(schema.const)
+  if (Array.isArray(schema.enum)) return schema.enum.map((value) => JSON.stringify(value)).join(' | ')
+  const union = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined
+  if (union) return union.map(typeOf).join(' | ')
+  switch (schema.type) {
+    case 'array': {
+      const item = typeOf((schema.items as JsonSchema) ?? {})
+      return item.includes(' | ') ? `(${item})[]` : `${item}[]`
+    }
+    case 'object':
+      return schema.properties ? '{ ... }' : `Record<string, ${typeOf((schema.additionalProperties as JsonSchema) ?? {})}>`
+    case 'integer':
+      return 'number'
+    case 'string':
+      return schema.format === 'date-time' ? 'string (date-time)' : 'string'
+    case 'number':
+    case 'boolean':
+    case 'null':
+      return schema.type
+    default:
+      return 'unknown'
+  }
+}
+
+/** Multi-line outline of a schema, expanding inline objects but not named ones */
+function outline(schema: JsonSchema, indent = ''): string {
+  const properties = schema.properties as Record<string, JsonSchema> | undefined
+  if (schema.type !== 'object' || !properties) {
+    const union = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined
+    if (union?.some((member) => member.type === 'object' && member.properties)) {
+      return union.map((member) => outline(member, indent)).join(` |\n${indent}`)
+    }
+    return typeOf(schema)
+  }
+  const required = (schema.required as string[] | undefined) ?? []
+  const lines = Object.entries(properties).map(([name, property]) => {
+    const optional = required.includes(name) ? '' : '?'
+    const comment = typeof property.description === 'string' ? `  // ${property.description}` : ''
+    return `${indent}  ${name}${optional}: ${outline(property, `${indent}  `)}${comment}`
+  })
+  return `{\n${lines.join('\n')}\n${indent}}`
+}
+
+function useOpenApiDocument() {
+  return useQuery({
+    queryKey: ['openapi'],
+    queryFn: async () => {
+      const res = await fetch('/api/v1/openapi.json')
+      if (!res.ok) throw new Error('Failed to fetch the OpenAPI document')
+      return (await res.json()) as OpenApiDocument
+    },
+    staleTime: Infinity,
+  })
+}
+
+function V1Operation({ path, operation, spec }: { path: string; operation: OpenApiOperation; spec: OpenApiDocument }) {
+  const responseRef = refName(operation.responses['200']?.content?.['application/json'].schema ?? {})
+  const response = responseRef ? spec.components.schemas[responseRef] : undefined
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-3">
+          <Badge className={`${methodColors.GET} font-mono text-xs`}>GET</Badge>
+          <code className="font-mono text-sm">{path}</code>
+          {operation['x-scope'] && (
+            <Badge variant="outline" className="font-mono text-xs">
+              {operation['x-scope']}
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          {operation.summary}
+          {operation.description && ` - ${operation.description}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {operation.parameters.length > 0 && (
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-2">Parameters</p>
+            <div className="space-y-1">
+              {operation.parameters.map((param) => (
+                <div key={param.name} className="flex items-center gap-2 text-sm">
+                  <code className="px-1.5 py-0.5 bg-muted rounded text-xs">{param.name}</code>
+                  <span className="text-muted-foreground text-xs">
+                    ({typeOf(param.schema)}
+                    {param.schema.default !== undefined && `, default ${JSON.stringify(param.schema.default)}`})
+                  </span>
+                  {param.description && <span className="text-xs">{param.description}</span>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {response && (
+          <details className="group">
+            <summary className="text-xs text-primary cursor-pointer hover:underline">View response schema</summary>
+            <pre className="mt-2 p-2 rounded bg-muted overflow-x-auto text-xs font-mono">{outline(response)}</pre>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * The versioned API, rendered from its OpenAPI document
+ */
+function V1Reference() {
+  const { data: spec, isLoading, error } = useOpenApiDocument()
+
+  if (isLoading) return <p className="text-sm text-muted-foreground">Loading the v1 API reference...</p>
+  if (error || !spec) return <p className="text-sm text-destructive">Failed to load the v1 API reference</p>
+
+  const tags = [...new Set(Object.values(spec.paths).map(({ get }) => get.tags[0]))]
+  const schemas = Object.entries(spec.components.schemas).filter(([name]) => !name.endsWith('Response'))
+
+  return (
+    <div id="v1" className="space-y-6">
+      <div className="flex items-center gap-3">
+        <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+          <Layers className="h-5 w-5 text-primary" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold">Versioned API (v1)</h2>
+          <p className="text-sm text-muted-foreground">
+            {spec.info.description}{' '}
+            <a href="/api/v1/openapi.json" className="text-primary hover:underline">
+              OpenAPI document
+            </a>
+          </p>
+        </div>
+      </div>
+
+      {tags.map((tag) => {
+        const Icon = tagIcons[tag] ?? FileCode
+        return (
+          <div key={tag} className="space-y-3">
+            <h3 className="flex items-center gap-2 font-semibold">
+              <Icon className="h-4 w-4 text-primary" />
+              {tag}
+            </h3>
+            {Object.entries(spec.paths)
+              .filter(([, { get }]) => get.tags[0] === tag)
+              .map(([path, { get }]) => (
+                <V1Operation key={path} path={path} operation={get} spec={spec} />
+              ))}
+          </div>
+        )
+      })}
+
+      <details className="group">
+        <summary className="font-semibold cursor-pointer">Schemas</summary>
+        <div className="mt-3 space-y-3">
+          {schemas.map(([name, schema]) => (
+            <div key={name}>
+              <code className="text-sm font-mono">{name}</code>
+              <pre className="mt-1 p-2 rounded bg-muted overflow-x-auto text-xs font-mono">{outline(schema)}</pre>
+            </div>
+          ))}
+        </div>
+      </details>
+    </div>
+  )
+}
+
 export default function APIReferencePage() {
   return (
     <div className="space-y-8 max-w-5xl mx-auto">
@@ -331,6 +605,9 @@ export default function APIReferencePage() {
         </CardHeader>
         <CardContent>
           <div className="flex flex-wrap gap-2">
+            <a href="#v1" className="px-3 py-1.5 rounded-lg bg-muted hover:bg-muted/80 text-sm transition-colors">
+              Versioned API (v1)
+            </a>
             {apiSections.map((section) => (
               <a
                 key={section.title}
@@ -344,7 +621,16 @@ export default function APIReferencePage() {
         </CardContent>
       </Card>
 
-      {/* API Sections */}
+      <V1Reference />
+
+      {/* Unversioned API Sections */}
+      <div className="space-y-1 pt-4 border-t">
+        <h2 className="text-xl font-semibold">Other endpoints</h2>
+        <p className="text-sm text-muted-foreground">
+          Routes without a v1 version yet. The unversioned /api/pnodes, /api/network-stats and /api/analytics routes the
+          dashboard uses remain available with their current response shapes.
+        </p>
+      </div>
       {apiSections.map((section) => (
         <div key={section.title} id={section.title.toLowerCase().replace(' ', '-')} className="space-y-4">
           <div className="flex items-center gap-3">
@@ -66,7 +66,9 @@ const folderStructure = `src/
 │   ├── analytics.service.ts  # Analytics & predictions
 │   ├── alert.service.ts      # Alert management
 │   ├── geoip.service.ts      # GeoIP lookup
-│   └── websocket.service.ts  # Real-time updates
+│   ├── retention.service.ts  # Snapshot rollups & pruning
+│   ├── live-updates.service.ts # Live update publisher (server)
+│   └── live-stream.service.ts  # Live update stream client
 ├── lib/
 │   ├── prisma.ts             # Prisma client
 │   └── utils.ts              # Utility functions
@@ -77,7 +79,7 @@ const services = [
     name: 'PNodeService',
     file: 'pnode.service.ts',
     description: 'Core service for fetching pNode data from Xandeum network',
-    methods: ['getPNodes()', 'getPNodeDetails(id)', 'getNetworkStats()', 'getEpochInfo()'],
+    methods: ['getPNodes()', 'getFleetSnapshot()', 'getPNodeDetails(id)', 'getNetworkStats()', 'getEpochInfo()'],
   },
   {
     name: 'AnalyticsService',
@@ -92,16 +94,28 @@ const services = [
     methods: ['createAlert()', 'getAlerts()', 'updateRule()', 'dismissAlert()'],
   },
   {
-    name: 'WebSocketService',
-    file: 'websocket.service.ts',
-    description: 'Real-time updates via WebSocket with polling fallback',
-    methods: ['connect()', 'subscribe()', 'disconnect()', 'onMessage()'],
+    name: 'LiveUpdatesService',
+    file: 'live-updates.service.ts',
+    description: 'Diffs each indexer cycle and pushes it to /api/live subscribers',
+    methods: ['publishCycle()', 'subscribe()', 'getSequence()'],
+  },
+  {
+    name: 'LiveStreamService',
+    file: 'live-stream.service.ts',
+    description: 'Browser EventSource client for /api/live with resync on missed updates',
+    methods: ['subscribe()', 'getConnectionStatus()', 'getLastMessageAt()'],
+  },
+  {
+    name: 'RetentionService',
+    file: 'retention.service.ts',
+    description: 'Rolls snapshots into hourly/daily aggregates and DailyAnalytics, prunes raw rows',
+    methods: ['runIfDue()', 'run()', 'getRetentionConfig()'],
   },
   {
     name: 'GeoIPService',
     file: 'geoip.service.ts',
-    description: 'Geographic location lookup for pNode IP addresses',
-    methods: ['lookupGeoIP(ip)', 'getLocationForIP(ip)', 'batchLookup()'],
+    description: 'Geo/ASN lookup for pNode IPs via local MMDB files, with optional ip-api fallback',
+    methods: ['lookupGeoIP(ip)', 'getLocationForIP(ip)', 'batchLookup()', 'getGeoIPResolver()'],
   },
 ]
 
@@ -286,9 +300,9 @@ export default function ArchitecturePage() {
         <CardContent className="space-y-3">
           <div className="grid gap-3 sm:grid-cols-2">
             <div className="p-3 rounded-lg bg-background/50">
-              <p className="font-medium text-sm">Primary: WebSocket</p>
+              <p className="font-medium text-sm">Primary: Server-Sent Events</p>
               <p className="text-xs text-muted-foreground">
-                Streaming connection for instant updates when available
+                The indexer pushes pNode and network stats diffs to /api/live after each cycle
               </p>
             </div>
             <div className="p-3 rounded-lg bg-background/50">
@@ -299,7 +313,7 @@ export default function ArchitecturePage() {
             </div>
           </div>
           <p className="text-xs text-muted-foreground">
-            React Query handles caching with a 30-second stale time to reduce redundant network requests.
+            Diffs are patched into the React Query cache; a missed update triggers a full refetch.
           </p>
         </CardContent>
       </Card>
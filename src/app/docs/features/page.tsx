@@ -332,7 +332,6 @@ export default function FeaturesPage() {
               { type: 'network_decentralization', desc: 'Geographic concentration risk' },
               { type: 'new_pnode_joined', desc: 'New provider joins network' },
               { type: 'pnode_version_outdated', desc: 'Deprecated software version' },
-              { type: 'network_storage_low', desc: 'Network-wide storage warning' },
             ].map((alert) => (
               <div key={alert.type} className="flex items-center gap-2 p-2 rounded bg-muted/30">
                 <Badge variant="outline" className="text-xs font-mono shrink-0">{alert.type}</Badge>
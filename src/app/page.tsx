@@ -24,6 +24,7 @@ import {
 } from 'lucide-react'
 import Link from 'next/link'
 import { formatBytes } from '@/lib/format'
+import { StaleDataBanner } from '@/components/dashboard/stale-data-banner'
 
 export default function DashboardPage() {
   const { data: stats, isLoading: statsLoading, error: statsError, refetch: refetchStats } = useNetworkStats()
@@ -124,6 +125,8 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      <StaleDataBanner />
+
       {/* Status Badges */}
       <div className="flex flex-wrap gap-3">
         <Badge variant="outline" className="gap-2 px-3 py-1.5">
@@ -1,6 +1,6 @@
 'use client';
 
-import { use } from 'react';
+import { use, useState } from 'react';
 import { usePNodeDetails, usePNodes } from '@/hooks/usePNodes';
 import { usePNodeQuantAnalytics } from '@/hooks/useQuantAnalytics';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -16,10 +16,21 @@ import { PNodeTimeline } from '@/components/pnodes/pnode-timeline';
 import { RiskProfileCard, RiskProfileCompact } from '@/components/analytics/risk-profile-card';
 import { ForecastChart } from '@/components/analytics/regression-chart';
 import { StatBadge } from '@/components/ui/stat-badge';
+import type { HistoryRange } from '@/types/pnode';
 
-function formatChartData(data: { timestamp: number; value: number }[]) {
+const HISTORY_RANGE_LABELS: Record<HistoryRange, string> = {
+    '24h': 'Last 24 hours',
+    '7d': 'Last 7 days',
+    '30d': 'Last 30 days',
+    '90d': 'Last 90 days',
+};
+
+function formatChartData(data: { timestamp: number; value: number }[], range: HistoryRange) {
     return data.map((d) => ({
-        time: new Date(d.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        time:
+            range === '24h'
+                ? new Date(d.timestamp).toLocaleTimeString('en-US', { hour: 'numeric' })
+                : new Date(d.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
         value: d.value,
     }));
 }
@@ -39,7 +50,8 @@ function getStatusBadgeVariant(status: string): 'success' | 'danger' | 'warning'
 
 export default function PNodeDetailPage({ params }: { params: Promise<{ id: string }> }) {
     const resolvedParams = use(params);
-    const { data: pnode, isLoading, error } = usePNodeDetails(resolvedParams.id);
+    const [historyRange, setHistoryRange] = useState<HistoryRange>('30d');
+    const { data: pnode, isLoading, error } = usePNodeDetails(resolvedParams.id, { range: historyRange });
     const { data: allPNodes } = usePNodes();
 
     // Get pnode with history for quant analytics
@@ -169,15 +181,30 @@ export default function PNodeDetailPage({ params }: { params: Promise<{ id: stri
             />
 
             {/* Historical Charts */}
+            <div className="flex items-center justify-between">
+                <h2 className="text-2xl font-bold tracking-tight">History</h2>
+                <div className="flex gap-1">
+                    {(Object.keys(HISTORY_RANGE_LABELS) as HistoryRange[]).map((range) => (
+                        <Button
+                            key={range}
+                            variant={historyRange === range ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setHistoryRange(range)}
+                        >
+                            {range}
+                        </Button>
+                    ))}
+                </div>
+            </div>
             <div className="grid gap-6 md:grid-cols-2">
                 <Card>
                     <CardHeader>
                         <CardTitle>Performance Score History</CardTitle>
-                        <CardDescription>Last 30 days</CardDescription>
+                        <CardDescription>{HISTORY_RANGE_LABELS[historyRange]}</CardDescription>
                     </CardHeader>
                     <CardContent>
                         <ResponsiveContainer width="100%" height={250}>
-                            <LineChart data={formatChartData(pnode.history.performanceScores)}>
+                            <LineChart data={formatChartData(pnode.history.performanceScores, historyRange)}>
                                 <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
                                 <XAxis dataKey="time" className="text-xs" />
                                 <YAxis domain={[0, 100]} className="text-xs" />
@@ -203,11 +230,11 @@ export default function PNodeDetailPage({ params }: { params: Promise<{ id: stri
                 <Card>
                     <CardHeader>
                         <CardTitle>Storage Utilization</CardTitle>
-                        <CardDescription>Last 30 days</CardDescription>
+                        <CardDescription>{HISTORY_RANGE_LABELS[historyRange]}</CardDescription>
                     </CardHeader>
                     <CardContent>
                         <ResponsiveContainer width="100%" height={250}>
-                            <LineChart data={formatChartData(pnode.history.storageUtilization)}>
+                            <LineChart data={formatChartData(pnode.history.storageUtilization, historyRange)}>
                                 <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
                                 <XAxis dataKey="time" className="text-xs" />
                                 <YAxis domain={[0, 100]} className="text-xs" />
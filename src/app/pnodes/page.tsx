@@ -1,7 +1,7 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { usePNodes } from '@/hooks/usePNodes'
+import { useState, useEffect, useMemo } from 'react'
+import { fetchPNodePage, usePNodePage, usePNodes } from '@/hooks/usePNodes'
 import { PNodeTable } from '@/components/pnodes/pnode-table'
 import { PNodeCard } from '@/components/pnodes/pnode-card'
 import { PNodeMap } from '@/components/pnodes/pnode-map'
@@ -15,38 +15,44 @@ import { LayoutGrid, Table, Star, TrendingUp, Map } from 'lucide-react'
 import { getFavorites, toggleFavorite } from '@/lib/favorites'
 import { formatBytes } from '@/lib/format'
 import { ExportDialog } from '@/components/export-dialog'
-import type { PNode } from '@/types/pnode'
+import { filterPNodes } from '@/lib/pnode-query'
+import type { PNodeFilters as PNodeFilterValues } from '@/types/pnode'
 import { PNodeDetailPanel } from '@/components/pnodes/pnode-detail-panel'
 
 export default function PNodesPage() {
-  const { data: allPNodes, isLoading, error, refetch } = usePNodes()
-  const [filteredPNodes, setFilteredPNodes] = useState<PNode[]>([])
+  const [filterValues, setFilterValues] = useState<PNodeFilterValues>({})
   const [viewMode, setViewMode] = useState<'table' | 'grid' | 'map'>('table')
   const [favorites, setFavorites] = useState<string[]>([])
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false)
   const [selectedPNodeId, setSelectedPNodeId] = useState<string | null>(null)
 
+  // The table pages through the server; only the grid and map need the whole fleet
+  const {
+    data: topPage,
+    isLoading,
+    error,
+    refetch,
+  } = usePNodePage({ sort: { field: 'performance', order: 'desc' }, limit: 5 })
+  const { data: optionsPage } = usePNodePage({ fields: ['location', 'version'] })
+  const { data: allPNodes } = usePNodes({ enabled: viewMode !== 'table' })
+
   useEffect(() => {
     setFavorites(getFavorites())
   }, [])
 
-  useEffect(() => {
-    if (allPNodes) {
-      setFilteredPNodes(allPNodes)
-    }
-  }, [allPNodes])
-
   const handleToggleFavorite = (id: string) => {
     toggleFavorite(id)
     setFavorites(getFavorites())
   }
 
-  const displayPNodes = showFavoritesOnly ? filteredPNodes.filter((p) => favorites.includes(p.id)) : filteredPNodes
+  const filters = useMemo(
+    () => (showFavoritesOnly ? { ...filterValues, ids: favorites } : filterValues),
+    [filterValues, showFavoritesOnly, favorites],
+  )
+  const { data: matching } = usePNodePage({ filters, limit: 1, fields: ['id'] })
+  const displayPNodes = useMemo(() => (allPNodes ? filterPNodes(allPNodes, filters) : []), [allPNodes, filters])
 
-  // Get top performers
-  const topPerformers = allPNodes
-    ? [...allPNodes].sort((a, b) => b.performanceScore - a.performanceScore).slice(0, 5)
-    : []
+  const topPerformers = topPage?.pnodes ?? []
 
   // Show error state
   if (error && !isLoading) {
@@ -86,11 +92,14 @@ export default function PNodesPage() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">pNode Explorer</h1>
           <p className="text-muted-foreground mt-2">
-            {displayPNodes.length} of {allPNodes?.length || 0} pNodes
+            {matching?.total ?? 0} of {topPage?.total ?? 0} pNodes
           </p>
         </div>
         <div className="flex items-center space-x-2">
-          <ExportDialog pnodes={displayPNodes} />
+          <ExportDialog
+            count={matching?.total ?? 0}
+            loadPNodes={() => fetchPNodePage({ filters }).then((page) => page.pnodes)}
+          />
         </div>
       </div>
 
@@ -127,7 +136,7 @@ export default function PNodesPage() {
       )}
 
       {/* Filters */}
-      {allPNodes && <PNodeFilters pnodes={allPNodes} onFilterChange={setFilteredPNodes} />}
+      <PNodeFilters pnodes={optionsPage?.pnodes ?? []} onFiltersChange={setFilterValues} />
 
       {/* View Controls */}
       <div className="flex items-center justify-between">
@@ -160,8 +169,7 @@ export default function PNodesPage() {
       {/* Content */}
       {viewMode === 'table' && (
         <PNodeTable
-          pnodes={displayPNodes}
-          isLoading={false}
+          filters={filters}
           onSelectPNode={setSelectedPNodeId}
           favorites={favorites}
           onToggleFavorite={handleToggleFavorite}
@@ -1,14 +1,15 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { AlertTriangle, CheckCircle, Clock, Bell, Settings } from 'lucide-react'
-import type { Alert, AlertStats } from '@/types/alerts'
-import { getAlertService } from '@/services/alert.service'
+import { AlertTriangle, CheckCircle, Clock, Bell, BellOff, Settings } from 'lucide-react'
+import { useAlerts, useAlertStats, useAcknowledgeAlert, useResolveAlert, useSession } from '@/hooks/useAnalytics'
 import { formatDistanceToNow } from 'date-fns'
+import { formatDuration } from '@/lib/format'
 
 interface AlertDashboardProps {
   compact?: boolean
@@ -16,36 +17,38 @@ interface AlertDashboardProps {
 }
 
 export function AlertDashboard({ compact = false, className = '' }: AlertDashboardProps) {
-  const [alerts, setAlerts] = useState<Alert[]>([])
-  const [stats, setStats] = useState<AlertStats | null>(null)
   const [activeTab, setActiveTab] = useState<'active' | 'history'>('active')
+  const { data: alerts = [] } = useAlerts({ limit: 200 })
+  const { data: stats } = useAlertStats()
+  const acknowledgeAlert = useAcknowledgeAlert()
+  const resolveAlert = useResolveAlert()
+  // Acknowledging and resolving need a signed-in session; they're recorded under its key's name
+  const { data: session } = useSession()
+  const seenAlertIds = useRef<Set<string> | null>(null)
+  const [ackingAlertId, setAckingAlertId] = useState<string | null>(null)
+  const [ackNote, setAckNote] = useState('')
 
-  const alertService = getAlertService()
-
+  // Show a browser notification for alerts that arrived since the last poll
   useEffect(() => {
-    // Initial load
-    const doUpdate = () => {
-      setAlerts(alertService.getAlerts())
-      setStats(alertService.getAlertStats())
-    }
-    doUpdate()
-
-    // Set up real-time updates
-    const handleNewAlert = () => {
-      doUpdate()
+    if (seenAlertIds.current === null) {
+      if (alerts.length > 0) seenAlertIds.current = new Set(alerts.map((alert) => alert.id))
+      return
     }
 
-    alertService.addAlertListener(handleNewAlert)
-
-    return () => {
-      alertService.removeAlertListener(handleNewAlert)
-    }
-  }, [alertService])
+    const newAlerts = alerts.filter((alert) => !seenAlertIds.current!.has(alert.id))
+    newAlerts.forEach((alert) => seenAlertIds.current!.add(alert.id))
 
-  const updateAlerts = () => {
-    setAlerts(alertService.getAlerts())
-    setStats(alertService.getAlertStats())
-  }
+    if (!('Notification' in window) || Notification.permission !== 'granted') return
+    newAlerts
+      .filter((alert) => !alert.resolved && !alert.silenced)
+      .forEach((alert) => {
+        new Notification(alert.title, {
+          body: alert.message,
+          icon: '/favicon.ico',
+          tag: `xandeum-alert-${alert.id}`,
+        })
+      })
+  }, [alerts])
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -81,13 +84,13 @@ export function AlertDashboard({ compact = false, className = '' }: AlertDashboa
   const resolvedAlerts = alerts.filter((alert) => alert.resolved)
 
   const handleAcknowledge = (alertId: string) => {
-    alertService.acknowledgeAlert(alertId)
-    updateAlerts()
+    acknowledgeAlert.mutate({ alertId, note: ackNote.trim() || undefined })
+    setAckingAlertId(null)
+    setAckNote('')
   }
 
   const handleResolve = (alertId: string) => {
-    alertService.resolveAlert(alertId)
-    updateAlerts()
+    resolveAlert.mutate(alertId)
   }
 
   if (compact) {
@@ -249,16 +252,61 @@ export function AlertDashboard({ compact = false, className = '' }: AlertDashboa
                             <Badge variant="outline" className="text-xs">
                               {alert.type.replace('_', ' ')}
                             </Badge>
+                            {alert.escalatedAt && (
+                              <Badge variant="danger" className="text-xs">
+                                Escalated
+                              </Badge>
+                            )}
+                            {alert.silenced && (
+                              <Badge variant="secondary" className="text-xs flex items-center gap-1">
+                                <BellOff className="h-3 w-3" />
+                                Silenced
+                              </Badge>
+                            )}
                           </div>
+                          {alert.acknowledged && alert.acknowledgedBy && (
+                            <p className="text-xs text-muted-foreground mt-2">
+                              Acknowledged by {alert.acknowledgedBy}
+                              {alert.ackNote && <>: &ldquo;{alert.ackNote}&rdquo;</>}
+                            </p>
+                          )}
+                          {ackingAlertId === alert.id && (
+                            <div className="flex flex-wrap items-center gap-2 mt-3">
+                              <Input
+                                value={ackNote}
+                                onChange={(e) => setAckNote(e.target.value)}
+                                placeholder="Note (optional)"
+                                className="h-8 flex-1 min-w-40"
+                              />
+                              <Button size="sm" onClick={() => handleAcknowledge(alert.id)}>
+                                Confirm
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => setAckingAlertId(null)}>
+                                Cancel
+                              </Button>
+                            </div>
+                          )}
                         </div>
 
                         <div className="flex gap-2">
-                          {!alert.acknowledged && (
-                            <Button variant="outline" size="sm" onClick={() => handleAcknowledge(alert.id)}>
+                          {!alert.acknowledged && ackingAlertId !== alert.id && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={!session}
+                              title={session ? undefined : 'Sign in to acknowledge alerts'}
+                              onClick={() => setAckingAlertId(alert.id)}
+                            >
                               Acknowledge
                             </Button>
                           )}
-                          <Button variant="outline" size="sm" onClick={() => handleResolve(alert.id)}>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!session}
+                            title={session ? undefined : 'Sign in to resolve alerts'}
+                            onClick={() => handleResolve(alert.id)}
+                          >
                             Resolve
                           </Button>
                         </div>
@@ -288,7 +336,13 @@ export function AlertDashboard({ compact = false, className = '' }: AlertDashboa
                       <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
                         <span>
                           Resolved {formatDistanceToNow(alert.resolvedAt || alert.timestamp, { addSuffix: true })}
+                          {alert.resolvedBy === 'system'
+                            ? ' automatically'
+                            : alert.resolvedBy && ` by ${alert.resolvedBy}`}
                         </span>
+                        {alert.resolveTimeMs !== undefined && (
+                          <span>Open for {formatDuration(Math.round(alert.resolveTimeMs / 1000))}</span>
+                        )}
                         {alert.pnodeId && <span>pNode: {alert.pnodeId.slice(0, 8)}...</span>}
                       </div>
                     </div>
@@ -0,0 +1,61 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { KeyRound, LogOut } from 'lucide-react'
+import { useSession, useSignIn, useSignOut } from '@/hooks/useAnalytics'
+import { toast } from 'sonner'
+
+interface SessionControlProps {
+  className?: string
+}
+
+/**
+ * Sign in with an API key to acknowledge and resolve alerts; actions are recorded under the key's name
+ */
+export function SessionControl({ className = '' }: SessionControlProps) {
+  const { data: session } = useSession()
+  const signIn = useSignIn()
+  const signOut = useSignOut()
+  const [key, setKey] = useState('')
+
+  if (session) {
+    return (
+      <div className={`flex items-center gap-2 text-sm ${className}`}>
+        <span className="text-muted-foreground">
+          Signed in as <span className="font-medium text-foreground">{session.name}</span>
+        </span>
+        <Button size="sm" variant="outline" onClick={() => signOut.mutate()}>
+          <LogOut className="h-4 w-4 mr-1" />
+          Sign out
+        </Button>
+      </div>
+    )
+  }
+
+  const handleSignIn = () => {
+    if (!key.trim()) return
+    signIn.mutate(key.trim(), {
+      onSuccess: () => setKey(''),
+      onError: (error) => toast.error(error.message),
+    })
+  }
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <Input
+        type="password"
+        placeholder="API key"
+        value={key}
+        onChange={(e) => setKey(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleSignIn()}
+        className="h-8 w-56 text-sm"
+      />
+      <Button size="sm" disabled={!key.trim() || signIn.isPending} onClick={handleSignIn}>
+        <KeyRound className="h-4 w-4 mr-1" />
+        Sign in
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,285 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { BellOff, Wrench, Plus } from 'lucide-react'
+import { useSilences, useCreateSilence, useExpireSilence, useSession } from '@/hooks/useAnalytics'
+import type { AlertSilence, AlertSilenceKind, AlertType } from '@/types/alerts'
+import { format, formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+
+const RULE_TYPES: AlertType[] = [
+  'pnode_offline',
+  'pnode_performance_drop',
+  'pnode_storage_full',
+  'pnode_version_outdated',
+  'new_pnode_joined',
+  'network_decentralization',
+  'custom',
+]
+
+const DURATIONS = [
+  { label: '30 minutes', minutes: 30 },
+  { label: '1 hour', minutes: 60 },
+  { label: '2 hours', minutes: 120 },
+  { label: '4 hours', minutes: 240 },
+  { label: '8 hours', minutes: 480 },
+  { label: '24 hours', minutes: 1440 },
+]
+
+/** Split a comma/whitespace separated field into its non-empty entries */
+function splitList(value: string, separator: RegExp): string[] {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+interface SilenceManagerProps {
+  className?: string
+}
+
+export function SilenceManager({ className = '' }: SilenceManagerProps) {
+  const { data: silences = [] } = useSilences()
+  const { data: session } = useSession()
+  const createSilence = useCreateSilence()
+  const expireSilence = useExpireSilence()
+  const [showForm, setShowForm] = useState(false)
+  const [kind, setKind] = useState<AlertSilenceKind>('maintenance')
+  const [reason, setReason] = useState('')
+  const [pubkeys, setPubkeys] = useState('')
+  const [locations, setLocations] = useState('')
+  const [ruleTypes, setRuleTypes] = useState<AlertType[]>([])
+  const [startsAt, setStartsAt] = useState('')
+  const [durationMinutes, setDurationMinutes] = useState(60)
+
+  const now = new Date()
+  const isActive = (silence: AlertSilence) => silence.startsAt <= now
+
+  const toggleRuleType = (type: AlertType) => {
+    setRuleTypes((current) => (current.includes(type) ? current.filter((t) => t !== type) : [...current, type]))
+  }
+
+  const resetForm = () => {
+    setReason('')
+    setPubkeys('')
+    setLocations('')
+    setRuleTypes([])
+    setStartsAt('')
+    setShowForm(false)
+  }
+
+  const handleCreate = () => {
+    createSilence.mutate(
+      {
+        kind,
+        reason: reason.trim(),
+        pubkeys: splitList(pubkeys, /[\s,]+/),
+        // Locations may contain spaces ("New York"), so only commas separate them
+        locations: splitList(locations, /,/),
+        ruleTypes,
+        startsAt: startsAt ? new Date(startsAt).toISOString() : undefined,
+        durationMinutes,
+      },
+      {
+        onSuccess: () => {
+          toast.success(kind === 'maintenance' ? 'Maintenance window scheduled' : 'Silence created')
+          resetForm()
+        },
+        onError: (error) => toast.error(error.message),
+      },
+    )
+  }
+
+  const describeMatchers = (silence: AlertSilence) => {
+    const parts: string[] = []
+    if (silence.pubkeys.length > 0) {
+      parts.push(`pNodes: ${silence.pubkeys.map((pubkey) => `${pubkey.slice(0, 8)}...`).join(', ')}`)
+    }
+    if (silence.locations.length > 0) parts.push(`Locations: ${silence.locations.join(', ')}`)
+    if (silence.ruleTypes.length > 0) {
+      parts.push(`Types: ${silence.ruleTypes.map((type) => type.replace(/_/g, ' ')).join(', ')}`)
+    }
+    return parts.join(' · ')
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <BellOff className="h-5 w-5" />
+            Silences &amp; Maintenance
+          </CardTitle>
+          {!showForm && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!session}
+              title={session ? undefined : 'Sign in to create silences'}
+              onClick={() => setShowForm(true)}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              New Silence
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Matching alerts are still recorded but no notifications are sent. Silences expire automatically.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="space-y-4 p-4 rounded-lg border">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Kind</Label>
+                <Select value={kind} onValueChange={(value) => setKind(value as AlertSilenceKind)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="maintenance">Maintenance window</SelectItem>
+                    <SelectItem value="silence">Silence</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Upgrading EU nodes to 0.8.1"
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>pNode pubkeys</Label>
+                <Input
+                  value={pubkeys}
+                  onChange={(e) => setPubkeys(e.target.value)}
+                  placeholder="Comma or space separated"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Locations</Label>
+                <Input
+                  value={locations}
+                  onChange={(e) => setLocations(e.target.value)}
+                  placeholder="e.g. Germany, Frankfurt"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Rule types</Label>
+              <div className="flex flex-wrap gap-2">
+                {RULE_TYPES.map((type) => (
+                  <Badge
+                    key={type}
+                    variant={ruleTypes.includes(type) ? 'default' : 'outline'}
+                    className="cursor-pointer text-xs"
+                    onClick={() => toggleRuleType(type)}
+                  >
+                    {type.replace(/_/g, ' ')}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Starts</Label>
+                <Input type="datetime-local" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} />
+                <p className="text-xs text-muted-foreground">Leave empty to start now</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Duration</Label>
+                <Select value={String(durationMinutes)} onValueChange={(value) => setDurationMinutes(parseInt(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATIONS.map((duration) => (
+                      <SelectItem key={duration.minutes} value={String(duration.minutes)}>
+                        {duration.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={resetForm}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                disabled={
+                  !session ||
+                  !reason.trim() ||
+                  createSilence.isPending ||
+                  (!pubkeys.trim() && !locations.trim() && ruleTypes.length === 0)
+                }
+                onClick={handleCreate}
+              >
+                Create
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {silences.length === 0 && !showForm ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No active or scheduled silences</p>
+        ) : (
+          silences.map((silence) => (
+            <div key={silence.id} className="flex items-start gap-4 p-4 rounded-lg border">
+              <div className="p-2 rounded-lg bg-gray-100 dark:bg-gray-900">
+                {silence.kind === 'maintenance' ? (
+                  <Wrench className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                ) : (
+                  <BellOff className="h-4 w-4 text-gray-600 dark:text-gray-400" />
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-medium">{silence.reason}</h4>
+                  <Badge variant={isActive(silence) ? 'warning' : 'outline'} className="text-xs">
+                    {isActive(silence) ? 'Active' : 'Scheduled'}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground mt-1">{describeMatchers(silence)}</p>
+                <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+                  <span>
+                    {isActive(silence)
+                      ? `Ends ${formatDistanceToNow(silence.endsAt, { addSuffix: true })}`
+                      : `${format(silence.startsAt, 'MMM d, HH:mm')} – ${format(silence.endsAt, 'MMM d, HH:mm')}`}
+                  </span>
+                  {silence.createdBy && <span>by {silence.createdBy}</span>}
+                </div>
+              </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={expireSilence.isPending}
+                onClick={() => expireSilence.mutate(silence.id)}
+              >
+                {isActive(silence) ? 'End now' : 'Cancel'}
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  )
+}
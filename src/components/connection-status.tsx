@@ -1,7 +1,8 @@
 'use client'
 
-import { useEffect, useState, useCallback } from 'react'
-import { getWebSocketService, PNodeUpdateEvent } from '@/services/websocket.service'
+import { useEffect, useState } from 'react'
+import { getLiveStreamService } from '@/services/live-stream.service'
+import type { LiveConnectionStatus } from '@/services/live-stream.service'
 import { Badge } from '@/components/ui/badge'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { Wifi, WifiOff, Loader2 } from 'lucide-react'
@@ -23,65 +24,26 @@ function PulsingDot({ color }: { color: 'green' | 'orange' | 'red' }) {
 }
 
 export function ConnectionStatus() {
-  const [isConnected, setIsConnected] = useState(true) // Default to connected (simulated live mode)
-  const [isConnecting, setIsConnecting] = useState(false)
+  const [status, setStatus] = useState<LiveConnectionStatus>('connecting')
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date())
-  const [, setConnectionMode] = useState<'websocket' | 'simulated'>('simulated')
-
-  const handleConnect = useCallback((event: PNodeUpdateEvent) => {
-    setIsConnected(true)
-    setIsConnecting(false)
-    setLastUpdated(new Date())
-    const mode = event.data.mode as 'websocket' | 'simulated' | undefined
-    if (mode) {
-      setConnectionMode(mode)
-    }
-  }, [])
-
-  const handleDisconnect = useCallback(() => {
-    setIsConnected(false)
-    setIsConnecting(false)
-  }, [])
 
   useEffect(() => {
-    const wsService = getWebSocketService()
+    const live = getLiveStreamService()
+    setStatus(live.getConnectionStatus())
 
-    const checkConnection = () => {
-      const connected = wsService.getConnectionStatus()
-      setIsConnected(connected)
-    }
-
-    // Check initial status
-    checkConnection()
-
-    // Set up periodic checks
-    const interval = setInterval(checkConnection, 5000) // Check every 5 seconds
-
-    wsService.addEventListener('network_stats_update', handleConnect)
-    wsService.addEventListener('network_stats_update', handleDisconnect)
-
-    // Try to connect on mount
-    const connectWebSocket = async () => {
-      if (!wsService.getConnectionStatus()) {
-        setIsConnecting(true)
-        try {
-          await wsService.connect()
-        } catch {
-          console.warn('Real-time connection setup completed (using enhanced polling)')
-          setIsConnecting(false)
-          setIsConnected(true) // We're always "connected" via polling
-        }
-      }
-    }
-
-    connectWebSocket()
+    const unsubscribeStatus = live.subscribe('status', (next) => {
+      setStatus(next)
+      if (next === 'connected') setLastUpdated(live.getLastMessageAt() ?? new Date())
+    })
+    const unsubscribeUpdate = live.subscribe('update', (update) => {
+      setLastUpdated(new Date(update.timestamp))
+    })
 
     return () => {
-      clearInterval(interval)
-      wsService.removeEventListener('network_stats_update', handleConnect)
-      wsService.removeEventListener('network_stats_update', handleDisconnect)
+      unsubscribeStatus()
+      unsubscribeUpdate()
     }
-  }, [handleConnect, handleDisconnect])
+  }, [])
 
   // Format time ago
   const getTimeAgo = () => {
@@ -100,7 +62,7 @@ export function ConnectionStatus() {
     return () => clearInterval(timer)
   }, [])
 
-  if (isConnecting) {
+  if (status === 'connecting') {
     return (
       <Badge variant="outline" className="gap-1.5">
         <Loader2 className="h-3 w-3 animate-spin" />
@@ -109,7 +71,7 @@ export function ConnectionStatus() {
     )
   }
 
-  if (isConnected) {
+  if (status === 'connected') {
     return (
       <TooltipProvider>
         <Tooltip>
@@ -123,7 +85,7 @@ export function ConnectionStatus() {
             <div className="text-xs">
               <div className="flex items-center gap-1.5">
                 <Wifi className="h-3 w-3" />
-                <span>Connected to network</span>
+                <span>Receiving live updates</span>
               </div>
               <div className="text-muted-foreground mt-1">
                 Last updated: {getTimeAgo()}
@@ -141,17 +103,17 @@ export function ConnectionStatus() {
         <TooltipTrigger asChild>
           <Badge variant="outline" className="gap-1.5 text-orange-600 dark:text-orange-400 border-orange-500/50 cursor-default">
             <PulsingDot color="orange" />
-            <span>Offline</span>
+            <span>Polling</span>
           </Badge>
         </TooltipTrigger>
         <TooltipContent>
           <div className="text-xs">
             <div className="flex items-center gap-1.5">
               <WifiOff className="h-3 w-3" />
-              <span>Disconnected from network</span>
+              <span>Live stream unavailable</span>
             </div>
             <div className="text-muted-foreground mt-1">
-              Attempting to reconnect...
+              Refreshing every 30s until it reconnects
             </div>
           </div>
         </TooltipContent>
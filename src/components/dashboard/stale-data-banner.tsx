@@ -0,0 +1,48 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { useIndexerStatus } from '@/hooks/useAnalytics';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { formatDuration, formatRelativeTime } from '@/lib/format';
+import type { IndexerStatus } from '@/types/indexer';
+
+/** "12 minutes", or "3h 5m" once it's been a couple of hours */
+export function formatStaleness(stalenessMs: number): string {
+    const minutes = Math.floor(stalenessMs / 60000);
+    if (minutes < 120) return `${minutes} minute${minutes !== 1 ? 's' : ''}`;
+    return formatDuration(stalenessMs / 1000);
+}
+
+function describe(status: IndexerStatus): string {
+    const parts: string[] = [];
+    if (status.lastSuccessfulRun?.finishedAt) {
+        parts.push(`Last successful indexer run ${formatRelativeTime(status.lastSuccessfulRun.finishedAt)}.`);
+    }
+    if (status.consecutiveFailures > 0) {
+        parts.push(`${status.consecutiveFailures} cycle${status.consecutiveFailures !== 1 ? 's have' : ' has'} failed since.`);
+    }
+    if (status.lastRun?.error) {
+        parts.push(`Last error: ${status.lastRun.error}`);
+    } else if (status.failingSources.length > 0) {
+        parts.push(`Failing sources: ${status.failingSources.join(', ')}.`);
+    }
+    return parts.join(' ');
+}
+
+/**
+ * Warns when the indexer hasn't completed a cycle within INDEXER_STALE_AFTER_MINUTES.
+ * Renders nothing while data is fresh, or when no run ledger is available.
+ */
+export function StaleDataBanner() {
+    const { data: status } = useIndexerStatus();
+
+    if (status?.freshness !== 'stale' || status.stalenessMs === null) return null;
+
+    return (
+        <Alert variant="warning">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Data is {formatStaleness(status.stalenessMs)} stale</AlertTitle>
+            <AlertDescription>{describe(status)}</AlertDescription>
+        </Alert>
+    );
+}
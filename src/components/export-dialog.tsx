@@ -15,12 +15,15 @@ import type { ExportOptions } from '@/services/export.service'
 import { toast } from 'sonner'
 
 interface ExportDialogProps {
-  pnodes: PNode[]
+  /** Number of pNodes the export will contain */
+  count: number
+  /** Fetch the pNodes to export; called when the export starts */
+  loadPNodes: () => Promise<PNode[]>
   trigger?: React.ReactNode
   className?: string
 }
 
-export function ExportDialog({ pnodes, trigger, className = '' }: ExportDialogProps) {
+export function ExportDialog({ count, loadPNodes, trigger, className = '' }: ExportDialogProps) {
   const [open, setOpen] = useState(false)
   const [isExporting, setIsExporting] = useState(false)
   const [options, setOptions] = useState<ExportOptions>({
@@ -35,6 +38,7 @@ export function ExportDialog({ pnodes, trigger, className = '' }: ExportDialogPr
   const handleExport = async () => {
     setIsExporting(true)
     try {
+      const pnodes = await loadPNodes()
       await exportService.exportPNodes(pnodes, options)
       toast.success(`Successfully exported ${pnodes.length} pNodes as ${options.format.toUpperCase()}`)
       setOpen(false)
@@ -198,7 +202,7 @@ export function ExportDialog({ pnodes, trigger, className = '' }: ExportDialogPr
                 Format: <Badge variant="secondary">{options.format.toUpperCase()}</Badge>
               </div>
               <div>
-                Records: <span className="font-medium">{pnodes.length}</span> pNodes
+                Records: <span className="font-medium">{count}</span> pNodes
               </div>
               {options.filters?.minPerformance && (
                 <div>
@@ -227,7 +231,7 @@ export function ExportDialog({ pnodes, trigger, className = '' }: ExportDialogPr
               ) : (
                 <>
                   <Download className="h-4 w-4 mr-2" />
-                  Export {pnodes.length} Records
+                  Export {count} Records
                 </>
               )}
             </Button>
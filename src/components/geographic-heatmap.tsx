@@ -105,10 +105,12 @@ export function GeographicHeatmap({ pnodes, className = '' }: GeographicHeatmapP
     }
   }
 
-  // Get coordinates for pNode (simplified - would use real geo data)
+  // Get coordinates for pNode: stored GeoIP coordinates, else approximate ones for its region
   const getCoordinates = (pnode: PNode): LatLngTuple => {
-    // This would be replaced with real geolocation data
-    // For demo purposes, we'll use approximate coordinates based on location
+    if (pnode.geo && (pnode.geo.latitude !== 0 || pnode.geo.longitude !== 0)) {
+      return [pnode.geo.latitude, pnode.geo.longitude]
+    }
+
     const locationCoords: Record<string, LatLngTuple> = {
       'US-East': [40.7128, -74.006],
       'US-West': [37.7749, -122.4194],
@@ -125,11 +125,15 @@ export function GlobeMap({ pnodes, className }: GlobeMapProps) {
     const nodeCoords = useMemo<NodeCoordinate[]>(() => {
         return pnodes.map((pnode) => {
             const region = pnode.location || 'Unknown';
-            const baseCoords = regionCoordinates[region] || regionCoordinates['Unknown'];
-
-            // Add jitter so nodes don't stack
-            const jitterLat = (Math.random() - 0.5) * 8;
-            const jitterLng = (Math.random() - 0.5) * 10;
+            // Stored GeoIP coordinates when the indexer has resolved them, else the region's
+            const geo = pnode.geo && (pnode.geo.latitude !== 0 || pnode.geo.longitude !== 0) ? pnode.geo : null;
+            const baseCoords: [number, number] = geo
+                ? [geo.latitude, geo.longitude]
+                : regionCoordinates[region] || regionCoordinates['Unknown'];
+
+            // Add jitter so nodes don't stack (less for real coordinates, e.g. same datacenter)
+            const jitterLat = (Math.random() - 0.5) * (geo ? 0.5 : 8);
+            const jitterLng = (Math.random() - 0.5) * (geo ? 0.5 : 10);
 
             const statusColor = pnode.status === 'online'
                 ? '#10b981'
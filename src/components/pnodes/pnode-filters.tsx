@@ -1,18 +1,23 @@
 'use client';
 
 import { useState, useMemo, useEffect } from 'react';
-import type { PNode } from '@/types/pnode';
+import type { PNode, PNodeFilters as PNodeFilterValues, PNodeStatus } from '@/types/pnode';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { MultiSelect } from '@/components/ui/multi-select';
 import { Search, X, SlidersHorizontal } from 'lucide-react';
 
+/** Wait this long after the last keystroke before searching */
+const SEARCH_DEBOUNCE_MS = 300;
+
 interface PNodeFiltersProps {
-    pnodes: PNode[];
-    onFilterChange: (filtered: PNode[]) => void;
+    /** Nodes to offer locations and versions from (only those two fields are read) */
+    pnodes: Pick<PNode, 'location' | 'version'>[];
+    /** Called with the filters to send to GET /api/pnodes */
+    onFiltersChange: (filters: PNodeFilterValues) => void;
 }
 
-export function PNodeFilters({ pnodes, onFilterChange }: PNodeFiltersProps) {
+export function PNodeFilters({ pnodes, onFiltersChange }: PNodeFiltersProps) {
     const [search, setSearch] = useState('');
     const [selectedStatus, setSelectedStatus] = useState<string[]>([]);
     const [selectedLocations, setSelectedLocations] = useState<string[]>([]);
@@ -37,42 +42,21 @@ export function PNodeFilters({ pnodes, onFilterChange }: PNodeFiltersProps) {
         return versions.map((ver) => ({ label: ver, value: ver }));
     }, [pnodes]);
 
-    // Apply filters
+    // Report the filters; the search box waits for typing to pause
     useEffect(() => {
-        let filtered = pnodes;
-
-        // Search filter
-        if (search) {
-            filtered = filtered.filter(
-                (p) =>
-                    p.id.toLowerCase().includes(search.toLowerCase()) ||
-                    p.gossipEndpoint.toLowerCase().includes(search.toLowerCase()) ||
-                    (p.location && p.location.toLowerCase().includes(search.toLowerCase()))
-            );
-        }
-
-        // Status filter
-        if (selectedStatus.length > 0) {
-            filtered = filtered.filter((p) => selectedStatus.includes(p.status));
-        }
-
-        // Location filter
-        if (selectedLocations.length > 0) {
-            filtered = filtered.filter((p) => selectedLocations.includes(p.location || 'Unknown'));
-        }
-
-        // Version filter
-        if (selectedVersions.length > 0) {
-            filtered = filtered.filter((p) => selectedVersions.includes(p.version));
-        }
-
-        // Performance filter
-        if (minPerformance > 0) {
-            filtered = filtered.filter((p) => p.performanceScore >= minPerformance);
-        }
-
-        onFilterChange(filtered);
-    }, [search, selectedStatus, selectedLocations, selectedVersions, minPerformance, pnodes, onFilterChange]);
+        const timer = setTimeout(
+            () =>
+                onFiltersChange({
+                    search: search.trim() || undefined,
+                    status: selectedStatus as PNodeStatus[],
+                    location: selectedLocations,
+                    version: selectedVersions,
+                    minPerformance: minPerformance > 0 ? minPerformance : undefined,
+                }),
+            search ? SEARCH_DEBOUNCE_MS : 0,
+        );
+        return () => clearTimeout(timer);
+    }, [search, selectedStatus, selectedLocations, selectedVersions, minPerformance, onFiltersChange]);
 
     const clearFilters = () => {
         setSearch('');
@@ -5,15 +5,16 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { formatBytes, formatRelativeTime, truncatePublicKey, formatPercentage, formatUtilization } from '@/lib/format';
-import { ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Bell, BellOff, Star } from 'lucide-react';
+import { ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, ChevronsLeft, Bell, BellOff, Star } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { addToWatchlist, removeFromWatchlist, isInWatchlist } from '@/lib/watchlist';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import type { PNode } from '@/types/pnode';
+import { usePNodePage } from '@/hooks/usePNodes';
+import type { PNode, PNodeFilters, PNodeSortOptions } from '@/types/pnode';
 
-type SortField = 'id' | 'status' | 'storage' | 'utilization' | 'performance' | 'uptime' | 'location' | 'lastSeen';
-type SortDirection = 'asc' | 'desc';
+type SortField = PNodeSortOptions['field'];
+type SortDirection = PNodeSortOptions['order'];
 
 function getStatusBadgeVariant(status: string): 'success' | 'danger' | 'warning' {
     switch (status) {
@@ -34,19 +35,9 @@ function getPerformanceBadgeVariant(score: number): 'success' | 'warning' | 'dan
     return 'danger';
 }
 
-// Helper to get status priority for sorting
-function getStatusPriority(status: string): number {
-    switch (status) {
-        case 'online': return 0;
-        case 'delinquent': return 1;
-        case 'offline': return 2;
-        default: return 3;
-    }
-}
-
 interface PNodeTableProps {
-    pnodes: PNode[];
-    isLoading?: boolean;
+    /** Filters sent to GET /api/pnodes; the table pages through the matching nodes */
+    filters: PNodeFilters;
     onSelectPNode?: (id: string) => void;
     favorites?: string[];
     onToggleFavorite?: (id: string) => void;
@@ -86,13 +77,25 @@ function SortableHeader({ field, currentSort, currentDirection, onSort, children
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100] as const;
 
-export function PNodeTable({ pnodes, isLoading, onSelectPNode, favorites = [], onToggleFavorite }: PNodeTableProps) {
+export function PNodeTable({ filters, onSelectPNode, favorites = [], onToggleFavorite }: PNodeTableProps) {
     const [sortField, setSortField] = useState<SortField>('performance');
     const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
-    const [currentPage, setCurrentPage] = useState(1);
     const [pageSize, setPageSize] = useState<number>(10);
+    // Cursor of every page visited so far (the last one is the current page); changing the filters starts over
+    const filtersKey = JSON.stringify(filters);
+    const [paging, setPaging] = useState({ filtersKey, cursors: [undefined] as (string | undefined)[] });
+    const cursors = paging.filtersKey === filtersKey ? paging.cursors : [undefined];
+    const setCursors = (next: (string | undefined)[]) => setPaging({ filtersKey, cursors: next });
     const [watchedIds, setWatchedIds] = useState<Set<string>>(new Set());
 
+    const { data: page, isLoading } = usePNodePage({
+        filters,
+        sort: { field: sortField, order: sortDirection },
+        limit: pageSize,
+        cursor: cursors[cursors.length - 1],
+    });
+    const pnodes = useMemo(() => page?.pnodes ?? [], [page]);
+
     useEffect(() => {
         const watched = new Set(pnodes.filter(p => isInWatchlist(p.id)).map(p => p.id));
         setWatchedIds(watched);
@@ -118,67 +121,21 @@ export function PNodeTable({ pnodes, isLoading, onSelectPNode, favorites = [], o
             setSortField(field);
             setSortDirection(['id', 'location', 'status'].includes(field) ? 'asc' : 'desc');
         }
-        setCurrentPage(1); // Reset to first page when sorting changes
+        setCursors([undefined]); // Cursors only apply to the sort they were issued for
     };
 
     const handlePageSizeChange = (value: string) => {
         setPageSize(parseInt(value, 10));
-        setCurrentPage(1);
+        setCursors([undefined]);
     };
 
-    const sortedPNodes = useMemo(() => {
-        if (!pnodes) return [];
-
-        return [...pnodes].sort((a, b) => {
-            let comparison = 0;
-
-            switch (sortField) {
-                case 'id':
-                    comparison = a.id.localeCompare(b.id);
-                    break;
-                case 'status':
-                    comparison = getStatusPriority(a.status) - getStatusPriority(b.status);
-                    break;
-                case 'storage':
-                    comparison = a.storage.capacityBytes - b.storage.capacityBytes;
-                    break;
-                case 'utilization':
-                    comparison = a.storage.utilization - b.storage.utilization;
-                    break;
-                case 'performance':
-                    comparison = a.performanceScore - b.performanceScore;
-                    break;
-                case 'uptime':
-                    comparison = a.performance.uptime - b.performance.uptime;
-                    break;
-                case 'location':
-                    comparison = (a.location || 'Unknown').localeCompare(b.location || 'Unknown');
-                    break;
-                case 'lastSeen':
-                    comparison = new Date(a.lastSeen).getTime() - new Date(b.lastSeen).getTime();
-                    break;
-            }
-
-            return sortDirection === 'asc' ? comparison : -comparison;
-        });
-    }, [pnodes, sortField, sortDirection]);
-
     // Pagination calculations
-    const totalItems = sortedPNodes.length;
+    const currentPage = cursors.length;
+    const totalItems = page?.total ?? 0;
     const totalPages = Math.ceil(totalItems / pageSize);
     const startIndex = (currentPage - 1) * pageSize;
-    const endIndex = Math.min(startIndex + pageSize, totalItems);
-    const paginatedPNodes = useMemo(() =>
-        sortedPNodes.slice(startIndex, endIndex),
-        [sortedPNodes, startIndex, endIndex]
-    );
-
-    // Ensure current page is valid when data changes
-    useMemo(() => {
-        if (currentPage > totalPages && totalPages > 0) {
-            setCurrentPage(totalPages);
-        }
-    }, [currentPage, totalPages]);
+    const endIndex = startIndex + pnodes.length;
+    const nextCursor = page?.nextCursor;
 
     if (isLoading) {
         return (
@@ -197,7 +154,7 @@ export function PNodeTable({ pnodes, isLoading, onSelectPNode, favorites = [], o
         );
     }
 
-    if (!pnodes || pnodes.length === 0) {
+    if (pnodes.length === 0) {
         return (
             <div className="border rounded-lg p-6 text-center">
                 <p className="text-muted-foreground">No pNodes found</p>
@@ -238,7 +195,7 @@ export function PNodeTable({ pnodes, isLoading, onSelectPNode, favorites = [], o
                     </TableRow>
                 </TableHeader>
                 <TableBody>
-                    {paginatedPNodes.map((pnode: PNode) => (
+                    {pnodes.map((pnode: PNode) => (
                         <TableRow
                             key={pnode.id}
                             className="hover:bg-accent/50 cursor-pointer"
@@ -383,7 +340,7 @@ export function PNodeTable({ pnodes, isLoading, onSelectPNode, favorites = [], o
                             variant="outline"
                             size="icon"
                             className="h-8 w-8"
-                            onClick={() => setCurrentPage(1)}
+                            onClick={() => setCursors([undefined])}
                             disabled={currentPage === 1}
                         >
                             <ChevronsLeft className="h-4 w-4" />
@@ -392,7 +349,7 @@ export function PNodeTable({ pnodes, isLoading, onSelectPNode, favorites = [], o
                             variant="outline"
                             size="icon"
                             className="h-8 w-8"
-                            onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                            onClick={() => setCursors(cursors.slice(0, -1))}
                             disabled={currentPage === 1}
                         >
                             <ChevronLeft className="h-4 w-4" />
@@ -404,20 +361,11 @@ export function PNodeTable({ pnodes, isLoading, onSelectPNode, favorites = [], o
                             variant="outline"
                             size="icon"
                             className="h-8 w-8"
-                            onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                            disabled={currentPage >= totalPages}
+                            onClick={() => nextCursor && setCursors([...cursors, nextCursor])}
+                            disabled={!nextCursor}
                         >
                             <ChevronRight className="h-4 w-4" />
                         </Button>
-                        <Button
-                            variant="outline"
-                            size="icon"
-                            className="h-8 w-8"
-                            onClick={() => setCurrentPage(totalPages)}
-                            disabled={currentPage >= totalPages}
-                        >
-                            <ChevronsRight className="h-4 w-4" />
-                        </Button>
                     </div>
                 </div>
             </div>
@@ -1,4 +1,8 @@
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getLiveStreamService } from '@/services/live-stream.service';
+import type { Alert, AlertRule, AlertRuleInput, AlertSilence, AlertStats } from '@/types/alerts';
+import type { IndexerStatus } from '@/types/indexer';
 
 // Types for analytics data
 export interface NetworkHistoryPoint {
@@ -80,32 +84,6 @@ export interface Anomaly {
     confirmed: boolean | null;
 }
 
-export interface Alert {
-    id: string;
-    timestamp: string;
-    severity: 'INFO' | 'WARNING' | 'CRITICAL' | 'SUCCESS';
-    message: string;
-    value: number;
-    threshold: number;
-    resolved: boolean;
-    rule: { name: string; metric: string };
-    pnode: { pubkey: string; location: string } | null;
-}
-
-export interface AlertRule {
-    id: string;
-    name: string;
-    description: string | null;
-    enabled: boolean;
-    metric: string;
-    operator: string;
-    threshold: number;
-    scope: 'NETWORK' | 'PNODE';
-    cooldownMinutes: number;
-    lastTriggered: string | null;
-    alerts: Alert[];
-}
-
 // ============================================
 // Analytics Hooks
 // ============================================
@@ -170,9 +148,19 @@ export function useGeographicAnalysis() {
 }
 
 /**
- * Fetch recent network events
+ * Fetch recent network events (refetched when a live update reports new ones)
  */
 export function useNetworkEvents(limit: number = 50, severity?: string) {
+    const queryClient = useQueryClient();
+
+    useEffect(() => {
+        return getLiveStreamService().subscribe('update', (update) => {
+            if (update.events.length > 0) {
+                queryClient.invalidateQueries({ queryKey: ['analytics', 'events'] });
+            }
+        });
+    }, [queryClient]);
+
     return useQuery({
         queryKey: ['analytics', 'events', limit, severity],
         queryFn: async () => {
@@ -290,7 +278,31 @@ export function useAlerts(options: { limit?: number; unresolved?: boolean } = {}
             const res = await fetch(`/api/alerts?limit=${limit}&unresolved=${unresolved}`);
             if (!res.ok) throw new Error('Failed to fetch alerts');
             const json = await res.json();
-            return json.data as Alert[];
+            // Revive dates serialized by the API
+            return (json.data as Alert[]).map((alert) => ({
+                ...alert,
+                timestamp: new Date(alert.timestamp),
+                acknowledgedAt: alert.acknowledgedAt ? new Date(alert.acknowledgedAt) : undefined,
+                resolvedAt: alert.resolvedAt ? new Date(alert.resolvedAt) : undefined,
+                escalatedAt: alert.escalatedAt ? new Date(alert.escalatedAt) : undefined,
+            }));
+        },
+        staleTime: 30 * 1000,
+        refetchInterval: 30 * 1000,
+    });
+}
+
+/**
+ * Fetch alert statistics
+ */
+export function useAlertStats() {
+    return useQuery({
+        queryKey: ['alerts', 'stats'],
+        queryFn: async () => {
+            const res = await fetch('/api/alerts/stats');
+            if (!res.ok) throw new Error('Failed to fetch alert stats');
+            const json = await res.json();
+            return json.data as AlertStats;
         },
         staleTime: 30 * 1000,
         refetchInterval: 30 * 1000,
@@ -320,16 +332,7 @@ export function useCreateAlertRule() {
     const queryClient = useQueryClient();
 
     return useMutation({
-        mutationFn: async (rule: {
-            name: string;
-            description?: string;
-            metric: string;
-            operator: '<' | '>' | '==' | '<=' | '>=';
-            threshold: number;
-            scope?: 'NETWORK' | 'PNODE';
-            pnodeFilter?: string;
-            cooldownMinutes?: number;
-        }) => {
+        mutationFn: async (rule: Partial<AlertRuleInput> & Pick<AlertRuleInput, 'name' | 'scope' | 'conditions'>) => {
             const res = await fetch('/api/alerts/rules', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
@@ -344,6 +347,125 @@ export function useCreateAlertRule() {
     });
 }
 
+/**
+ * Update alert rule mutation (omitted fields are left unchanged)
+ */
+export function useUpdateAlertRule() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ ruleId, ...updates }: Partial<AlertRuleInput> & { ruleId: string }) => {
+            const res = await fetch(`/api/alerts/rules/${ruleId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(updates),
+            });
+            if (!res.ok) throw new Error('Failed to update alert rule');
+            return res.json();
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['alertRules'] });
+        },
+    });
+}
+
+/**
+ * Delete alert rule mutation
+ */
+export function useDeleteAlertRule() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (ruleId: string) => {
+            const res = await fetch(`/api/alerts/rules/${ruleId}`, { method: 'DELETE' });
+            if (!res.ok) throw new Error('Failed to delete alert rule');
+            return res.json();
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['alertRules'] });
+        },
+    });
+}
+
+/**
+ * The API key name the dashboard is signed in as, or null
+ */
+export function useSession() {
+    return useQuery({
+        queryKey: ['session'],
+        queryFn: async () => {
+            const res = await fetch('/api/session');
+            if (!res.ok) throw new Error('Failed to fetch session');
+            const json = await res.json();
+            return json.data as { name: string; expiresAt: string } | null;
+        },
+        staleTime: 5 * 60 * 1000,
+    });
+}
+
+/**
+ * Sign the dashboard in with an API key
+ */
+export function useSignIn() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (key: string) => {
+            const res = await fetch('/api/session', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ key }),
+            });
+            const json = await res.json();
+            if (!res.ok) throw new Error(json.error || 'Failed to sign in');
+            return json;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['session'] });
+        },
+    });
+}
+
+/**
+ * Sign the dashboard out
+ */
+export function useSignOut() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async () => {
+            const res = await fetch('/api/session', { method: 'DELETE' });
+            if (!res.ok) throw new Error('Failed to sign out');
+            return res.json();
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['session'] });
+        },
+    });
+}
+
+/**
+ * Acknowledge alert mutation
+ */
+export function useAcknowledgeAlert() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({ alertId, note }: { alertId: string; note?: string }) => {
+            const res = await fetch('/api/alerts', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ alertId, action: 'acknowledge', note }),
+            });
+            if (!res.ok) throw new Error('Failed to acknowledge alert');
+            return res.json();
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['alerts'] });
+        },
+    });
+}
+
 /**
  * Resolve alert mutation
  */
@@ -355,7 +477,7 @@ export function useResolveAlert() {
             const res = await fetch('/api/alerts', {
                 method: 'PATCH',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ alertId }),
+                body: JSON.stringify({ alertId, action: 'resolve' }),
             });
             if (!res.ok) throw new Error('Failed to resolve alert');
             return res.json();
@@ -365,3 +487,100 @@ export function useResolveAlert() {
         },
     });
 }
+
+/**
+ * Fetch silences and maintenance windows that haven't ended (active and upcoming)
+ */
+export function useSilences() {
+    return useQuery({
+        queryKey: ['alertSilences'],
+        queryFn: async () => {
+            const res = await fetch('/api/alerts/silences');
+            if (!res.ok) throw new Error('Failed to fetch alert silences');
+            const json = await res.json();
+            return (json.data as AlertSilence[]).map((silence) => ({
+                ...silence,
+                createdAt: new Date(silence.createdAt),
+                startsAt: new Date(silence.startsAt),
+                endsAt: new Date(silence.endsAt),
+            }));
+        },
+        staleTime: 30 * 1000,
+        refetchInterval: 60 * 1000,
+    });
+}
+
+/**
+ * Create silence mutation. The window ends at endsAt, or durationMinutes after startsAt (default now).
+ */
+export function useCreateSilence() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (
+            silence: Partial<Pick<AlertSilence, 'kind' | 'pubkeys' | 'locations' | 'ruleTypes'>> & {
+                reason: string;
+                startsAt?: string;
+                endsAt?: string;
+                durationMinutes?: number;
+            }
+        ) => {
+            const res = await fetch('/api/alerts/silences', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(silence),
+            });
+            const json = await res.json();
+            // Surface validation errors (e.g. no matchers) to the form
+            if (!res.ok) throw new Error(json.error || 'Failed to create silence');
+            return json;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['alertSilences'] });
+        },
+    });
+}
+
+/**
+ * End a silence now
+ */
+export function useExpireSilence() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async (silenceId: string) => {
+            const res = await fetch(`/api/alerts/silences/${silenceId}`, { method: 'DELETE' });
+            if (!res.ok) throw new Error('Failed to end silence');
+            return res.json();
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['alertSilences'] });
+        },
+    });
+}
+
+/**
+ * Fetch indexer freshness (refetched after each live update, since one means a cycle ran)
+ */
+export function useIndexerStatus() {
+    const queryClient = useQueryClient();
+
+    useEffect(() => {
+        return getLiveStreamService().subscribe('update', () => {
+            queryClient.invalidateQueries({ queryKey: ['indexer', 'status'] });
+        });
+    }, [queryClient]);
+
+    return useQuery({
+        queryKey: ['indexer', 'status'],
+        queryFn: async () => {
+            const res = await fetch('/api/indexer/status');
+            if (!res.ok) throw new Error('Failed to fetch indexer status');
+            const json = await res.json();
+            return json.data as IndexerStatus;
+        },
+        staleTime: 30 * 1000,
+        refetchInterval: 60 * 1000,
+        retry: false, // No database configured means no status; don't hammer the endpoint
+    });
+}
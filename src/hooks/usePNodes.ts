@@ -1,16 +1,135 @@
-import { useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query'
-import { useEffect, useRef } from 'react'
-import { getWebSocketService } from '@/services/websocket.service'
-import { getAlertService } from '@/services/alert.service'
-import type { PNode, PNodeDetails, NetworkStats } from '@/types/pnode'
+import { keepPreviousData, useQuery, useQueryClient, UseQueryResult } from '@tanstack/react-query'
+import { useEffect } from 'react'
+import { getLiveStreamService } from '@/services/live-stream.service'
+import { applyPNodeDiff } from '@/lib/live-updates'
+import type {
+  PNode,
+  PNodeDetails,
+  PNodeFilters,
+  PNodeHistoryOptions,
+  PNodeSortOptions,
+  NetworkStats,
+} from '@/types/pnode'
+
+/** Polling interval while the live stream is down */
+const POLL_INTERVAL = 30000
+/** Safety refetch while live updates are flowing */
+const LIVE_REFETCH_INTERVAL = 5 * 60 * 1000
+
+function getRefetchInterval(): number {
+  return getLiveStreamService().getConnectionStatus() === 'connected' ? LIVE_REFETCH_INTERVAL : POLL_INTERVAL
+}
+
+/** One request to GET /api/pnodes; see parsePNodeQuery for the parameters */
+export interface PNodePageParams {
+  filters?: PNodeFilters
+  sort?: PNodeSortOptions
+  limit?: number
+  /** X-Next-Cursor of the previous page, with the same sort */
+  cursor?: string
+  fields?: (keyof PNode)[]
+}
+
+export interface PNodePage {
+  /** Only `id` and the requested fields when `fields` is set */
+  pnodes: PNode[]
+  /** Nodes matching the filters across all pages (X-Total-Count) */
+  total: number
+  /** Cursor for the next page (X-Next-Cursor); null on the last page */
+  nextCursor: string | null
+}
+
+/**
+ * Query string for GET /api/pnodes
+ */
+export function pnodeQueryString({ filters = {}, sort, limit, cursor, fields }: PNodePageParams): string {
+  const params = new URLSearchParams()
+  if (filters.ids?.length) params.set('id', filters.ids.join(','))
+  if (filters.status?.length) params.set('status', filters.status.join(','))
+  if (filters.version?.length) params.set('version', filters.version.join(','))
+  // Locations contain commas, so they are repeated instead
+  filters.location?.forEach((location) => params.append('location', location))
+  if (filters.search) params.set('search', filters.search)
+  for (const name of ['minStorage', 'maxStorage', 'minPerformance', 'maxPerformance'] as const) {
+    if (filters[name] !== undefined) params.set(name, String(filters[name]))
+  }
+  if (sort) {
+    params.set('sort', sort.field)
+    params.set('order', sort.order)
+  }
+  if (limit !== undefined) params.set('limit', String(limit))
+  if (cursor) params.set('cursor', cursor)
+  if (fields?.length) params.set('fields', fields.join(','))
+  return params.toString()
+}
+
+/**
+ * Fetch one filtered, sorted page of pNodes with its total and next cursor
+ */
+export async function fetchPNodePage(params: PNodePageParams): Promise<PNodePage> {
+  const query = pnodeQueryString(params)
+  const res = await fetch(`/api/pnodes${query ? `?${query}` : ''}`)
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}))
+    throw new Error(data.error || 'Failed to fetch pNodes')
+  }
+  const pnodes: PNode[] = await res.json()
+  return {
+    pnodes,
+    total: parseInt(res.headers.get('X-Total-Count') ?? String(pnodes.length)),
+    nextCursor: res.headers.get('X-Next-Cursor'),
+  }
+}
+
+/**
+ * Hook to fetch one page of pNodes from the server (filters, sort and cursor are applied
+ * there), so views that show a slice of the fleet don't download all of it. The page is
+ * refetched when a /api/live update changes the fleet.
+ */
+export function usePNodePage(
+  params: PNodePageParams,
+  options: { enabled?: boolean } = {},
+): UseQueryResult<PNodePage, Error> {
+  const queryClient = useQueryClient()
+  const search = pnodeQueryString(params)
+
+  const query = useQuery({
+    queryKey: ['pnodes', 'page', search],
+    queryFn: () => fetchPNodePage(params),
+    staleTime: 15000,
+    refetchInterval: getRefetchInterval,
+    placeholderData: keepPreviousData, // Keep the current page on screen while the next one loads
+    enabled: options.enabled,
+  })
+
+  useEffect(() => {
+    const live = getLiveStreamService()
+
+    // A changed node may move between pages or stop matching, so refetch rather than patch
+    const unsubscribeUpdate = live.subscribe('update', (update) => {
+      if (update.added.length + update.changed.length + update.removed.length === 0) return
+      queryClient.invalidateQueries({ queryKey: ['pnodes', 'page', search], exact: true })
+    })
+    const unsubscribeResync = live.subscribe('resync', () => {
+      queryClient.invalidateQueries({ queryKey: ['pnodes', 'page', search], exact: true })
+    })
+
+    return () => {
+      unsubscribeUpdate()
+      unsubscribeResync()
+    }
+  }, [queryClient, search])
+
+  return query
+}
 
 /**
- * Hook to fetch all pNodes with caching, auto-refetch, and real-time WebSocket updates
+ * Hook to fetch all pNodes with caching, patched in place by /api/live updates.
+ * Falls back to 30s polling while the live stream is down. Views that only show a
+ * page of the fleet should use usePNodePage instead.
  */
-export function usePNodes(): UseQueryResult<PNode[], Error> {
+export function usePNodes(options: { enabled?: boolean } = {}): UseQueryResult<PNode[], Error> {
   const queryClient = useQueryClient()
-  const wsService = getWebSocketService()
-  const wsSubscriptionRef = useRef<number | null>(null)
 
   const query = useQuery({
     queryKey: ['pnodes'],
@@ -22,69 +141,46 @@ export function usePNodes(): UseQueryResult<PNode[], Error> {
         throw new Error(data.error || 'Failed to fetch pNodes')
       }
       const pnodes: PNode[] = await res.json()
-
-      // Check for alerts when data is fetched
-      const alertService = getAlertService()
-      alertService.checkAlerts(pnodes).catch((error) => {
-        console.error('Error checking alerts:', error)
-      })
       return pnodes
     },
     staleTime: 15000, // 15 seconds - more responsive
-    refetchInterval: 30000, // Poll every 30 seconds for "live" updates
+    refetchInterval: getRefetchInterval,
     refetchIntervalInBackground: true, // Keep updating even when tab is not active
+    enabled: options.enabled,
   })
 
   useEffect(() => {
-    let mounted = true
-
-    const setupWebSocket = async () => {
-      try {
-        // Connect to WebSocket if not already connected
-        if (!wsService.getConnectionStatus()) {
-          await wsService.connect()
-        }
-
-        // Subscribe to pNode updates
-        if (mounted) {
-          wsSubscriptionRef.current = await wsService.subscribeToPNodeUpdates((data: unknown) => {
-            if (mounted && Array.isArray(data)) {
-              const updatedPNodes = data as PNode[]
-              console.log('[WebSocket] Received pNode updates:', updatedPNodes.length, 'pNodes')
-              // Update the cache with fresh data
-              queryClient.setQueryData(['pnodes'], updatedPNodes)
-            }
-          })
-        }
-      } catch (error) {
-        console.warn('[WebSocket] Failed to setup real-time updates, falling back to polling:', error)
-        // Continue with polling if WebSocket fails
-      }
-    }
+    const live = getLiveStreamService()
 
-    setupWebSocket()
+    const unsubscribeUpdate = live.subscribe('update', (update) => {
+      if (update.added.length + update.changed.length + update.removed.length === 0) return
+      queryClient.setQueryData<PNode[]>(['pnodes'], (pnodes) => (pnodes ? applyPNodeDiff(pnodes, update) : pnodes))
+    })
+    const unsubscribeResync = live.subscribe('resync', () => {
+      queryClient.invalidateQueries({ queryKey: ['pnodes'] })
+    })
 
     return () => {
-      mounted = false
-      // Cleanup WebSocket subscription
-      if (wsSubscriptionRef.current) {
-        wsService.unsubscribe(wsSubscriptionRef.current)
-        wsSubscriptionRef.current = null
-      }
+      unsubscribeUpdate()
+      unsubscribeResync()
     }
-  }, [queryClient, wsService])
+  }, [queryClient])
 
   return query
 }
 
 /**
- * Hook to fetch detailed pNode information via API route (server-side GeoIP)
+ * Hook to fetch detailed pNode information and snapshot history via API route
  */
-export function usePNodeDetails(pnodeId: string): UseQueryResult<PNodeDetails, Error> {
+export function usePNodeDetails(pnodeId: string, history: PNodeHistoryOptions = {}): UseQueryResult<PNodeDetails, Error> {
   return useQuery({
-    queryKey: ['pnode', pnodeId],
+    queryKey: ['pnode', pnodeId, history.range, history.resolution],
     queryFn: async () => {
-      const res = await fetch(`/api/pnodes/${encodeURIComponent(pnodeId)}`);
+      const params = new URLSearchParams();
+      if (history.range) params.set('range', history.range);
+      if (history.resolution) params.set('resolution', history.resolution);
+      const query = params.toString();
+      const res = await fetch(`/api/pnodes/${encodeURIComponent(pnodeId)}${query ? `?${query}` : ''}`);
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
         throw new Error(data.error || 'Failed to fetch pNode details');
@@ -92,17 +188,16 @@ export function usePNodeDetails(pnodeId: string): UseQueryResult<PNodeDetails, E
       return res.json();
     },
     staleTime: 60000, // 1 minute
+    placeholderData: keepPreviousData, // Keep the page rendered while switching history range
     enabled: !!pnodeId, // Only fetch if pnodeId is provided
   })
 }
 
 /**
- * Hook to fetch network statistics with real-time updates
+ * Hook to fetch network statistics, patched in place by /api/live updates
  */
 export function useNetworkStats(): UseQueryResult<NetworkStats, Error> {
   const queryClient = useQueryClient()
-  const wsService = getWebSocketService()
-  const wsSubscriptionRef = useRef<number | null>(null)
 
   const query = useQuery({
     queryKey: ['network-stats'],
@@ -116,42 +211,28 @@ export function useNetworkStats(): UseQueryResult<NetworkStats, Error> {
       return res.json()
     },
     staleTime: 15000,
-    refetchInterval: 30000, // Poll every 30 seconds
+    refetchInterval: getRefetchInterval,
     refetchIntervalInBackground: true,
   })
 
   useEffect(() => {
-    let mounted = true
-
-    const setupWebSocket = async () => {
-      try {
-        if (!wsService.getConnectionStatus()) {
-          await wsService.connect()
-        }
-
-        if (mounted) {
-          wsSubscriptionRef.current = await wsService.subscribeToNetworkStats((stats: unknown) => {
-            if (mounted) {
-              console.log('[WebSocket] Received network stats update')
-              queryClient.setQueryData(['network-stats'], stats)
-            }
-          })
-        }
-      } catch (error) {
-        console.warn('[WebSocket] Failed to setup network stats real-time updates:', error)
-      }
-    }
-
-    setupWebSocket()
+    const live = getLiveStreamService()
+
+    const unsubscribeUpdate = live.subscribe('update', (update) => {
+      if (!update.networkStats) return
+      queryClient.setQueryData<NetworkStats>(['network-stats'], (stats) =>
+        stats ? { ...stats, ...update.networkStats } : stats,
+      )
+    })
+    const unsubscribeResync = live.subscribe('resync', () => {
+      queryClient.invalidateQueries({ queryKey: ['network-stats'] })
+    })
 
     return () => {
-      mounted = false
-      if (wsSubscriptionRef.current) {
-        wsService.unsubscribe(wsSubscriptionRef.current)
-        wsSubscriptionRef.current = null
-      }
+      unsubscribeUpdate()
+      unsubscribeResync()
     }
-  }, [queryClient, wsService])
+  }, [queryClient])
 
   return query
 }
@@ -0,0 +1,291 @@
+/**
+ * Request and response schemas of the versioned public API (/api/v1). Responses are
+ * validated against these before they are sent, and the OpenAPI document is generated
+ * from them (src/lib/openapi.ts), so the spec can't drift from what the routes return.
+ *
+ * Uses zod's v4 API (shipped in the zod 3.25 package) for its JSON Schema output.
+ */
+
+import { z } from 'zod/v4'
+
+/** Named schemas, emitted as `#/components/schemas/<id>` in the OpenAPI document */
+export const v1Schemas = z.registry<{ id: string }>()
+
+function named<T extends z.ZodType>(id: string, schema: T): T {
+  v1Schemas.add(schema, { id })
+  return schema
+}
+
+const timestamp = z.iso.datetime({ offset: true })
+
+// ---- Query parameter helpers ----
+
+/** Repeated and comma-separated values of a list parameter, as one array */
+function list<T extends z.ZodType>(item: T) {
+  return z.preprocess(
+    (value) =>
+      (Array.isArray(value) ? value : [value])
+        .flatMap((entry) => String(entry).split(','))
+        .map((entry) => entry.trim())
+        .filter((entry) => entry !== ''),
+    z.array(item),
+  )
+}
+
+/** Values of a repeated parameter, as one array */
+function repeated<T extends z.ZodType>(item: T) {
+  return z.preprocess((value) => (Array.isArray(value) ? value : [value]), z.array(item))
+}
+
+function integer(min: number, max: number) {
+  return z.coerce.number().int().min(min).max(max)
+}
+
+// ---- Resources ----
+
+export const PNodeStatusSchema = named('PNodeStatus', z.enum(['online', 'offline', 'delinquent']))
+
+export const PNodeSchema = named(
+  'PNode',
+  z
+    .object({
+      id: z.string().describe('pNode pubkey'),
+      status: PNodeStatusSchema,
+      storage: z.object({
+        capacityBytes: z.number(),
+        usedBytes: z.number(),
+        utilization: z.number().describe('Percent of capacity used (0-100)'),
+        fileSystems: z.number(),
+        isEstimated: z.boolean().optional(),
+      }),
+      performanceScore: z.number().describe('0-100'),
+      performance: z.object({
+        averageLatency: z.number().describe('ms'),
+        successRate: z.number(),
+        uptime: z.number().describe('Percent (0-100)'),
+        uptimeSeconds: z.number().optional(),
+        latencyP50: z.number().optional(),
+        latencyP95: z.number().optional(),
+        latencyP99: z.number().optional(),
+        probeSamples: z.number().optional(),
+        probeFailures: z.number().optional(),
+        lastUpdated: z.number().describe('Unix time in ms'),
+        isEstimated: z.boolean().optional(),
+      }),
+      networkMetrics: z
+        .object({
+          activeStreams: z.number(),
+          packetsReceived: z.number(),
+          packetsSent: z.number(),
+          cpuPercent: z.number(),
+          ramUsed: z.number(),
+          ramTotal: z.number(),
+        })
+        .optional(),
+      version: z.string(),
+      versionInfo: z.object({ latest: z.string(), outdated: z.boolean(), versionsBehind: z.number() }).optional(),
+      shredVersion: z.number().optional(),
+      location: z.string().optional(),
+      geo: z
+        .object({
+          country: z.string(),
+          countryCode: z.string(),
+          region: z.string(),
+          city: z.string(),
+          latitude: z.number(),
+          longitude: z.number(),
+          asn: z.string(),
+          datacenter: z.string(),
+        })
+        .optional(),
+      lastSeen: timestamp,
+      isPublic: z.boolean().optional(),
+      pnrpcPort: z.number().optional(),
+      rpcEndpoint: z.string().optional(),
+      tpuEndpoint: z.string().optional(),
+      gossipEndpoint: z.string(),
+    })
+    // `fields=` may leave out anything but the id
+    .partial()
+    .required({ id: true }),
+)
+
+export const NetworkStatsSchema = named(
+  'NetworkStats',
+  z.object({
+    totalPNodes: z.number(),
+    onlinePNodes: z.number(),
+    offlinePNodes: z.number(),
+    totalCapacity: z.number().describe('Bytes'),
+    totalUsed: z.number().describe('Bytes'),
+    healthScore: z.number().describe('0-100'),
+    averagePerformance: z.number(),
+    lastUpdated: z.number().describe('Unix time in ms'),
+    averageLatency: z.number().optional(),
+    activePeers: z.number().optional(),
+    volume24h: z.number().optional(),
+    stakingAPY: z.number().optional(),
+  }),
+)
+
+export const NetworkHistoryPointSchema = named(
+  'NetworkHistoryPoint',
+  z.object({
+    timestamp: z.string().describe('Bucket: YYYY-MM-DDTHH (hourly) or YYYY-MM-DD (daily)'),
+    date: z.string(),
+    avgPNodes: z.number(),
+    avgHealthScore: z.number(),
+    avgCapacityTB: z.number(),
+  }),
+)
+
+export const NetworkGrowthPointSchema = named(
+  'NetworkGrowthPoint',
+  z.object({
+    date: z.string(),
+    pnodes: z.number(),
+    peakPnodes: z.number(),
+    capacityTB: z.number(),
+    healthScore: z.number(),
+  }),
+)
+
+export const VersionCountSchema = named('VersionCount', z.object({ version: z.string(), count: z.number() }))
+
+export const GeographicAnalysisSchema = named(
+  'GeographicAnalysis',
+  z.object({
+    regions: z.array(
+      z.object({
+        region: z.string(),
+        count: z.number(),
+        previousCount: z.number(),
+        change: z.number(),
+        percentChange: z.number(),
+      }),
+    ),
+    total: z.number(),
+    timestamp,
+  }),
+)
+
+export const SeveritySchema = named('Severity', z.enum(['INFO', 'WARNING', 'CRITICAL', 'SUCCESS']))
+
+export const NetworkEventSchema = named(
+  'NetworkEvent',
+  z.object({
+    id: z.string(),
+    timestamp,
+    type: z.enum([
+      'NODE_ONLINE',
+      'NODE_OFFLINE',
+      'NODE_DELINQUENT',
+      'PERFORMANCE_DEGRADATION',
+      'PERFORMANCE_IMPROVEMENT',
+      'STORAGE_THRESHOLD',
+      'VERSION_UPDATE',
+      'NETWORK_MILESTONE',
+      'ANOMALY_DETECTED',
+    ]),
+    severity: SeveritySchema,
+    title: z.string(),
+    description: z.string().nullable(),
+    metadata: z.record(z.string(), z.unknown()).nullable(),
+    pnode: z.object({ pubkey: z.string(), location: z.string().nullable(), version: z.string() }).nullable(),
+  }),
+)
+
+export const AnomalySchema = named(
+  'Anomaly',
+  z.object({
+    id: z.string(),
+    timestamp,
+    metric: z.string(),
+    expected: z.number(),
+    actual: z.number(),
+    deviation: z.number().describe('Standard deviations from the mean'),
+    severity: z.enum(['critical', 'warning', 'info']),
+    description: z.string(),
+    confirmed: z.boolean().nullable(),
+  }),
+)
+
+export const LeaderboardEntrySchema = named(
+  'LeaderboardEntry',
+  z.object({
+    rank: z.number(),
+    pubkey: z.string(),
+    location: z.string().nullable(),
+    version: z.string(),
+    firstSeen: timestamp,
+    performanceScore: z.number(),
+    uptime: z.number(),
+    capacityTB: z.number(),
+    utilization: z.number(),
+  }),
+)
+
+export const ErrorSchema = named(
+  'Error',
+  z.object({
+    success: z.literal(false),
+    error: z.object({
+      code: z.enum([
+        'bad_request',
+        'unauthorized',
+        'forbidden',
+        'not_found',
+        'rate_limited',
+        'internal_error',
+        'unavailable',
+      ]),
+      message: z.string(),
+      /** Which query parameters failed validation */
+      issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+    }),
+  }),
+)
+
+// ---- Queries ----
+
+export const PNodeListQuery = z.object({
+  id: list(z.string()).optional().describe('pNode pubkeys; repeated or comma-separated'),
+  status: list(PNodeStatusSchema).optional().describe('Repeated or comma-separated'),
+  version: list(z.string()).optional().describe('Repeated or comma-separated'),
+  location: repeated(z.string())
+    .optional()
+    .describe('Repeated (locations contain commas); "Unknown" matches nodes without one'),
+  search: z.string().optional().describe('Matches id, gossip endpoint or location'),
+  minStorage: z.coerce.number().min(0).optional().describe('Capacity in bytes'),
+  maxStorage: z.coerce.number().min(0).optional().describe('Capacity in bytes'),
+  minPerformance: z.coerce.number().min(0).max(100).optional(),
+  maxPerformance: z.coerce.number().min(0).max(100).optional(),
+  sort: z
+    .enum(['id', 'status', 'storage', 'utilization', 'performance', 'uptime', 'location', 'lastSeen'])
+    .optional()
+    .describe('status sorts online, delinquent, offline'),
+  order: z.enum(['asc', 'desc']).optional().describe('Default asc for id, status and location, desc otherwise'),
+  limit: integer(1, 1000).optional().describe('Page size; unset returns every match'),
+  cursor: z.string().optional().describe('meta.nextCursor of the previous page, with the same sort'),
+  fields: list(z.string()).optional().describe('Top-level fields to return; id is always included'),
+})
+
+export const HistoryQuery = z.object({
+  type: z.enum(['network', 'growth', 'versions', 'geo']).default('network'),
+  days: integer(1, 90).default(7),
+  resolution: z.enum(['hourly', 'daily']).default('hourly'),
+})
+
+export const EventsQuery = z.object({
+  limit: integer(1, 200).default(50),
+  severity: SeveritySchema.optional(),
+})
+
+export const AnomaliesQuery = z.object({
+  limit: integer(1, 200).default(20),
+})
+
+export const LeaderboardQuery = z.object({
+  limit: integer(1, 100).default(10),
+  metric: z.enum(['performance', 'uptime', 'capacity']).default('performance'),
+})
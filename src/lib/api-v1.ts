@@ -0,0 +1,207 @@
+/**
+ * Endpoints of the versioned public API (/api/v1) and the handler wrapper every v1 route
+ * goes through: query parameters are validated against the endpoint's schema, responses
+ * are checked against its data/meta schemas, and both successes and errors use one envelope:
+ *
+ *   { "success": true, "data": ..., "meta": ... }
+ *   { "success": false, "error": { "code", "message", "issues"? } }
+ */
+
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { z } from 'zod/v4'
+import {
+  AnomaliesQuery,
+  AnomalySchema,
+  ErrorSchema,
+  EventsQuery,
+  GeographicAnalysisSchema,
+  HistoryQuery,
+  LeaderboardEntrySchema,
+  LeaderboardQuery,
+  NetworkEventSchema,
+  NetworkGrowthPointSchema,
+  NetworkHistoryPointSchema,
+  NetworkStatsSchema,
+  PNodeListQuery,
+  PNodeSchema,
+  VersionCountSchema,
+  v1Schemas,
+} from '@/lib/api-v1-schemas'
+import type { ApiScope } from '@/types/api-keys'
+
+export type V1ErrorCode = z.infer<typeof ErrorSchema>['error']['code']
+
+export interface V1Endpoint<Q extends z.ZodObject = z.ZodObject, D extends z.ZodType = z.ZodType> {
+  operationId: string
+  path: string
+  summary: string
+  description?: string
+  tag: string
+  /** Scope an API key needs (see ROUTE_SCOPES); null for public endpoints */
+  scope: ApiScope | null
+  query: Q
+  data: D
+  /** Full success envelope, registered as `<OperationId>Response` */
+  response: z.ZodObject
+}
+
+export interface V1Payload {
+  data: unknown
+  meta?: Record<string, unknown>
+}
+
+const STATUS_CODES: Record<number, V1ErrorCode> = {
+  400: 'bad_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  429: 'rate_limited',
+  500: 'internal_error',
+  503: 'unavailable',
+}
+
+function endpoint<Q extends z.ZodObject, D extends z.ZodType>(
+  definition: Omit<V1Endpoint<Q, D>, 'response'> & { meta?: z.ZodObject },
+): V1Endpoint<Q, D> {
+  const { meta, ...rest } = definition
+  const response = z.object({ success: z.literal(true), data: definition.data, ...(meta ? { meta } : {}) })
+  const name = definition.operationId[0].toUpperCase() + definition.operationId.slice(1)
+  v1Schemas.add(response, { id: `${name}Response` })
+  return { ...rest, response }
+}
+
+export const V1_ENDPOINTS = {
+  listPNodes: endpoint({
+    operationId: 'listPNodes',
+    path: '/api/v1/pnodes',
+    summary: 'List pNodes',
+    description:
+      'The fleet snapshot, optionally filtered, sorted, paged (`limit`, then `cursor` = `meta.nextCursor`) and projected (`fields`). `meta.total` counts the nodes matching the filters across all pages.',
+    tag: 'pNodes',
+    scope: 'read:pnodes',
+    query: PNodeListQuery,
+    data: z.array(PNodeSchema),
+    meta: z.object({ total: z.number(), nextCursor: z.string().nullable() }),
+  }),
+  getNetworkStats: endpoint({
+    operationId: 'getNetworkStats',
+    path: '/api/v1/network-stats',
+    summary: 'Network-wide statistics',
+    tag: 'Network',
+    scope: 'read:network',
+    query: z.object({}),
+    data: NetworkStatsSchema,
+  }),
+  getHistory: endpoint({
+    operationId: 'getHistory',
+    path: '/api/v1/analytics/history',
+    summary: 'Network history',
+    description:
+      '`network`: averages per hour or day; `growth`: one point per network snapshot; `versions`: nodes per version seen in the window; `geo`: nodes per location.',
+    tag: 'Analytics',
+    scope: 'read:analytics',
+    query: HistoryQuery,
+    data: z.union([
+      z.array(NetworkHistoryPointSchema),
+      z.array(NetworkGrowthPointSchema),
+      z.array(VersionCountSchema),
+      GeographicAnalysisSchema,
+    ]),
+    meta: z.object({
+      type: HistoryQuery.shape.type.unwrap(),
+      days: z.number(),
+      resolution: HistoryQuery.shape.resolution.unwrap(),
+      generatedAt: z.iso.datetime(),
+    }),
+  }),
+  listEvents: endpoint({
+    operationId: 'listEvents',
+    path: '/api/v1/analytics/events',
+    summary: 'Recent network events',
+    tag: 'Analytics',
+    scope: 'read:analytics',
+    query: EventsQuery,
+    data: z.array(NetworkEventSchema),
+    meta: z.object({ count: z.number() }),
+  }),
+  listAnomalies: endpoint({
+    operationId: 'listAnomalies',
+    path: '/api/v1/analytics/anomalies',
+    summary: 'Detected anomalies',
+    tag: 'Analytics',
+    scope: 'read:analytics',
+    query: AnomaliesQuery,
+    data: z.array(AnomalySchema),
+    meta: z.object({ count: z.number() }),
+  }),
+  getLeaderboard: endpoint({
+    operationId: 'getLeaderboard',
+    path: '/api/v1/analytics/leaderboard',
+    summary: 'Top pNodes by a metric',
+    tag: 'Analytics',
+    scope: 'read:analytics',
+    query: LeaderboardQuery,
+    data: z.array(LeaderboardEntrySchema),
+    meta: z.object({ metric: LeaderboardQuery.shape.metric.unwrap(), generatedAt: z.iso.datetime() }),
+  }),
+}
+
+/**
+ * Error envelope; the code follows from the status
+ */
+export function v1Error(status: number, message: string, issues?: { path: string; message: string }[]): NextResponse {
+  return NextResponse.json(
+    { success: false, error: { code: STATUS_CODES[status] ?? 'internal_error', message, issues } },
+    { status },
+  )
+}
+
+/**
+ * Run a v1 route: validate the query, call the handler with the parsed values and send
+ * its payload. A payload that doesn't match the endpoint's response schema is logged but
+ * still sent, so one malformed record doesn't fail a whole list; the tests hold handlers
+ * to the schema. Handlers may return a v1Error response for failures they detect themselves.
+ */
+export async function handleV1<Q extends z.ZodObject, D extends z.ZodType>(
+  endpoint: V1Endpoint<Q, D>,
+  request: NextRequest,
+  handler: (query: z.output<Q>) => Promise<V1Payload | NextResponse>,
+): Promise<NextResponse> {
+  const query = endpoint.query.safeParse(queryObject(request.nextUrl.searchParams))
+  if (!query.success) {
+    return v1Error(
+      400,
+      'Invalid query parameters',
+      query.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })),
+    )
+  }
+
+  try {
+    const result = await handler(query.data)
+    if (result instanceof NextResponse) return result
+
+    // Check what goes over the wire (dates as ISO strings, no undefined)
+    const wire = JSON.parse(JSON.stringify({ success: true, ...result }))
+    const body = endpoint.response.safeParse(wire)
+    if (!body.success) {
+      console.error(`[API] ${endpoint.path} response does not match its schema:`, z.prettifyError(body.error))
+      return NextResponse.json(wire)
+    }
+    return NextResponse.json(body.data)
+  } catch (error) {
+    // The detail stays in the server log; it may name hosts, tables or queries
+    console.error(`[API] ${endpoint.path} failed:`, error)
+    return v1Error(500, 'Internal error')
+  }
+}
+
+/** Query parameters as an object; repeated parameters become arrays */
+function queryObject(params: URLSearchParams): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {}
+  for (const key of new Set(params.keys())) {
+    const values = params.getAll(key)
+    query[key] = values.length === 1 ? values[0] : values
+  }
+  return query
+}
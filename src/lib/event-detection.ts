@@ -0,0 +1,256 @@
+import type { EventType, Prisma, Severity } from '@prisma/client'
+
+/**
+ * Event and anomaly detection shared by the indexer (live, once per cycle) and the
+ * replay service (re-deriving history from stored snapshots). Pure functions: callers
+ * load the previous states and history and store the results.
+ */
+
+export type PNodeState = { status: string; performanceScore: number }
+
+/** What was known about pNodes before the cycle being examined */
+export type PreviousStates = {
+  /** Nodes in the previous cycle's snapshot set */
+  lastCycle: Map<string, PNodeState>
+  /** Nodes missing from the previous cycle but seen before, with their first sighting */
+  returning: Map<string, { firstSeen: Date }>
+}
+
+/** The pNode fields event detection looks at; `id` is the pubkey */
+export type ObservedPNode = PNodeState & { id: string; version?: string; location?: string }
+
+/** Network-wide figures anomaly detection compares against history */
+export type NetworkSample = { totalPNodes: number; healthScore: number }
+
+export type DetectedEvent = {
+  type: EventType
+  severity: Severity
+  title: string
+  description?: string
+  pnodePubkey?: string
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Snapshots this close together belong to one cycle's set. A cycle's snapshots share one
+ * timestamp; the window covers sets written row by row before that.
+ */
+export const SNAPSHOT_SET_WINDOW_MS = 10000
+
+/** Anomalies are judged against up to this many network snapshots from the last day */
+export const ANOMALY_HISTORY_MS = 24 * 60 * 60 * 1000
+export const ANOMALY_HISTORY_SAMPLES = 100
+/** Fewer snapshots than this is not enough data for meaningful anomaly detection */
+const MIN_ANOMALY_HISTORY = 10
+
+/**
+ * Standard deviations from the historical mean that count as an anomaly
+ * (ANOMALY_THRESHOLD_STDDEV, default 2.5)
+ */
+export function getAnomalyThreshold(): number {
+  return parseFloat(process.env.ANOMALY_THRESHOLD_STDDEV || '2.5')
+}
+
+/**
+ * Detect network events (joins, leaves, status and performance changes) between the
+ * previous cycle and the current set of pNodes
+ */
+export function detectPNodeEvents(pnodes: ObservedPNode[], previous: PreviousStates): DetectedEvent[] {
+  const events: DetectedEvent[] = []
+
+  for (const pnode of pnodes) {
+    const lastState = previous.lastCycle.get(pnode.id)
+    const returning = previous.returning.get(pnode.id)
+
+    if (!lastState && returning) {
+      events.push({
+        type: 'NODE_ONLINE',
+        severity: 'INFO',
+        title: 'pNode Rejoined Network',
+        description: `pNode ${truncateId(pnode.id)} is visible in gossip again`,
+        pnodePubkey: pnode.id,
+        metadata: { firstSeen: returning.firstSeen.toISOString(), status: pnode.status },
+      })
+      continue
+    }
+
+    if (!lastState) {
+      // New pNode detected
+      events.push({
+        type: 'NODE_ONLINE',
+        severity: 'SUCCESS',
+        title: 'New pNode Detected',
+        description: `pNode ${truncateId(pnode.id)} has joined the network`,
+        pnodePubkey: pnode.id,
+        metadata: { version: pnode.version, location: pnode.location },
+      })
+      continue
+    }
+
+    // Status change detection
+    if (lastState.status !== pnode.status) {
+      events.push({
+        type: statusEventType(pnode.status),
+        severity: statusSeverity(pnode.status),
+        title: `pNode Status Changed to ${pnode.status.toUpperCase()}`,
+        description: `pNode ${truncateId(pnode.id)} changed from ${lastState.status} to ${pnode.status}`,
+        pnodePubkey: pnode.id,
+        metadata: { previousStatus: lastState.status, newStatus: pnode.status },
+      })
+    }
+
+    // Performance degradation detection (>10% drop)
+    const perfDelta = lastState.performanceScore - pnode.performanceScore
+    if (perfDelta > 10) {
+      events.push({
+        type: 'PERFORMANCE_DEGRADATION',
+        severity: 'WARNING',
+        title: 'Performance Degradation Detected',
+        description: `pNode ${truncateId(pnode.id)} performance dropped by ${perfDelta} points`,
+        pnodePubkey: pnode.id,
+        metadata: {
+          previousScore: lastState.performanceScore,
+          newScore: pnode.performanceScore,
+        },
+      })
+    } else if (perfDelta < -10) {
+      events.push({
+        type: 'PERFORMANCE_IMPROVEMENT',
+        severity: 'SUCCESS',
+        title: 'Performance Improvement',
+        description: `pNode ${truncateId(pnode.id)} performance improved by ${Math.abs(perfDelta)} points`,
+        pnodePubkey: pnode.id,
+        metadata: {
+          previousScore: lastState.performanceScore,
+          newScore: pnode.performanceScore,
+        },
+      })
+    }
+  }
+
+  // Check for lost pNodes
+  const currentIds = new Set(pnodes.map((p) => p.id))
+  for (const [id] of previous.lastCycle) {
+    if (!currentIds.has(id)) {
+      events.push({
+        type: 'NODE_OFFLINE',
+        severity: 'WARNING',
+        title: 'pNode Left Network',
+        description: `pNode ${truncateId(id)} is no longer visible in gossip`,
+        pnodePubkey: id,
+      })
+    }
+  }
+
+  return events
+}
+
+/**
+ * Detect anomalies in network metrics against recent history (newest first, at most
+ * ANOMALY_HISTORY_SAMPLES from the last ANOMALY_HISTORY_MS). Returns the anomaly rows
+ * to store and their matching events.
+ */
+export function detectNetworkAnomalies(
+  stats: NetworkSample,
+  history: NetworkSample[],
+  threshold: number = getAnomalyThreshold(),
+): { anomalies: Prisma.AnomalyCreateManyInput[]; events: DetectedEvent[] } {
+  const anomalies: Prisma.AnomalyCreateManyInput[] = []
+  const events: DetectedEvent[] = []
+
+  if (history.length < MIN_ANOMALY_HISTORY) {
+    return { anomalies, events }
+  }
+
+  // Calculate averages and standard deviations
+  const avgPNodes = history.reduce((sum, s) => sum + s.totalPNodes, 0) / history.length
+  const stdDevPNodes = calculateStdDev(
+    history.map((s) => s.totalPNodes),
+    avgPNodes,
+  )
+
+  const avgHealth = history.reduce((sum, s) => sum + s.healthScore, 0) / history.length
+  const stdDevHealth = calculateStdDev(
+    history.map((s) => s.healthScore),
+    avgHealth,
+  )
+
+  // Check for pNode count anomaly
+  const pnodeDeviation = Math.abs(stats.totalPNodes - avgPNodes) / (stdDevPNodes || 1)
+  if (pnodeDeviation > threshold) {
+    anomalies.push({
+      metric: 'totalPNodes',
+      expectedValue: avgPNodes,
+      actualValue: stats.totalPNodes,
+      deviation: pnodeDeviation,
+      description: `Unusual pNode count: expected ~${Math.round(avgPNodes)}, got ${stats.totalPNodes}`,
+    })
+
+    events.push({
+      type: 'ANOMALY_DETECTED',
+      severity: pnodeDeviation > threshold * 2 ? 'CRITICAL' : 'WARNING',
+      title: 'Unusual pNode Count',
+      description: `Network has ${stats.totalPNodes} pNodes (expected ~${Math.round(avgPNodes)})`,
+      metadata: { expected: avgPNodes, actual: stats.totalPNodes, deviation: pnodeDeviation },
+    })
+  }
+
+  // Check for health score anomaly
+  const healthDeviation = Math.abs(stats.healthScore - avgHealth) / (stdDevHealth || 1)
+  if (healthDeviation > threshold && stats.healthScore < avgHealth) {
+    anomalies.push({
+      metric: 'healthScore',
+      expectedValue: avgHealth,
+      actualValue: stats.healthScore,
+      deviation: healthDeviation,
+      description: `Network health below expected: ${stats.healthScore}% vs expected ~${Math.round(avgHealth)}%`,
+    })
+
+    events.push({
+      type: 'ANOMALY_DETECTED',
+      severity: 'WARNING',
+      title: 'Network Health Anomaly',
+      description: `Health score is ${stats.healthScore}% (expected ~${Math.round(avgHealth)}%)`,
+      metadata: { expected: avgHealth, actual: stats.healthScore, deviation: healthDeviation },
+    })
+  }
+
+  return { anomalies, events }
+}
+
+export function truncateId(id: string): string {
+  return id.length > 12 ? `${id.slice(0, 6)}...${id.slice(-4)}` : id
+}
+
+function statusEventType(status: string): EventType {
+  switch (status) {
+    case 'online':
+      return 'NODE_ONLINE'
+    case 'offline':
+      return 'NODE_OFFLINE'
+    case 'delinquent':
+      return 'NODE_DELINQUENT'
+    default:
+      return 'NODE_OFFLINE'
+  }
+}
+
+function statusSeverity(status: string): Severity {
+  switch (status) {
+    case 'online':
+      return 'SUCCESS'
+    case 'offline':
+      return 'CRITICAL'
+    case 'delinquent':
+      return 'WARNING'
+    default:
+      return 'INFO'
+  }
+}
+
+function calculateStdDev(values: number[], mean: number): number {
+  if (values.length === 0) return 0
+  const squareDiffs = values.map((value) => Math.pow(value - mean, 2))
+  const avgSquareDiff = squareDiffs.reduce((sum, val) => sum + val, 0) / values.length
+  return Math.sqrt(avgSquareDiff)
+}
@@ -0,0 +1,53 @@
+/**
+ * Counters of the indexer cycles run by this process, exported by /api/metrics. Unlike
+ * the IndexerRun ledger (pruned with raw snapshots) they only ever go up, as Prometheus
+ * counters must; each process counts its own cycles, so scrape every replica.
+ */
+
+import { Counter, Histogram } from '@/lib/prometheus'
+import type { MetricFamily } from '@/lib/prometheus'
+import type { IndexerRunStatus, IndexerSource, IndexerSourceResult } from '@/types/indexer'
+
+const DURATION_BUCKETS_SECONDS = [1, 2.5, 5, 10, 20, 30, 60, 120, 300]
+
+export class IndexerMetrics {
+  private cycles = new Counter('opue_indexer_cycles_total', 'Indexer cycles run by this process, by result')
+  private sourceErrors = new Counter(
+    'opue_indexer_source_errors_total',
+    'Failed upstream fetches in indexer cycles run by this process, by source',
+  )
+  private duration = new Histogram(
+    'opue_indexer_cycle_duration_seconds',
+    'Duration of indexer cycles run by this process',
+    DURATION_BUCKETS_SECONDS,
+  )
+
+  recordCycle(
+    status: IndexerRunStatus,
+    durationMs: number,
+    sources: Partial<Record<IndexerSource, IndexerSourceResult>>,
+  ): void {
+    this.cycles.inc({ status })
+    this.duration.observe(durationMs / 1000)
+    for (const [source, result] of Object.entries(sources)) {
+      if (!result.ok) this.sourceErrors.inc({ source })
+    }
+  }
+
+  collect(): MetricFamily[] {
+    return [this.cycles.collect(), this.sourceErrors.collect(), this.duration.collect()]
+  }
+}
+
+// Kept on globalThis so the indexer and the metrics route share one instance
+// (Next.js can load a module more than once, e.g. across dev-mode reloads)
+declare global {
+  var indexerMetrics: IndexerMetrics | undefined
+}
+
+export function getIndexerMetrics(): IndexerMetrics {
+  if (!globalThis.indexerMetrics) {
+    globalThis.indexerMetrics = new IndexerMetrics()
+  }
+  return globalThis.indexerMetrics
+}
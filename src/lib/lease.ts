@@ -0,0 +1,96 @@
+import { hostname } from 'os'
+import { randomUUID } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export interface LeaseOptions {
+  /** How long the lease stays valid without renewal */
+  ttlMs: number
+  /** Identifies this process; defaults to hostname:pid:random */
+  holder?: string
+}
+
+export type LeaseRunResult<T> = { acquired: true; result: T } | { acquired: false }
+
+/**
+ * Lease - a named lock stored as a `Lease` row, so at most one process (across
+ * replicas) holds it at a time.
+ *
+ * Acquiring is a single conditional UPDATE (free when expired or already ours) falling
+ * back to an INSERT, whose primary key decides races between processes. Leases expire
+ * after `ttlMs`, so a crashed holder never blocks others for long; `run()` renews the
+ * lease while its work is in progress. Expiry compares against the acquiring process's
+ * clock, so keep the TTL well above any expected clock skew between hosts.
+ */
+export class Lease {
+  readonly holder: string
+  private ttlMs: number
+
+  constructor(
+    readonly name: string,
+    options: LeaseOptions,
+  ) {
+    this.ttlMs = options.ttlMs
+    this.holder = options.holder ?? `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+  }
+
+  /**
+   * Take the lease if it is free, expired or already held by us
+   */
+  async tryAcquire(now: Date = new Date()): Promise<boolean> {
+    const expiresAt = new Date(now.getTime() + this.ttlMs)
+
+    const { count } = await prisma.lease.updateMany({
+      where: { name: this.name, OR: [{ holder: this.holder }, { expiresAt: { lt: now } }] },
+      data: { holder: this.holder, acquiredAt: now, expiresAt },
+    })
+    if (count > 0) return true
+
+    try {
+      await prisma.lease.create({ data: { name: this.name, holder: this.holder, acquiredAt: now, expiresAt } })
+      return true
+    } catch (error) {
+      // Another process holds the lease (or created it first)
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return false
+      throw error
+    }
+  }
+
+  /**
+   * Extend the lease; false if it expired and was taken over by another process
+   */
+  async renew(now: Date = new Date()): Promise<boolean> {
+    const { count } = await prisma.lease.updateMany({
+      where: { name: this.name, holder: this.holder },
+      data: { expiresAt: new Date(now.getTime() + this.ttlMs) },
+    })
+    return count > 0
+  }
+
+  async release(): Promise<void> {
+    await prisma.lease.deleteMany({ where: { name: this.name, holder: this.holder } })
+  }
+
+  /**
+   * Run `fn` while holding the lease, renewing it every third of the TTL, or return
+   * `{ acquired: false }` without running it if another process holds the lease
+   */
+  async run<T>(fn: () => Promise<T>): Promise<LeaseRunResult<T>> {
+    if (!(await this.tryAcquire())) return { acquired: false }
+
+    const heartbeat = setInterval(() => {
+      this.renew()
+        .then((held) => {
+          if (!held) console.warn(`[Lease] Lost lease "${this.name}" while still running`)
+        })
+        .catch((error) => console.warn(`[Lease] Failed to renew lease "${this.name}":`, error))
+    }, this.ttlMs / 3)
+
+    try {
+      return { acquired: true, result: await fn() }
+    } finally {
+      clearInterval(heartbeat)
+      await this.release().catch((error) => console.warn(`[Lease] Failed to release lease "${this.name}":`, error))
+    }
+  }
+}
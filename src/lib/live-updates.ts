@@ -0,0 +1,127 @@
+/**
+ * Live update payloads pushed over /api/live after each indexer cycle, and the
+ * helpers that compute them (server) and apply them to cached data (client).
+ * Payloads are diffs: only pNodes and network stats fields that changed are sent.
+ * Timestamps refreshed on every cycle (a pNode's lastSeen and performance.lastUpdated,
+ * the stats' lastUpdated) don't count as changes on their own; they go out alongside
+ * real changes, so an idle fleet produces empty updates.
+ */
+
+import type { NetworkStats, PNode, PNodeStatus } from '@/types/pnode'
+
+/** A changed pNode: its id plus the top-level fields that differ from the previous cycle */
+export type PNodePatch = Partial<PNode> & { id: string }
+
+export interface StatusTransition {
+  pnodeId: string
+  from: PNodeStatus
+  to: PNodeStatus
+}
+
+export interface LiveEvent {
+  id: string
+  timestamp: string
+  type: string
+  severity: string
+  title: string
+  description: string | null
+  pnodeId?: string
+}
+
+export interface PNodeDiff {
+  /** pNodes seen for the first time (full objects) */
+  added: PNode[]
+  /** Existing pNodes with changed fields */
+  changed: PNodePatch[]
+  /** Ids of pNodes no longer in gossip */
+  removed: string[]
+  transitions: StatusTransition[]
+}
+
+export interface LiveUpdate extends PNodeDiff {
+  /** Increments by one per update; a gap means the client missed one and should refetch */
+  sequence: number
+  timestamp: number
+  /** Changed network stats fields, or null if nothing changed */
+  networkStats: Partial<NetworkStats> | null
+  /** Network events logged during the cycle */
+  events: LiveEvent[]
+}
+
+/**
+ * Compare values the way they look once serialized to JSON (Dates as ISO strings)
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Top-level fields of `current` that differ from `previous` (fields that disappeared are sent as null)
+ */
+export function diffFields<T extends object>(previous: T, current: T): Partial<T> {
+  const changes: Record<string, unknown> = {}
+  const keys = new Set([...Object.keys(previous), ...Object.keys(current)])
+  for (const key of keys) {
+    const before = (previous as Record<string, unknown>)[key]
+    const after = (current as Record<string, unknown>)[key]
+    if (!sameValue(before, after)) changes[key] = after ?? null
+  }
+  return changes as Partial<T>
+}
+
+/**
+ * Whether a field diff holds more than the per-cycle timestamps
+ */
+export function hasRealChanges<T extends object>(previous: T, current: T, changes: Partial<T>): boolean {
+  return Object.keys(changes).some((key) => {
+    if (key === 'lastSeen' || key === 'lastUpdated') return false
+    if (key === 'performance') {
+      const before = (previous as Partial<PNode>).performance
+      const after = (current as Partial<PNode>).performance
+      return !before || !after || !sameValue({ ...before, lastUpdated: 0 }, { ...after, lastUpdated: 0 })
+    }
+    return true
+  })
+}
+
+export function diffPNodes(previous: PNode[], current: PNode[]): PNodeDiff {
+  const previousById = new Map(previous.map((pnode) => [pnode.id, pnode]))
+  const currentIds = new Set(current.map((pnode) => pnode.id))
+  const diff: PNodeDiff = { added: [], changed: [], removed: [], transitions: [] }
+
+  for (const pnode of current) {
+    const before = previousById.get(pnode.id)
+    if (!before) {
+      diff.added.push(pnode)
+      continue
+    }
+    const fields = diffFields(before, pnode)
+    if (hasRealChanges(before, pnode, fields)) diff.changed.push({ ...fields, id: pnode.id })
+    if (before.status !== pnode.status) {
+      diff.transitions.push({ pnodeId: pnode.id, from: before.status, to: pnode.status })
+    }
+  }
+  for (const pnode of previous) {
+    if (!currentIds.has(pnode.id)) diff.removed.push(pnode.id)
+  }
+
+  return diff
+}
+
+/**
+ * Apply an update's pNode diff to a cached list, keeping the cached order
+ */
+export function applyPNodeDiff(pnodes: PNode[], diff: Pick<PNodeDiff, 'added' | 'changed' | 'removed'>): PNode[] {
+  const patches = new Map(diff.changed.map((patch) => [patch.id, patch]))
+  const removed = new Set(diff.removed)
+  const existing = new Set(pnodes.map((pnode) => pnode.id))
+
+  const patched = pnodes
+    .filter((pnode) => !removed.has(pnode.id))
+    .map((pnode) => {
+      const patch = patches.get(pnode.id)
+      return patch ? ({ ...pnode, ...patch } as PNode) : pnode
+    })
+
+  return [...patched, ...diff.added.filter((pnode) => !existing.has(pnode.id))]
+}
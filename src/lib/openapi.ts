@@ -0,0 +1,143 @@
+/**
+ * OpenAPI 3.1 document for the versioned API, generated from the endpoint definitions
+ * and zod schemas in src/lib/api-v1.ts; served at /api/v1/openapi.json and rendered by
+ * the /docs/api page.
+ */
+
+import { z } from 'zod/v4'
+import { V1_ENDPOINTS } from '@/lib/api-v1'
+import type { V1Endpoint } from '@/lib/api-v1'
+import { v1Schemas } from '@/lib/api-v1-schemas'
+
+export const OPENAPI_PATH = '/api/v1/openapi.json'
+
+export type JsonSchema = Record<string, unknown>
+
+export interface OpenApiParameter {
+  name: string
+  in: 'query'
+  required: boolean
+  description?: string
+  schema: JsonSchema
+}
+
+export interface OpenApiOperation {
+  operationId: string
+  summary: string
+  description?: string
+  tags: string[]
+  /** API key scope the operation needs */
+  'x-scope'?: string
+  /** An API key, or none unless the server requires keys */
+  security?: { apiKey?: string[] }[]
+  parameters: OpenApiParameter[]
+  responses: Record<string, { description: string; content?: { 'application/json': { schema: JsonSchema } } }>
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0'
+  info: { title: string; version: string; description: string }
+  servers: { url: string }[]
+  paths: Record<string, { get: OpenApiOperation }>
+  components: {
+    schemas: Record<string, JsonSchema>
+    securitySchemes: Record<string, { type: 'apiKey'; in: 'header'; name: string }>
+  }
+}
+
+const ERROR_RESPONSES: Record<string, string> = {
+  '400': 'Invalid query parameters',
+  '401': 'Missing, invalid, revoked or expired API key',
+  '403': 'API key lacks the required scope',
+  '429': 'Hourly rate limit exceeded',
+  '500': 'Internal error',
+  '503': 'API key could not be checked',
+}
+
+const ref = (id: string): JsonSchema => ({ $ref: `#/components/schemas/${id}` })
+
+let cached: OpenApiDocument | null = null
+
+export function buildOpenApiDocument(): OpenApiDocument {
+  if (cached) return cached
+
+  const { schemas } = z.toJSONSchema(v1Schemas, {
+    uri: (id) => `#/components/schemas/${id}`,
+    unrepresentable: 'any',
+  })
+  const components: Record<string, JsonSchema> = {}
+  for (const [id, schema] of Object.entries(schemas)) {
+    components[id] = withoutKeywords(schema as JsonSchema, ['$schema', '$id'])
+  }
+
+  const paths: OpenApiDocument['paths'] = {}
+  for (const endpoint of Object.values(V1_ENDPOINTS) as V1Endpoint[]) {
+    const responseId = v1Schemas.get(endpoint.response)!.id
+    paths[endpoint.path] = {
+      get: {
+        operationId: endpoint.operationId,
+        summary: endpoint.summary,
+        description: endpoint.description,
+        tags: [endpoint.tag],
+        ...(endpoint.scope ? { 'x-scope': endpoint.scope, security: [{ apiKey: [] }, {}] } : {}),
+        parameters: Object.entries(endpoint.query.shape).map(([name, field]) => toParameter(name, field)),
+        responses: {
+          '200': { description: 'OK', content: { 'application/json': { schema: ref(responseId) } } },
+          ...Object.fromEntries(
+            Object.entries(ERROR_RESPONSES).map(([status, description]) => [
+              status,
+              { description, content: { 'application/json': { schema: ref('Error') } } },
+            ]),
+          ),
+        },
+      },
+    }
+  }
+
+  paths[OPENAPI_PATH] = {
+    get: {
+      operationId: 'getOpenApiDocument',
+      summary: 'This document',
+      tags: ['Meta'],
+      parameters: [],
+      responses: { '200': { description: 'OpenAPI 3.1 document', content: { 'application/json': { schema: {} } } } },
+    },
+  }
+
+  cached = {
+    openapi: '3.1.0',
+    info: {
+      title: 'Opue API',
+      version: '1.0.0',
+      description:
+        'Versioned public API for Xandeum pNode analytics. Every response is an envelope: `{ success: true, data, meta? }` or `{ success: false, error: { code, message, issues? } }`. Send an API key in the X-API-Key header; it is optional unless the server requires keys.',
+    },
+    servers: [{ url: '/' }],
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: { apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' } },
+    },
+  }
+  return cached
+}
+
+function toParameter(name: string, field: z.ZodType): OpenApiParameter {
+  const schema = withoutKeywords(z.toJSONSchema(field, { unrepresentable: 'any' }) as JsonSchema, ['$schema'])
+  const { description } = schema
+  delete schema.description
+  return {
+    name,
+    in: 'query',
+    // Optional and defaulted parameters accept a missing value
+    required: !field.safeParse(undefined).success,
+    ...(typeof description === 'string' ? { description } : {}),
+    schema,
+  }
+}
+
+function withoutKeywords(schema: JsonSchema, keywords: string[]): JsonSchema {
+  const copy = { ...schema }
+  for (const keyword of keywords) delete copy[keyword]
+  return copy
+}
@@ -0,0 +1,272 @@
+/**
+ * Filtering, sorting, cursor pagination and field selection over the pNode fleet, shared by
+ * GET /api/pnodes and the explorer filters so both match nodes the same way.
+ */
+
+import type { PNode, PNodeFilters, PNodeSortOptions, PNodeStatus } from '@/types/pnode'
+
+export const MAX_PAGE_SIZE = 1000
+
+const STATUSES: PNodeStatus[] = ['online', 'offline', 'delinquent']
+const SORT_FIELDS: PNodeSortOptions['field'][] = [
+  'id',
+  'status',
+  'storage',
+  'utilization',
+  'performance',
+  'uptime',
+  'location',
+  'lastSeen',
+]
+/** Sorts that default to ascending order; the numeric ones default to descending */
+const ASCENDING_SORT_FIELDS: PNodeSortOptions['field'][] = ['id', 'status', 'location']
+/** Status sort order: healthiest first */
+const STATUS_RANK: Record<PNodeStatus, number> = { online: 0, delinquent: 1, offline: 2 }
+
+/** Every top-level PNode field, so `fields=` can be validated; typed to stay in sync with PNode */
+const FIELDS: Record<keyof PNode, true> = {
+  id: true,
+  status: true,
+  storage: true,
+  performanceScore: true,
+  performance: true,
+  networkMetrics: true,
+  version: true,
+  versionInfo: true,
+  shredVersion: true,
+  location: true,
+  geo: true,
+  lastSeen: true,
+  isPublic: true,
+  pnrpcPort: true,
+  rpcEndpoint: true,
+  tpuEndpoint: true,
+  gossipEndpoint: true,
+}
+
+export const PNODE_FIELDS = Object.keys(FIELDS) as (keyof PNode)[]
+
+export interface PNodeQuery {
+  filters: PNodeFilters
+  /** Unset keeps the fleet snapshot's order */
+  sort?: PNodeSortOptions
+  /** Page size; unset returns every matching node */
+  limit?: number
+  /** Position of the last node of the previous page */
+  after?: PNodeCursor
+  /** Top-level fields to return (`id` is always included); unset returns whole nodes */
+  fields?: (keyof PNode)[]
+}
+
+export interface PNodeCursor {
+  value: string | number
+  id: string
+}
+
+export interface PNodePage {
+  pnodes: Partial<PNode>[]
+  /** Nodes matching the filters, across all pages */
+  total: number
+  /** Cursor for the next page; null on the last page */
+  nextCursor: string | null
+}
+
+/**
+ * Parse GET /api/pnodes query parameters:
+ * `id`, `status`, `version` (repeated or comma-separated), `location` (repeated), `search`,
+ * `minStorage`/`maxStorage` (bytes), `minPerformance`/`maxPerformance` (0-100),
+ * `sort` (id, status, storage, utilization, performance, uptime, location, lastSeen), `order` (asc, desc),
+ * `limit` (1-1000), `cursor` and `fields` (comma-separated).
+ * Paging without a sort orders by id.
+ */
+export function parsePNodeQuery(
+  params: URLSearchParams,
+): { query: PNodeQuery; error?: undefined } | { query?: undefined; error: string } {
+  const filters: PNodeFilters = {}
+
+  const ids = listParam(params, 'id')
+  if (ids.length > 0) filters.ids = ids
+  const status = listParam(params, 'status')
+  if (status.length > 0) {
+    const unknown = status.find((value) => !STATUSES.includes(value as PNodeStatus))
+    if (unknown) return { error: `status must be one of: ${STATUSES.join(', ')}` }
+    filters.status = status as PNodeStatus[]
+  }
+  const version = listParam(params, 'version')
+  if (version.length > 0) filters.version = version
+  // Locations ("Frankfurt, Germany") contain commas, so they are only repeated
+  const location = params.getAll('location').filter((value) => value !== '')
+  if (location.length > 0) filters.location = location
+  const search = params.get('search')?.trim()
+  if (search) filters.search = search
+
+  for (const [name, max] of [
+    ['minStorage', Infinity],
+    ['maxStorage', Infinity],
+    ['minPerformance', 100],
+    ['maxPerformance', 100],
+  ] as const) {
+    const raw = params.get(name)
+    if (raw === null) continue
+    const value = Number(raw)
+    if (raw.trim() === '' || !Number.isFinite(value) || value < 0 || value > max) {
+      return { error: `${name} must be a number${max === 100 ? ' between 0 and 100' : ' of bytes'}` }
+    }
+    filters[name] = value
+  }
+
+  const query: PNodeQuery = { filters }
+
+  const limit = params.get('limit')
+  if (limit !== null) {
+    const value = Number(limit)
+    if (!Number.isInteger(value) || value < 1 || value > MAX_PAGE_SIZE) {
+      return { error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` }
+    }
+    query.limit = value
+  }
+
+  const field = params.get('sort')
+  const order = params.get('order')
+  if (field !== null && !SORT_FIELDS.includes(field as PNodeSortOptions['field'])) {
+    return { error: `sort must be one of: ${SORT_FIELDS.join(', ')}` }
+  }
+  if (order !== null && order !== 'asc' && order !== 'desc') return { error: 'order must be asc or desc' }
+  const cursor = params.get('cursor')
+  if (field !== null || order !== null || query.limit !== undefined || cursor !== null) {
+    const sortField = (field ?? 'id') as PNodeSortOptions['field']
+    query.sort = { field: sortField, order: order ?? (ASCENDING_SORT_FIELDS.includes(sortField) ? 'asc' : 'desc') }
+  }
+
+  if (cursor !== null) {
+    const decoded = decodeCursor(cursor)
+    if (!decoded || decoded.field !== query.sort!.field || decoded.order !== query.sort!.order) {
+      return { error: 'cursor is invalid or was issued for a different sort' }
+    }
+    query.after = { value: decoded.value, id: decoded.id }
+  }
+
+  const fields = listParam(params, 'fields')
+  if (fields.length > 0) {
+    const unknown = fields.find((name) => !PNODE_FIELDS.includes(name as keyof PNode))
+    if (unknown) return { error: `Unknown field "${unknown}"; fields must be any of: ${PNODE_FIELDS.join(', ')}` }
+    query.fields = [...new Set<keyof PNode>(['id', ...(fields as (keyof PNode)[])])]
+  }
+
+  return { query }
+}
+
+/**
+ * Nodes matching every set filter. Search matches the id, gossip endpoint or location;
+ * a node without a location matches the location "Unknown".
+ */
+export function filterPNodes(pnodes: PNode[], filters: PNodeFilters): PNode[] {
+  const search = filters.search?.toLowerCase()
+  return pnodes.filter(
+    (p) =>
+      (!filters.ids?.length || filters.ids.includes(p.id)) &&
+      (!search ||
+        p.id.toLowerCase().includes(search) ||
+        p.gossipEndpoint.toLowerCase().includes(search) ||
+        !!p.location?.toLowerCase().includes(search)) &&
+      (!filters.status?.length || filters.status.includes(p.status)) &&
+      (!filters.location?.length || filters.location.includes(p.location || 'Unknown')) &&
+      (!filters.version?.length || filters.version.includes(p.version)) &&
+      (filters.minStorage === undefined || p.storage.capacityBytes >= filters.minStorage) &&
+      (filters.maxStorage === undefined || p.storage.capacityBytes <= filters.maxStorage) &&
+      (filters.minPerformance === undefined || p.performanceScore >= filters.minPerformance) &&
+      (filters.maxPerformance === undefined || p.performanceScore <= filters.maxPerformance),
+  )
+}
+
+/**
+ * Sort a copy of the nodes, breaking ties by id so the order (and cursors into it) is stable
+ */
+export function sortPNodes(pnodes: PNode[], sort: PNodeSortOptions): PNode[] {
+  return [...pnodes].sort((a, b) => compareTo(a, { value: sortValue(b, sort.field), id: b.id }, sort))
+}
+
+/**
+ * Filter, sort, page and project the fleet snapshot for one request
+ */
+export function queryPNodes(pnodes: PNode[], query: PNodeQuery): PNodePage {
+  const matching = filterPNodes(pnodes, query.filters)
+  let rows = query.sort ? sortPNodes(matching, query.sort) : matching
+
+  const { sort, after } = query
+  if (sort && after) rows = rows.filter((p) => compareTo(p, after, sort) > 0)
+
+  let nextCursor: string | null = null
+  if (query.limit !== undefined && rows.length > query.limit) {
+    rows = rows.slice(0, query.limit)
+    const last = rows[rows.length - 1]
+    nextCursor = encodeCursor(sort!, { value: sortValue(last, sort!.field), id: last.id })
+  }
+
+  const fields = query.fields
+  return {
+    pnodes: fields ? rows.map((p) => pick(p, fields)) : rows,
+    total: matching.length,
+    nextCursor,
+  }
+}
+
+function listParam(params: URLSearchParams, name: string): string[] {
+  return params
+    .getAll(name)
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter((value) => value !== '')
+}
+
+function sortValue(p: PNode, field: PNodeSortOptions['field']): string | number {
+  switch (field) {
+    case 'id':
+      return p.id
+    case 'status':
+      return STATUS_RANK[p.status]
+    case 'storage':
+      return p.storage.capacityBytes
+    case 'utilization':
+      return p.storage.utilization
+    case 'performance':
+      return p.performanceScore
+    case 'uptime':
+      return p.performance.uptime
+    case 'location':
+      return p.location || 'Unknown'
+    case 'lastSeen':
+      return new Date(p.lastSeen).getTime()
+  }
+}
+
+/** Position of a node relative to a cursor in the sort order: negative before, positive after */
+function compareTo(p: PNode, cursor: PNodeCursor, sort: PNodeSortOptions): number {
+  const value = sortValue(p, sort.field)
+  const comparison =
+    typeof value === 'string' ? value.localeCompare(String(cursor.value)) : value - Number(cursor.value)
+  if (comparison !== 0) return sort.order === 'asc' ? comparison : -comparison
+  return p.id.localeCompare(cursor.id)
+}
+
+function encodeCursor(sort: PNodeSortOptions, cursor: PNodeCursor): string {
+  return Buffer.from(JSON.stringify([sort.field, sort.order, cursor.value, cursor.id])).toString('base64url')
+}
+
+function decodeCursor(cursor: string): (PNodeSortOptions & PNodeCursor) | null {
+  try {
+    const [field, order, value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (typeof id !== 'string' || (typeof value !== 'string' && typeof value !== 'number')) return null
+    return { field, order, value, id }
+  } catch {
+    return null
+  }
+}
+
+function pick(p: PNode, fields: (keyof PNode)[]): Partial<PNode> {
+  const projected: Partial<PNode> = {}
+  for (const field of fields) {
+    if (p[field] !== undefined) Object.assign(projected, { [field]: p[field] })
+  }
+  return projected
+}
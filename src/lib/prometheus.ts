@@ -0,0 +1,160 @@
+/**
+ * Prometheus text exposition format (version 0.0.4) and the in-process counters and
+ * histograms behind it.
+ */
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+export type Labels = Record<string, string>
+
+export interface Sample {
+  labels?: Labels
+  value: number
+  /** Appended to the family name, e.g. `_bucket` for histogram buckets */
+  suffix?: string
+}
+
+export interface MetricFamily {
+  name: string
+  help: string
+  type: 'gauge' | 'counter' | 'histogram'
+  samples: Sample[]
+}
+
+/**
+ * Render metric families; families without samples are left out
+ */
+export function formatMetrics(families: MetricFamily[]): string {
+  const lines: string[] = []
+  for (const family of families) {
+    if (family.samples.length === 0) continue
+    lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`)
+    lines.push(`# TYPE ${family.name} ${family.type}`)
+    for (const sample of family.samples) {
+      lines.push(`${family.name}${sample.suffix ?? ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}`)
+    }
+  }
+  return lines.length > 0 ? `${lines.join('\n')}\n` : ''
+}
+
+/**
+ * A gauge family from values that may be missing; null and undefined values are skipped
+ */
+export function gauge(
+  name: string,
+  help: string,
+  values: { labels?: Labels; value: number | bigint | null | undefined }[],
+): MetricFamily {
+  return {
+    name,
+    help,
+    type: 'gauge',
+    samples: values.flatMap(({ labels, value }) =>
+      value === null || value === undefined ? [] : [{ labels, value: Number(value) }],
+    ),
+  }
+}
+
+/**
+ * A counter family from totals kept elsewhere (e.g. reported by a pNode), skipped like gauge()
+ */
+export function counter(
+  name: string,
+  help: string,
+  values: { labels?: Labels; value: number | bigint | null | undefined }[],
+): MetricFamily {
+  return { ...gauge(name, help, values), type: 'counter' }
+}
+
+/**
+ * Monotonic counter, one value per label set
+ */
+export class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels)
+    const entry = this.values.get(key) ?? { labels, value: 0 }
+    entry.value += amount
+    this.values.set(key, entry)
+  }
+
+  collect(): MetricFamily {
+    return {
+      name: this.name,
+      help: this.help,
+      type: 'counter',
+      samples: [...this.values.values()].map(({ labels, value }) => ({ labels, value })),
+    }
+  }
+}
+
+/**
+ * Histogram with fixed bucket upper bounds (no labels)
+ */
+export class Histogram {
+  private counts: number[]
+  private sum = 0
+  private count = 0
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private buckets: number[],
+  ) {
+    this.counts = buckets.map(() => 0)
+  }
+
+  observe(value: number): void {
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) this.counts[i]++
+    })
+    this.sum += value
+    this.count++
+  }
+
+  collect(): MetricFamily {
+    return {
+      name: this.name,
+      help: this.help,
+      type: 'histogram',
+      samples:
+        this.count === 0
+          ? []
+          : [
+              ...this.buckets.map((bound, i) => ({
+                suffix: '_bucket',
+                labels: { le: String(bound) },
+                value: this.counts[i],
+              })),
+              { suffix: '_bucket', labels: { le: '+Inf' }, value: this.count },
+              { suffix: '_sum', value: this.sum },
+              { suffix: '_count', value: this.count },
+            ],
+    }
+  }
+}
+
+function formatLabels(labels: Labels | undefined): string {
+  if (!labels || Object.keys(labels).length === 0) return ''
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`,
+  )
+  return `{${pairs.join(',')}}`
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN'
+  if (value === Infinity) return '+Inf'
+  if (value === -Infinity) return '-Inf'
+  return String(value)
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
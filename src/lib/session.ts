@@ -0,0 +1,66 @@
+/**
+ * Dashboard sessions: an HMAC-signed cookie naming the API key a user signed in with
+ * (POST /api/session). The middleware checks the key behind a session exactly like a key
+ * sent in a header, so revoking or narrowing the key ends or narrows the session, and
+ * rotating it ends the session (the fingerprint no longer matches).
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto'
+
+export const SESSION_COOKIE = 'opue_session'
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000
+
+export interface Session {
+  /** ApiKey id */
+  keyId: string
+  /** Key name, shown as the signed-in user */
+  name: string
+  /** Fingerprint of the key's secret at sign-in (see keyFingerprint in the API key service) */
+  fingerprint: string
+  /** Unix time in ms */
+  expiresAt: number
+}
+
+/**
+ * SESSION_SECRET signs session cookies; sessions are disabled without it
+ */
+export function getSessionSecret(): string | null {
+  return process.env.SESSION_SECRET || null
+}
+
+export function signSession(session: Session, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url')
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/**
+ * The session in a cookie value, or null if it is malformed, forged or expired
+ */
+export function verifySession(token: string | undefined, secret: string, now: Date = new Date()): Session | null {
+  const [payload, signature, ...rest] = token?.split('.') ?? []
+  if (!payload || !signature || rest.length > 0) return null
+  if (!safeEqual(signature, sign(payload, secret))) return null
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString()) as Partial<Session>
+    if (typeof session.keyId !== 'string' || typeof session.name !== 'string') return null
+    if (typeof session.fingerprint !== 'string') return null
+    if (typeof session.expiresAt !== 'number' || session.expiresAt <= now.getTime()) return null
+    return { keyId: session.keyId, name: session.name, fingerprint: session.fingerprint, expiresAt: session.expiresAt }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Constant-time string comparison, so a secret can't be recovered from response times
+ * (both sides are hashed first, which also hides the secret's length)
+ */
+export function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  return timingSafeEqual(digest(a), digest(b))
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
@@ -0,0 +1,160 @@
+/**
+ * History windows, downsampling and rollup aggregation for time series built from
+ * indexer snapshots.
+ */
+
+import { percentile } from '@/lib/statistics'
+import type { HistoryRange, HistoryResolution, PNodeHistoryOptions, TimeSeriesData } from '@/types/pnode'
+
+export const HOUR_MS = 60 * 60 * 1000
+export const DAY_MS = 24 * HOUR_MS
+
+/** Resolutions stored as rollups */
+export type RollupResolution = Exclude<HistoryResolution, 'raw'>
+
+/** Where a history query reads from: raw snapshots or one of the rollup tiers */
+export type HistoryTier = 'raw' | RollupResolution
+
+/** Aggregate of one metric over a rollup bucket */
+export interface MetricSummary {
+  samples: number
+  min: number
+  avg: number
+  max: number
+  p95: number
+}
+
+export const HISTORY_RANGES: Record<HistoryRange, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+}
+
+export const HISTORY_RESOLUTIONS: HistoryResolution[] = ['raw', 'hourly', 'daily']
+
+export const DEFAULT_HISTORY_RANGE: HistoryRange = '30d'
+
+export const BUCKET_MS: Record<RollupResolution, number> = {
+  hourly: HOUR_MS,
+  daily: DAY_MS,
+}
+
+/**
+ * Resolution that keeps a range to a chartable number of points (24-168 hourly, 30-90 daily)
+ */
+export function defaultResolution(range: HistoryRange): HistoryResolution {
+  return range === '24h' || range === '7d' ? 'hourly' : 'daily'
+}
+
+/**
+ * Fill in defaults for a history request
+ */
+export function resolveHistoryOptions(options: PNodeHistoryOptions = {}): Required<PNodeHistoryOptions> {
+  const range = options.range ?? DEFAULT_HISTORY_RANGE
+  return { range, resolution: options.resolution ?? defaultResolution(range) }
+}
+
+/**
+ * Read `range` and `resolution` query parameters, rejecting unknown values
+ */
+export function parseHistoryOptions(params: URLSearchParams): { options: PNodeHistoryOptions } | { error: string } {
+  const range = params.get('range')
+  const resolution = params.get('resolution')
+
+  if (range && !Object.keys(HISTORY_RANGES).includes(range)) {
+    return { error: `Invalid range: ${range} (expected one of ${Object.keys(HISTORY_RANGES).join(', ')})` }
+  }
+  if (resolution && !HISTORY_RESOLUTIONS.includes(resolution as HistoryResolution)) {
+    return { error: `Invalid resolution: ${resolution} (expected one of ${HISTORY_RESOLUTIONS.join(', ')})` }
+  }
+
+  return {
+    options: {
+      range: (range as HistoryRange | null) ?? undefined,
+      resolution: (resolution as HistoryResolution | null) ?? undefined,
+    },
+  }
+}
+
+/**
+ * Average points into UTC hourly or daily buckets, stamped with the bucket start.
+ * Expects points in ascending time order; 'raw' returns them unchanged.
+ */
+export function downsample(points: TimeSeriesData[], resolution: HistoryResolution): TimeSeriesData[] {
+  if (resolution === 'raw') return points
+
+  const buckets: { timestamp: number; sum: number; count: number }[] = []
+
+  for (const point of points) {
+    const timestamp = bucketStart(point.timestamp, resolution)
+    const last = buckets[buckets.length - 1]
+    if (last && last.timestamp === timestamp) {
+      last.sum += point.value
+      last.count++
+    } else {
+      buckets.push({ timestamp, sum: point.value, count: 1 })
+    }
+  }
+
+  return buckets.map((bucket) => ({
+    timestamp: bucket.timestamp,
+    value: Math.round((bucket.sum / bucket.count) * 100) / 100,
+  }))
+}
+
+/**
+ * Start (UTC) of the hour or day containing a timestamp
+ */
+export function bucketStart(timestamp: number, resolution: RollupResolution): number {
+  const bucketMs = BUCKET_MS[resolution]
+  return Math.floor(timestamp / bucketMs) * bucketMs
+}
+
+/**
+ * Pick the cheapest tier that still answers a history query: raw snapshots while the
+ * window is within raw retention (or raw points are asked for), otherwise the rollup
+ * matching the resolution
+ */
+export function selectHistoryTier(
+  start: number,
+  resolution: HistoryResolution,
+  rawRetentionMs: number,
+  now: number = Date.now(),
+): HistoryTier {
+  if (resolution === 'raw' || start >= now - rawRetentionMs) return 'raw'
+  return resolution
+}
+
+/**
+ * min/avg/max/p95 of raw values
+ */
+export function summarize(values: number[]): MetricSummary {
+  if (values.length === 0) return { samples: 0, min: 0, avg: 0, max: 0, p95: 0 }
+  return {
+    samples: values.length,
+    min: Math.min(...values),
+    avg: values.reduce((sum, value) => sum + value, 0) / values.length,
+    max: Math.max(...values),
+    p95: percentile(values, 95),
+  }
+}
+
+/**
+ * Combine finer rollups (e.g. hours into a day). min, max and the sample-weighted avg are
+ * exact; p95 is approximated as the 95th percentile of the finer buckets' p95s.
+ */
+export function mergeSummaries(summaries: MetricSummary[]): MetricSummary {
+  const samples = summaries.reduce((sum, summary) => sum + summary.samples, 0)
+  if (samples === 0) return { samples: 0, min: 0, avg: 0, max: 0, p95: 0 }
+  return {
+    samples,
+    min: Math.min(...summaries.map((summary) => summary.min)),
+    avg: summaries.reduce((sum, summary) => sum + summary.avg * summary.samples, 0) / samples,
+    max: Math.max(...summaries.map((summary) => summary.max)),
+    p95: percentile(
+      summaries.map((summary) => summary.p95),
+      95,
+    ),
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * pNode software version parsing and the fleet version registry.
+ * Versions look like "0.8.0", "v0.7.3" or "0.8.0-trynet.20251201.1a2b3c".
+ */
+
+import type { VersionInfo } from '@/types/pnode'
+
+export interface ParsedVersion {
+  major: number
+  minor: number
+  patch: number
+  /** Pre-release tag after "-", e.g. "trynet.20251201.1a2b3c" */
+  prerelease?: string
+}
+
+export interface VersionRegistry {
+  /** Latest release (the configured target, or the newest stable version enough of the fleet runs) */
+  latest: string | null
+  /** Known releases (major.minor.patch), newest first */
+  releases: string[]
+  /** Version status for a node; null when the version can't be parsed */
+  getInfo(version: string): VersionInfo | null
+}
+
+export interface VersionRegistryOptions {
+  /** Configured latest release (e.g. PNODE_TARGET_VERSION); takes precedence over the fleet */
+  target?: string
+  /** Share of nodes (0-1) that must run a version before the fleet treats it as the latest */
+  minShare?: number
+}
+
+/** Default share of the fleet a version needs before it counts as the latest release */
+export const DEFAULT_LATEST_MIN_SHARE = 0.1
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/
+
+export function parseVersion(version: string): ParsedVersion | null {
+  const match = VERSION_PATTERN.exec(version.trim())
+  if (!match) return null
+  return {
+    major: parseInt(match[1]),
+    minor: parseInt(match[2]),
+    patch: parseInt(match[3] ?? '0'),
+    prerelease: match[4],
+  }
+}
+
+/**
+ * Compare two parsed versions (semver precedence; a pre-release sorts before its release)
+ */
+export function compareVersions(a: ParsedVersion, b: ParsedVersion): number {
+  if (a.major !== b.major) return a.major - b.major
+  if (a.minor !== b.minor) return a.minor - b.minor
+  if (a.patch !== b.patch) return a.patch - b.patch
+  if (a.prerelease === b.prerelease) return 0
+  if (a.prerelease === undefined) return 1
+  if (b.prerelease === undefined) return -1
+  return a.prerelease.localeCompare(b.prerelease, undefined, { numeric: true })
+}
+
+function releaseOf(version: ParsedVersion): string {
+  return `${version.major}.${version.minor}.${version.patch}`
+}
+
+/**
+ * The newest version run by at least `minShare` of the candidates, so a single node
+ * reporting a bogus or unreleased version can't redefine the latest release. When no
+ * version is that widespread, the most widely run one (newest on a tie) is used.
+ */
+function adoptedLatest(candidates: ParsedVersion[], minShare: number): ParsedVersion | null {
+  const counts = new Map<string, { version: ParsedVersion; count: number }>()
+  for (const version of candidates) {
+    const key = `${releaseOf(version)}-${version.prerelease ?? ''}`
+    const entry = counts.get(key) ?? { version, count: 0 }
+    entry.count++
+    counts.set(key, entry)
+  }
+
+  const newestFirst = [...counts.values()].sort((a, b) => compareVersions(b.version, a.version))
+  if (newestFirst.length === 0) return null
+  const adopted = newestFirst.find(({ count }) => count >= minShare * candidates.length)
+  return (adopted ?? newestFirst.reduce((most, entry) => (entry.count > most.count ? entry : most))).version
+}
+
+/**
+ * Build a registry from the versions seen across the fleet. Pre-release builds don't
+ * define the latest release unless nothing stable is running, and a version only
+ * counts once `minShare` of the fleet runs it. A configured target takes precedence.
+ */
+export function buildVersionRegistry(versions: string[], options: VersionRegistryOptions = {}): VersionRegistry {
+  const { target, minShare = DEFAULT_LATEST_MIN_SHARE } = options
+  const parsed = versions.map(parseVersion).filter((version): version is ParsedVersion => version !== null)
+  const stable = parsed.filter((version) => version.prerelease === undefined)
+  const candidates = stable.length > 0 ? stable : parsed
+
+  const parsedTarget = target ? parseVersion(target) : null
+  const latest = parsedTarget ?? adoptedLatest(candidates, minShare)
+
+  const releaseVersions = new Map<string, ParsedVersion>()
+  for (const version of [...candidates, ...(latest ? [latest] : [])]) {
+    const core = { major: version.major, minor: version.minor, patch: version.patch }
+    releaseVersions.set(releaseOf(core), core)
+  }
+  const releases = [...releaseVersions.values()].sort((a, b) => compareVersions(b, a))
+  const latestLabel = parsedTarget ? target!.trim().replace(/^v/, '') : latest ? releaseOf(latest) : null
+
+  return {
+    latest: latestLabel,
+    releases: releases.map(releaseOf),
+    getInfo(version: string): VersionInfo | null {
+      const current = parseVersion(version)
+      if (!current || !latest || !latestLabel) return null
+
+      const outdated = compareVersions(current, latest) < 0
+      // Releases newer than the node, up to and including the latest
+      const versionsBehind = outdated
+        ? Math.max(
+            1,
+            releases.filter((release) => compareVersions(release, current) > 0 && compareVersions(release, latest) <= 0)
+              .length,
+          )
+        : 0
+
+      return { latest: latestLabel, outdated, versionsBehind }
+    },
+  }
+}
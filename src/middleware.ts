@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import {
+    ACTOR_HEADER,
+    CREDENTIALED_SCOPES,
+    apiKeyFromHeaders,
+    getApiKeyService,
+    requiredScope,
+} from './services/api-key.service';
+import type { RateLimitState } from './services/api-key.service';
+import { v1Error } from './lib/api-v1';
+import { SESSION_COOKIE, getSessionSecret, verifySession } from './lib/session';
+
+/**
+ * API key middleware for every /api route.
+ *
+ * A key in the `X-API-Key` header (or `Authorization: Bearer xk_...`), or the key behind a
+ * signed-in dashboard session (src/lib/session.ts), is checked for status, expiry, the
+ * route's scope (see ROUTE_SCOPES) and its hourly rate limit, and counted; routes learn
+ * the key's name from ACTOR_HEADER. Writes, the pRPC proxy and MCP always need one of them
+ * (CREDENTIALED_SCOPES); other routes only when API_KEYS_REQUIRED=true. Runs on the
+ * Node.js runtime for Prisma.
+ */
+export const config = {
+    matcher: '/api/:path*',
+    runtime: 'nodejs',
+};
+
+/** Error in the envelope of the API version the request is for */
+function errorResponse(request: NextRequest, status: number, error: string): NextResponse {
+    if (request.nextUrl.pathname.startsWith('/api/v1/')) return v1Error(status, error);
+    return NextResponse.json({ success: false, error }, { status });
+}
+
+function withRateLimitHeaders(response: NextResponse, rateLimit?: RateLimitState): NextResponse {
+    if (rateLimit) {
+        response.headers.set('X-RateLimit-Limit', String(rateLimit.limit));
+        response.headers.set('X-RateLimit-Remaining', String(rateLimit.remaining));
+        response.headers.set('X-RateLimit-Reset', String(Math.ceil(rateLimit.resetAt.getTime() / 1000)));
+    }
+    return response;
+}
+
+export async function middleware(request: NextRequest) {
+    // Only the middleware may say who is acting
+    const headers = new Headers(request.headers);
+    headers.delete(ACTOR_HEADER);
+
+    const scope = requiredScope(request.nextUrl.pathname, request.method);
+    if (scope === null) return NextResponse.next({ request: { headers } });
+
+    const key = apiKeyFromHeaders(request.headers);
+    const secret = getSessionSecret();
+    const session = !key && secret ? verifySession(request.cookies.get(SESSION_COOKIE)?.value, secret) : null;
+    if (!key && !session) {
+        if (process.env.API_KEYS_REQUIRED === 'true' || CREDENTIALED_SCOPES.includes(scope)) {
+            return errorResponse(request, 401, 'API key required (X-API-Key header or a signed-in session)');
+        }
+        return NextResponse.next({ request: { headers } });
+    }
+
+    try {
+        const apiKeyService = getApiKeyService();
+        const check = key
+            ? await apiKeyService.authenticate(key, scope)
+            : await apiKeyService.authenticateSession(session!, scope);
+        if (!check.ok) {
+            const response = errorResponse(request, check.status, check.error);
+            if (check.status === 429 && check.rateLimit) {
+                const retryAfter = Math.ceil((check.rateLimit.resetAt.getTime() - Date.now()) / 1000);
+                response.headers.set('Retry-After', String(Math.max(retryAfter, 1)));
+            }
+            return withRateLimitHeaders(response, check.rateLimit);
+        }
+        // Encoded: header values must be ASCII
+        headers.set(ACTOR_HEADER, encodeURIComponent(check.apiKey.name));
+        return withRateLimitHeaders(NextResponse.next({ request: { headers } }), check.rateLimit);
+    } catch (error) {
+        console.error('[Middleware] API key check failed:', error);
+        return errorResponse(request, 503, 'Failed to check API key');
+    }
+}
@@ -1,8 +1,29 @@
-import type { Alert, AlertRule, AlertStats, AlertType } from '@/types/alerts'
+import { Prisma } from '@prisma/client'
+import type {
+  Alert as DbAlert,
+  AlertRule as DbAlertRule,
+  AlertSeverity as DbAlertSeverity,
+  AlertSilence as DbAlertSilence,
+  NetworkSnapshot as DbNetworkSnapshot,
+} from '@prisma/client'
+import type {
+  Alert,
+  AlertRule,
+  AlertRuleInput,
+  AlertRuleScope,
+  AlertSeverity,
+  AlertSilence,
+  AlertSilenceKind,
+  AlertStats,
+  AlertType,
+  NotificationMethod,
+} from '@/types/alerts'
 import type { AlertCondition } from '@/types/alerts'
 import { DEFAULT_ALERT_RULES } from '@/types/alerts'
-import type { PNode } from '@/types/pnode'
-import { getWebSocketService } from './websocket.service'
+import type { NetworkMetrics, PerformanceMetrics, PNode, PNodeGeo, StorageMetrics, VersionInfo } from '@/types/pnode'
+import { prisma } from '@/lib/prisma'
+import { getNotificationService, webhookUrlError } from './notification.service'
+import type { NotificationEvent } from './notification.service'
 
 interface NetworkStats {
   totalPNodes: number
@@ -13,40 +34,514 @@ interface NetworkStats {
 
 type ConditionValue = string | number | boolean
 
-export class AlertService {
-  private rules: Map<string, AlertRule> = new Map()
-  private alerts: Alert[] = []
-  private alertListeners: ((alert: Alert) => void)[] = []
-  private wsService = getWebSocketService()
+type DbAlertWithPNode = DbAlert & { pnode: { pubkey: string } | null }
+
+type MetricRecord = Record<string, ConditionValue>
+
+/** Pending-state subject used for network-level rules */
+const NETWORK_SUBJECT = 'network'
+
+/** Recorded as resolvedBy when an alert clears on its own */
+const SYSTEM_ACTOR = 'system'
+
+const ALERT_TYPES: AlertType[] = [
+  'pnode_offline',
+  'pnode_performance_drop',
+  'pnode_storage_full',
+  'network_decentralization',
+  'network_storage_low',
+  'new_pnode_joined',
+  'pnode_version_outdated',
+  'custom',
+]
+/** Ordered from least to most severe */
+const SEVERITIES: AlertSeverity[] = ['low', 'medium', 'high', 'critical']
+const SCOPES: AlertRuleScope[] = ['network', 'pnode']
+const SILENCE_KINDS: AlertSilenceKind[] = ['maintenance', 'silence']
+const NOTIFICATION_METHODS: NotificationMethod[] = ['browser', 'email', 'webhook']
+
+/**
+ * Scopes each rule type is evaluated in. Types without an entry have no evaluator, so
+ * rules of that type would never fire
+ */
+const TYPE_SCOPES: Partial<Record<AlertType, AlertRuleScope[]>> = {
+  pnode_offline: ['pnode'],
+  pnode_performance_drop: ['pnode'],
+  pnode_storage_full: ['pnode'],
+  network_decentralization: ['network'],
+  new_pnode_joined: ['pnode'],
+  pnode_version_outdated: ['pnode'],
+  custom: ['network', 'pnode'],
+}
+
+/** Field paths of T, under `prefix` for nested objects; typed so renamed fields fail to compile */
+function fieldPaths<T>(fields: (keyof T & string)[], prefix?: string): string[] {
+  return fields.map((field) => (prefix ? `${prefix}.${field}` : field))
+}
+
+/** Condition fields of pnode-scoped rules: PNode field paths with comparable values */
+const PNODE_FIELDS: string[] = [
+  ...fieldPaths<PNode>([
+    'id',
+    'status',
+    'performanceScore',
+    'version',
+    'shredVersion',
+    'location',
+    'isPublic',
+    'pnrpcPort',
+    'rpcEndpoint',
+    'tpuEndpoint',
+    'gossipEndpoint',
+  ]),
+  ...fieldPaths<StorageMetrics>(['capacityBytes', 'usedBytes', 'utilization', 'fileSystems', 'isEstimated'], 'storage'),
+  ...fieldPaths<PerformanceMetrics>(
+    [
+      'averageLatency',
+      'successRate',
+      'uptime',
+      'uptimeSeconds',
+      'latencyP50',
+      'latencyP95',
+      'latencyP99',
+      'probeSamples',
+      'probeFailures',
+      'isEstimated',
+    ],
+    'performance',
+  ),
+  ...fieldPaths<NetworkMetrics>(
+    ['activeStreams', 'packetsReceived', 'packetsSent', 'cpuPercent', 'ramUsed', 'ramTotal'],
+    'networkMetrics',
+  ),
+  ...fieldPaths<VersionInfo>(['latest', 'outdated', 'versionsBehind'], 'versionInfo'),
+  ...fieldPaths<PNodeGeo>(
+    ['country', 'countryCode', 'region', 'city', 'latitude', 'longitude', 'asn', 'datacenter'],
+    'geo',
+  ),
+]
+
+/** Fields some rule types add to each pNode before checking conditions (see evaluateRule) */
+const TYPE_PNODE_FIELDS: Partial<Record<AlertType, string[]>> = {
+  pnode_version_outdated: ['versionOutdated', 'versionsBehind'],
+  new_pnode_joined: ['isNew'],
+}
+
+/** Condition fields of network-scoped rules besides NetworkSnapshot columns (see getNetworkMetrics) */
+const NETWORK_STAT_FIELDS: string[] = [
+  ...fieldPaths<NetworkStats>(['totalPNodes', 'totalStorage', 'decentralization', 'avgPerformance']),
+  'decentralizationScore',
+]
+
+const OPERATOR_SYMBOLS: Record<AlertCondition['operator'], string> = {
+  gt: '>',
+  lt: '<',
+  eq: '==',
+  ne: '!=',
+  contains: 'contains',
+  not_contains: 'not_contains',
+}
+
+/**
+ * Map a domain severity to the Prisma enum
+ */
+function toDbSeverity(severity: AlertSeverity): DbAlertSeverity {
+  return severity.toUpperCase() as DbAlertSeverity
+}
+
+/**
+ * Map a Prisma severity to the domain severity
+ */
+function fromDbSeverity(severity: DbAlertSeverity): AlertSeverity {
+  return severity.toLowerCase() as AlertSeverity
+}
+
+/**
+ * The next severity level up (critical stays critical)
+ */
+function escalateSeverity(severity: AlertSeverity): AlertSeverity {
+  return SEVERITIES[Math.min(SEVERITIES.indexOf(severity) + 1, SEVERITIES.length - 1)]
+}
 
-  constructor() {
-    this.initializeDefaultRules()
-    this.setupWebSocketListeners()
+/**
+ * The pNode pubkey an alert is about, or the network subject
+ */
+function subjectOf(alert: Partial<Alert>): string {
+  return alert.pnodeId ?? NETWORK_SUBJECT
+}
+
+/**
+ * Numeric threshold for a condition value (booleans count as 1/0, strings as 0)
+ */
+function toThreshold(value: ConditionValue): number {
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+  return 0
+}
+
+/**
+ * Convert a persisted rule row into the domain AlertRule
+ */
+function toAlertRule(row: DbAlertRule): AlertRule {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? '',
+    type: row.type as AlertType,
+    enabled: row.enabled,
+    severity: fromDbSeverity(row.severity),
+    scope: row.scope === 'NETWORK' ? 'network' : 'pnode',
+    pubkeys: row.pnodeFilter.length > 0 ? row.pnodeFilter : undefined,
+    conditions: row.conditions as unknown as AlertCondition[],
+    cooldownMinutes: row.cooldownMinutes,
+    lastTriggered: row.lastTriggered ?? undefined,
+    notificationMethods: row.notificationMethods as unknown as NotificationMethod[],
+    notifyEmail: row.notifyEmail ?? undefined,
+    notifyWebhook: row.notifyWebhook ?? undefined,
+    escalationMinutes: row.escalationMinutes ?? undefined,
+    escalationMethods: (row.escalationMethods as unknown as NotificationMethod[]).length
+      ? (row.escalationMethods as unknown as NotificationMethod[])
+      : undefined,
   }
+}
 
-  /**
-   * Initialize default alert rules
-   */
-  private initializeDefaultRules(): void {
-    DEFAULT_ALERT_RULES.forEach((ruleData, index) => {
-      const rule: AlertRule = {
-        ...ruleData,
-        id: `default-${index}`,
-      }
-      this.rules.set(rule.id, rule)
-    })
+/**
+ * Convert a persisted alert row into the domain Alert
+ */
+function toAlert(row: DbAlertWithPNode): Alert {
+  return {
+    id: row.id,
+    ruleId: row.ruleId,
+    type: row.type as AlertType,
+    severity: fromDbSeverity(row.severity),
+    title: row.title,
+    message: row.message,
+    pnodeId: row.pnode?.pubkey ?? (row.subject !== NETWORK_SUBJECT ? (row.subject ?? undefined) : undefined),
+    subject: row.subject ?? undefined,
+    metadata: (row.metadata as Record<string, unknown> | null) ?? {},
+    value: row.value,
+    threshold: row.threshold,
+    timestamp: row.timestamp,
+    acknowledged: row.acknowledged,
+    acknowledgedAt: row.acknowledgedAt ?? undefined,
+    acknowledgedBy: row.acknowledgedBy ?? undefined,
+    ackNote: row.ackNote ?? undefined,
+    resolved: row.resolved,
+    resolvedAt: row.resolvedAt ?? undefined,
+    resolvedBy: row.resolvedBy ?? undefined,
+    resolveTimeMs: row.resolveTimeMs ?? undefined,
+    escalatedAt: row.escalatedAt ?? undefined,
+    silenced: row.silenced,
+    silenceId: row.silenceId ?? undefined,
+  }
+}
+
+/**
+ * Convert a persisted silence row into the domain AlertSilence
+ */
+function toSilence(row: DbAlertSilence): AlertSilence {
+  return {
+    id: row.id,
+    kind: row.kind as AlertSilenceKind,
+    reason: row.reason,
+    createdBy: row.createdBy ?? undefined,
+    createdAt: row.createdAt,
+    startsAt: row.startsAt,
+    endsAt: row.endsAt,
+    pubkeys: row.pubkeys,
+    locations: row.locations,
+    ruleTypes: row.ruleTypes as AlertType[],
   }
+}
+
+/**
+ * Columns shared by rule create/update, derived from the domain rule.
+ * metric/operator/threshold mirror the primary condition for SQL-side reporting.
+ */
+function toRuleData(rule: AlertRuleInput) {
+  const primary = rule.conditions[0]
+  return {
+    name: rule.name,
+    description: rule.description,
+    type: rule.type,
+    enabled: rule.enabled,
+    severity: toDbSeverity(rule.severity),
+    conditions: rule.conditions as unknown as Prisma.InputJsonValue,
+    notificationMethods: rule.notificationMethods as unknown as Prisma.InputJsonValue,
+    metric: primary?.field ?? '',
+    operator: primary ? OPERATOR_SYMBOLS[primary.operator] : '',
+    threshold: primary ? toThreshold(primary.value) : 0,
+    scope: rule.scope === 'network' ? ('NETWORK' as const) : ('PNODE' as const),
+    pnodeFilter: rule.scope === 'pnode' ? (rule.pubkeys ?? []) : [],
+    cooldownMinutes: rule.cooldownMinutes,
+    notifyEmail: rule.notifyEmail ?? null,
+    notifyWebhook: rule.notifyWebhook ?? null,
+    escalationMinutes: rule.escalationMinutes ?? null,
+    escalationMethods: (rule.escalationMethods ?? []) as unknown as Prisma.InputJsonValue,
+  }
+}
+
+/**
+ * Numeric columns of a NetworkSnapshot row, keyed by column name (BigInt columns become numbers)
+ */
+function toMetricRecord(row: DbNetworkSnapshot): MetricRecord {
+  const metrics: MetricRecord = {}
+  for (const [key, value] of Object.entries(row)) {
+    if (typeof value === 'number') metrics[key] = value
+    else if (typeof value === 'bigint') metrics[key] = Number(value)
+  }
+  return metrics
+}
+
+/**
+ * Validate a rule payload from the API. With `base`, the payload is a partial update
+ * merged over that rule (except `pubkeys`, which are dropped when `scope` changes). A shorthand `{ metric, operator, threshold, duration }` is
+ * accepted in place of `conditions` for single-condition rules.
+ */
+export function parseAlertRuleInput(
+  body: unknown,
+  base?: AlertRuleInput,
+): { rule: AlertRuleInput; error?: undefined } | { rule?: undefined; error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be a JSON object' }
+  const input = body as Record<string, unknown>
+
+  let conditions = input.conditions as AlertCondition[] | undefined
+  if (conditions === undefined && input.metric !== undefined) {
+    conditions = [
+      {
+        field: input.metric as string,
+        operator: input.operator as AlertCondition['operator'],
+        value: input.threshold as ConditionValue,
+        ...(input.duration !== undefined && { duration: input.duration as number }),
+      },
+    ]
+  }
+
+  const rule: AlertRuleInput = {
+    name: (input.name as string) ?? base?.name,
+    description: (input.description as string) ?? base?.description ?? '',
+    type: (input.type as AlertType) ?? base?.type ?? 'custom',
+    enabled: (input.enabled as boolean) ?? base?.enabled ?? true,
+    severity: (input.severity as AlertSeverity) ?? base?.severity ?? 'medium',
+    scope: (input.scope as AlertRuleScope) ?? base?.scope,
+    // A rule moved to another scope starts without the old pNode list
+    pubkeys:
+      (input.pubkeys as string[]) ??
+      (input.scope === undefined || input.scope === base?.scope ? base?.pubkeys : undefined),
+    conditions: conditions ?? base?.conditions ?? [],
+    cooldownMinutes: (input.cooldownMinutes as number) ?? base?.cooldownMinutes ?? 15,
+    notificationMethods: (input.notificationMethods as NotificationMethod[]) ??
+      base?.notificationMethods ?? ['browser'],
+    notifyEmail: (input.notifyEmail as string) ?? base?.notifyEmail,
+    notifyWebhook: (input.notifyWebhook as string) ?? base?.notifyWebhook,
+    escalationMinutes: (input.escalationMinutes as number) ?? base?.escalationMinutes,
+    escalationMethods: (input.escalationMethods as NotificationMethod[]) ?? base?.escalationMethods,
+  }
+
+  if (typeof rule.name !== 'string' || rule.name.trim() === '') return { error: 'name is required' }
+  if (!ALERT_TYPES.includes(rule.type)) return { error: `type must be one of: ${ALERT_TYPES.join(', ')}` }
+  if (!SEVERITIES.includes(rule.severity)) return { error: `severity must be one of: ${SEVERITIES.join(', ')}` }
+  if (!SCOPES.includes(rule.scope)) return { error: `scope must be one of: ${SCOPES.join(', ')}` }
+  const typeScopes = TYPE_SCOPES[rule.type]
+  if (!typeScopes) return { error: `${rule.type} rules are not supported` }
+  if (!typeScopes.includes(rule.scope)) {
+    return { error: `${rule.type} rules must have scope ${typeScopes.join(' or ')}` }
+  }
+  if (typeof rule.enabled !== 'boolean') return { error: 'enabled must be a boolean' }
+  if (rule.pubkeys !== undefined) {
+    if (!Array.isArray(rule.pubkeys) || rule.pubkeys.some((pubkey) => typeof pubkey !== 'string' || !pubkey)) {
+      return { error: 'pubkeys must be an array of pNode pubkeys' }
+    }
+    if (rule.scope === 'network' && rule.pubkeys.length > 0) {
+      return { error: 'pubkeys only apply to pnode-scoped rules' }
+    }
+  }
+  if (!Number.isInteger(rule.cooldownMinutes) || rule.cooldownMinutes < 0) {
+    return { error: 'cooldownMinutes must be a non-negative integer' }
+  }
+  if (
+    !Array.isArray(rule.notificationMethods) ||
+    rule.notificationMethods.some((method) => !NOTIFICATION_METHODS.includes(method))
+  ) {
+    return { error: `notificationMethods must contain only: ${NOTIFICATION_METHODS.join(', ')}` }
+  }
+  if (rule.notifyWebhook !== undefined) {
+    if (typeof rule.notifyWebhook !== 'string') return { error: 'notifyWebhook must be a URL' }
+    // An empty URL falls back to ALERT_WEBHOOK_URL
+    const urlError = rule.notifyWebhook && webhookUrlError(rule.notifyWebhook)
+    if (urlError) return { error: urlError }
+  }
+  if (
+    rule.escalationMinutes !== undefined &&
+    (!Number.isInteger(rule.escalationMinutes) || rule.escalationMinutes < 0)
+  ) {
+    return { error: 'escalationMinutes must be a non-negative integer' }
+  }
+  if (
+    rule.escalationMethods !== undefined &&
+    (!Array.isArray(rule.escalationMethods) ||
+      rule.escalationMethods.some((method) => !NOTIFICATION_METHODS.includes(method)))
+  ) {
+    return { error: `escalationMethods must contain only: ${NOTIFICATION_METHODS.join(', ')}` }
+  }
+
+  if (!Array.isArray(rule.conditions) || rule.conditions.length === 0) {
+    return { error: 'At least one condition (or metric/operator/threshold) is required' }
+  }
+  const networkFields = [...(Object.values(Prisma.NetworkSnapshotScalarFieldEnum) as string[]), ...NETWORK_STAT_FIELDS]
+  const pnodeFields = [...PNODE_FIELDS, ...(TYPE_PNODE_FIELDS[rule.type] ?? [])]
+  for (const condition of rule.conditions) {
+    if (typeof condition?.field !== 'string') {
+      return { error: `Invalid metric path: ${String(condition?.field)}` }
+    }
+    if (rule.scope === 'network' && !networkFields.includes(condition.field)) {
+      return { error: `Unknown network metric: ${condition.field}` }
+    }
+    if (rule.scope === 'pnode' && !pnodeFields.includes(condition.field)) {
+      return { error: `Unknown pNode field: ${condition.field} (e.g. storage.utilization, performance.uptime)` }
+    }
+    if (!(condition.operator in OPERATOR_SYMBOLS)) {
+      return { error: `operator must be one of: ${Object.keys(OPERATOR_SYMBOLS).join(', ')}` }
+    }
+    if (!['number', 'string', 'boolean'].includes(typeof condition.value)) {
+      return { error: `Invalid threshold for ${condition.field}` }
+    }
+    if ((condition.operator === 'gt' || condition.operator === 'lt') && typeof condition.value !== 'number') {
+      return { error: `Threshold for ${condition.field} must be a number when using ${condition.operator}` }
+    }
+    if (condition.duration !== undefined && (typeof condition.duration !== 'number' || condition.duration < 0)) {
+      return { error: `duration for ${condition.field} must be a non-negative number of minutes` }
+    }
+  }
+
+  return { rule }
+}
+
+/**
+ * Validate a silence payload from the API. The window ends at `endsAt`, or
+ * `durationMinutes` after `startsAt` (which defaults to now). `createdBy` is
+ * left to the route, which takes it from the authenticated caller.
+ */
+export function parseSilenceInput(
+  body: unknown,
+  now: Date = new Date(),
+):
+  | { silence: Omit<AlertSilence, 'id' | 'createdAt' | 'createdBy'>; error?: undefined }
+  | { silence?: undefined; error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be a JSON object' }
+  const input = body as Record<string, unknown>
+
+  const kind = (input.kind as AlertSilenceKind) ?? 'silence'
+  if (!SILENCE_KINDS.includes(kind)) return { error: `kind must be one of: ${SILENCE_KINDS.join(', ')}` }
+  if (typeof input.reason !== 'string' || input.reason.trim() === '') return { error: 'reason is required' }
+
+  const startsAt = input.startsAt === undefined ? now : new Date(input.startsAt as string)
+  if (isNaN(startsAt.getTime())) return { error: 'startsAt must be an ISO date' }
+
+  let endsAt: Date
+  if (input.endsAt !== undefined) {
+    endsAt = new Date(input.endsAt as string)
+    if (isNaN(endsAt.getTime())) return { error: 'endsAt must be an ISO date' }
+  } else if (typeof input.durationMinutes === 'number' && input.durationMinutes > 0) {
+    endsAt = new Date(startsAt.getTime() + input.durationMinutes * 60 * 1000)
+  } else {
+    return { error: 'endsAt or a positive durationMinutes is required' }
+  }
+  if (endsAt <= startsAt) return { error: 'endsAt must be after startsAt' }
+  if (endsAt <= now) return { error: 'endsAt must be in the future' }
+
+  const lists: Record<'pubkeys' | 'locations' | 'ruleTypes', string[]> = { pubkeys: [], locations: [], ruleTypes: [] }
+  for (const key of Object.keys(lists) as (keyof typeof lists)[]) {
+    const value = input[key] ?? []
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || item.trim() === '')) {
+      return { error: `${key} must be an array of non-empty strings` }
+    }
+    lists[key] = value.map((item: string) => item.trim())
+  }
+  const invalidType = lists.ruleTypes.find((type) => !ALERT_TYPES.includes(type as AlertType))
+  if (invalidType) return { error: `Unknown rule type: ${invalidType}` }
+  if (lists.pubkeys.length + lists.locations.length + lists.ruleTypes.length === 0) {
+    return { error: 'At least one of pubkeys, locations or ruleTypes is required' }
+  }
+
+  return {
+    silence: {
+      kind,
+      reason: input.reason.trim(),
+      startsAt,
+      endsAt,
+      pubkeys: lists.pubkeys,
+      locations: lists.locations,
+      ruleTypes: lists.ruleTypes as AlertType[],
+    },
+  }
+}
+
+/**
+ * Whether a silence covers an alert. Every non-empty matcher list must match; network
+ * alerts have no pubkey or location, so only type-only silences cover them.
+ */
+export function matchesSilence(
+  silence: Pick<AlertSilence, 'pubkeys' | 'locations' | 'ruleTypes'>,
+  target: { pubkey?: string; location?: string; type: AlertType },
+): boolean {
+  if (silence.pubkeys.length > 0 && (!target.pubkey || !silence.pubkeys.includes(target.pubkey))) return false
+  if (silence.locations.length > 0) {
+    const location = target.location?.toLowerCase()
+    if (!location || !silence.locations.some((match) => location.includes(match.toLowerCase()))) return false
+  }
+  if (silence.ruleTypes.length > 0 && !silence.ruleTypes.includes(target.type)) return false
+  return true
+}
+
+/**
+ * Built-in rules are re-seeded on startup, so they can be edited or disabled but not deleted
+ */
+export function isDefaultRule(ruleId: string): boolean {
+  return ruleId.startsWith('default-')
+}
+
+/**
+ * AlertService - evaluates alert rules and persists rules and fired alerts in Postgres
+ * so alert state survives restarts and is shared across instances.
+ *
+ * Rules are evaluated server-side by the indexer after each cycle; browser clients
+ * only read the results through /api/alerts.
+ *
+ * Lifecycle: an alert resolves itself once a later evaluation no longer matches its
+ * subject, and escalates (one severity level up, plus the rule's escalation channels)
+ * if it stays unacknowledged past the rule's escalation window.
+ *
+ * Silences: alerts covered by an active silence or maintenance window are still
+ * recorded, flagged as silenced, but aren't delivered or escalated.
+ */
+export class AlertService {
+  private alertListeners: ((alert: Alert) => void)[] = []
+  private defaultRulesSeeded: Promise<void> | null = null
 
   /**
-   * Set up WebSocket listeners for real-time alert detection
+   * Seed the default alert rules once. Existing rows are left untouched so
+   * user changes (e.g. disabling a rule) are preserved.
    */
-  private setupWebSocketListeners(): void {
-    this.wsService.addEventListener('pnode_update', (event) => {
-      const pnodes = event.data.pnodes as PNode[] | undefined
-      if (pnodes) {
-        this.checkAlerts(pnodes)
-      }
-    })
+  private ensureDefaultRules(): Promise<void> {
+    if (!this.defaultRulesSeeded) {
+      this.defaultRulesSeeded = Promise.all(
+        DEFAULT_ALERT_RULES.map((ruleData, index) =>
+          prisma.alertRule.upsert({
+            where: { id: `default-${index}` },
+            update: {},
+            create: { id: `default-${index}`, ...toRuleData(ruleData) },
+          }),
+        ),
+      )
+        .then(() => undefined)
+        .catch((error) => {
+          // Allow a retry on the next call
+          this.defaultRulesSeeded = null
+          throw error
+        })
+    }
+    return this.defaultRulesSeeded
   }
 
   /**
@@ -54,26 +549,183 @@ export class AlertService {
    */
   async checkAlerts(pnodes: PNode[]): Promise<void> {
     const networkStats = this.calculateNetworkStats(pnodes)
+    const rules = await this.getRules()
+    const networkMetrics = await this.getNetworkMetrics(networkStats)
+    const silences = await this.getSilences({ active: true })
+    const locations = new Map(pnodes.map((pnode) => [pnode.id, pnode.location]))
+    const findSilence = (alert: Partial<Alert>, type: AlertType) =>
+      silences.find((silence) =>
+        matchesSilence(silence, {
+          pubkey: alert.pnodeId,
+          location: alert.pnodeId ? locations.get(alert.pnodeId) : undefined,
+          type,
+        }),
+      )
 
-    for (const rule of this.rules.values()) {
+    for (const rule of rules) {
       if (!rule.enabled) continue
 
       try {
-        const triggeredAlerts = this.evaluateRule(rule, pnodes, networkStats)
+        const matchingAlerts = this.evaluateRule(rule, pnodes, networkStats, networkMetrics)
+        await this.autoResolve(rule, matchingAlerts, pnodes)
+        const sustainedAlerts = await this.filterSustained(rule, matchingAlerts)
+        const triggeredAlerts = await this.filterRepeats(rule, sustainedAlerts)
         for (const alert of triggeredAlerts) {
-          await this.createAlert(alert)
+          await this.createAlert(alert, rule, findSilence(alert, alert.type ?? rule.type))
+        }
+        if (triggeredAlerts.length > 0) {
+          rule.lastTriggered = new Date()
+          await prisma.alertRule.update({ where: { id: rule.id }, data: { lastTriggered: rule.lastTriggered } })
         }
       } catch (error) {
         console.error(`Error evaluating rule ${rule.id}:`, error)
       }
     }
+
+    await this.escalateAlerts(rules, findSilence)
+  }
+
+  /**
+   * pNodes a rule applies to (all of them unless the rule lists pubkeys)
+   */
+  private scopePNodes(rule: AlertRule, pnodes: PNode[]): PNode[] {
+    return rule.pubkeys?.length ? pnodes.filter((pnode) => rule.pubkeys!.includes(pnode.id)) : pnodes
+  }
+
+  /**
+   * Resolve open alerts of a rule whose subject was evaluated this cycle but no longer matches.
+   * pNodes missing from the current fetch are left alone - absence isn't recovery.
+   */
+  private async autoResolve(rule: AlertRule, matchingAlerts: Partial<Alert>[], pnodes: PNode[]): Promise<void> {
+    const evaluated = new Set(
+      rule.scope === 'network' ? [NETWORK_SUBJECT] : this.scopePNodes(rule, pnodes).map((pnode) => pnode.id),
+    )
+    const matching = new Set(matchingAlerts.map(subjectOf))
+
+    const openAlerts = await prisma.alert.findMany({
+      where: { ruleId: rule.id, resolved: false },
+      select: { id: true, timestamp: true, subject: true },
+    })
+    const cleared = openAlerts.filter(
+      (alert) => alert.subject !== null && evaluated.has(alert.subject) && !matching.has(alert.subject),
+    )
+
+    const now = new Date()
+    for (const alert of cleared) {
+      await prisma.alert.updateMany({
+        where: { id: alert.id, resolved: false },
+        data: {
+          resolved: true,
+          resolvedAt: now,
+          resolvedBy: SYSTEM_ACTOR,
+          resolveTimeMs: now.getTime() - alert.timestamp.getTime(),
+        },
+      })
+    }
+    if (cleared.length > 0) {
+      console.log(`Auto-resolved ${cleared.length} alert(s) for rule ${rule.id}`)
+    }
+  }
+
+  /**
+   * Drop matches whose subject already has an open alert from this rule, or had one within
+   * the rule's cooldown. Both are tracked per subject, so one pNode in cooldown doesn't hold
+   * back alerts for the others.
+   */
+  private async filterRepeats(rule: AlertRule, alerts: Partial<Alert>[]): Promise<Partial<Alert>[]> {
+    if (alerts.length === 0) return alerts
+
+    const cooldownStart = new Date(Date.now() - (rule.cooldownMinutes || 0) * 60 * 1000)
+    const previous = await prisma.alert.findMany({
+      where: {
+        ruleId: rule.id,
+        subject: { in: alerts.map(subjectOf) },
+        OR: [{ resolved: false }, { timestamp: { gt: cooldownStart } }],
+      },
+      select: { subject: true },
+    })
+    const held = new Set(previous.map((alert) => alert.subject))
+    return alerts.filter((alert) => !held.has(subjectOf(alert)))
+  }
+
+  /**
+   * Escalate alerts left unacknowledged past their rule's window: raise the severity one
+   * level and notify over the escalation channels. Each alert escalates at most once.
+   */
+  private async escalateAlerts(
+    rules: AlertRule[],
+    findSilence: (alert: Partial<Alert>, type: AlertType) => AlertSilence | undefined,
+  ): Promise<void> {
+    const rulesById = new Map(rules.map((rule) => [rule.id, rule]))
+    const defaultMinutes = parseInt(process.env.ALERT_ESCALATION_MINUTES || '30')
+    const now = new Date()
+
+    const candidates = await prisma.alert.findMany({
+      where: { resolved: false, acknowledged: false, escalatedAt: null },
+      include: { pnode: { select: { pubkey: true } } },
+    })
+
+    for (const row of candidates) {
+      const rule = rulesById.get(row.ruleId)
+      if (!rule?.enabled) continue
+
+      const minutes = rule.escalationMinutes ?? defaultMinutes
+      if (minutes <= 0 || now.getTime() - row.timestamp.getTime() < minutes * 60 * 1000) continue
+      // Held while a silence covers the alert; escalates normally once the window ends
+      if (findSilence(toAlert(row), row.type as AlertType)) continue
+
+      try {
+        const severity = escalateSeverity(fromDbSeverity(row.severity))
+        // Guarded update so concurrent evaluators (or a fresh acknowledgement) win the race
+        const { count } = await prisma.alert.updateMany({
+          where: { id: row.id, resolved: false, acknowledged: false, escalatedAt: null },
+          data: { severity: toDbSeverity(severity), escalatedAt: now },
+        })
+        if (count === 0) continue
+
+        const alert = { ...toAlert(row), severity, escalatedAt: now }
+        this.sendNotifications(alert, rule, this.getEscalationMethods(rule), 'alert.escalated')
+        console.log('Alert escalated:', alert.title)
+      } catch (error) {
+        console.error(`Error escalating alert ${row.id}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Channels used when escalating: the rule's escalation methods, else the delivery
+   * channels it doesn't already use, else its own channels again
+   */
+  private getEscalationMethods(rule: AlertRule): NotificationMethod[] {
+    if (rule.escalationMethods?.length) return rule.escalationMethods
+    const unused = (['webhook', 'email'] as const).filter((method) => !rule.notificationMethods.includes(method))
+    return unused.length > 0 ? [...unused] : rule.notificationMethods
+  }
+
+  /**
+   * Network-level metrics for rule evaluation: the latest NetworkSnapshot columns
+   * plus the stats computed from the current pNode set
+   */
+  private async getNetworkMetrics(networkStats: NetworkStats): Promise<MetricRecord> {
+    const snapshot = await prisma.networkSnapshot.findFirst({ orderBy: { timestamp: 'desc' } })
+    return {
+      ...(snapshot ? toMetricRecord(snapshot) : {}),
+      ...networkStats,
+      decentralizationScore: networkStats.decentralization,
+    }
   }
 
   /**
    * Evaluate a single rule against current data
    */
-  private evaluateRule(rule: AlertRule, pnodes: PNode[], networkStats: NetworkStats): Partial<Alert>[] {
+  private evaluateRule(
+    rule: AlertRule,
+    allPNodes: PNode[],
+    networkStats: NetworkStats,
+    networkMetrics: MetricRecord,
+  ): Partial<Alert>[] {
     const alerts: Partial<Alert>[] = []
+    const pnodes = this.scopePNodes(rule, allPNodes)
 
     switch (rule.type) {
       case 'pnode_offline':
@@ -103,6 +755,7 @@ export class AlertService {
               title: `Performance Drop: ${pnode.id.slice(0, 8)}...`,
               message: `Performance score dropped to ${pnode.performanceScore}/100`,
               pnodeId: pnode.id,
+              value: pnode.performanceScore,
               metadata: { pnode, score: pnode.performanceScore },
             })
           })
@@ -119,19 +772,21 @@ export class AlertService {
               title: `Storage Full: ${pnode.id.slice(0, 8)}...`,
               message: `Storage utilization at ${(pnode.storage.utilization * 100).toFixed(1)}%`,
               pnodeId: pnode.id,
+              value: pnode.storage.utilization,
               metadata: { pnode, utilization: pnode.storage.utilization },
             })
           })
         break
 
       case 'network_decentralization':
-        if (this.checkNetworkConditions(rule.conditions, networkStats)) {
+        if (this.checkNetworkConditions(rule.conditions, networkMetrics)) {
           alerts.push({
             ruleId: rule.id,
             type: rule.type,
             severity: rule.severity,
             title: 'Network Decentralization Risk',
             message: `Decentralization score dropped to ${(networkStats.decentralization * 100).toFixed(1)}%`,
+            value: networkStats.decentralization,
             metadata: { networkStats, score: networkStats.decentralization },
           })
         }
@@ -154,26 +809,123 @@ export class AlertService {
         break
 
       case 'pnode_version_outdated':
-        // This would require version comparison logic
         pnodes
-          .filter((pnode) => this.checkConditions(rule.conditions, { ...pnode, versionOutdated: false })) // Placeholder
+          .filter((pnode) =>
+            this.checkConditions(rule.conditions, {
+              ...pnode,
+              versionOutdated: pnode.versionInfo?.outdated ?? false,
+              versionsBehind: pnode.versionInfo?.versionsBehind ?? 0,
+            }),
+          )
           .forEach((pnode) => {
+            const versionsBehind = pnode.versionInfo?.versionsBehind ?? 0
             alerts.push({
               ruleId: rule.id,
               type: rule.type,
               severity: rule.severity,
               title: `Outdated Version: ${pnode.id.slice(0, 8)}...`,
-              message: `Running ${pnode.version} - update recommended`,
+              message: `Running ${pnode.version}, ${versionsBehind} release${versionsBehind === 1 ? '' : 's'} behind ${pnode.versionInfo?.latest} - update recommended`,
               pnodeId: pnode.id,
-              metadata: { pnode, version: pnode.version },
+              value: versionsBehind,
+              metadata: { pnode, version: pnode.version, latestVersion: pnode.versionInfo?.latest },
             })
           })
         break
+
+      case 'custom':
+        alerts.push(...this.evaluateCustomRule(rule, pnodes, networkMetrics))
+        break
     }
 
     return alerts
   }
 
+  /**
+   * Generic metric/operator/threshold evaluation for user-defined rules. Fires once
+   * for network scope, or once per matching pNode for pnode scope.
+   */
+  private evaluateCustomRule(rule: AlertRule, pnodes: PNode[], networkMetrics: MetricRecord): Partial<Alert>[] {
+    const primary = rule.conditions[0]
+    const describe = (actual: ConditionValue | undefined) =>
+      rule.conditions.length === 1
+        ? `${primary.field} is ${actual} (${OPERATOR_SYMBOLS[primary.operator]} ${primary.value})`
+        : `${rule.conditions.length} conditions matched (${primary.field} is ${actual})`
+    const toValue = (actual: ConditionValue | undefined) => (typeof actual === 'number' ? actual : undefined)
+
+    if (rule.scope === 'network') {
+      if (!this.checkNetworkConditions(rule.conditions, networkMetrics)) return []
+      const actual = networkMetrics[primary.field]
+      return [
+        {
+          ruleId: rule.id,
+          type: rule.type,
+          severity: rule.severity,
+          title: rule.name,
+          message: `Network ${describe(actual)}`,
+          value: toValue(actual),
+          metadata: { metric: primary.field, value: actual },
+        },
+      ]
+    }
+
+    return pnodes
+      .filter((pnode) => this.checkConditions(rule.conditions, pnode))
+      .map((pnode) => {
+        const actual = this.getNestedValue(pnode as unknown as MetricRecord, primary.field)
+        return {
+          ruleId: rule.id,
+          type: rule.type,
+          severity: rule.severity,
+          title: `${rule.name}: ${pnode.id.slice(0, 8)}...`,
+          message: `pNode ${describe(actual)}`,
+          pnodeId: pnode.id,
+          value: toValue(actual),
+          metadata: { metric: primary.field, value: actual },
+        }
+      })
+  }
+
+  /**
+   * Keep only alerts whose conditions have held for the rule's duration
+   * (the longest `duration` across its conditions). The start of each run of
+   * matches is persisted per rule and subject, so a single bad sample no longer fires.
+   */
+  private async filterSustained(rule: AlertRule, candidates: Partial<Alert>[]): Promise<Partial<Alert>[]> {
+    const durationMinutes = Math.max(0, ...rule.conditions.map((condition) => condition.duration ?? 0))
+    if (durationMinutes === 0) return candidates
+
+    const subjects = candidates.map(subjectOf)
+    const now = new Date()
+
+    // Subjects that stopped matching start over
+    await prisma.alertPendingState.deleteMany({
+      where: { ruleId: rule.id, subject: { notIn: subjects } },
+    })
+
+    if (subjects.length === 0) return []
+
+    await prisma.alertPendingState.createMany({
+      data: subjects.map((subject) => ({ ruleId: rule.id, subject, since: now })),
+      skipDuplicates: true,
+    })
+
+    const states = await prisma.alertPendingState.findMany({
+      where: { ruleId: rule.id, subject: { in: subjects } },
+    })
+    const sinceBySubject = new Map(states.map((state) => [state.subject, state.since]))
+    const cutoff = now.getTime() - durationMinutes * 60 * 1000
+
+    return candidates
+      .filter((alert) => {
+        const since = sinceBySubject.get(subjectOf(alert))
+        return since !== undefined && since.getTime() <= cutoff
+      })
+      .map((alert) => ({
+        ...alert,
+        metadata: { ...alert.metadata, sustainedSince: sinceBySubject.get(subjectOf(alert)) },
+      }))
+  }
+
   /**
    * Check if conditions are met for a pNode
    */
@@ -187,9 +939,9 @@ export class AlertService {
   /**
    * Check network-level conditions
    */
-  private checkNetworkConditions(conditions: AlertCondition[], networkStats: NetworkStats): boolean {
+  private checkNetworkConditions(conditions: AlertCondition[], networkMetrics: MetricRecord): boolean {
     return conditions.every((condition) => {
-      const value = networkStats[condition.field as keyof NetworkStats]
+      const value = networkMetrics[condition.field]
       return this.evaluateCondition(value, condition.operator, condition.value)
     })
   }
@@ -197,13 +949,17 @@ export class AlertService {
   /**
    * Evaluate a single condition
    */
-  private evaluateCondition(actualValue: ConditionValue | undefined, operator: string, expectedValue: ConditionValue): boolean {
-    if (actualValue === undefined) return false
+  private evaluateCondition(
+    actualValue: ConditionValue | undefined,
+    operator: string,
+    expectedValue: ConditionValue,
+  ): boolean {
+    if (actualValue === undefined || actualValue === null) return false
     switch (operator) {
       case 'gt':
-        return actualValue > expectedValue
+        return typeof actualValue === 'number' && actualValue > Number(expectedValue)
       case 'lt':
-        return actualValue < expectedValue
+        return typeof actualValue === 'number' && actualValue < Number(expectedValue)
       case 'eq':
         return actualValue === expectedValue
       case 'ne':
@@ -251,39 +1007,33 @@ export class AlertService {
   }
 
   /**
-   * Create and store a new alert
+   * Create and persist a new alert
    */
-  private async createAlert(alertData: Partial<Alert>): Promise<void> {
-    const alert: Alert = {
-      id: `alert-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      ...alertData,
-      timestamp: new Date(),
-      acknowledged: false,
-      resolved: false,
-    } as Alert
-
-    // Check cooldown period
-    const rule = this.rules.get(alert.ruleId)
-    if (rule?.lastTriggered) {
-      const timeSinceLastTrigger = Date.now() - rule.lastTriggered.getTime()
-      const cooldownMs = (rule.cooldownMinutes || 0) * 60 * 1000
-      if (timeSinceLastTrigger < cooldownMs) {
-        return // Skip due to cooldown
-      }
-    }
-
-    // Update rule's last triggered time
-    if (rule) {
-      rule.lastTriggered = new Date()
-      this.rules.set(rule.id, rule)
-    }
-
-    this.alerts.unshift(alert) // Add to beginning for chronological order
+  private async createAlert(alertData: Partial<Alert>, rule: AlertRule, silence?: AlertSilence): Promise<void> {
+    // Alerts reference pNodes by database id, the domain uses the pubkey
+    const pnode = alertData.pnodeId
+      ? await prisma.pNode.findUnique({ where: { pubkey: alertData.pnodeId }, select: { id: true } })
+      : null
 
-    // Keep only last 1000 alerts
-    if (this.alerts.length > 1000) {
-      this.alerts = this.alerts.slice(0, 1000)
-    }
+    const row = await prisma.alert.create({
+      data: {
+        ruleId: rule.id,
+        type: alertData.type ?? rule.type,
+        severity: toDbSeverity(alertData.severity ?? rule.severity),
+        title: alertData.title ?? rule.name,
+        message: alertData.message ?? '',
+        value: alertData.value ?? 0,
+        threshold: alertData.threshold ?? toThreshold(rule.conditions[0]?.value ?? 0),
+        metadata: JSON.parse(JSON.stringify(alertData.metadata ?? {})) as Prisma.InputJsonValue,
+        subject: subjectOf(alertData),
+        silenced: silence !== undefined,
+        silenceId: silence?.id,
+        pnodeId: pnode?.id,
+      },
+      include: { pnode: { select: { pubkey: true } } },
+    })
+    // Keep the caller's pubkey even if the pNode hasn't been indexed yet
+    const alert = { ...toAlert(row), pnodeId: alertData.pnodeId }
 
     // Notify listeners
     this.alertListeners.forEach((listener) => {
@@ -294,90 +1044,83 @@ export class AlertService {
       }
     })
 
+    // Silenced alerts are recorded (and shown) but not delivered
+    if (silence) {
+      console.log(`Alert created (silenced by ${silence.id}):`, alert.title)
+      return
+    }
+
     // Send notifications
-    await this.sendNotifications(alert)
+    this.sendNotifications(alert, rule)
 
     console.log('Alert created:', alert.title)
   }
 
   /**
-   * Send notifications based on alert rule
+   * Queue notifications based on alert rule. Delivery (and its retries) runs in the
+   * background, off the evaluation's await chain.
    */
-  private async sendNotifications(alert: Alert): Promise<void> {
-    const rule = this.rules.get(alert.ruleId)
-    if (!rule) return
-
-    for (const method of rule.notificationMethods) {
-      try {
-        switch (method) {
-          case 'browser':
-            this.sendBrowserNotification(alert)
-            break
-          case 'email':
-            // Email implementation would go here
-            break
-          case 'webhook':
-            // Webhook implementation would go here
-            break
+  private sendNotifications(
+    alert: Alert,
+    rule: AlertRule,
+    methods: NotificationMethod[] = rule.notificationMethods,
+    event: NotificationEvent = 'alert.triggered',
+  ): void {
+    for (const method of methods) {
+      switch (method) {
+        case 'browser':
+          // Delivered by the dashboard, which picks up new alerts from /api/alerts
+          break
+        case 'email': {
+          const recipients = rule.notifyEmail || process.env.ALERT_EMAIL_TO
+          if (recipients) {
+            getNotificationService().enqueue({ channel: 'email', target: recipients, alert, rule, event })
+          }
+          break
+        }
+        case 'webhook': {
+          const url = rule.notifyWebhook || process.env.ALERT_WEBHOOK_URL
+          if (url) {
+            getNotificationService().enqueue({ channel: 'webhook', target: url, alert, rule, event })
+          }
+          break
         }
-      } catch (error) {
-        console.error(`Failed to send ${method} notification:`, error)
       }
     }
   }
 
   /**
-   * Send browser notification
-   */
-  private sendBrowserNotification(alert: Alert): void {
-    if ('Notification' in window && Notification.permission === 'granted') {
-      new Notification(alert.title, {
-        body: alert.message,
-        icon: '/favicon.ico',
-        tag: `xandeum-alert-${alert.id}`,
-      })
-    }
-  }
-
-  /**
-   * Request browser notification permission
+   * Get alerts, newest first
    */
-  async requestNotificationPermission(): Promise<boolean> {
-    if (!('Notification' in window)) {
-      return false
-    }
-
-    if (Notification.permission === 'granted') {
-      return true
-    }
-
-    if (Notification.permission === 'default') {
-      const permission = await Notification.requestPermission()
-      return permission === 'granted'
-    }
-
-    return false
-  }
-
-  /**
-   * Get all alerts
-   */
-  getAlerts(): Alert[] {
-    return [...this.alerts]
+  async getAlerts(options: { limit?: number; unresolved?: boolean } = {}): Promise<Alert[]> {
+    const rows = await prisma.alert.findMany({
+      where: options.unresolved ? { resolved: false } : undefined,
+      orderBy: { timestamp: 'desc' },
+      take: options.limit ?? 1000,
+      include: { pnode: { select: { pubkey: true } } },
+    })
+    return rows.map(toAlert)
   }
 
   /**
    * Get active (unresolved) alerts
    */
-  getActiveAlerts(): Alert[] {
-    return this.alerts.filter((alert) => !alert.resolved)
+  async getActiveAlerts(limit?: number): Promise<Alert[]> {
+    return this.getAlerts({ limit, unresolved: true })
   }
 
   /**
    * Get alert statistics
    */
-  getAlertStats(): AlertStats {
-    const active = this.getActiveAlerts()
+  async getAlertStats(): Promise<AlertStats> {
+    const [total, active, critical, acknowledged, activeByType] = await Promise.all([
+      prisma.alert.count(),
+      prisma.alert.count({ where: { resolved: false } }),
+      prisma.alert.count({ where: { resolved: false, severity: 'CRITICAL' } }),
+      prisma.alert.count({ where: { resolved: false, acknowledged: true } }),
+      prisma.alert.groupBy({ by: ['type'], where: { resolved: false }, _count: { type: true } }),
+    ])
+
     const byType: Record<AlertType, number> = {
       pnode_offline: 0,
       pnode_performance_drop: 0,
@@ -386,41 +1129,49 @@ export class AlertService {
       network_storage_low: 0,
       new_pnode_joined: 0,
       pnode_version_outdated: 0,
+      custom: 0,
     }
 
-    active.forEach((alert) => {
-      byType[alert.type]++
+    activeByType.forEach((group) => {
+      byType[group.type as AlertType] = group._count.type
     })
 
     return {
-      total: this.alerts.length,
-      active: active.length,
-      critical: active.filter((a) => a.severity === 'critical').length,
-      acknowledged: active.filter((a) => a.acknowledged).length,
+      total,
+      active,
+      critical,
+      acknowledged,
       byType,
     }
   }
 
   /**
-   * Acknowledge an alert
+   * Acknowledge an alert, recording who did it. Stops it from escalating.
    */
-  acknowledgeAlert(alertId: string): void {
-    const alert = this.alerts.find((a) => a.id === alertId)
-    if (alert && !alert.acknowledged) {
-      alert.acknowledged = true
-      alert.acknowledgedAt = new Date()
-    }
+  async acknowledgeAlert(alertId: string, actor: string, note?: string): Promise<void> {
+    await prisma.alert.updateMany({
+      where: { id: alertId, acknowledged: false },
+      data: { acknowledged: true, acknowledgedAt: new Date(), acknowledgedBy: actor, ackNote: note || null },
+    })
   }
 
   /**
-   * Resolve an alert
+   * Resolve an alert, recording who did it and the time to resolve
    */
-  resolveAlert(alertId: string): void {
-    const alert = this.alerts.find((a) => a.id === alertId)
-    if (alert && !alert.resolved) {
-      alert.resolved = true
-      alert.resolvedAt = new Date()
-    }
+  async resolveAlert(alertId: string, actor?: string): Promise<void> {
+    const alert = await prisma.alert.findUnique({ where: { id: alertId }, select: { timestamp: true } })
+    if (!alert) return
+
+    const now = new Date()
+    await prisma.alert.updateMany({
+      where: { id: alertId, resolved: false },
+      data: {
+        resolved: true,
+        resolvedAt: now,
+        resolvedBy: actor || null,
+        resolveTimeMs: now.getTime() - alert.timestamp.getTime(),
+      },
+    })
   }
 
   /**
@@ -443,25 +1194,109 @@ export class AlertService {
   /**
    * Get all alert rules
    */
-  getRules(): AlertRule[] {
-    return Array.from(this.rules.values())
+  async getRules(): Promise<AlertRule[]> {
+    await this.ensureDefaultRules()
+    const rows = await prisma.alertRule.findMany({ orderBy: { createdAt: 'asc' } })
+    return rows.map(toAlertRule)
   }
 
   /**
-   * Update an alert rule
+   * Get a single alert rule
    */
-  updateRule(ruleId: string, updates: Partial<AlertRule>): void {
-    const rule = this.rules.get(ruleId)
-    if (rule) {
-      this.rules.set(ruleId, { ...rule, ...updates })
-    }
+  async getRule(ruleId: string): Promise<AlertRule | null> {
+    await this.ensureDefaultRules()
+    const row = await prisma.alertRule.findUnique({ where: { id: ruleId } })
+    return row ? toAlertRule(row) : null
+  }
+
+  /**
+   * Create an alert rule (validate with parseAlertRuleInput first)
+   */
+  async createRule(rule: AlertRuleInput): Promise<AlertRule> {
+    const row = await prisma.alertRule.create({ data: toRuleData(rule) })
+    return toAlertRule(row)
+  }
+
+  /**
+   * Update an alert rule. Returns null if the rule doesn't exist.
+   */
+  async updateRule(ruleId: string, updates: Partial<AlertRule>): Promise<AlertRule | null> {
+    const row = await prisma.alertRule.findUnique({ where: { id: ruleId } })
+    if (!row) return null
+
+    const rule = { ...toAlertRule(row), ...updates }
+    const updated = await prisma.alertRule.update({
+      where: { id: ruleId },
+      data: { ...toRuleData(rule), lastTriggered: rule.lastTriggered ?? null },
+    })
+    // Changed conditions or scope invalidate sustained-condition progress
+    await this.clearPendingStates(ruleId)
+    return toAlertRule(updated)
+  }
+
+  /**
+   * Delete an alert rule along with its alerts. Returns false if it didn't exist.
+   */
+  async deleteRule(ruleId: string): Promise<boolean> {
+    const { count } = await prisma.alertRule.deleteMany({ where: { id: ruleId } })
+    return count > 0
   }
 
   /**
    * Enable/disable a rule
    */
-  toggleRule(ruleId: string, enabled: boolean): void {
-    this.updateRule(ruleId, { enabled })
+  async toggleRule(ruleId: string, enabled: boolean): Promise<void> {
+    await prisma.alertRule.updateMany({
+      where: { id: ruleId },
+      data: { enabled },
+    })
+    if (!enabled) {
+      await this.clearPendingStates(ruleId)
+    }
+  }
+
+  /**
+   * Forget sustained-condition progress so a re-enabled rule starts its window fresh
+   */
+  private async clearPendingStates(ruleId: string): Promise<void> {
+    await prisma.alertPendingState.deleteMany({ where: { ruleId } })
+  }
+
+  /**
+   * Silences and maintenance windows, soonest-ending first. By default those not yet
+   * over (active and upcoming); `active` limits to those in effect now, `includeExpired`
+   * adds past ones.
+   */
+  async getSilences(options: { active?: boolean; includeExpired?: boolean } = {}): Promise<AlertSilence[]> {
+    const now = new Date()
+    const rows = await prisma.alertSilence.findMany({
+      where: {
+        ...(!options.includeExpired && { endsAt: { gt: now } }),
+        ...(options.active && { startsAt: { lte: now } }),
+      },
+      orderBy: { endsAt: options.includeExpired ? 'desc' : 'asc' },
+    })
+    return rows.map(toSilence)
+  }
+
+  async createSilence(silence: Omit<AlertSilence, 'id' | 'createdAt'>): Promise<AlertSilence> {
+    const row = await prisma.alertSilence.create({
+      data: { ...silence, createdBy: silence.createdBy ?? null },
+    })
+    return toSilence(row)
+  }
+
+  /**
+   * End a silence now (upcoming ones are cancelled). Alerts it covered keep their
+   * silenced flag. Returns false if it didn't exist or had already ended.
+   */
+  async expireSilence(silenceId: string): Promise<boolean> {
+    const now = new Date()
+    const { count } = await prisma.alertSilence.updateMany({
+      where: { id: silenceId, endsAt: { gt: now } },
+      data: { endsAt: now },
+    })
+    return count > 0
   }
 }
 
@@ -1,5 +1,10 @@
 import type { PNode } from '@/types/pnode'
 import { prisma } from '@/lib/prisma'
+import { SNAPSHOT_SET_WINDOW_MS } from '@/lib/event-detection'
+import { BUCKET_MS, DAY_MS, bucketStart, selectHistoryTier, summarize } from '@/lib/time-series'
+import type { RollupResolution } from '@/lib/time-series'
+import { getRetentionConfig } from './retention.service'
+import type { NetworkRollupMetric, PNodeRollupMetric } from './retention.service'
 
 export interface AnomalyDetection {
   type: 'performance' | 'storage' | 'network' | 'uptime'
@@ -440,28 +445,22 @@ export class AdvancedAnalyticsService {
   }
 
   private async calculateNetworkGrowth(pnodes: PNode[]): Promise<AnalyticsMetrics['networkGrowth']> {
-    // Query real historical data from NetworkSnapshot table
+    // Daily averages over the last 30 days, from rollups once the window outgrows raw retention
     try {
-      const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
-
-      const snapshots = await prisma.networkSnapshot.findMany({
-        where: { timestamp: { gte: thirtyDaysAgo } },
-        orderBy: { timestamp: 'asc' },
-        select: {
-          timestamp: true,
-          totalPNodes: true,
-          totalCapacityBytes: true,
-          averagePerformance: true,
-        },
-      })
-
-      if (snapshots.length > 0) {
+      const thirtyDaysAgo = new Date(Date.now() - 30 * DAY_MS)
+      const buckets = await this.getNetworkSeries(thirtyDaysAgo, new Date(), 'daily', [
+        'totalPNodes',
+        'totalCapacityBytes',
+        'averagePerformance',
+      ])
+
+      if (buckets.length > 0) {
         // Use real data from database
         return {
-          pnodeCount: snapshots.map(s => s.totalPNodes),
-          storageCapacity: snapshots.map(s => Number(s.totalCapacityBytes)),
-          performance: snapshots.map(s => s.averagePerformance),
-          timestamps: snapshots.map(s => s.timestamp),
+          pnodeCount: buckets.map((b) => Math.round(b.metrics.get('totalPNodes')?.avg ?? 0)),
+          storageCapacity: buckets.map((b) => b.metrics.get('totalCapacityBytes')?.avg ?? 0),
+          performance: buckets.map((b) => b.metrics.get('averagePerformance')?.avg ?? 0),
+          timestamps: buckets.map((b) => new Date(b.bucket)),
         }
       }
     } catch (error) {
@@ -553,67 +552,94 @@ export class AdvancedAnalyticsService {
   // ===== DATABASE QUERY METHODS =====
 
   /**
-   * Get network history data for charts
+   * Get network history data for charts, averaged per hour or day (see getNetworkSeries)
    */
   async getNetworkHistory(startDate: Date, endDate: Date, resolution: 'hourly' | 'daily' = 'daily') {
-    // Query network snapshots with aggregation
-    const snapshots = await prisma.networkSnapshot.findMany({
-      where: {
-        timestamp: {
-          gte: startDate,
-          lte: endDate,
-        },
-      },
-      orderBy: {
-        timestamp: 'asc',
-      },
-    })
-
-    // Group by time period and calculate averages
-    type NetworkSnapshotType = (typeof snapshots)[number]
-    const groupedData = new Map<string, NetworkSnapshotType[]>()
-
-    snapshots.forEach((snapshot) => {
-      const key =
+    const buckets = await this.getNetworkSeries(startDate, endDate, resolution, [
+      'totalPNodes',
+      'healthScore',
+      'totalCapacityBytes',
+    ])
+
+    return buckets.map(({ bucket, metrics }) => {
+      const timeKey =
         resolution === 'hourly'
-          ? snapshot.timestamp.toISOString().slice(0, 13) // YYYY-MM-DDTHH
-          : snapshot.timestamp.toISOString().slice(0, 10) // YYYY-MM-DD
-
-      if (!groupedData.has(key)) {
-        groupedData.set(key, [])
-      }
-      groupedData.get(key)!.push(snapshot)
-    })
-
-    // Calculate averages for each time period
-    const result = Array.from(groupedData.entries()).map(([timeKey, periodSnapshots]) => {
-      const avgPNodes = periodSnapshots.reduce((sum, s) => sum + s.totalPNodes, 0) / periodSnapshots.length
-      const avgHealthScore = periodSnapshots.reduce((sum, s) => sum + s.healthScore, 0) / periodSnapshots.length
-      const avgCapacityTB =
-        periodSnapshots.reduce((sum, s) => sum + Number(s.totalCapacityBytes), 0) / periodSnapshots.length / 1024 ** 4
+          ? new Date(bucket).toISOString().slice(0, 13) // YYYY-MM-DDTHH
+          : new Date(bucket).toISOString().slice(0, 10) // YYYY-MM-DD
 
       return {
         timestamp: timeKey,
         date: resolution === 'daily' ? timeKey : timeKey + ':00:00.000Z',
-        avgPNodes: Math.round(avgPNodes),
-        avgHealthScore: Math.round(avgHealthScore),
-        avgCapacityTB: Math.round(avgCapacityTB * 100) / 100,
+        avgPNodes: Math.round(metrics.get('totalPNodes')?.avg ?? 0),
+        avgHealthScore: Math.round(metrics.get('healthScore')?.avg ?? 0),
+        avgCapacityTB: Math.round(((metrics.get('totalCapacityBytes')?.avg ?? 0) / 1024 ** 4) * 100) / 100,
       }
     })
-
-    return result
   }
 
   /**
-   * Get network growth metrics
+   * Get network growth metrics: daily (hourly for a single day) averages, with the peak
+   * pNode count of each period
    */
   async getNetworkGrowth(days: number = 30) {
-    const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    const resolution = days <= 1 ? 'hourly' : 'daily'
+    const buckets = await this.getNetworkSeries(new Date(Date.now() - days * DAY_MS), new Date(), resolution, [
+      'totalPNodes',
+      'totalCapacityBytes',
+      'healthScore',
+    ])
+
+    return buckets.map(({ bucket, metrics }) => ({
+      date: resolution === 'daily' ? new Date(bucket).toISOString().slice(0, 10) : new Date(bucket).toISOString(),
+      pnodes: Math.round(metrics.get('totalPNodes')?.avg ?? 0),
+      peakPnodes: metrics.get('totalPNodes')?.max ?? 0,
+      capacityTB: (metrics.get('totalCapacityBytes')?.avg ?? 0) / 1024 ** 4,
+      healthScore: Math.round(metrics.get('healthScore')?.avg ?? 0),
+    }))
+  }
+
+  /**
+   * Network metrics per UTC hour or day, oldest first. Windows within raw retention are
+   * summarised from NetworkSnapshot rows; older ones come from the hourly/daily rollups,
+   * with raw snapshots filling in buckets not rolled up yet.
+   */
+  private async getNetworkSeries(
+    startDate: Date,
+    endDate: Date,
+    resolution: RollupResolution,
+    metrics: NetworkRollupMetric[],
+  ): Promise<{ bucket: number; metrics: Map<NetworkRollupMetric, { avg: number; max: number }> }[]> {
+    const tier = selectHistoryTier(startDate.getTime(), resolution, getRetentionConfig().rawDays * DAY_MS)
+    const buckets = new Map<number, Map<NetworkRollupMetric, { avg: number; max: number }>>()
+
+    let rawFrom = startDate
+    if (tier !== 'raw') {
+      const rollups = await prisma.networkRollup.findMany({
+        where: {
+          resolution: tier,
+          bucketStart: { gte: new Date(bucketStart(startDate.getTime(), tier)), lte: endDate },
+          metric: { in: metrics },
+        },
+        orderBy: { bucketStart: 'asc' },
+      })
+
+      rollups.forEach((rollup) => {
+        const bucket = rollup.bucketStart.getTime()
+        if (!buckets.has(bucket)) buckets.set(bucket, new Map())
+        buckets.get(bucket)!.set(rollup.metric as NetworkRollupMetric, { avg: rollup.avg, max: rollup.max })
+      })
+
+      if (rollups.length > 0) {
+        rawFrom = new Date(rollups[rollups.length - 1].bucketStart.getTime() + BUCKET_MS[tier])
+      }
+    }
 
+    // Query network snapshots not covered by rollups
     const snapshots = await prisma.networkSnapshot.findMany({
       where: {
         timestamp: {
-          gte: startDate,
+          gte: rawFrom,
+          lte: endDate,
         },
       },
       orderBy: {
@@ -621,13 +647,34 @@ export class AdvancedAnalyticsService {
       },
     })
 
-    return snapshots.map((snapshot) => ({
-      date: snapshot.timestamp.toISOString().slice(0, 10),
-      pnodes: snapshot.totalPNodes,
-      peakPnodes: snapshot.totalPNodes, // Could be calculated differently
-      capacityTB: Number(snapshot.totalCapacityBytes) / 1024 ** 4,
-      healthScore: snapshot.healthScore,
-    }))
+    // Group by time period and summarise each metric
+    type NetworkSnapshotType = (typeof snapshots)[number]
+    const groupedData = new Map<number, NetworkSnapshotType[]>()
+
+    snapshots.forEach((snapshot) => {
+      const key = bucketStart(snapshot.timestamp.getTime(), resolution)
+
+      if (!groupedData.has(key)) {
+        groupedData.set(key, [])
+      }
+      groupedData.get(key)!.push(snapshot)
+    })
+
+    groupedData.forEach((periodSnapshots, bucket) => {
+      buckets.set(
+        bucket,
+        new Map(
+          metrics.map((metric) => {
+            const { avg, max } = summarize(periodSnapshots.map((s) => Number(s[metric] ?? 0)))
+            return [metric, { avg, max }]
+          }),
+        ),
+      )
+    })
+
+    return [...buckets.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([bucket, bucketMetrics]) => ({ bucket, metrics: bucketMetrics }))
   }
 
   /**
@@ -715,43 +762,119 @@ export class AdvancedAnalyticsService {
   }
 
   /**
-   * Get top performing pNodes for leaderboard
+   * Get top performing pNodes for leaderboard: the current fleet ranked by its average
+   * performance or uptime over the last `days`, or by current capacity
    */
-  async getTopPNodes(limit: number = 10, metric: 'performance' | 'uptime' | 'capacity' = 'performance') {
-    type OrderByType = { performanceScore: 'desc' } | { uptime: 'desc' } | { capacityBytes: 'desc' }
-    let orderBy: OrderByType
-
-    switch (metric) {
-      case 'performance':
-        orderBy = { performanceScore: 'desc' as const }
-        break
-      case 'uptime':
-        orderBy = { uptime: 'desc' as const }
-        break
-      case 'capacity':
-        orderBy = { capacityBytes: 'desc' as const }
-        break
+  async getTopPNodes(
+    limit: number = 10,
+    metric: 'performance' | 'uptime' | 'capacity' = 'performance',
+    days: number = 30,
+  ) {
+    const newest = await prisma.pNodeSnapshot.findFirst({
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true },
+    })
+    if (!newest) return []
+
+    const [latest, averages] = await Promise.all([
+      prisma.pNodeSnapshot.findMany({
+        where: { timestamp: { gte: new Date(newest.timestamp.getTime() - SNAPSHOT_SET_WINDOW_MS) } },
+        // Oldest first, so a node's latest snapshot wins
+        orderBy: { timestamp: 'asc' },
+        include: { pnode: true },
+      }),
+      this.getPNodeAverages(new Date(Date.now() - days * DAY_MS), ['performanceScore', 'uptime', 'utilization']),
+    ])
+
+    const rows = [...new Map(latest.map((snapshot) => [snapshot.pnodeId, snapshot])).values()].map((snapshot) => {
+      const average = averages.get(snapshot.pnodeId)
+      return {
+        pnode: snapshot.pnode,
+        performanceScore: average?.performanceScore ?? snapshot.performanceScore,
+        uptime: average?.uptime ?? snapshot.uptime,
+        utilization: average?.utilization ?? snapshot.utilization,
+        capacityBytes: Number(snapshot.capacityBytes),
+      }
+    })
+
+    const sortKey = {
+      performance: (row: (typeof rows)[number]) => row.performanceScore,
+      uptime: (row: (typeof rows)[number]) => row.uptime,
+      capacity: (row: (typeof rows)[number]) => row.capacityBytes,
+    }[metric]
+
+    return rows
+      .sort((a, b) => sortKey(b) - sortKey(a))
+      .slice(0, limit)
+      .map((row, index) => ({
+        rank: index + 1,
+        pubkey: row.pnode.pubkey,
+        location: row.pnode.location,
+        version: row.pnode.version,
+        firstSeen: row.pnode.firstSeen.toISOString(),
+        performanceScore: Math.round(row.performanceScore * 100) / 100,
+        uptime: Math.round(row.uptime * 100) / 100,
+        capacityTB: row.capacityBytes / 1024 ** 4,
+        utilization: Math.round(row.utilization * 100) / 100,
+      }))
+  }
+
+  /**
+   * Average of each metric per pNode (by database id) since startDate, weighted by the
+   * samples behind it: daily rollups for days already rolled up, raw snapshots after them
+   */
+  private async getPNodeAverages<M extends PNodeRollupMetric>(
+    startDate: Date,
+    metrics: M[],
+  ): Promise<Map<string, Partial<Record<M, number>>>> {
+    const totals = new Map<string, Map<M, { sum: number; samples: number }>>()
+    const add = (pnodeId: string, metric: M, avg: number | null, samples: number) => {
+      if (avg === null || samples === 0) return
+      if (!totals.has(pnodeId)) totals.set(pnodeId, new Map())
+      const total = totals.get(pnodeId)!.get(metric) ?? { sum: 0, samples: 0 }
+      totals.get(pnodeId)!.set(metric, { sum: total.sum + avg * samples, samples: total.samples + samples })
     }
 
-    const snapshots = await prisma.pNodeSnapshot.findMany({
-      take: limit,
-      orderBy,
-      include: {
-        pnode: true,
-      },
+    let rawFrom = startDate
+    if (selectHistoryTier(startDate.getTime(), 'daily', getRetentionConfig().rawDays * DAY_MS) !== 'raw') {
+      const from = new Date(bucketStart(startDate.getTime(), 'daily'))
+      const last = await prisma.pNodeRollup.findFirst({
+        where: { resolution: 'daily', bucketStart: { gte: from } },
+        orderBy: { bucketStart: 'desc' },
+        select: { bucketStart: true },
+      })
+
+      if (last) {
+        const rollups = await prisma.pNodeRollup.groupBy({
+          by: ['pnodeId', 'metric'],
+          where: { resolution: 'daily', bucketStart: { gte: from, lte: last.bucketStart }, metric: { in: metrics } },
+          _avg: { avg: true },
+          _sum: { samples: true },
+        })
+        // The mean of daily averages, weighted by the whole window's samples
+        rollups.forEach((rollup) => add(rollup.pnodeId, rollup.metric as M, rollup._avg.avg, rollup._sum.samples ?? 0))
+        rawFrom = new Date(last.bucketStart.getTime() + DAY_MS)
+      }
+    }
+
+    const snapshots = await prisma.pNodeSnapshot.groupBy({
+      by: ['pnodeId'],
+      where: { timestamp: { gte: rawFrom } },
+      _avg: { performanceScore: true, uptime: true, utilization: true, averageLatency: true, successRate: true },
+      _count: { _all: true },
     })
+    snapshots.forEach((snapshot) =>
+      metrics.forEach((metric) => add(snapshot.pnodeId, metric, snapshot._avg[metric], snapshot._count._all)),
+    )
 
-    return snapshots.map((snapshot, index) => ({
-      rank: index + 1,
-      pubkey: snapshot.pnode.pubkey,
-      location: snapshot.pnode.location,
-      version: snapshot.pnode.version,
-      firstSeen: snapshot.pnode.firstSeen.toISOString(),
-      performanceScore: snapshot.performanceScore,
-      uptime: snapshot.uptime,
-      capacityTB: Number(snapshot.capacityBytes) / 1024 ** 4,
-      utilization: snapshot.utilization,
-    }))
+    return new Map(
+      [...totals.entries()].map(([pnodeId, byMetric]) => [
+        pnodeId,
+        Object.fromEntries(
+          [...byMetric.entries()].map(([metric, { sum, samples }]) => [metric, sum / samples]),
+        ) as Partial<Record<M, number>>,
+      ]),
+    )
   }
 
   /**
@@ -0,0 +1,383 @@
+import { createHash, randomBytes } from 'crypto'
+import { Prisma } from '@prisma/client'
+import type { ApiKey as ApiKeyRow } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { safeEqual } from '@/lib/session'
+import type { Session } from '@/lib/session'
+import { HOUR_MS, bucketStart } from '@/lib/time-series'
+import type { ApiKeyInfo, ApiKeyInput, ApiKeyPermission, ApiScope, IssuedApiKey } from '@/types/api-keys'
+
+export const API_SCOPES: ApiScope[] = [
+  'read:pnodes',
+  'read:network',
+  'read:analytics',
+  'read:alerts',
+  'write:alerts',
+  'read:indexer',
+  'read:metrics',
+  'read:export',
+  'use:prpc',
+  'use:mcp',
+  'use:chat',
+]
+
+/**
+ * Scopes that always need a key or a signed-in session, even with API_KEYS_REQUIRED unset:
+ * they change state or relay requests upstream
+ */
+export const CREDENTIALED_SCOPES: ApiKeyPermission[] = ['write:alerts', 'use:prpc', 'use:mcp', '*']
+
+/**
+ * Request header the middleware sets to the name of the authenticated key, for routes that
+ * record who did something; any value sent by the client is dropped
+ */
+export const ACTOR_HEADER = 'x-opue-actor'
+
+const DEFAULT_RATE_LIMIT = 1000
+const KEY_PREFIX = 'xk_'
+
+/**
+ * Scope each API route needs, matched by path prefix. Cron and admin routes check their
+ * own secrets (CRON_SECRET, ADMIN_SECRET) instead, sign-in checks the key it is given and
+ * the OpenAPI document is public. Without CRON_SECRET the cron routes need a full-access key.
+ * /api/v1 routes need the scope of their unversioned counterpart.
+ */
+const ROUTE_SCOPES: [prefix: string, scope: ApiScope | ((method: string) => ApiKeyPermission | null) | null][] = [
+  ['/api/v1/openapi.json', null],
+  ['/api/cron', () => (process.env.CRON_SECRET ? null : '*')],
+  ['/api/admin', null],
+  ['/api/session', null],
+  ['/api/pnodes', 'read:pnodes'],
+  ['/api/live', 'read:pnodes'],
+  ['/api/network-stats', 'read:network'],
+  ['/api/analytics', 'read:analytics'],
+  ['/api/alerts', (method) => (method === 'GET' || method === 'HEAD' ? 'read:alerts' : 'write:alerts')],
+  ['/api/indexer', 'read:indexer'],
+  ['/api/metrics', 'read:metrics'],
+  ['/api/export', 'read:export'],
+  ['/api/prpc', 'use:prpc'],
+  ['/api/mcp', 'use:mcp'],
+  ['/api/chat', 'use:chat'],
+]
+
+/** Outcome of checking a request's key; `rateLimit` backs the X-RateLimit-* headers */
+export type ApiKeyCheck =
+  | { ok: true; apiKey: { id: string; name: string }; rateLimit: RateLimitState }
+  | { ok: false; status: 401 | 403 | 429; error: string; rateLimit?: RateLimitState }
+
+export interface RateLimitState {
+  limit: number
+  remaining: number
+  /** End of the current clock hour, when the count starts over */
+  resetAt: Date
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+/**
+ * Short digest of a stored key hash, signed into sessions so rotating the key ends them
+ * without putting the lookup hash itself in the cookie
+ */
+export function keyFingerprint(hashedKey: string): string {
+  return createHash('sha256').update(`session:${hashedKey}`).digest('base64url').slice(0, 22)
+}
+
+/**
+ * The permission a request needs: a scope, `*` for API routes not in the table (only
+ * full-access keys reach those), or null when API keys don't apply (own-secret and public
+ * routes, CORS preflights)
+ */
+export function requiredScope(pathname: string, method: string): ApiKeyPermission | null {
+  if (method === 'OPTIONS') return null
+  const match = (path: string) =>
+    ROUTE_SCOPES.find(([prefix]) => path === prefix || path.startsWith(`${prefix}/`))
+  const route = match(pathname) ?? (pathname.startsWith('/api/v1/') ? match(`/api/${pathname.slice(8)}`) : undefined)
+  if (!route) return '*'
+  const [, scope] = route
+  return typeof scope === 'function' ? scope(method) : scope
+}
+
+export function hasPermission(permissions: ApiKeyPermission[], required: ApiKeyPermission): boolean {
+  return permissions.includes('*') || permissions.includes(required)
+}
+
+/**
+ * Whether a request carries `Authorization: Bearer <ADMIN_SECRET>`. Admin endpoints are
+ * closed when ADMIN_SECRET is unset.
+ */
+export function isAdminAuthorized(authorization: string | null): boolean {
+  const secret = process.env.ADMIN_SECRET
+  return !!secret && authorization !== null && safeEqual(authorization, `Bearer ${secret}`)
+}
+
+/**
+ * Whether a request carries `Authorization: Bearer <CRON_SECRET>`. Closed when CRON_SECRET
+ * is unset.
+ */
+export function isCronAuthorized(authorization: string | null): boolean {
+  const secret = process.env.CRON_SECRET
+  return !!secret && authorization !== null && safeEqual(authorization, `Bearer ${secret}`)
+}
+
+/**
+ * The API key a request carries: the `X-API-Key` header, or an `Authorization: Bearer xk_...`
+ * header for clients that can only send bearer tokens (e.g. Prometheus scrape configs)
+ */
+export function apiKeyFromHeaders(headers: Headers): string | null {
+  const key = headers.get('x-api-key')
+  if (key) return key
+  const bearer = headers.get('authorization')?.match(/^Bearer (\S+)$/)?.[1]
+  return bearer?.startsWith(KEY_PREFIX) ? bearer : null
+}
+
+/**
+ * Name of the key (or signed-in session) the request was authenticated with, or null for
+ * anonymous requests
+ */
+export function actorFromHeaders(headers: Headers): string | null {
+  const actor = headers.get(ACTOR_HEADER)
+  return actor ? decodeURIComponent(actor) : null
+}
+
+/**
+ * Validate a key payload from the admin API: `{ name, permissions, description?,
+ * rateLimit?, expiresAt? }`
+ */
+export function parseApiKeyInput(
+  body: unknown,
+  now: Date = new Date(),
+): { input: ApiKeyInput; error?: undefined } | { input?: undefined; error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be a JSON object' }
+  const { name, description, permissions, rateLimit = DEFAULT_RATE_LIMIT, expiresAt } = body as Record<string, unknown>
+  const allowed: string[] = [...API_SCOPES, '*']
+
+  if (typeof name !== 'string' || name.trim() === '') return { error: 'name is required' }
+  if (description !== undefined && typeof description !== 'string') return { error: 'description must be a string' }
+  if (
+    !Array.isArray(permissions) ||
+    permissions.length === 0 ||
+    permissions.some((permission) => !allowed.includes(permission))
+  ) {
+    return { error: `permissions must be a non-empty array of: ${allowed.join(', ')}` }
+  }
+  if (typeof rateLimit !== 'number' || !Number.isInteger(rateLimit) || rateLimit < 1) {
+    return { error: 'rateLimit must be a positive integer (requests per hour)' }
+  }
+  let expires: Date | undefined
+  if (expiresAt !== undefined) {
+    expires = typeof expiresAt === 'string' ? new Date(expiresAt) : undefined
+    if (!expires || isNaN(expires.getTime())) return { error: 'expiresAt must be an ISO date' }
+    if (expires <= now) return { error: 'expiresAt must be in the future' }
+  }
+
+  return {
+    input: {
+      name: name.trim(),
+      description,
+      permissions: [...new Set(permissions as ApiKeyPermission[])],
+      rateLimit,
+      expiresAt: expires,
+    },
+  }
+}
+
+/**
+ * ApiKeyService - issues API keys and checks them on every /api request (src/middleware.ts).
+ *
+ * Keys are random `xk_` strings stored only as SHA-256 hashes, so a leaked database
+ * doesn't leak usable keys; the key itself is returned once, when minted or rotated.
+ * Each accepted request is counted in an ApiKeyUsage row per clock hour, which enforces
+ * the key's hourly `rateLimit` across all replicas, and bumps `lastUsed`/`totalRequests`.
+ */
+export class ApiKeyService {
+  async list(): Promise<ApiKeyInfo[]> {
+    const rows = await prisma.apiKey.findMany({ orderBy: { createdAt: 'desc' } })
+    return rows.map(toApiKeyInfo)
+  }
+
+  async mint(input: ApiKeyInput): Promise<IssuedApiKey> {
+    const key = generateKey()
+    const row = await prisma.apiKey.create({
+      data: {
+        key: hashApiKey(key),
+        name: input.name,
+        description: input.description,
+        permissions: input.permissions,
+        rateLimit: input.rateLimit,
+        expiresAt: input.expiresAt,
+      },
+    })
+    return { key, apiKey: toApiKeyInfo(row) }
+  }
+
+  /**
+   * Replace a key's secret, keeping its name, scopes and limits; the old key stops
+   * working immediately. Null if there is no such key.
+   */
+  async rotate(id: string): Promise<IssuedApiKey | null> {
+    const key = generateKey()
+    const row = await updateOrNull(id, { key: hashApiKey(key) })
+    return row ? { key, apiKey: toApiKeyInfo(row) } : null
+  }
+
+  /**
+   * Deactivate a key; the row is kept along with its usage totals. Null if there is no such key.
+   */
+  async revoke(id: string): Promise<ApiKeyInfo | null> {
+    const row = await updateOrNull(id, { active: false })
+    return row ? toApiKeyInfo(row) : null
+  }
+
+  /**
+   * Check a request's key against its status, scopes and hourly limit, counting the
+   * request if it is let through
+   */
+  async authenticate(key: string, required: ApiKeyPermission, now: Date = new Date()): Promise<ApiKeyCheck> {
+    const apiKey = await prisma.apiKey.findUnique({ where: { key: hashApiKey(key) } })
+    return this.check(apiKey, required, now)
+  }
+
+  /**
+   * Same checks for the key behind a signed-in session (see src/lib/session.ts), which
+   * must also still have the secret the session signed in with
+   */
+  async authenticateSession(
+    session: Pick<Session, 'keyId' | 'fingerprint'>,
+    required: ApiKeyPermission,
+    now: Date = new Date(),
+  ): Promise<ApiKeyCheck> {
+    const apiKey = await prisma.apiKey.findUnique({ where: { id: session.keyId } })
+    if (apiKey && !safeEqual(keyFingerprint(apiKey.key), session.fingerprint)) {
+      return { ok: false, status: 401, error: 'Session ended: the API key was rotated' }
+    }
+    return this.check(apiKey, required, now)
+  }
+
+  /**
+   * Look up a key to sign in with: active and unexpired, whatever its scopes, with the
+   * fingerprint to sign into the session. Not counted against its rate limit.
+   */
+  async verify(
+    key: string,
+    now: Date = new Date(),
+  ): Promise<
+    | { apiKey: ApiKeyInfo; fingerprint: string; error?: undefined }
+    | { apiKey?: undefined; fingerprint?: undefined; error: string }
+  > {
+    const usable = usableKey(await prisma.apiKey.findUnique({ where: { key: hashApiKey(key) } }), now)
+    if (usable.error !== undefined) return { error: usable.error }
+    return { apiKey: toApiKeyInfo(usable.apiKey), fingerprint: keyFingerprint(usable.apiKey.key) }
+  }
+
+  private async check(row: ApiKeyRow | null, required: ApiKeyPermission, now: Date): Promise<ApiKeyCheck> {
+    const usable = usableKey(row, now)
+    if (usable.error !== undefined) return { ok: false, status: 401, error: usable.error }
+    const { apiKey } = usable
+    if (!hasPermission(toPermissions(apiKey.permissions), required)) {
+      return {
+        ok: false,
+        status: 403,
+        error: required === '*' ? 'API key lacks full access' : `API key lacks the ${required} scope`,
+      }
+    }
+
+    const windowStart = new Date(bucketStart(now.getTime(), 'hourly'))
+    const requests = await this.countRequest(apiKey.id, windowStart)
+    const rateLimit: RateLimitState = {
+      limit: apiKey.rateLimit,
+      remaining: Math.max(0, apiKey.rateLimit - requests),
+      resetAt: new Date(windowStart.getTime() + HOUR_MS),
+    }
+    if (requests > apiKey.rateLimit) {
+      return {
+        ok: false,
+        status: 429,
+        error: `Rate limit of ${apiKey.rateLimit} requests per hour exceeded`,
+        rateLimit,
+      }
+    }
+
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsed: now, totalRequests: { increment: 1 } },
+    })
+    return { ok: true, apiKey: { id: apiKey.id, name: apiKey.name }, rateLimit }
+  }
+
+  /**
+   * Increment the key's request count for the hour, returning the new count
+   */
+  private async countRequest(apiKeyId: string, windowStart: Date): Promise<number> {
+    const where = { apiKeyId_windowStart: { apiKeyId, windowStart } }
+    try {
+      const usage = await prisma.apiKeyUsage.upsert({
+        where,
+        create: { apiKeyId, windowStart, requests: 1 },
+        update: { requests: { increment: 1 } },
+      })
+      return usage.requests
+    } catch (error) {
+      // Two requests opened the hour at once; the other one created the row
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error
+      const usage = await prisma.apiKeyUsage.update({ where, data: { requests: { increment: 1 } } })
+      return usage.requests
+    }
+  }
+}
+
+function usableKey(
+  apiKey: ApiKeyRow | null,
+  now: Date,
+): { apiKey: ApiKeyRow; error?: undefined } | { apiKey?: undefined; error: string } {
+  if (!apiKey || !apiKey.active) return { error: 'Invalid or revoked API key' }
+  if (apiKey.expiresAt && apiKey.expiresAt <= now) return { error: 'API key has expired' }
+  return { apiKey }
+}
+
+function generateKey(): string {
+  return `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`
+}
+
+async function updateOrNull(id: string, data: Prisma.ApiKeyUpdateInput): Promise<ApiKeyRow | null> {
+  try {
+    return await prisma.apiKey.update({ where: { id }, data })
+  } catch (error) {
+    // Record to update not found
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') return null
+    throw error
+  }
+}
+
+function toPermissions(value: Prisma.JsonValue): ApiKeyPermission[] {
+  return Array.isArray(value)
+    ? value.filter((permission): permission is ApiKeyPermission => typeof permission === 'string')
+    : []
+}
+
+function toApiKeyInfo(row: ApiKeyRow): ApiKeyInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    permissions: toPermissions(row.permissions),
+    rateLimit: row.rateLimit,
+    lastUsed: row.lastUsed?.toISOString() ?? null,
+    totalRequests: Number(row.totalRequests),
+    active: row.active,
+    expiresAt: row.expiresAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  }
+}
+
+// Singleton instance
+let apiKeyService: ApiKeyService | null = null
+
+export function getApiKeyService(): ApiKeyService {
+  if (!apiKeyService) {
+    apiKeyService = new ApiKeyService()
+  }
+  return apiKeyService
+}
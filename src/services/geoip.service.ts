@@ -1,8 +1,22 @@
 /**
- * GeoIP Service - Lookup geographic location from IP address
- * Uses ip-api.com (free, 45 requests/minute, no API key required)
+ * GeoIP Service - Lookup geographic location and ASN from IP address
+ *
+ * Lookups go through a chain of pluggable providers (GEOIP_PROVIDERS, default "mmdb", or
+ * "ip-api" while the City database hasn't been installed):
+ * - mmdb: local MaxMind / DB-IP style MMDB files, zero network calls
+ *   (GEOIP_CITY_DB and GEOIP_ASN_DB, e.g. dbip-city-lite.mmdb and dbip-asn-lite.mmdb)
+ * - ip-api: ip-api.com over HTTP (free, 45 requests/minute, no API key required)
+ *
+ * Only the indexer calls this: it resolves each pNode once per IP and stores the
+ * result on the PNode row, which request handlers read instead.
  */
 
+import fs from 'fs';
+import path from 'path';
+import { open } from 'maxmind';
+import type { AsnResponse, CityResponse, Reader } from 'maxmind';
+import type { PNodeGeo } from '@/types/pnode';
+
 interface GeoIPResult {
     ip: string;
     country: string;
@@ -15,15 +29,24 @@ interface GeoIPResult {
     org: string;
     as: string;
     location: string; // Simplified region like "US-East"
+    /** Provider that resolved the IP */
+    source?: string;
     error?: string;
 }
 
-// Cache to avoid hitting rate limits
-const geoipCache: Map<string, GeoIPResult> = new Map();
+/**
+ * A GeoIP backend. Returns null when it has no data for the IP so the next provider
+ * is tried; throws on failures (missing database, network error).
+ */
+interface GeoIPProvider {
+    readonly name: string;
+    /** Whether lookups hit the network (and are subject to rate limits) */
+    readonly remote: boolean;
+    lookup(ip: string): Promise<GeoIPResult | null>;
+}
 
-// Track request timestamps for rate limiting
-let lastRequestTime = 0;
-const MIN_REQUEST_INTERVAL = 50; // 50ms between requests (allows ~20 req/sec, well under 45/min limit)
+const DEFAULT_CITY_DB = 'data/geoip/dbip-city-lite.mmdb';
+const DEFAULT_ASN_DB = 'data/geoip/dbip-asn-lite.mmdb';
 
 /**
  * Map country/region to simplified location string
@@ -69,51 +92,107 @@ function mapToSimpleLocation(country: string, countryCode: string, region: strin
 }
 
 /**
- * Wait for rate limit if needed
+ * RFC 1918, loopback and link-local addresses never resolve to a location
  */
-async function waitForRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - lastRequestTime;
-    
-    if (timeSinceLastRequest < MIN_REQUEST_INTERVAL) {
-        await new Promise(resolve => setTimeout(resolve, MIN_REQUEST_INTERVAL - timeSinceLastRequest));
-    }
-    
-    lastRequestTime = Date.now();
+function isPrivateIP(ip: string): boolean {
+    if (ip === 'localhost' || ip === '::1' || ip.startsWith('127.') || ip.startsWith('10.')) return true;
+    if (ip.startsWith('192.168.') || ip.startsWith('169.254.')) return true;
+    const [first, second] = ip.split('.').map((octet) => parseInt(octet));
+    return first === 172 && second >= 16 && second <= 31;
+}
+
+function unknownResult(ip: string, error?: string): GeoIPResult {
+    return {
+        ip,
+        country: 'Unknown',
+        countryCode: 'XX',
+        region: '',
+        city: '',
+        lat: 0,
+        lon: 0,
+        isp: '',
+        org: '',
+        as: '',
+        location: 'Unknown',
+        error,
+    };
 }
 
 /**
- * Lookup geographic location for an IP address
+ * Local MMDB files (MaxMind GeoLite2 or DB-IP lite, City and ASN editions).
+ * The ASN database is optional; without it results carry no ASN/organisation.
  */
-export async function lookupGeoIP(ip: string): Promise<GeoIPResult> {
-    // Check cache first
-    const cached = geoipCache.get(ip);
-    if (cached) {
-        return cached;
-    }
+export class MmdbGeoIPProvider implements GeoIPProvider {
+    readonly name = 'mmdb';
+    readonly remote = false;
+    private readers: Promise<{ city: Reader<CityResponse>; asn: Reader<AsnResponse> | null }> | null = null;
+
+    constructor(private cityDbPath: string, private asnDbPath?: string) {}
+
+    async lookup(ip: string): Promise<GeoIPResult | null> {
+        const { city, asn } = await this.open();
+
+        const cityRecord = city.get(ip);
+        const asnRecord = asn?.get(ip) ?? null;
+        if (!cityRecord && !asnRecord) return null;
+
+        const countryCode = cityRecord?.country?.iso_code ?? 'XX';
+        const country = cityRecord?.country?.names?.en ?? 'Unknown';
+        const region = cityRecord?.subdivisions?.[0]?.iso_code ?? '';
+        const org = asnRecord?.autonomous_system_organization ?? '';
 
-    // Handle private/local IPs
-    if (ip.startsWith('10.') || ip.startsWith('192.168.') || ip.startsWith('172.') || ip === '127.0.0.1' || ip === 'localhost') {
-        const result: GeoIPResult = {
+        return {
             ip,
-            country: 'Private',
-            countryCode: 'XX',
-            region: '',
-            city: 'Local Network',
-            lat: 0,
-            lon: 0,
-            isp: 'Private Network',
-            org: 'Private Network',
-            as: '',
-            location: 'Private',
+            country,
+            countryCode,
+            region,
+            city: cityRecord?.city?.names?.en ?? '',
+            lat: cityRecord?.location?.latitude ?? 0,
+            lon: cityRecord?.location?.longitude ?? 0,
+            isp: org,
+            org,
+            as: asnRecord ? `AS${asnRecord.autonomous_system_number} ${org}`.trim() : '',
+            location: cityRecord ? mapToSimpleLocation(country, countryCode, region) : 'Unknown',
+            source: this.name,
         };
-        geoipCache.set(ip, result);
-        return result;
     }
 
-    try {
-        // Rate limit
-        await waitForRateLimit();
+    /**
+     * Load the databases once; a failed load is retried on the next lookup
+     */
+    private open() {
+        if (!this.readers) {
+            this.readers = Promise.all([
+                open<CityResponse>(this.cityDbPath),
+                this.asnDbPath
+                    ? open<AsnResponse>(this.asnDbPath).catch((error) => {
+                          console.warn(`[GeoIP] ASN database unavailable (${this.asnDbPath}):`, error.message);
+                          return null;
+                      })
+                    : Promise.resolve(null),
+            ])
+                .then(([city, asn]) => ({ city, asn }))
+                .catch((error) => {
+                    this.readers = null;
+                    throw new Error(`City database unavailable (${this.cityDbPath}): ${error.message}`);
+                });
+        }
+        return this.readers;
+    }
+}
+
+/**
+ * ip-api.com HTTP lookups, throttled to stay under the free tier's rate limit
+ */
+export class IpApiGeoIPProvider implements GeoIPProvider {
+    readonly name = 'ip-api';
+    readonly remote = true;
+    private lastRequestTime = 0;
+
+    constructor(private minRequestIntervalMs: number = 50) {}
+
+    async lookup(ip: string): Promise<GeoIPResult | null> {
+        await this.waitForRateLimit();
 
         const response = await fetch(`http://ip-api.com/json/${ip}?fields=status,message,country,countryCode,region,regionName,city,lat,lon,isp,org,as`, {
             signal: AbortSignal.timeout(5000), // 5 second timeout
@@ -125,28 +204,10 @@ export async function lookupGeoIP(ip: string): Promise<GeoIPResult> {
 
         const data = await response.json();
 
-        if (data.status === 'fail') {
-            const result: GeoIPResult = {
-                ip,
-                country: 'Unknown',
-                countryCode: 'XX',
-                region: '',
-                city: '',
-                lat: 0,
-                lon: 0,
-                isp: '',
-                org: '',
-                as: '',
-                location: 'Unknown',
-                error: data.message,
-            };
-            geoipCache.set(ip, result);
-            return result;
-        }
-
-        const location = mapToSimpleLocation(data.country, data.countryCode, data.region);
+        // e.g. "reserved range" - nothing to resolve
+        if (data.status === 'fail') return null;
 
-        const result: GeoIPResult = {
+        return {
             ip,
             country: data.country || 'Unknown',
             countryCode: data.countryCode || 'XX',
@@ -157,48 +218,128 @@ export async function lookupGeoIP(ip: string): Promise<GeoIPResult> {
             isp: data.isp || '',
             org: data.org || '',
             as: data.as || '',
-            location,
+            location: mapToSimpleLocation(data.country, data.countryCode, data.region),
+            source: this.name,
         };
+    }
 
-        // Cache the result
-        geoipCache.set(ip, result);
+    private async waitForRateLimit(): Promise<void> {
+        const timeSinceLastRequest = Date.now() - this.lastRequestTime;
+        if (timeSinceLastRequest < this.minRequestIntervalMs) {
+            await new Promise(resolve => setTimeout(resolve, this.minRequestIntervalMs - timeSinceLastRequest));
+        }
+        this.lastRequestTime = Date.now();
+    }
+}
 
-        return result;
-    } catch (error) {
-        // On error, return a fallback based on IP heuristics
-        const result: GeoIPResult = {
-            ip,
-            country: 'Unknown',
-            countryCode: 'XX',
-            region: '',
-            city: '',
-            lat: 0,
-            lon: 0,
-            isp: '',
-            org: '',
-            as: '',
-            location: fallbackLocationFromIP(ip),
-            error: error instanceof Error ? error.message : 'Unknown error',
-        };
+/**
+ * Tries each provider in order and caches resolved IPs. Failures are not cached,
+ * so a later lookup retries (e.g. once a database file is installed).
+ */
+export class GeoIPResolver {
+    private cache: Map<string, GeoIPResult> = new Map();
+
+    constructor(private providers: GeoIPProvider[]) {}
+
+    /** Whether any configured provider makes network calls */
+    get remote(): boolean {
+        return this.providers.some((provider) => provider.remote);
+    }
+
+    async lookup(ip: string): Promise<GeoIPResult> {
+        const cached = this.cache.get(ip);
+        if (cached) return cached;
 
-        // Cache even errors to avoid repeated failures
-        geoipCache.set(ip, result);
-        return result;
+        if (isPrivateIP(ip)) {
+            const result: GeoIPResult = {
+                ip,
+                country: 'Private',
+                countryCode: 'XX',
+                region: '',
+                city: 'Local Network',
+                lat: 0,
+                lon: 0,
+                isp: 'Private Network',
+                org: 'Private Network',
+                as: '',
+                location: 'Private',
+            };
+            this.cache.set(ip, result);
+            return result;
+        }
+
+        const errors: string[] = [];
+        for (const provider of this.providers) {
+            try {
+                const result = await provider.lookup(ip);
+                if (result) {
+                    this.cache.set(ip, result);
+                    return result;
+                }
+            } catch (error) {
+                errors.push(`${provider.name}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        // No provider knows the IP: cache the miss, but not transient errors
+        if (errors.length === 0) {
+            const result = unknownResult(ip);
+            this.cache.set(ip, result);
+            return result;
+        }
+        return unknownResult(ip, errors.join('; '));
     }
+
+    clearCache(): void {
+        this.cache.clear();
+    }
+}
+
+/**
+ * Build the provider chain from GEOIP_PROVIDERS (comma-separated, in priority order).
+ * Unset, it is the local databases, or ip-api.com when the City database is missing
+ * (e.g. a fresh deploy that hasn't downloaded it), so nodes still get locations.
+ */
+export function createProviders(): GeoIPProvider[] {
+    const cityDbPath = path.resolve(process.env.GEOIP_CITY_DB || DEFAULT_CITY_DB);
+    let names = (process.env.GEOIP_PROVIDERS || '').split(',').map((name) => name.trim()).filter(Boolean);
+    if (names.length === 0) {
+        if (fs.existsSync(cityDbPath)) {
+            names = ['mmdb'];
+        } else {
+            console.warn(`[GeoIP] ${cityDbPath} not found, falling back to ip-api.com (see "GeoIP Databases" in the README)`);
+            names = ['ip-api'];
+        }
+    }
+
+    return names.flatMap((name): GeoIPProvider[] => {
+        switch (name) {
+            case 'mmdb':
+                return [new MmdbGeoIPProvider(cityDbPath, path.resolve(process.env.GEOIP_ASN_DB || DEFAULT_ASN_DB))];
+            case 'ip-api':
+                return [new IpApiGeoIPProvider()];
+            default:
+                console.warn(`[GeoIP] Unknown provider "${name}" in GEOIP_PROVIDERS, ignoring`);
+                return [];
+        }
+    });
+}
+
+// Singleton instance
+let geoipResolver: GeoIPResolver | null = null;
+
+export function getGeoIPResolver(): GeoIPResolver {
+    if (!geoipResolver) {
+        geoipResolver = new GeoIPResolver(createProviders());
+    }
+    return geoipResolver;
 }
 
 /**
- * Fallback location estimation based on IP ranges (when API fails)
+ * Lookup geographic location for an IP address
  */
-function fallbackLocationFromIP(ip: string): string {
-    const firstOctet = parseInt(ip.split('.')[0] || '0');
-
-    // Very rough estimation based on IP allocation patterns
-    // This is not accurate but provides a fallback
-    if (firstOctet >= 1 && firstOctet <= 126) return 'US-East';
-    if (firstOctet >= 128 && firstOctet <= 191) return 'EU-Central';
-    if (firstOctet >= 192 && firstOctet <= 223) return 'Asia-Pacific';
-    return 'Unknown';
+export async function lookupGeoIP(ip: string): Promise<GeoIPResult> {
+    return getGeoIPResolver().lookup(ip);
 }
 
 /**
@@ -223,14 +364,30 @@ export async function getLocationForIP(ip: string): Promise<string> {
     return result.location;
 }
 
+/**
+ * Convert a lookup result into the record persisted on the PNode row
+ */
+export function toPNodeGeo(result: GeoIPResult): PNodeGeo {
+    return {
+        country: result.country,
+        countryCode: result.countryCode,
+        region: result.region,
+        city: result.city,
+        latitude: result.lat,
+        longitude: result.lon,
+        asn: result.as,
+        datacenter: result.org || result.isp,
+    };
+}
+
 /**
  * Clear the GeoIP cache (useful for testing)
  */
 export function clearGeoIPCache(): void {
-    geoipCache.clear();
+    getGeoIPResolver().clearCache();
 }
 
-export type { GeoIPResult };
+export type { GeoIPResult, GeoIPProvider };
 
 
 
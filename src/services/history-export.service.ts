@@ -0,0 +1,457 @@
+import { ByteWriter, ParquetWriter, schemaFromColumnData } from 'hyparquet-writer'
+import type { NetworkRollup, NetworkSnapshot, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { RollupResolution } from '@/lib/time-series'
+
+export type HistoryDataset =
+  | 'pnode-snapshots'
+  | 'network-snapshots'
+  | 'pnode-rollups'
+  | 'network-rollups'
+  | 'events'
+  | 'validator-snapshots'
+export type HistoryExportFormat = 'csv' | 'ndjson' | 'parquet'
+
+export const HISTORY_DATASETS: HistoryDataset[] = [
+  'pnode-snapshots',
+  'network-snapshots',
+  'pnode-rollups',
+  'network-rollups',
+  'events',
+  'validator-snapshots',
+]
+/** Datasets read from the rollup tiers, which outlive raw snapshots (RETENTION_RAW_DAYS) */
+export const ROLLUP_DATASETS: HistoryDataset[] = ['pnode-rollups', 'network-rollups']
+export const ROLLUP_RESOLUTIONS: RollupResolution[] = ['hourly', 'daily']
+export const HISTORY_EXPORT_FORMATS: HistoryExportFormat[] = ['csv', 'ndjson', 'parquet']
+
+export const HISTORY_EXPORT_CONTENT_TYPES: Record<HistoryExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  parquet: 'application/vnd.apache.parquet',
+}
+
+/** Rows read from the database per query, and per Parquet row group */
+export const EXPORT_BATCH_SIZE = 5000
+
+export interface HistoryExportQuery {
+  dataset: HistoryDataset
+  format: HistoryExportFormat
+  /** Inclusive */
+  from: Date
+  /** Exclusive */
+  to: Date
+  /** Empty for every node */
+  pubkeys: string[]
+  /** Rollup tier read by the rollup datasets */
+  resolution: RollupResolution
+}
+
+/** Parquet basic types; CSV and NDJSON derive their text form from the same column list */
+type ColumnType = 'STRING' | 'TIMESTAMP' | 'INT32' | 'INT64' | 'DOUBLE' | 'BOOLEAN' | 'JSON'
+type ExportValue = string | number | bigint | boolean | Date | Prisma.JsonValue | null
+
+interface ExportColumn<Row> {
+  name: string
+  type: ColumnType
+  value: (row: Row) => ExportValue
+}
+
+/** A dataset with its row type erased: column names and types, and rows as value arrays */
+interface ExportSource {
+  columns: { name: string; type: ColumnType }[]
+  /** Whether `pubkey=` applies */
+  byPubkey: boolean
+  /** Next batch after the row with id `after`, in (timestamp, id) order */
+  fetch(query: HistoryExportQuery, after: string | undefined): Promise<{ rows: ExportValue[][]; lastId?: string }>
+}
+
+/**
+ * Parse `dataset`, `format` (default csv), `from`, `to` (default now), `pubkey`
+ * (repeated or comma-separated) and, for rollup datasets, `resolution` (default daily)
+ * export parameters
+ */
+export function parseHistoryExportQuery(
+  params: URLSearchParams,
+  now: Date = new Date(),
+): { query: HistoryExportQuery; error?: undefined } | { query?: undefined; error: string } {
+  const dataset = params.get('dataset')
+  if (!HISTORY_DATASETS.includes(dataset as HistoryDataset)) {
+    return { error: `dataset must be one of: ${HISTORY_DATASETS.join(', ')}` }
+  }
+  const format = params.get('format') ?? 'csv'
+  if (!HISTORY_EXPORT_FORMATS.includes(format as HistoryExportFormat)) {
+    return { error: `format must be one of: ${HISTORY_EXPORT_FORMATS.join(', ')}` }
+  }
+
+  const fromParam = params.get('from')
+  if (fromParam === null) return { error: 'from is required (ISO 8601 date or time)' }
+  const from = new Date(fromParam)
+  const toParam = params.get('to')
+  const to = toParam === null ? now : new Date(toParam)
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    return { error: 'from and to must be ISO 8601 dates or times' }
+  }
+  if (from >= to) return { error: 'from must be before to' }
+
+  const pubkeys = [
+    ...new Set(
+      params
+        .getAll('pubkey')
+        .flatMap((value) => value.split(','))
+        .map((value) => value.trim())
+        .filter((value) => value !== ''),
+    ),
+  ]
+  if (pubkeys.length > 0 && !SOURCES[dataset as HistoryDataset].byPubkey) {
+    return { error: `pubkey does not apply to ${dataset}` }
+  }
+
+  const resolution = params.get('resolution')
+  if (resolution !== null && !ROLLUP_DATASETS.includes(dataset as HistoryDataset)) {
+    return { error: `resolution does not apply to ${dataset}` }
+  }
+  if (resolution !== null && !ROLLUP_RESOLUTIONS.includes(resolution as RollupResolution)) {
+    return { error: `resolution must be one of: ${ROLLUP_RESOLUTIONS.join(', ')}` }
+  }
+
+  return {
+    query: {
+      dataset: dataset as HistoryDataset,
+      format: format as HistoryExportFormat,
+      from,
+      to,
+      pubkeys,
+      resolution: (resolution as RollupResolution | null) ?? 'daily',
+    },
+  }
+}
+
+/**
+ * HistoryExportService - streams stored history for a date range as CSV, NDJSON or Parquet.
+ *
+ * Raw pNode, network and validator snapshots only go back RETENTION_RAW_DAYS (7 by default)
+ * before the retention job prunes them; longer ranges come from the hourly and daily
+ * rollup datasets (one min/avg/max/p95 row per bucket and metric).
+ *
+ * Rows are read EXPORT_BATCH_SIZE at a time with keyset pagination on (timestamp, id) and
+ * encoded as each batch arrives; the next batch is only read once the client has taken the
+ * previous one, so a large export holds one batch in memory, not the range. Each batch
+ * becomes one Parquet row group, with the footer written after the last.
+ */
+export class HistoryExportService {
+  stream(query: HistoryExportQuery): ReadableStream<Uint8Array> {
+    const source = SOURCES[query.dataset]
+    const encoder = createEncoder(query.format, source.columns)
+    let after: string | undefined
+
+    return new ReadableStream<Uint8Array>({
+      start(controller) {
+        enqueue(controller, encoder.start())
+      },
+      async pull(controller) {
+        try {
+          const batch = await source.fetch(query, after)
+          enqueue(controller, encoder.write(batch.rows))
+          if (batch.rows.length < EXPORT_BATCH_SIZE) {
+            enqueue(controller, encoder.finish())
+            controller.close()
+            return
+          }
+          after = batch.lastId
+        } catch (error) {
+          console.error(`[Export] Failed to export ${query.dataset}:`, error)
+          controller.error(error)
+        }
+      },
+    })
+  }
+
+  /**
+   * Download name, e.g. `pnode-snapshots-2026-01-01-2026-02-01.parquet` or
+   * `network-rollups-daily-2026-01-01-2026-04-01.csv`
+   */
+  filename(query: HistoryExportQuery): string {
+    const day = (date: Date) => date.toISOString().slice(0, 10)
+    const name = ROLLUP_DATASETS.includes(query.dataset) ? `${query.dataset}-${query.resolution}` : query.dataset
+    return `${name}-${day(query.from)}-${day(query.to)}.${query.format}`
+  }
+}
+
+function enqueue(controller: ReadableStreamDefaultController<Uint8Array>, chunk: Uint8Array): void {
+  if (chunk.length > 0) controller.enqueue(chunk)
+}
+
+// ---- Datasets ----
+
+const PAGE_ORDER = [{ timestamp: 'asc' as const }, { id: 'asc' as const }]
+/** Rollups are stamped with their bucket start rather than a timestamp */
+const ROLLUP_PAGE_ORDER = [{ bucketStart: 'asc' as const }, { id: 'asc' as const }]
+
+function page(after: string | undefined, orderBy: object[] = PAGE_ORDER) {
+  return {
+    orderBy,
+    take: EXPORT_BATCH_SIZE,
+    ...(after && { cursor: { id: after }, skip: 1 }),
+  }
+}
+
+function range(query: HistoryExportQuery) {
+  return { gte: query.from, lt: query.to }
+}
+
+/** Columns read straight from same-named fields */
+function fields<Row>(type: ColumnType, names: (keyof Row & string)[]): ExportColumn<Row>[] {
+  return names.map((name) => ({ name, type, value: (row) => row[name] as ExportValue }))
+}
+
+function source<Row extends { id: string }>(
+  columns: ExportColumn<Row>[],
+  byPubkey: boolean,
+  fetch: (query: HistoryExportQuery, after: string | undefined) => Promise<Row[]>,
+): ExportSource {
+  return {
+    columns: columns.map(({ name, type }) => ({ name, type })),
+    byPubkey,
+    async fetch(query, after) {
+      const rows = await fetch(query, after)
+      return {
+        rows: rows.map((row) => columns.map((column) => column.value(row))),
+        lastId: rows.at(-1)?.id,
+      }
+    },
+  }
+}
+
+type PNodeSnapshotRow = Prisma.PNodeSnapshotGetPayload<{ include: { pnode: { select: { pubkey: true } } } }>
+type PNodeRollupRow = Prisma.PNodeRollupGetPayload<{ include: { pnode: { select: { pubkey: true } } } }>
+type NetworkEventRow = Prisma.NetworkEventGetPayload<{ include: { pnode: { select: { pubkey: true } } } }>
+type ValidatorSnapshotRow = Prisma.ValidatorSnapshotGetPayload<{
+  include: { validator: { select: { nodePubkey: true; votePubkey: true } } }
+}>
+
+const SOURCES: Record<HistoryDataset, ExportSource> = {
+  'pnode-snapshots': source<PNodeSnapshotRow>(
+    [
+      { name: 'timestamp', type: 'TIMESTAMP', value: (row) => row.timestamp },
+      { name: 'pubkey', type: 'STRING', value: (row) => row.pnode.pubkey },
+      { name: 'status', type: 'STRING', value: (row) => row.status },
+      ...fields<PNodeSnapshotRow>('INT32', ['performanceScore']),
+      ...fields<PNodeSnapshotRow>('DOUBLE', ['uptime', 'averageLatency', 'successRate']),
+      ...fields<PNodeSnapshotRow>('INT64', ['capacityBytes', 'usedBytes']),
+      ...fields<PNodeSnapshotRow>('DOUBLE', ['utilization']),
+      ...fields<PNodeSnapshotRow>('INT32', ['fileSystems']),
+      ...fields<PNodeSnapshotRow>('INT64', ['uptimeSeconds']),
+      ...fields<PNodeSnapshotRow>('DOUBLE', ['cpuPercent']),
+      ...fields<PNodeSnapshotRow>('INT64', ['ramUsed', 'ramTotal']),
+      ...fields<PNodeSnapshotRow>('INT32', ['activeStreams']),
+      ...fields<PNodeSnapshotRow>('INT64', ['packetsReceived', 'packetsSent']),
+      ...fields<PNodeSnapshotRow>('BOOLEAN', ['isPublic']),
+      ...fields<PNodeSnapshotRow>('INT32', ['pnrpcPort']),
+      ...fields<PNodeSnapshotRow>('DOUBLE', ['latencyP50', 'latencyP95', 'latencyP99']),
+      ...fields<PNodeSnapshotRow>('INT32', ['probeSamples', 'probeFailures']),
+    ],
+    true,
+    (query, after) =>
+      prisma.pNodeSnapshot.findMany({
+        where: {
+          timestamp: range(query),
+          ...(query.pubkeys.length > 0 && { pnode: { pubkey: { in: query.pubkeys } } }),
+        },
+        include: { pnode: { select: { pubkey: true } } },
+        ...page(after),
+      }),
+  ),
+
+  'network-snapshots': source<NetworkSnapshot>(
+    [
+      ...fields<NetworkSnapshot>('TIMESTAMP', ['timestamp']),
+      ...fields<NetworkSnapshot>('INT32', ['totalPNodes', 'onlinePNodes', 'offlinePNodes', 'delinquentPNodes']),
+      ...fields<NetworkSnapshot>('INT64', ['totalCapacityBytes', 'totalUsedBytes']),
+      ...fields<NetworkSnapshot>('DOUBLE', ['networkUtilization']),
+      ...fields<NetworkSnapshot>('INT32', ['healthScore', 'averagePerformance']),
+      ...fields<NetworkSnapshot>('DOUBLE', ['averageLatency']),
+      ...fields<NetworkSnapshot>('JSON', ['versionDistribution', 'geoDistribution']),
+      ...fields<NetworkSnapshot>('INT32', ['totalValidators', 'activeValidators', 'delinquentValidators']),
+      ...fields<NetworkSnapshot>('DOUBLE', ['averageCommission']),
+      ...fields<NetworkSnapshot>('INT64', ['totalStake', 'blockHeight']),
+      ...fields<NetworkSnapshot>('INT32', ['currentEpoch']),
+      ...fields<NetworkSnapshot>('INT64', ['currentSlot', 'transactionCount']),
+      ...fields<NetworkSnapshot>('DOUBLE', ['currentTps', 'nonVoteTps']),
+    ],
+    false,
+    (query, after) => prisma.networkSnapshot.findMany({ where: { timestamp: range(query) }, ...page(after) }),
+  ),
+
+  'pnode-rollups': source<PNodeRollupRow>(
+    [
+      ...fields<PNodeRollupRow>('TIMESTAMP', ['bucketStart']),
+      { name: 'pubkey', type: 'STRING', value: (row) => row.pnode.pubkey },
+      ...fields<PNodeRollupRow>('STRING', ['resolution', 'metric']),
+      ...fields<PNodeRollupRow>('INT32', ['samples']),
+      ...fields<PNodeRollupRow>('DOUBLE', ['min', 'avg', 'max', 'p95']),
+    ],
+    true,
+    (query, after) =>
+      prisma.pNodeRollup.findMany({
+        where: {
+          resolution: query.resolution,
+          bucketStart: range(query),
+          ...(query.pubkeys.length > 0 && { pnode: { pubkey: { in: query.pubkeys } } }),
+        },
+        include: { pnode: { select: { pubkey: true } } },
+        ...page(after, ROLLUP_PAGE_ORDER),
+      }),
+  ),
+
+  'network-rollups': source<NetworkRollup>(
+    [
+      ...fields<NetworkRollup>('TIMESTAMP', ['bucketStart']),
+      ...fields<NetworkRollup>('STRING', ['resolution', 'metric']),
+      ...fields<NetworkRollup>('INT32', ['samples']),
+      ...fields<NetworkRollup>('DOUBLE', ['min', 'avg', 'max', 'p95']),
+    ],
+    false,
+    (query, after) =>
+      prisma.networkRollup.findMany({
+        where: { resolution: query.resolution, bucketStart: range(query) },
+        ...page(after, ROLLUP_PAGE_ORDER),
+      }),
+  ),
+
+  events: source<NetworkEventRow>(
+    [
+      ...fields<NetworkEventRow>('TIMESTAMP', ['timestamp']),
+      ...fields<NetworkEventRow>('STRING', ['id', 'type', 'severity']),
+      { name: 'pubkey', type: 'STRING', value: (row) => row.pnode?.pubkey ?? null },
+      ...fields<NetworkEventRow>('STRING', ['title', 'description']),
+      ...fields<NetworkEventRow>('JSON', ['metadata']),
+    ],
+    true,
+    (query, after) =>
+      prisma.networkEvent.findMany({
+        where: {
+          timestamp: range(query),
+          ...(query.pubkeys.length > 0 && { pnode: { pubkey: { in: query.pubkeys } } }),
+        },
+        include: { pnode: { select: { pubkey: true } } },
+        ...page(after),
+      }),
+  ),
+
+  'validator-snapshots': source<ValidatorSnapshotRow>(
+    [
+      { name: 'timestamp', type: 'TIMESTAMP', value: (row) => row.timestamp },
+      { name: 'nodePubkey', type: 'STRING', value: (row) => row.validator.nodePubkey },
+      { name: 'votePubkey', type: 'STRING', value: (row) => row.validator.votePubkey },
+      ...fields<ValidatorSnapshotRow>('INT64', [
+        'activatedStake',
+        'lastVote',
+        'rootSlot',
+        'epochCredits',
+        'priorCredits',
+      ]),
+      ...fields<ValidatorSnapshotRow>('BOOLEAN', ['isDelinquent', 'epochVoteAccount']),
+    ],
+    true,
+    (query, after) =>
+      prisma.validatorSnapshot.findMany({
+        where: {
+          timestamp: range(query),
+          // Node identity or vote account
+          ...(query.pubkeys.length > 0 && {
+            validator: {
+              OR: [{ nodePubkey: { in: query.pubkeys } }, { votePubkey: { in: query.pubkeys } }],
+            },
+          }),
+        },
+        include: { validator: { select: { nodePubkey: true, votePubkey: true } } },
+        ...page(after),
+      }),
+  ),
+}
+
+// ---- Encoders ----
+
+interface RowEncoder {
+  start(): Uint8Array
+  write(rows: ExportValue[][]): Uint8Array
+  finish(): Uint8Array
+}
+
+function createEncoder(format: HistoryExportFormat, columns: ExportSource['columns']): RowEncoder {
+  switch (format) {
+    case 'csv':
+      return textEncoder(`${columns.map(({ name }) => name).join(',')}\n`, (row) => `${row.map(csvField).join(',')}\n`)
+    case 'ndjson':
+      return textEncoder(
+        '',
+        (row) => `{${row.map((value, i) => `${JSON.stringify(columns[i].name)}:${jsonValue(value)}`).join(',')}}\n`,
+      )
+    case 'parquet':
+      return parquetEncoder(columns)
+  }
+}
+
+function textEncoder(header: string, line: (row: ExportValue[]) => string): RowEncoder {
+  const encoder = new TextEncoder()
+  return {
+    start: () => encoder.encode(header),
+    write: (rows) => encoder.encode(rows.map(line).join('')),
+    finish: () => new Uint8Array(),
+  }
+}
+
+function csvField(value: ExportValue): string {
+  if (value === null) return ''
+  const text =
+    value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** JSON for one value; bigints are written as exact JSON numbers rather than strings */
+function jsonValue(value: ExportValue): string {
+  if (typeof value === 'bigint') return value.toString()
+  return JSON.stringify(value)
+}
+
+function parquetEncoder(columns: ExportSource['columns']): RowEncoder {
+  const writer = new ByteWriter()
+  const parquet = new ParquetWriter({
+    writer,
+    schema: schemaFromColumnData({ columnData: columns.map(({ name, type }) => ({ name, type, data: [] })) }),
+  })
+  // Hand over what has been written so far and reuse the buffer (offsets in the footer
+  // are counted in `writer.offset`, which keeps growing)
+  const take = () => {
+    const bytes = writer.getBytes().slice()
+    writer.index = 0
+    return bytes
+  }
+
+  return {
+    start: take,
+    write(rows) {
+      if (rows.length === 0) return new Uint8Array()
+      parquet.write({
+        columnData: columns.map(({ name, type }, i) => ({ name, type, data: rows.map((row) => row[i]) })),
+        rowGroupSize: rows.length,
+      })
+      return take()
+    },
+    finish() {
+      parquet.finish()
+      return take()
+    },
+  }
+}
+
+// Singleton instance
+let historyExportService: HistoryExportService | null = null
+
+export function getHistoryExportService(): HistoryExportService {
+  if (!historyExportService) {
+    historyExportService = new HistoryExportService()
+  }
+  return historyExportService
+}
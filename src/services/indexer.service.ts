@@ -1,26 +1,148 @@
-/* eslint-disable @typescript-eslint/ban-ts-comment */
-// @ts-nocheck - Prisma client types need to be regenerated with database connection
+import type { IndexerRun as IndexerRunRow, Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
+import { Lease } from '@/lib/lease'
+import { getIndexerMetrics } from '@/lib/indexer-metrics'
+import {
+  ANOMALY_HISTORY_MS,
+  ANOMALY_HISTORY_SAMPLES,
+  SNAPSHOT_SET_WINDOW_MS,
+  detectNetworkAnomalies,
+  detectPNodeEvents,
+  truncateId,
+} from '@/lib/event-detection'
+import type { DetectedEvent, PNodeState, PreviousStates } from '@/lib/event-detection'
 import { pnodeService } from './pnode.service'
+import { getAlertService } from './alert.service'
+import { getLiveUpdatesService } from './live-updates.service'
+import { getRetentionService } from './retention.service'
+import { getGeoIPResolver, lookupGeoIP, toPNodeGeo } from './geoip.service'
+import type { LiveEvent } from '@/lib/live-updates'
 import type { VoteAccount, EpochInfo, PerformanceSample, InflationRate, SupplyInfo } from './pnode.service'
 import type { PNode, NetworkStats } from '@/types/pnode'
+import type {
+  IndexerCycleOutcome,
+  IndexerPhase,
+  IndexerPhaseTimings,
+  IndexerRowCounts,
+  IndexerRun,
+  IndexerRunStatus,
+  IndexerSource,
+  IndexerSourceResult,
+  IndexerStatus,
+} from '@/types/indexer'
 
 /**
  * IndexerService - Responsible for capturing and storing historical pNode data
  *
  * Features:
- * - Periodic snapshots of pNode states
+ * - Periodic snapshots of pNode states (with probed get-stats latency percentiles),
+ *   written per cycle in a single transaction with per-phase timings
+ * - GeoIP/ASN enrichment, once per node IP
  * - Network-wide statistics tracking
- * - Event detection and logging
+ * - Event detection and logging, against the last stored cycle so restarts and other
+ *   replicas' cycles don't re-announce the whole fleet
  * - Anomaly detection
+ * - Alert rule evaluation
+ * - Live update publishing (pNode/network diffs for /api/live)
+ * - Snapshot rollups and retention (hourly, via RetentionService)
+ * - Run ledger (IndexerRun row per cycle) backing /api/indexer/status
+ * - One cycle at a time across processes and replicas (database lease), scheduled only
+ *   after the previous cycle finishes
  */
+/**
+ * Cap on lookups per cycle when a network GeoIP provider is configured (ip-api.com
+ * allows 45 requests/minute); the rest are enriched on later cycles
+ */
+const MAX_REMOTE_GEO_LOOKUPS_PER_CYCLE = 40
+
+/** Limits for the cycle's write transaction (waiting for a connection, and running) */
+const WRITE_TRANSACTION_MAX_WAIT_MS = 10000
+const WRITE_TRANSACTION_TIMEOUT_MS = 60000
+
+/** Data older than this (since the last successful cycle) is reported as stale */
+const DEFAULT_STALE_AFTER_MINUTES = 5
+
+/**
+ * The indexer lease expires this long after its last renewal (renewed every third of
+ * it while a cycle runs), so a replica that dies mid-cycle is replaced within minutes
+ */
+const INDEXER_LEASE_TTL_MS = 2 * 60 * 1000
+
+/** Runs read for the status endpoint; consecutive failures are counted within these */
+const STATUS_RECENT_RUNS = 20
+
+type IndexerSources = Partial<Record<IndexerSource, IndexerSourceResult>>
+
+/**
+ * How long after the last successful cycle data counts as stale
+ * (INDEXER_STALE_AFTER_MINUTES, default 5)
+ */
+export function getStaleAfterMs(): number {
+  const minutes = Number(process.env.INDEXER_STALE_AFTER_MINUTES)
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_STALE_AFTER_MINUTES) * 60 * 1000
+}
+
+function toIndexerRun(row: IndexerRunRow): IndexerRun {
+  return {
+    id: row.id,
+    startedAt: row.startedAt.toISOString(),
+    finishedAt: row.finishedAt?.toISOString() ?? null,
+    status: row.status as IndexerRunStatus,
+    durationMs: row.durationMs,
+    sources: row.sources as IndexerRun['sources'],
+    rowCounts: row.rowCounts as IndexerRowCounts,
+    timings: row.timings as IndexerPhaseTimings,
+    error: row.error,
+  }
+}
+
+/**
+ * Derive freshness from the most recent runs (newest first) and the last run that
+ * wrote snapshots. A run still marked `running` after `staleAfterMs` is assumed to
+ * have died with its process.
+ */
+export function buildIndexerStatus(
+  recentRuns: IndexerRun[],
+  lastSuccessfulRun: IndexerRun | null,
+  { now, staleAfterMs }: { now: Date; staleAfterMs: number },
+): IndexerStatus {
+  const lastRun = recentRuns[0] ?? null
+  const finishedRuns = recentRuns.filter((run) => run.status !== 'running')
+  const lastFinishedRun = finishedRuns[0]
+  const firstSuccess = finishedRuns.findIndex((run) => run.status !== 'failed')
+
+  const finishedAt = lastSuccessfulRun?.finishedAt ?? lastSuccessfulRun?.startedAt
+  const stalenessMs = finishedAt ? Math.max(0, now.getTime() - new Date(finishedAt).getTime()) : null
+
+  return {
+    freshness: stalenessMs === null ? 'unknown' : stalenessMs > staleAfterMs ? 'stale' : 'fresh',
+    stalenessMs,
+    staleAfterMs,
+    running: lastRun?.status === 'running' && now.getTime() - new Date(lastRun.startedAt).getTime() < staleAfterMs,
+    consecutiveFailures: firstSuccess === -1 ? finishedRuns.length : firstSuccess,
+    failingSources: lastFinishedRun
+      ? (Object.entries(lastFinishedRun.sources) as [IndexerSource, IndexerSourceResult][])
+          .filter(([, result]) => !result.ok)
+          .map(([source]) => source)
+      : [],
+    lastRun,
+    lastSuccessfulRun,
+    checkedAt: now.toISOString(),
+  }
+}
+
 export class IndexerService {
-  private intervalId: NodeJS.Timeout | null = null
+  private timeoutId: NodeJS.Timeout | null = null
   private isRunning = false
-  private lastPNodeStates: Map<string, { status: string; performanceScore: number }> = new Map()
+  private cycleInFlight = false
+  private lease = new Lease('indexer', { ttlMs: INDEXER_LEASE_TTL_MS })
+  private cycleEvents: LiveEvent[] = []
+  private lastCycleTimings: IndexerPhaseTimings | null = null
 
   /**
-   * Start the indexer with the specified interval
+   * Start the indexer with the specified interval. The next cycle is scheduled when the
+   * previous one finishes (`intervalMs` after it started, or right away if it overran),
+   * so slow cycles never pile up.
    */
   async start(intervalMs: number = 30000): Promise<void> {
     if (this.isRunning) {
@@ -29,162 +151,315 @@ export class IndexerService {
 
     this.isRunning = true
 
-    // Run immediately
-    await this.runIndexingCycle()
+    const tick = async () => {
+      const startedAt = Date.now()
+      try {
+        await this.runIndexingCycle()
+      } catch (error) {
+        console.error('[Indexer] Scheduled cycle failed:', error)
+      }
+      if (!this.isRunning) return
+      this.timeoutId = setTimeout(tick, Math.max(0, intervalMs - (Date.now() - startedAt)))
+    }
 
-    // Then run on interval
-    this.intervalId = setInterval(async () => {
-      await this.runIndexingCycle()
-    }, intervalMs)
+    // Run immediately, then keep rescheduling
+    await tick()
   }
 
   /**
-   * Stop the indexer
+   * Stop the indexer (a cycle already in progress runs to completion)
    */
   stop(): void {
-    if (this.intervalId) {
-      clearInterval(this.intervalId)
-      this.intervalId = null
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId)
+      this.timeoutId = null
     }
     this.isRunning = false
   }
 
   /**
-   * Run a single indexing cycle
+   * Timings (ms) of each phase of the last cycle; null while running or if it failed
+   */
+  getLastCycleTimings(): IndexerPhaseTimings | null {
+    return this.lastCycleTimings
+  }
+
+  /**
+   * Run a single indexing cycle unless one is already running, in this process or (per
+   * the database lease) any other. Skipped cycles do nothing and aren't recorded.
    */
-  async runIndexingCycle(): Promise<void> {
+  async runIndexingCycle(): Promise<IndexerCycleOutcome> {
+    if (this.cycleInFlight) {
+      console.log('[Indexer] Skipping cycle: the previous cycle is still running')
+      return 'skipped'
+    }
+
+    this.cycleInFlight = true
+    try {
+      const lease = await this.lease.run(() => this.runCycle())
+      if (!lease.acquired) {
+        console.log('[Indexer] Skipping cycle: another instance holds the indexer lease')
+        return 'skipped'
+      }
+      return lease.result
+    } catch (error) {
+      // Lease table unreachable; without the database the cycle couldn't be stored anyway
+      console.error('[Indexer] Failed to acquire indexer lease:', error)
+      return 'skipped'
+    } finally {
+      this.cycleInFlight = false
+    }
+  }
+
+  /**
+   * Run one indexing cycle.
+   *
+   * Phases: fetch (RPC calls), detect (events/anomalies, computed in memory), write (every
+   * snapshot, event and anomaly row in one transaction, so a failed cycle leaves nothing
+   * behind), then geo, alerts and retention. Live updates are published after the write.
+   */
+  private async runCycle(): Promise<Exclude<IndexerCycleOutcome, 'skipped'>> {
     const startTime = Date.now()
     console.log('[Indexer] Starting indexing cycle...')
+    this.cycleEvents = []
+    this.lastCycleTimings = null
+    const runId = await this.startRun(new Date(startTime))
+    const sources: IndexerSources = {}
+    const rowCounts: IndexerRowCounts = {}
+    const timings: IndexerPhaseTimings = {}
+    const timed = async <T>(phase: IndexerPhase, fn: () => Promise<T>): Promise<T> => {
+      const phaseStart = Date.now()
+      try {
+        return await fn()
+      } finally {
+        timings[phase] = Date.now() - phaseStart
+      }
+    }
 
     try {
-      // Fetch all data in parallel for efficiency
+      // Fetch all data in parallel for efficiency; only the pNode list is required
       // Note: includeNetworkMetrics=true fetches CPU/RAM/packet data from get-stats for each pNode
-      const [pnodes, networkStats, voteAccounts, epochInfo, perfSamples, inflation, supply, stakeMin] =
-        await Promise.all([
-          pnodeService.fetchAllPNodes({ includeNetworkMetrics: true }),
-          pnodeService.fetchNetworkStats(),
-          pnodeService.fetchVoteAccounts().catch((e) => {
-            console.warn('[Indexer] Vote accounts fetch failed:', e.message)
-            return null
-          }),
-          pnodeService.fetchEpochInfo().catch((e) => {
-            console.warn('[Indexer] Epoch info fetch failed:', e.message)
-            return null
-          }),
-          pnodeService.fetchPerformanceSamples(10).catch((e) => {
-            console.warn('[Indexer] Perf samples fetch failed:', e.message)
-            return null
-          }),
-          pnodeService.fetchInflationRate().catch((e) => {
-            console.warn('[Indexer] Inflation fetch failed:', e.message)
-            return null
-          }),
-          pnodeService.fetchSupply().catch((e) => {
-            console.warn('[Indexer] Supply fetch failed:', e.message)
-            return null
-          }),
-          pnodeService.fetchStakeMinimumDelegation().catch((e) => {
-            console.warn('[Indexer] Stake min fetch failed:', e.message)
-            return null
-          }),
-        ])
+      const [pnodes, voteAccounts, epochInfo, perfSamples, inflation, supply, stakeMin, networkStats] = await timed(
+        'fetch',
+        async () => {
+          const results = await Promise.all([
+            this.trackSource(sources, 'pnodes', pnodeService.fetchAllPNodes({ includeNetworkMetrics: true })),
+            this.trackSource(sources, 'voteAccounts', pnodeService.fetchVoteAccounts()).catch(() => null),
+            this.trackSource(sources, 'epochInfo', pnodeService.fetchEpochInfo()).catch(() => null),
+            this.trackSource(sources, 'performanceSamples', pnodeService.fetchPerformanceSamples(10)).catch(() => null),
+            this.trackSource(sources, 'inflation', pnodeService.fetchInflationRate()).catch(() => null),
+            this.trackSource(sources, 'supply', pnodeService.fetchSupply()).catch(() => null),
+            this.trackSource(sources, 'stakeMinimum', pnodeService.fetchStakeMinimumDelegation()).catch(() => null),
+          ])
+          return [...results, await pnodeService.fetchNetworkStats(results[0])] as const
+        },
+      )
 
       // Debug logging
       console.log(
         `[Indexer] Data fetch results: pnodes=${pnodes.length}, voteAccounts=${voteAccounts ? 'yes' : 'no'}, epochInfo=${epochInfo ? 'yes' : 'no'}, perfSamples=${perfSamples?.length || 0}, inflation=${inflation ? 'yes' : 'no'}, supply=${supply ? 'yes' : 'no'}, stakeMin=${stakeMin !== null ? 'yes' : 'no'}`,
       )
 
-      // Store pNode snapshots
-      await this.storePNodeSnapshots(pnodes)
+      // Work out events and anomalies up front so they are written with the snapshots
+      const { events, anomalies } = await timed('detect', async () => {
+        const events = detectPNodeEvents(pnodes, await this.loadPreviousStates(pnodes))
+        const anomalies = await this.detectAnomalies(networkStats)
+        return { events: [...events, ...anomalies.events], anomalies: anomalies.anomalies }
+      })
 
-      // Store validator data (if available)
-      if (voteAccounts) {
-        console.log(`[Indexer] Storing ${voteAccounts.current.length + voteAccounts.delinquent.length} validators`)
-        await this.storeValidatorSnapshots(voteAccounts)
+      const hasEconomics = inflation && supply && stakeMin !== null && voteAccounts
+      if (!hasEconomics) {
+        console.log(
+          `[Indexer] Skipping economics: inflation=${!!inflation}, supply=${!!supply}, stakeMin=${stakeMin !== null}, voteAccounts=${!!voteAccounts}`,
+        )
       }
 
-      // Store epoch snapshot (if available)
-      if (epochInfo) {
-        console.log(`[Indexer] Storing epoch ${epochInfo.epoch} snapshot`)
-        await this.storeEpochSnapshot(epochInfo)
+      // Background renewals can fail or come too late on a slow cycle; never write a snapshot
+      // set alongside the instance that took the lease over
+      if (!(await this.lease.renew())) {
+        throw new Error('Lost the indexer lease to another instance before writing')
       }
 
-      // Store performance samples (if available)
-      if (perfSamples && perfSamples.length > 0) {
-        console.log(`[Indexer] Storing ${perfSamples.length} performance samples`)
-        await this.storePerformanceSamples(perfSamples)
-      }
+      const written = await timed('write', () =>
+        prisma.$transaction(
+          async (tx) => {
+            const now = new Date()
+            const counts: IndexerRowCounts = {}
+            const eventPubkeys = events.map((e) => e.pnodePubkey).filter((pubkey): pubkey is string => !!pubkey)
+            const pnodeIds = await this.upsertPNodes(tx, pnodes, eventPubkeys, now)
+            counts.pnodeSnapshots = await this.storePNodeSnapshots(tx, pnodes, pnodeIds, now)
+
+            if (voteAccounts) {
+              console.log(
+                `[Indexer] Storing ${voteAccounts.current.length + voteAccounts.delinquent.length} validators`,
+              )
+              counts.validatorSnapshots = await this.storeValidatorSnapshots(tx, voteAccounts, now)
+            }
+
+            if (epochInfo) {
+              console.log(`[Indexer] Storing epoch ${epochInfo.epoch} snapshot`)
+              await this.storeEpochSnapshot(tx, epochInfo)
+            }
+
+            if (perfSamples && perfSamples.length > 0) {
+              console.log(`[Indexer] Storing ${perfSamples.length} performance samples`)
+              counts.performanceSamples = await this.storePerformanceSamples(tx, perfSamples)
+            }
+
+            if (hasEconomics) {
+              console.log(`[Indexer] Storing economics snapshot`)
+              await this.storeEconomicsSnapshot(tx, inflation, supply, stakeMin, voteAccounts)
+              counts.economicsSnapshots = 1
+            }
+
+            await this.storeNetworkSnapshot(tx, pnodes, networkStats, voteAccounts, epochInfo, perfSamples)
+            counts.networkSnapshots = 1
+            await this.storeEvents(tx, events, anomalies, pnodeIds, now)
+            counts.events = events.length
+            counts.anomalies = anomalies.length
+            return counts
+          },
+          { maxWait: WRITE_TRANSACTION_MAX_WAIT_MS, timeout: WRITE_TRANSACTION_TIMEOUT_MS },
+        ),
+      )
+      // Counted only once committed; a rolled-back cycle wrote nothing
+      Object.assign(rowCounts, written)
 
-      // Store economics snapshot (if we have the data)
-      if (inflation && supply && stakeMin !== null && voteAccounts) {
-        console.log(`[Indexer] Storing economics snapshot`)
-        await this.storeEconomicsSnapshot(inflation, supply, stakeMin, voteAccounts)
-      } else {
-        console.log(
-          `[Indexer] Skipping economics: inflation=${!!inflation}, supply=${!!supply}, stakeMin=${stakeMin !== null}, voteAccounts=${!!voteAccounts}`,
-        )
-      }
+      // Resolve geo/ASN for new nodes and nodes whose IP changed
+      await timed('geo', () => this.enrichGeo(pnodes))
 
-      // Store network snapshot (now with enhanced validator/epoch data)
-      await this.storeNetworkSnapshot(pnodes, networkStats, voteAccounts, epochInfo, perfSamples)
+      // Serve this cycle's pNodes to request handlers without refetching from the seed nodes
+      pnodeService.setFleetSnapshot(pnodes)
 
-      // Detect and log events
-      await this.detectEvents(pnodes)
+      // Evaluate alert rules against the fresh pNode set
+      await timed('alerts', () => this.evaluateAlerts(pnodes))
 
-      // Run anomaly detection
-      await this.detectAnomalies(pnodes, networkStats)
+      // Push the cycle's changes to open /api/live streams
+      this.publishLiveUpdate(pnodes, networkStats)
 
-      // Update last known states
-      this.updateLastStates(pnodes)
+      // Roll completed hours/days into aggregates and prune old snapshots (at most hourly)
+      await timed('retention', () => this.runRetention())
 
+      this.lastCycleTimings = timings
       const duration = Date.now() - startTime
       const validatorCount = voteAccounts ? voteAccounts.current.length + voteAccounts.delinquent.length : 0
       console.log(
-        `[Indexer] Cycle completed in ${duration}ms - ${pnodes.length} pNodes, ${validatorCount} validators indexed`,
+        `[Indexer] Cycle completed in ${duration}ms (${this.formatTimings(timings)}) - ${pnodes.length} pNodes, ${validatorCount} validators indexed`,
       )
+
+      const partial = Object.values(sources).some((result) => !result.ok)
+      await this.finishRun(runId, startTime, { status: partial ? 'partial' : 'success', sources, rowCounts, timings })
+      return 'completed'
     } catch (error) {
-      console.error('[Indexer] Error during indexing cycle:', error)
+      console.error(`[Indexer] Error during indexing cycle (${this.formatTimings(timings)}):`, error)
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      await this.finishRun(runId, startTime, { status: 'failed', sources, rowCounts, timings, error: message })
       await this.logEvent({
         type: 'ANOMALY_DETECTED',
         severity: 'CRITICAL',
         title: 'Indexer Error',
-        description: `Failed to complete indexing cycle: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      })
+        description: `Failed to complete indexing cycle: ${message}`,
+      }).catch((logError) => console.error('[Indexer] Failed to log cycle error:', logError))
+      return 'failed'
     }
   }
 
   /**
-   * Store snapshots for all pNodes
+   * Record whether an upstream fetch succeeded; failures are logged and rethrown
    */
-  private async storePNodeSnapshots(pnodes: PNode[]): Promise<void> {
-    const now = new Date()
+  private async trackSource<T>(sources: IndexerSources, source: IndexerSource, fetch: Promise<T>): Promise<T> {
+    try {
+      const result = await fetch
+      sources[source] = { ok: true }
+      return result
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn(`[Indexer] ${source} fetch failed:`, message)
+      sources[source] = { ok: false, error: message }
+      throw error
+    }
+  }
 
-    for (const pnode of pnodes) {
-      // Upsert the pNode record
-      const dbPNode = await prisma.pNode.upsert({
-        where: { pubkey: pnode.id },
-        update: {
+  /**
+   * Insert new pNodes and refresh known ones. New rows go in with one createMany and
+   * lastSeen with one updateMany; only nodes whose endpoints, version or location
+   * changed get an individual update. Returns pubkey -> row id for the cycle's pNodes
+   * and any `extraPubkeys` already in the database (e.g. nodes that left gossip).
+   */
+  private async upsertPNodes(
+    tx: Prisma.TransactionClient,
+    pnodes: PNode[],
+    extraPubkeys: string[],
+    now: Date,
+  ): Promise<Map<string, string>> {
+    const pubkeys = pnodes.map((p) => p.id)
+    const existing = await tx.pNode.findMany({
+      where: { pubkey: { in: [...new Set([...pubkeys, ...extraPubkeys])] } },
+      select: { id: true, pubkey: true, gossipEndpoint: true, rpcEndpoint: true, version: true, location: true },
+    })
+    const existingByPubkey = new Map(existing.map((row) => [row.pubkey, row]))
+    const ids = new Map(existing.map((row) => [row.pubkey, row.id]))
+
+    const created = pnodes.filter((pnode) => !existingByPubkey.has(pnode.id))
+    if (created.length > 0) {
+      const rows = await tx.pNode.createManyAndReturn({
+        data: created.map((pnode) => ({
+          pubkey: pnode.id,
           gossipEndpoint: pnode.gossipEndpoint,
           rpcEndpoint: pnode.rpcEndpoint,
           version: pnode.version,
           location: pnode.location,
+          firstSeen: now,
           lastSeen: now,
-        },
-        create: {
-          pubkey: pnode.id,
+        })),
+        select: { id: true, pubkey: true },
+        skipDuplicates: true,
+      })
+      rows.forEach((row) => ids.set(row.pubkey, row.id))
+    }
+
+    await tx.pNode.updateMany({ where: { pubkey: { in: pubkeys } }, data: { lastSeen: now } })
+
+    for (const pnode of pnodes) {
+      const row = existingByPubkey.get(pnode.id)
+      if (
+        !row ||
+        (row.gossipEndpoint === pnode.gossipEndpoint &&
+          row.rpcEndpoint === (pnode.rpcEndpoint ?? null) &&
+          row.version === pnode.version &&
+          row.location === (pnode.location ?? null))
+      ) {
+        continue
+      }
+      await tx.pNode.update({
+        where: { id: row.id },
+        data: {
           gossipEndpoint: pnode.gossipEndpoint,
           rpcEndpoint: pnode.rpcEndpoint,
           version: pnode.version,
           location: pnode.location,
-          firstSeen: now,
-          lastSeen: now,
         },
       })
+    }
 
-      // Create snapshot with all pnRPC data
-      await prisma.pNodeSnapshot.create({
-        data: {
-          pnodeId: dbPNode.id,
+    return ids
+  }
+
+  /**
+   * Store snapshots for all pNodes
+   */
+  private async storePNodeSnapshots(
+    tx: Prisma.TransactionClient,
+    pnodes: PNode[],
+    pnodeIds: Map<string, string>,
+    now: Date,
+  ): Promise<number> {
+    const { count } = await tx.pNodeSnapshot.createMany({
+      data: pnodes
+        .filter((pnode) => pnodeIds.has(pnode.id))
+        .map((pnode) => ({
+          pnodeId: pnodeIds.get(pnode.id)!,
+          timestamp: now,
           status: pnode.status,
           performanceScore: pnode.performanceScore,
           uptime: pnode.performance.uptime,
@@ -204,15 +479,65 @@ export class IndexerService {
           packetsSent: pnode.networkMetrics?.packetsSent ? BigInt(pnode.networkMetrics.packetsSent) : null,
           isPublic: pnode.isPublic ?? false,
           pnrpcPort: pnode.pnrpcPort ?? null,
-        },
-      })
+          latencyP50: pnode.performance.latencyP50 ?? null,
+          latencyP95: pnode.performance.latencyP95 ?? null,
+          latencyP99: pnode.performance.latencyP99 ?? null,
+          probeSamples: pnode.performance.probeSamples ?? null,
+          probeFailures: pnode.performance.probeFailures ?? null,
+        })),
+    })
+    return count
+  }
+
+  /**
+   * Look up and persist geo/ASN records for nodes that have none or whose IP changed
+   * since the last lookup. Updates the in-memory pNodes so the rest of the cycle (alerts,
+   * live updates) sees the resolved location. Failed lookups are retried next cycle.
+   */
+  private async enrichGeo(pnodes: PNode[]): Promise<void> {
+    const stored = await prisma.pNode.findMany({
+      where: { pubkey: { in: pnodes.map((p) => p.id) } },
+      select: { pubkey: true, ipAddress: true, geoUpdatedAt: true },
+    })
+    const storedByPubkey = new Map(stored.map((row) => [row.pubkey, row]))
+
+    const pending = pnodes.filter((pnode) => {
+      const row = storedByPubkey.get(pnode.id)
+      return !row?.geoUpdatedAt || row.ipAddress !== this.ipOf(pnode)
+    })
+    if (pending.length === 0) return
+
+    // Local MMDB lookups are cheap, so only remote providers are rate limited
+    const batch = getGeoIPResolver().remote ? pending.slice(0, MAX_REMOTE_GEO_LOOKUPS_PER_CYCLE) : pending
+
+    let resolved = 0
+    for (const pnode of batch) {
+      const ip = this.ipOf(pnode)
+      try {
+        const result = await lookupGeoIP(ip)
+        if (result.error) continue
+
+        const geo = toPNodeGeo(result)
+        await prisma.pNode.update({
+          where: { pubkey: pnode.id },
+          data: { ...geo, location: result.location, ipAddress: ip, geoUpdatedAt: new Date() },
+        })
+        pnode.location = result.location
+        pnode.geo = geo
+        resolved++
+      } catch (error) {
+        console.warn(`[Indexer] GeoIP enrichment failed for ${truncateId(pnode.id)}:`, error)
+      }
     }
+
+    console.log(`[Indexer] GeoIP: resolved ${resolved}/${pending.length} pending pNodes`)
   }
 
   /**
    * Store network-wide snapshot (now with enhanced data)
    */
   private async storeNetworkSnapshot(
+    tx: Prisma.TransactionClient,
     pnodes: PNode[],
     stats: NetworkStats,
     voteAccounts?: { current: VoteAccount[]; delinquent: VoteAccount[] } | null,
@@ -255,7 +580,7 @@ export class IndexerService {
       nonVoteTps = latest.numNonVoteTransactions / latest.samplePeriodSecs
     }
 
-    await prisma.networkSnapshot.create({
+    await tx.networkSnapshot.create({
       data: {
         totalPNodes: stats.totalPNodes,
         onlinePNodes: stats.onlinePNodes,
@@ -288,129 +613,142 @@ export class IndexerService {
   }
 
   /**
-   * Store validator snapshots
+   * Store validator records and snapshots. Like pNodes, new validators are inserted in
+   * bulk and only validators whose status or commission changed are updated one by one.
    */
-  private async storeValidatorSnapshots(voteAccounts: {
-    current: VoteAccount[]
-    delinquent: VoteAccount[]
-  }): Promise<void> {
+  private async storeValidatorSnapshots(
+    tx: Prisma.TransactionClient,
+    voteAccounts: { current: VoteAccount[]; delinquent: VoteAccount[] },
+    now: Date,
+  ): Promise<number> {
     const allValidators = [
       ...voteAccounts.current.map((v) => ({ ...v, isDelinquent: false })),
       ...voteAccounts.delinquent.map((v) => ({ ...v, isDelinquent: true })),
     ]
+    const votePubkeys = allValidators.map((v) => v.votePubkey)
 
-    for (const validator of allValidators) {
-      // Get latest epoch credits
-      const latestCredits = validator.epochCredits[validator.epochCredits.length - 1]
-      const [, credits, priorCredits] = latestCredits || [0, 0, 0]
-
-      // Upsert validator record
-      const dbValidator = await prisma.validator.upsert({
-        where: { votePubkey: validator.votePubkey },
-        update: {
-          nodePubkey: validator.nodePubkey,
-          isActive: !validator.isDelinquent,
-          isDelinquent: validator.isDelinquent,
-          commission: validator.commission,
-          lastSeen: new Date(),
-        },
-        create: {
+    const existing = await tx.validator.findMany({
+      where: { votePubkey: { in: votePubkeys } },
+      select: { id: true, votePubkey: true, nodePubkey: true, isDelinquent: true, commission: true },
+    })
+    const existingByVotePubkey = new Map(existing.map((row) => [row.votePubkey, row]))
+    const ids = new Map(existing.map((row) => [row.votePubkey, row.id]))
+
+    const created = allValidators.filter((v) => !existingByVotePubkey.has(v.votePubkey))
+    if (created.length > 0) {
+      const rows = await tx.validator.createManyAndReturn({
+        data: created.map((validator) => ({
           nodePubkey: validator.nodePubkey,
           votePubkey: validator.votePubkey,
           isActive: !validator.isDelinquent,
           isDelinquent: validator.isDelinquent,
           commission: validator.commission,
-        },
+        })),
+        select: { id: true, votePubkey: true },
+        skipDuplicates: true,
       })
+      rows.forEach((row) => ids.set(row.votePubkey, row.id))
+    }
+
+    await tx.validator.updateMany({ where: { votePubkey: { in: votePubkeys } }, data: { lastSeen: now } })
 
-      // Create snapshot
-      await prisma.validatorSnapshot.create({
+    for (const validator of allValidators) {
+      const row = existingByVotePubkey.get(validator.votePubkey)
+      if (
+        !row ||
+        (row.nodePubkey === validator.nodePubkey &&
+          row.isDelinquent === validator.isDelinquent &&
+          row.commission === validator.commission)
+      ) {
+        continue
+      }
+      await tx.validator.update({
+        where: { id: row.id },
         data: {
-          validatorId: dbValidator.id,
-          activatedStake: BigInt(validator.activatedStake),
-          lastVote: BigInt(validator.lastVote),
-          rootSlot: BigInt(validator.rootSlot),
-          epochCredits: BigInt(credits),
-          priorCredits: BigInt(priorCredits),
+          nodePubkey: validator.nodePubkey,
+          isActive: !validator.isDelinquent,
           isDelinquent: validator.isDelinquent,
-          epochVoteAccount: validator.epochVoteAccount,
+          commission: validator.commission,
         },
       })
     }
+
+    const { count } = await tx.validatorSnapshot.createMany({
+      data: allValidators
+        .filter((validator) => ids.has(validator.votePubkey))
+        .map((validator) => {
+          // Get latest epoch credits
+          const latestCredits = validator.epochCredits[validator.epochCredits.length - 1]
+          const [, credits, priorCredits] = latestCredits || [0, 0, 0]
+
+          return {
+            validatorId: ids.get(validator.votePubkey)!,
+            timestamp: now,
+            activatedStake: BigInt(validator.activatedStake),
+            lastVote: BigInt(validator.lastVote),
+            rootSlot: BigInt(validator.rootSlot),
+            epochCredits: BigInt(credits),
+            priorCredits: BigInt(priorCredits),
+            isDelinquent: validator.isDelinquent,
+            epochVoteAccount: validator.epochVoteAccount,
+          }
+        }),
+    })
+    return count
   }
 
   /**
    * Store epoch snapshot
    */
-  private async storeEpochSnapshot(epochInfo: EpochInfo): Promise<void> {
-    // Check if we already have this epoch
-    const existing = await prisma.epochSnapshot.findUnique({
+  private async storeEpochSnapshot(tx: Prisma.TransactionClient, epochInfo: EpochInfo): Promise<void> {
+    const progress = {
+      absoluteSlot: BigInt(epochInfo.absoluteSlot),
+      blockHeight: BigInt(epochInfo.blockHeight),
+      slotIndex: BigInt(epochInfo.slotIndex),
+      transactionCount: BigInt(epochInfo.transactionCount),
+      epochProgress: (epochInfo.slotIndex / epochInfo.slotsInEpoch) * 100,
+    }
+
+    await tx.epochSnapshot.upsert({
       where: { epoch: epochInfo.epoch },
+      update: progress,
+      create: { ...progress, epoch: epochInfo.epoch, slotsInEpoch: BigInt(epochInfo.slotsInEpoch) },
     })
-
-    if (existing) {
-      // Update existing epoch snapshot
-      await prisma.epochSnapshot.update({
-        where: { epoch: epochInfo.epoch },
-        data: {
-          absoluteSlot: BigInt(epochInfo.absoluteSlot),
-          blockHeight: BigInt(epochInfo.blockHeight),
-          slotIndex: BigInt(epochInfo.slotIndex),
-          transactionCount: BigInt(epochInfo.transactionCount),
-          epochProgress: (epochInfo.slotIndex / epochInfo.slotsInEpoch) * 100,
-        },
-      })
-    } else {
-      // Create new epoch snapshot
-      await prisma.epochSnapshot.create({
-        data: {
-          epoch: epochInfo.epoch,
-          absoluteSlot: BigInt(epochInfo.absoluteSlot),
-          blockHeight: BigInt(epochInfo.blockHeight),
-          slotIndex: BigInt(epochInfo.slotIndex),
-          slotsInEpoch: BigInt(epochInfo.slotsInEpoch),
-          transactionCount: BigInt(epochInfo.transactionCount),
-          epochProgress: (epochInfo.slotIndex / epochInfo.slotsInEpoch) * 100,
-        },
-      })
-    }
   }
 
   /**
-   * Store performance samples
+   * Store performance samples not already recorded (samples overlap between cycles)
    */
-  private async storePerformanceSamples(samples: PerformanceSample[]): Promise<void> {
-    for (const sample of samples) {
-      // Check if we already have this sample (by slot)
-      const existing = await prisma.performanceSample.findFirst({
-        where: { slot: BigInt(sample.slot) },
-      })
-
-      if (!existing) {
-        const tps = sample.numTransactions / sample.samplePeriodSecs
-        const nonVoteTps = sample.numNonVoteTransactions / sample.samplePeriodSecs
-        const slotTime = (sample.samplePeriodSecs * 1000) / sample.numSlots // ms per slot
-
-        await prisma.performanceSample.create({
-          data: {
-            slot: BigInt(sample.slot),
-            numSlots: sample.numSlots,
-            numTransactions: sample.numTransactions,
-            numNonVoteTransactions: sample.numNonVoteTransactions,
-            samplePeriodSecs: sample.samplePeriodSecs,
-            tps,
-            nonVoteTps,
-            slotTime,
-          },
-        })
-      }
+  private async storePerformanceSamples(tx: Prisma.TransactionClient, samples: PerformanceSample[]): Promise<number> {
+    const existing = await tx.performanceSample.findMany({
+      where: { slot: { in: samples.map((sample) => BigInt(sample.slot)) } },
+      select: { slot: true },
+    })
+    const storedSlots = new Set(existing.map((row) => row.slot.toString()))
+
+    const data = samples
+      .filter((sample) => !storedSlots.has(String(sample.slot)))
+      .map((sample) => ({
+        slot: BigInt(sample.slot),
+        numSlots: sample.numSlots,
+        numTransactions: sample.numTransactions,
+        numNonVoteTransactions: sample.numNonVoteTransactions,
+        samplePeriodSecs: sample.samplePeriodSecs,
+        tps: sample.numTransactions / sample.samplePeriodSecs,
+        nonVoteTps: sample.numNonVoteTransactions / sample.samplePeriodSecs,
+        slotTime: (sample.samplePeriodSecs * 1000) / sample.numSlots, // ms per slot
+      }))
+    if (data.length > 0) {
+      await tx.performanceSample.createMany({ data })
     }
+    return data.length
   }
 
   /**
    * Store economics snapshot
    */
   private async storeEconomicsSnapshot(
+    tx: Prisma.TransactionClient,
     inflation: InflationRate,
     supply: SupplyInfo,
     stakeMinDelegation: number,
@@ -422,7 +760,7 @@ export class IndexerService {
     )
     const stakingParticipation = supply.total > 0 ? (totalStake / supply.total) * 100 : 0
 
-    await prisma.economicsSnapshot.create({
+    await tx.economicsSnapshot.create({
       data: {
         totalSupply: BigInt(supply.total),
         circulatingSupply: BigInt(supply.circulating),
@@ -439,173 +777,186 @@ export class IndexerService {
   }
 
   /**
-   * Detect and log network events (status changes, etc.)
+   * Load pNode states from the database so event detection survives restarts, serverless
+   * cold starts and cycles run by other replicas. The last cycle's snapshot set gives the
+   * previous status and score; nodes outside it that already have a row (firstSeen) are
+   * returning rather than new.
    */
-  private async detectEvents(pnodes: PNode[]): Promise<void> {
-    for (const pnode of pnodes) {
-      const lastState = this.lastPNodeStates.get(pnode.id)
-
-      if (!lastState) {
-        // New pNode detected
-        await this.logEvent({
-          type: 'NODE_ONLINE',
-          severity: 'SUCCESS',
-          title: 'New pNode Detected',
-          description: `pNode ${this.truncateId(pnode.id)} has joined the network`,
-          pnodePubkey: pnode.id,
-          metadata: { version: pnode.version, location: pnode.location },
-        })
-        continue
-      }
-
-      // Status change detection
-      if (lastState.status !== pnode.status) {
-        const eventType = this.getStatusEventType(pnode.status)
-        const severity = this.getStatusSeverity(pnode.status)
-
-        await this.logEvent({
-          type: eventType,
-          severity,
-          title: `pNode Status Changed to ${pnode.status.toUpperCase()}`,
-          description: `pNode ${this.truncateId(pnode.id)} changed from ${lastState.status} to ${pnode.status}`,
-          pnodePubkey: pnode.id,
-          metadata: { previousStatus: lastState.status, newStatus: pnode.status },
-        })
-      }
+  private async loadPreviousStates(pnodes: PNode[]): Promise<PreviousStates> {
+    const lastCycle = new Map<string, PNodeState>()
 
-      // Performance degradation detection (>10% drop)
-      const perfDelta = lastState.performanceScore - pnode.performanceScore
-      if (perfDelta > 10) {
-        await this.logEvent({
-          type: 'PERFORMANCE_DEGRADATION',
-          severity: 'WARNING',
-          title: 'Performance Degradation Detected',
-          description: `pNode ${this.truncateId(pnode.id)} performance dropped by ${perfDelta} points`,
-          pnodePubkey: pnode.id,
-          metadata: {
-            previousScore: lastState.performanceScore,
-            newScore: pnode.performanceScore,
-          },
-        })
-      } else if (perfDelta < -10) {
-        await this.logEvent({
-          type: 'PERFORMANCE_IMPROVEMENT',
-          severity: 'SUCCESS',
-          title: 'Performance Improvement',
-          description: `pNode ${this.truncateId(pnode.id)} performance improved by ${Math.abs(perfDelta)} points`,
-          pnodePubkey: pnode.id,
-          metadata: {
-            previousScore: lastState.performanceScore,
-            newScore: pnode.performanceScore,
-          },
-        })
+    const newest = await prisma.pNodeSnapshot.findFirst({
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true },
+    })
+    if (newest) {
+      const snapshots = await prisma.pNodeSnapshot.findMany({
+        where: { timestamp: { gte: new Date(newest.timestamp.getTime() - SNAPSHOT_SET_WINDOW_MS) } },
+        // Oldest first, so a node's latest snapshot wins
+        orderBy: { timestamp: 'asc' },
+        select: { status: true, performanceScore: true, pnode: { select: { pubkey: true } } },
+      })
+      for (const snapshot of snapshots) {
+        lastCycle.set(snapshot.pnode.pubkey, { status: snapshot.status, performanceScore: snapshot.performanceScore })
       }
     }
 
-    // Check for lost pNodes
-    const currentIds = new Set(pnodes.map((p) => p.id))
-    for (const [id] of this.lastPNodeStates) {
-      if (!currentIds.has(id)) {
-        await this.logEvent({
-          type: 'NODE_OFFLINE',
-          severity: 'WARNING',
-          title: 'pNode Left Network',
-          description: `pNode ${this.truncateId(id)} is no longer visible in gossip`,
-          pnodePubkey: id,
-        })
-      }
+    const absent = pnodes.map((p) => p.id).filter((pubkey) => !lastCycle.has(pubkey))
+    const known =
+      absent.length > 0
+        ? await prisma.pNode.findMany({
+            where: { pubkey: { in: absent } },
+            select: { pubkey: true, firstSeen: true },
+          })
+        : []
+
+    return {
+      lastCycle,
+      returning: new Map(known.map((row) => [row.pubkey, { firstSeen: row.firstSeen }])),
     }
   }
 
   /**
-   * Detect anomalies in network metrics
+   * Detect anomalies in network metrics against the last 24 hours of snapshots
    */
-  private async detectAnomalies(pnodes: PNode[], stats: NetworkStats): Promise<void> {
-    // Get historical averages (last 24 hours)
-    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000)
-
-    const historicalSnapshots = await prisma.networkSnapshot.findMany({
-      where: { timestamp: { gte: oneDayAgo } },
+  private async detectAnomalies(stats: NetworkStats): Promise<ReturnType<typeof detectNetworkAnomalies>> {
+    const history = await prisma.networkSnapshot.findMany({
+      where: { timestamp: { gte: new Date(Date.now() - ANOMALY_HISTORY_MS) } },
       orderBy: { timestamp: 'desc' },
-      take: 100,
+      take: ANOMALY_HISTORY_SAMPLES,
+      select: { totalPNodes: true, healthScore: true },
     })
+    return detectNetworkAnomalies(stats, history)
+  }
 
-    if (historicalSnapshots.length < 10) {
-      // Not enough data for meaningful anomaly detection
-      return
-    }
+  // ===== RUN LEDGER =====
 
-    // Calculate averages and standard deviations
-    const avgPNodes = historicalSnapshots.reduce((sum, s) => sum + s.totalPNodes, 0) / historicalSnapshots.length
-    const stdDevPNodes = this.calculateStdDev(
-      historicalSnapshots.map((s) => s.totalPNodes),
-      avgPNodes,
-    )
-
-    const avgHealth = historicalSnapshots.reduce((sum, s) => sum + s.healthScore, 0) / historicalSnapshots.length
-    const stdDevHealth = this.calculateStdDev(
-      historicalSnapshots.map((s) => s.healthScore),
-      avgHealth,
-    )
+  /**
+   * Record the start of a cycle. Ledger writes never fail the cycle: if the row can't
+   * be created (e.g. the database is down) the cycle just goes unrecorded.
+   */
+  private async startRun(startedAt: Date): Promise<string | null> {
+    try {
+      const run = await prisma.indexerRun.create({ data: { startedAt, status: 'running' } })
+      return run.id
+    } catch (error) {
+      console.warn('[Indexer] Failed to record run start:', error)
+      return null
+    }
+  }
 
-    const threshold = parseFloat(process.env.ANOMALY_THRESHOLD_STDDEV || '2.5')
+  private async finishRun(
+    runId: string | null,
+    startTime: number,
+    run: {
+      status: IndexerRunStatus
+      sources: IndexerSources
+      rowCounts: IndexerRowCounts
+      timings: IndexerPhaseTimings
+      error?: string
+    },
+  ): Promise<void> {
+    const finishedAt = new Date()
+    // Counted for /api/metrics even when the ledger row couldn't be created
+    getIndexerMetrics().recordCycle(run.status, finishedAt.getTime() - startTime, run.sources)
+    if (!runId) return
 
-    // Check for pNode count anomaly
-    const pnodeDeviation = Math.abs(stats.totalPNodes - avgPNodes) / (stdDevPNodes || 1)
-    if (pnodeDeviation > threshold) {
-      await prisma.anomaly.create({
+    try {
+      await prisma.indexerRun.update({
+        where: { id: runId },
         data: {
-          metric: 'totalPNodes',
-          expectedValue: avgPNodes,
-          actualValue: stats.totalPNodes,
-          deviation: pnodeDeviation,
-          description: `Unusual pNode count: expected ~${Math.round(avgPNodes)}, got ${stats.totalPNodes}`,
+          status: run.status,
+          sources: run.sources as Prisma.InputJsonObject,
+          rowCounts: run.rowCounts,
+          timings: run.timings,
+          error: run.error,
+          finishedAt,
+          durationMs: finishedAt.getTime() - startTime,
         },
       })
+    } catch (error) {
+      console.warn('[Indexer] Failed to record run result:', error)
+    }
+  }
 
-      await this.logEvent({
-        type: 'ANOMALY_DETECTED',
-        severity: pnodeDeviation > threshold * 2 ? 'CRITICAL' : 'WARNING',
-        title: 'Unusual pNode Count',
-        description: `Network has ${stats.totalPNodes} pNodes (expected ~${Math.round(avgPNodes)})`,
-        metadata: { expected: avgPNodes, actual: stats.totalPNodes, deviation: pnodeDeviation },
-      })
+  /**
+   * Freshness of the indexed data, read from the run ledger (so it reflects cycles run
+   * by any process, e.g. the cron route)
+   */
+  async getStatus(now: Date = new Date()): Promise<IndexerStatus> {
+    const [recentRuns, lastSuccessfulRun] = await Promise.all([
+      prisma.indexerRun.findMany({ orderBy: { startedAt: 'desc' }, take: STATUS_RECENT_RUNS }),
+      prisma.indexerRun.findFirst({
+        where: { status: { in: ['success', 'partial'] } },
+        orderBy: { startedAt: 'desc' },
+      }),
+    ])
+
+    return buildIndexerStatus(recentRuns.map(toIndexerRun), lastSuccessfulRun && toIndexerRun(lastSuccessfulRun), {
+      now,
+      staleAfterMs: getStaleAfterMs(),
+    })
+  }
+
+  /**
+   * Evaluate all enabled alert rules and persist triggered alerts.
+   * Failures are logged but don't fail the indexing cycle.
+   */
+  private async evaluateAlerts(pnodes: PNode[]): Promise<void> {
+    try {
+      await getAlertService().checkAlerts(pnodes)
+    } catch (error) {
+      console.error('[Indexer] Alert evaluation failed:', error)
     }
+  }
 
-    // Check for health score anomaly
-    const healthDeviation = Math.abs(stats.healthScore - avgHealth) / (stdDevHealth || 1)
-    if (healthDeviation > threshold && stats.healthScore < avgHealth) {
-      await prisma.anomaly.create({
-        data: {
-          metric: 'healthScore',
-          expectedValue: avgHealth,
-          actualValue: stats.healthScore,
-          deviation: healthDeviation,
-          description: `Network health below expected: ${stats.healthScore}% vs expected ~${Math.round(avgHealth)}%`,
-        },
-      })
+  /**
+   * Store the cycle's anomalies and events, queuing the events for live subscribers
+   */
+  private async storeEvents(
+    tx: Prisma.TransactionClient,
+    events: DetectedEvent[],
+    anomalies: Prisma.AnomalyCreateManyInput[],
+    pnodeIds: Map<string, string>,
+    now: Date,
+  ): Promise<void> {
+    // Stamped with the cycle time, like the snapshots they were derived from, so a replay
+    // of the same snapshots (ReplayService) lines up with them
+    if (anomalies.length > 0) {
+      await tx.anomaly.createMany({ data: anomalies.map((anomaly) => ({ ...anomaly, timestamp: now })) })
+    }
+    if (events.length === 0) return
 
-      await this.logEvent({
-        type: 'ANOMALY_DETECTED',
-        severity: 'WARNING',
-        title: 'Network Health Anomaly',
-        description: `Health score is ${stats.healthScore}% (expected ~${Math.round(avgHealth)}%)`,
-        metadata: { expected: avgHealth, actual: stats.healthScore, deviation: healthDeviation },
+    const rows = await tx.networkEvent.createManyAndReturn({
+      data: events.map((event) => ({
+        timestamp: now,
+        type: event.type,
+        severity: event.severity,
+        title: event.title,
+        description: event.description,
+        pnodeId: event.pnodePubkey ? pnodeIds.get(event.pnodePubkey) : undefined,
+        metadata: (event.metadata || {}) as Prisma.InputJsonValue,
+      })),
+    })
+
+    // Rows come back in insertion order
+    rows.forEach((row, i) => {
+      this.cycleEvents.push({
+        id: row.id,
+        timestamp: row.timestamp.toISOString(),
+        type: row.type,
+        severity: row.severity,
+        title: row.title,
+        description: row.description,
+        pnodeId: events[i].pnodePubkey,
       })
-    }
+    })
   }
 
   /**
-   * Log a network event
+   * Log a single network event outside the cycle's transaction (used for cycle failures)
    */
-  private async logEvent(event: {
-    type: EventType
-    severity: Severity
-    title: string
-    description?: string
-    pnodePubkey?: string
-    metadata?: Record<string, unknown>
-  }): Promise<void> {
+  private async logEvent(event: DetectedEvent): Promise<void> {
     let pnodeId: string | undefined
 
     if (event.pnodePubkey) {
@@ -615,67 +966,64 @@ export class IndexerService {
       pnodeId = pnode?.id
     }
 
-    await prisma.networkEvent.create({
+    const row = await prisma.networkEvent.create({
       data: {
         type: event.type,
         severity: event.severity,
         title: event.title,
         description: event.description,
         pnodeId,
-        metadata: event.metadata || {},
+        metadata: (event.metadata || {}) as Prisma.InputJsonValue,
       },
     })
+
+    this.cycleEvents.push({
+      id: row.id,
+      timestamp: row.timestamp.toISOString(),
+      type: row.type,
+      severity: row.severity,
+      title: row.title,
+      description: row.description,
+      pnodeId: event.pnodePubkey,
+    })
   }
 
   /**
-   * Update cached last states for comparison
+   * Publish the cycle's pNode/network diff and events to live subscribers.
+   * Failures are logged but don't fail the indexing cycle.
    */
-  private updateLastStates(pnodes: PNode[]): void {
-    this.lastPNodeStates.clear()
-    for (const pnode of pnodes) {
-      this.lastPNodeStates.set(pnode.id, {
-        status: pnode.status,
-        performanceScore: pnode.performanceScore,
-      })
+  private publishLiveUpdate(pnodes: PNode[], networkStats: NetworkStats): void {
+    try {
+      const update = getLiveUpdatesService().publishCycle(pnodes, networkStats, this.cycleEvents)
+      console.log(
+        `[Indexer] Live update #${update.sequence}: ${update.added.length} added, ${update.changed.length} changed, ${update.removed.length} removed`,
+      )
+    } catch (error) {
+      console.error('[Indexer] Live update publish failed:', error)
     }
   }
 
-  // Helper methods
-  private truncateId(id: string): string {
-    return id.length > 12 ? `${id.slice(0, 6)}...${id.slice(-4)}` : id
-  }
-
-  private getStatusEventType(status: string): EventType {
-    switch (status) {
-      case 'online':
-        return 'NODE_ONLINE'
-      case 'offline':
-        return 'NODE_OFFLINE'
-      case 'delinquent':
-        return 'NODE_DELINQUENT'
-      default:
-        return 'NODE_OFFLINE'
+  /**
+   * Run snapshot rollups and pruning if due. Failures are logged but don't fail the
+   * indexing cycle; the next hour's run picks up where this one stopped.
+   */
+  private async runRetention(): Promise<void> {
+    try {
+      await getRetentionService().runIfDue()
+    } catch (error) {
+      console.error('[Indexer] Retention run failed:', error)
     }
   }
 
-  private getStatusSeverity(status: string): Severity {
-    switch (status) {
-      case 'online':
-        return 'SUCCESS'
-      case 'offline':
-        return 'CRITICAL'
-      case 'delinquent':
-        return 'WARNING'
-      default:
-        return 'INFO'
-    }
+  // Helper methods
+  private formatTimings(timings: IndexerPhaseTimings): string {
+    return Object.entries(timings)
+      .map(([phase, ms]) => `${phase}=${ms}ms`)
+      .join(', ')
   }
 
-  private calculateStdDev(values: number[], mean: number): number {
-    if (values.length === 0) return 0
-    const squareDiffs = values.map((value) => Math.pow(value - mean, 2))
-    const avgSquareDiff = squareDiffs.reduce((sum, val) => sum + val, 0) / values.length
-    return Math.sqrt(avgSquareDiff)
+  private ipOf(pnode: PNode): string {
+    return pnode.gossipEndpoint.split(':')[0]
   }
 }
 
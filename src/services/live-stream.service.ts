@@ -0,0 +1,134 @@
+import type { LiveUpdate } from '@/lib/live-updates'
+
+export type LiveConnectionStatus = 'connecting' | 'connected' | 'disconnected'
+
+export type LiveStreamListener = {
+  update: (update: LiveUpdate) => void
+  /** Updates were missed; cached data should be refetched */
+  resync: () => void
+  status: (status: LiveConnectionStatus) => void
+}
+
+/**
+ * LiveStreamService - browser client for the /api/live Server-Sent Events stream.
+ *
+ * The EventSource is opened when the first listener subscribes and closed when the
+ * last one leaves. EventSource reconnects by itself; a gap in update sequence numbers
+ * (including updates missed while reconnecting) is reported as a `resync` so hooks
+ * can refetch instead of patching stale data.
+ */
+export class LiveStreamService {
+  private source: EventSource | null = null
+  private status: LiveConnectionStatus = 'disconnected'
+  private lastSequence: number | null = null
+  private lastMessageAt: Date | null = null
+  private listeners: { [K in keyof LiveStreamListener]: Set<LiveStreamListener[K]> } = {
+    update: new Set(),
+    resync: new Set(),
+    status: new Set(),
+  }
+
+  constructor(private url: string) {}
+
+  /**
+   * Listen for stream events; returns the unsubscribe function
+   */
+  subscribe<K extends keyof LiveStreamListener>(event: K, listener: LiveStreamListener[K]): () => void {
+    this.listeners[event].add(listener)
+    this.connect()
+    return () => {
+      this.listeners[event].delete(listener)
+      if (this.getListenerCount() === 0) this.disconnect()
+    }
+  }
+
+  getConnectionStatus(): LiveConnectionStatus {
+    return this.status
+  }
+
+  /** When the last message (hello or update) arrived */
+  getLastMessageAt(): Date | null {
+    return this.lastMessageAt
+  }
+
+  private connect(): void {
+    if (this.source || typeof EventSource === 'undefined') return
+
+    this.setStatus('connecting')
+    const source = new EventSource(this.url)
+    this.source = source
+
+    source.addEventListener('hello', (event) => {
+      const { sequence } = JSON.parse((event as MessageEvent).data) as { sequence: number }
+      // Reconnected after missing updates (or the server restarted)
+      const missed = this.lastSequence !== null && sequence !== this.lastSequence
+      this.lastSequence = sequence
+      this.lastMessageAt = new Date()
+      this.setStatus('connected')
+      if (missed) this.emit('resync')
+    })
+
+    source.addEventListener('update', (event) => {
+      let update: LiveUpdate
+      try {
+        update = JSON.parse((event as MessageEvent).data)
+      } catch (error) {
+        console.error('[Live] Failed to parse update:', error)
+        return
+      }
+
+      const missed = this.lastSequence !== null && update.sequence !== this.lastSequence + 1
+      this.lastSequence = update.sequence
+      this.lastMessageAt = new Date()
+      if (missed) {
+        this.emit('resync')
+      } else {
+        this.emit('update', update)
+      }
+    })
+
+    source.onerror = () => {
+      // CONNECTING means the browser is retrying; CLOSED means it gave up
+      this.setStatus(source.readyState === EventSource.CLOSED ? 'disconnected' : 'connecting')
+      if (source.readyState === EventSource.CLOSED) this.source = null
+    }
+  }
+
+  private disconnect(): void {
+    this.source?.close()
+    this.source = null
+    this.lastSequence = null
+    this.setStatus('disconnected')
+  }
+
+  private setStatus(status: LiveConnectionStatus): void {
+    if (this.status === status) return
+    this.status = status
+    this.emit('status', status)
+  }
+
+  private emit<K extends keyof LiveStreamListener>(event: K, ...args: Parameters<LiveStreamListener[K]>): void {
+    this.listeners[event].forEach((listener) => {
+      const callback = listener as (...params: typeof args) => void
+      try {
+        callback(...args)
+      } catch (error) {
+        console.error('[Live] Error in listener:', error)
+      }
+    })
+  }
+
+  private getListenerCount(): number {
+    return this.listeners.update.size + this.listeners.resync.size + this.listeners.status.size
+  }
+}
+
+// Singleton instance
+let liveStreamService: LiveStreamService | null = null
+
+export function getLiveStreamService(): LiveStreamService {
+  if (!liveStreamService) {
+    liveStreamService = new LiveStreamService('/api/live')
+  }
+  return liveStreamService
+}
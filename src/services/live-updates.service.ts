@@ -0,0 +1,82 @@
+import type { NetworkStats, PNode } from '@/types/pnode'
+import { diffFields, diffPNodes, hasRealChanges } from '@/lib/live-updates'
+import type { LiveEvent, LiveUpdate } from '@/lib/live-updates'
+
+export type LiveUpdateListener = (update: LiveUpdate) => void
+
+/**
+ * LiveUpdatesService - in-process publisher for the /api/live SSE stream.
+ *
+ * The indexer publishes the fresh pNode list and network stats after each cycle; the
+ * service diffs them against the previous cycle and fans the diff out to every open
+ * stream. The first cycle after startup has no baseline, so every pNode is "added".
+ *
+ * Subscribers only receive updates published by the same server process, so the
+ * indexer (cron route or `start()`) must run in the process serving /api/live.
+ */
+export class LiveUpdatesService {
+  private listeners = new Set<LiveUpdateListener>()
+  private sequence = 0
+  private lastPNodes: PNode[] = []
+  private lastNetworkStats: NetworkStats | null = null
+
+  /**
+   * Diff a cycle's results against the previous cycle and push them to subscribers
+   */
+  publishCycle(pnodes: PNode[], networkStats: NetworkStats, events: LiveEvent[] = []): LiveUpdate {
+    const networkChanges = this.lastNetworkStats ? diffFields(this.lastNetworkStats, networkStats) : networkStats
+    const networkChanged = !this.lastNetworkStats || hasRealChanges(this.lastNetworkStats, networkStats, networkChanges)
+    const update: LiveUpdate = {
+      ...diffPNodes(this.lastPNodes, pnodes),
+      sequence: ++this.sequence,
+      timestamp: Date.now(),
+      networkStats: networkChanged ? networkChanges : null,
+      events,
+    }
+
+    this.lastPNodes = pnodes
+    this.lastNetworkStats = networkStats
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(update)
+      } catch (error) {
+        console.error('[Live] Error in update listener:', error)
+      }
+    })
+
+    return update
+  }
+
+  /**
+   * Register a listener; returns the unsubscribe function
+   */
+  subscribe(listener: LiveUpdateListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /** Sequence number of the last published update (0 before the first cycle) */
+  getSequence(): number {
+    return this.sequence
+  }
+
+  getSubscriberCount(): number {
+    return this.listeners.size
+  }
+}
+
+// Singleton kept on globalThis so route handlers and the indexer share one instance
+// (Next.js can load a module more than once, e.g. across dev-mode reloads)
+declare global {
+  var liveUpdatesService: LiveUpdatesService | undefined
+}
+
+export function getLiveUpdatesService(): LiveUpdatesService {
+  if (!globalThis.liveUpdatesService) {
+    globalThis.liveUpdatesService = new LiveUpdatesService()
+  }
+  return globalThis.liveUpdatesService
+}
@@ -0,0 +1,224 @@
+import { prisma } from '@/lib/prisma'
+import { SNAPSHOT_SET_WINDOW_MS } from '@/lib/event-detection'
+import { counter, formatMetrics, gauge } from '@/lib/prometheus'
+import type { MetricFamily } from '@/lib/prometheus'
+import { getIndexerMetrics } from '@/lib/indexer-metrics'
+import { indexerService } from './indexer.service'
+import type { PNodeStatus } from '@/types/pnode'
+
+const PNODE_STATUSES: PNodeStatus[] = ['online', 'offline', 'delinquent']
+
+/** Parts of a scrape that read the database; each is reported (and can fail) on its own */
+type MetricsSection = 'network' | 'pnodes' | 'indexer'
+
+/**
+ * MetricsService - renders /api/metrics in the Prometheus text format.
+ *
+ * Fleet gauges come from the latest NetworkSnapshot row and the latest pNode snapshot set,
+ * so every replica reports the same values; indexer freshness comes from the run ledger.
+ * Cycle counters and durations are this process's own (see IndexerMetrics). A section whose
+ * query fails is left out and reported by `opue_metrics_section_up`, so a database outage
+ * still leaves the in-process counters scrapeable.
+ */
+export class MetricsService {
+  async collect(now: Date = new Date()): Promise<string> {
+    const sections: [MetricsSection, () => Promise<MetricFamily[]>][] = [
+      ['network', () => this.collectNetwork()],
+      ['pnodes', () => this.collectPNodes()],
+      ['indexer', () => this.collectIndexerStatus(now)],
+    ]
+    const results = await Promise.allSettled(sections.map(([, collect]) => collect()))
+
+    const families: MetricFamily[] = []
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') families.push(...result.value)
+      else console.error(`[Metrics] Failed to collect ${sections[i][0]} metrics:`, result.reason)
+    })
+    families.push(...getIndexerMetrics().collect())
+    families.push(
+      gauge(
+        'opue_metrics_section_up',
+        'Whether the section of this scrape could be read from the database',
+        sections.map(([section], i) => ({ labels: { section }, value: results[i].status === 'fulfilled' ? 1 : 0 })),
+      ),
+    )
+    return formatMetrics(families)
+  }
+
+  /**
+   * Every numeric field of the latest network snapshot, plus its version and location breakdowns
+   */
+  private async collectNetwork(): Promise<MetricFamily[]> {
+    const snapshot = await prisma.networkSnapshot.findFirst({ orderBy: { timestamp: 'desc' } })
+    if (!snapshot) return []
+
+    const single = (name: string, help: string, value: number | bigint | null) =>
+      gauge(`opue_network_${name}`, help, [{ value }])
+    const distribution = (name: string, help: string, label: string, value: unknown) =>
+      gauge(
+        `opue_network_${name}`,
+        help,
+        Object.entries(isRecord(value) ? value : {}).map(([key, count]) => ({
+          labels: { [label]: key },
+          value: typeof count === 'number' ? count : null,
+        })),
+      )
+
+    return [
+      single('snapshot_timestamp_seconds', 'Time of the latest network snapshot', snapshot.timestamp.getTime() / 1000),
+      single('pnodes', 'pNodes in the network', snapshot.totalPNodes),
+      single('pnodes_online', 'Online pNodes', snapshot.onlinePNodes),
+      single('pnodes_offline', 'Offline pNodes', snapshot.offlinePNodes),
+      single('pnodes_delinquent', 'Delinquent pNodes', snapshot.delinquentPNodes),
+      single('capacity_bytes', 'Total pNode storage capacity', snapshot.totalCapacityBytes),
+      single('used_bytes', 'Total pNode storage used', snapshot.totalUsedBytes),
+      single('utilization_percent', 'Storage used as a percentage of capacity', snapshot.networkUtilization),
+      single('health_score', 'Network health score (0-100)', snapshot.healthScore),
+      single('average_performance_score', 'Average pNode performance score (0-100)', snapshot.averagePerformance),
+      single('average_latency_milliseconds', 'Average pNode latency', snapshot.averageLatency),
+      single('validators', 'Validators', snapshot.totalValidators),
+      single('validators_active', 'Active validators', snapshot.activeValidators),
+      single('validators_delinquent', 'Delinquent validators', snapshot.delinquentValidators),
+      single('validator_average_commission_percent', 'Average validator commission', snapshot.averageCommission),
+      single('stake_lamports', 'Total activated stake', snapshot.totalStake),
+      single('block_height', 'Block height', snapshot.blockHeight),
+      single('epoch', 'Current epoch', snapshot.currentEpoch),
+      single('slot', 'Current slot', snapshot.currentSlot),
+      single('transactions', 'Total network transactions', snapshot.transactionCount),
+      single('tps', 'Transactions per second', snapshot.currentTps),
+      single('non_vote_tps', 'Non-vote transactions per second', snapshot.nonVoteTps),
+      distribution('pnodes_by_version', 'pNodes per software version', 'version', snapshot.versionDistribution),
+      distribution('pnodes_by_location', 'pNodes per location', 'location', snapshot.geoDistribution),
+    ]
+  }
+
+  /**
+   * Per-pNode series from the latest snapshot set, labelled by pubkey only so a version
+   * upgrade or relocation doesn't start new series; version and location are on
+   * `opue_pnode_info`, for joins
+   */
+  private async collectPNodes(): Promise<MetricFamily[]> {
+    const newest = await prisma.pNodeSnapshot.findFirst({
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true },
+    })
+    if (!newest) return []
+
+    const snapshots = await prisma.pNodeSnapshot.findMany({
+      where: { timestamp: { gte: new Date(newest.timestamp.getTime() - SNAPSHOT_SET_WINDOW_MS) } },
+      // Oldest first, so a node's latest snapshot wins
+      orderBy: { timestamp: 'asc' },
+      include: { pnode: { select: { pubkey: true, version: true, location: true } } },
+    })
+    const latest = [...new Map(snapshots.map((snapshot) => [snapshot.pnode.pubkey, snapshot])).values()]
+
+    const perNode = (
+      name: string,
+      help: string,
+      value: (snapshot: (typeof snapshots)[number]) => number | bigint | null,
+      family = gauge,
+    ) =>
+      family(
+        `opue_pnode_${name}`,
+        help,
+        latest.map((snapshot) => ({ labels: { pubkey: snapshot.pnode.pubkey }, value: value(snapshot) })),
+      )
+
+    return [
+      gauge('opue_pnode_snapshot_timestamp_seconds', 'Time of the latest pNode snapshot set', [
+        { value: newest.timestamp.getTime() / 1000 },
+      ]),
+      gauge(
+        'opue_pnode_info',
+        'pNode software version and location (always 1)',
+        latest.map((snapshot) => ({
+          labels: {
+            pubkey: snapshot.pnode.pubkey,
+            version: snapshot.pnode.version,
+            location: snapshot.pnode.location || 'Unknown',
+          },
+          value: 1,
+        })),
+      ),
+      gauge(
+        'opue_pnode_status',
+        'pNode status: 1 for the current status, 0 for the others',
+        latest.flatMap((snapshot) =>
+          PNODE_STATUSES.map((status) => ({
+            labels: { pubkey: snapshot.pnode.pubkey, status },
+            value: snapshot.status === status ? 1 : 0,
+          })),
+        ),
+      ),
+      perNode('performance_score', 'Performance score (0-100)', (s) => s.performanceScore),
+      perNode('capacity_bytes', 'Storage capacity', (s) => s.capacityBytes),
+      perNode('used_bytes', 'Storage used', (s) => s.usedBytes),
+      perNode('utilization_percent', 'Storage used as a percentage of capacity', (s) => s.utilization),
+      perNode('uptime_percent', 'Uptime percentage', (s) => s.uptime),
+      perNode('uptime_seconds', 'Uptime reported by pnRPC', (s) => s.uptimeSeconds),
+      perNode('latency_milliseconds', 'Average latency', (s) => s.averageLatency),
+      perNode('cpu_percent', 'CPU usage', (s) => s.cpuPercent),
+      perNode('ram_used_bytes', 'RAM used', (s) => s.ramUsed),
+      perNode('ram_total_bytes', 'Total RAM', (s) => s.ramTotal),
+      perNode('active_streams', 'Active network connections', (s) => s.activeStreams),
+      perNode('packets_received_total', 'Packets received since the pNode started', (s) => s.packetsReceived, counter),
+      perNode('packets_sent_total', 'Packets sent since the pNode started', (s) => s.packetsSent, counter),
+    ]
+  }
+
+  /**
+   * Freshness of indexed data from the run ledger (cycles run by any process)
+   */
+  private async collectIndexerStatus(now: Date): Promise<MetricFamily[]> {
+    const status = await indexerService.getStatus(now)
+    // While a cycle is in progress, report the last one that wrote data
+    const lastRun = status.lastRun?.status === 'running' ? status.lastSuccessfulRun : status.lastRun
+    const successAt = status.lastSuccessfulRun?.finishedAt ?? status.lastSuccessfulRun?.startedAt
+
+    return [
+      gauge('opue_indexer_running', 'Whether an indexer cycle is in progress', [{ value: status.running ? 1 : 0 }]),
+      gauge('opue_indexer_stale', 'Whether indexed data is older than INDEXER_STALE_AFTER_MINUTES', [
+        { value: status.freshness === 'stale' ? 1 : 0 },
+      ]),
+      gauge('opue_indexer_staleness_seconds', 'Time since the last successful indexer cycle finished', [
+        { value: status.stalenessMs === null ? null : status.stalenessMs / 1000 },
+      ]),
+      gauge('opue_indexer_last_success_timestamp_seconds', 'Time the last successful indexer cycle finished', [
+        { value: successAt ? new Date(successAt).getTime() / 1000 : null },
+      ]),
+      gauge('opue_indexer_consecutive_failures', 'Failed indexer cycles since the last successful one', [
+        { value: status.consecutiveFailures },
+      ]),
+      gauge('opue_indexer_last_cycle_duration_seconds', 'Duration of the last finished indexer cycle', [
+        { value: typeof lastRun?.durationMs === 'number' ? lastRun.durationMs / 1000 : null },
+      ]),
+      gauge(
+        'opue_indexer_last_cycle_phase_duration_seconds',
+        'Duration of each phase of the last finished indexer cycle',
+        Object.entries(lastRun?.timings ?? {}).map(([phase, ms]) => ({ labels: { phase }, value: ms / 1000 })),
+      ),
+      gauge(
+        'opue_indexer_source_up',
+        'Whether each upstream source succeeded in the last finished indexer cycle',
+        Object.entries(lastRun?.sources ?? {}).map(([source, result]) => ({
+          labels: { source },
+          value: result.ok ? 1 : 0,
+        })),
+      ),
+    ]
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Singleton instance
+let metricsService: MetricsService | null = null
+
+export function getMetricsService(): MetricsService {
+  if (!metricsService) {
+    metricsService = new MetricsService()
+  }
+  return metricsService
+}
@@ -0,0 +1,385 @@
+import crypto from 'crypto'
+import net from 'net'
+import nodemailer from 'nodemailer'
+import type { Transporter } from 'nodemailer'
+import type { Alert, AlertRule } from '@/types/alerts'
+import { prisma } from '@/lib/prisma'
+
+export type DeliveryChannel = 'webhook' | 'email'
+
+export type NotificationEvent = 'alert.triggered' | 'alert.escalated'
+
+export interface DeliveryResult {
+  channel: DeliveryChannel
+  target: string
+  success: boolean
+  attempts: number
+  error?: string
+}
+
+/** A delivery handed to enqueue() */
+export interface QueuedNotification {
+  channel: DeliveryChannel
+  target: string
+  alert: Alert
+  rule: AlertRule
+  event: NotificationEvent
+}
+
+interface AttemptOutcome {
+  success: boolean
+  statusCode?: number
+  error?: string
+  /** Whether a failed attempt is worth retrying */
+  retryable: boolean
+}
+
+export interface NotificationServiceOptions {
+  /** Total attempts per delivery, including the first */
+  maxAttempts?: number
+  /** Delay before the first retry; doubles on every further retry */
+  baseDelayMs?: number
+  /** Per-attempt timeout for webhook requests */
+  timeoutMs?: number
+  /** Secret used to sign webhook bodies (HMAC-SHA256) */
+  webhookSecret?: string
+  /** Sender address for alert emails */
+  emailFrom?: string
+  /** Override the SMTP transport (defaults to SMTP_* environment variables) */
+  transporter?: Transporter
+}
+
+/**
+ * Sign a webhook body. Receivers recompute HMAC-SHA256 over `${timestamp}.${body}`
+ * with the shared secret and compare it to the X-Opue-Signature header.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+/** Loopback, private, carrier-grade NAT and link-local ranges webhooks may not target */
+const BLOCKED_WEBHOOK_ADDRESSES = new net.BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+] as const) {
+  BLOCKED_WEBHOOK_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127], // unspecified and loopback
+  ['fc00::', 7],
+  ['fe80::', 10],
+] as const) {
+  BLOCKED_WEBHOOK_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * Check a webhook URL supplied with an alert rule. Only http(s) URLs to public
+ * hosts are allowed, so rules can't be used to reach services on the internal
+ * network. Returns the reason a URL is rejected, or undefined if it's fine.
+ */
+export function webhookUrlError(value: string): string | undefined {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return 'Webhook URL is not a valid URL'
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'Webhook URL must use http or https'
+
+  const host = url.hostname
+    .replace(/^\[|\]$/g, '')
+    .replace(/\.$/, '')
+    .toLowerCase()
+  const family = net.isIP(host)
+  if (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    (family !== 0 && BLOCKED_WEBHOOK_ADDRESSES.check(host, family === 6 ? 'ipv6' : 'ipv4'))
+  ) {
+    return 'Webhook URL must not point at a loopback, private or link-local address'
+  }
+  return undefined
+}
+
+/**
+ * Render the subject and bodies of an alert email
+ */
+export function renderAlertEmail(
+  alert: Alert,
+  rule: AlertRule,
+  event: NotificationEvent = 'alert.triggered',
+): { subject: string; text: string; html: string } {
+  const escalated = event === 'alert.escalated' ? ' [ESCALATED]' : ''
+  const subject = `[Opue] [${alert.severity.toUpperCase()}]${escalated} ${alert.title}`
+  const rows: [string, string][] = [
+    ['Rule', rule.name],
+    ['Severity', alert.severity],
+    ['Type', alert.type],
+    ['Triggered', alert.timestamp.toISOString()],
+  ]
+  if (alert.pnodeId) rows.push(['pNode', alert.pnodeId])
+  if (alert.value !== undefined) rows.push(['Value', String(alert.value)])
+  if (alert.threshold !== undefined) rows.push(['Threshold', String(alert.threshold)])
+
+  const text = [alert.message, '', ...rows.map(([label, value]) => `${label}: ${value}`)].join('\n')
+
+  const escape = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+  const html = [
+    `<h2>${escape(alert.title)}</h2>`,
+    `<p>${escape(alert.message)}</p>`,
+    '<table>',
+    ...rows.map(([label, value]) => `<tr><th align="left">${escape(label)}</th><td>${escape(value)}</td></tr>`),
+    '</table>',
+  ].join('\n')
+
+  return { subject, text, html }
+}
+
+/**
+ * NotificationService - delivers alerts over webhooks and SMTP email
+ *
+ * Every attempt is recorded in AlertDelivery. Failed attempts are retried
+ * with exponential backoff (baseDelayMs, 2x, 4x, ...). Alert evaluation queues
+ * deliveries with enqueue(), so retries never hold up the indexer cycle.
+ */
+export class NotificationService {
+  private maxAttempts: number
+  private baseDelayMs: number
+  private timeoutMs: number
+  private webhookSecret: string
+  private emailFrom: string
+  private transporter: Transporter | null
+  /** Deliveries started by enqueue() that haven't finished */
+  private inFlight = new Set<Promise<void>>()
+
+  constructor(options: NotificationServiceOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? parseInt(process.env.ALERT_DELIVERY_MAX_ATTEMPTS || '4')
+    this.baseDelayMs = options.baseDelayMs ?? parseInt(process.env.ALERT_DELIVERY_BASE_DELAY_MS || '1000')
+    this.timeoutMs = options.timeoutMs ?? 10000
+    this.webhookSecret = options.webhookSecret ?? process.env.ALERT_WEBHOOK_SECRET ?? ''
+    if (!this.webhookSecret) {
+      console.warn('[Notifications] ALERT_WEBHOOK_SECRET is not set; webhooks will be sent unsigned')
+    }
+    this.emailFrom = options.emailFrom ?? process.env.ALERT_EMAIL_FROM ?? 'Opue Alerts <alerts@opue.local>'
+    this.transporter = options.transporter ?? this.createTransporter()
+  }
+
+  /**
+   * Build an SMTP transport from SMTP_* environment variables (null if not configured)
+   */
+  private createTransporter(): Transporter | null {
+    if (!process.env.SMTP_HOST) return null
+
+    return nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    })
+  }
+
+  /**
+   * Start a delivery (with its retries) in the background and return immediately
+   */
+  enqueue(notification: QueuedNotification): void {
+    const { channel, target, alert, rule, event } = notification
+    const send =
+      channel === 'email' ? this.sendEmail(target, alert, rule, event) : this.sendWebhook(target, alert, rule, event)
+    const delivery: Promise<void> = send
+      .then(() => undefined)
+      .catch((error) => console.error(`[Notifications] ${channel} delivery to ${target} failed:`, error))
+      .finally(() => this.inFlight.delete(delivery))
+    this.inFlight.add(delivery)
+  }
+
+  /**
+   * Wait for every queued delivery to finish, e.g. before a serverless function returns
+   */
+  async drain(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(this.inFlight)
+    }
+  }
+
+  /**
+   * POST a JSON payload describing the alert to a webhook URL, signed when a
+   * webhook secret is configured
+   */
+  async sendWebhook(
+    url: string,
+    alert: Alert,
+    rule: AlertRule,
+    event: NotificationEvent = 'alert.triggered',
+  ): Promise<DeliveryResult> {
+    const body = JSON.stringify({
+      event,
+      alert,
+      rule: { id: rule.id, name: rule.name, type: rule.type },
+    })
+
+    return this.deliver('webhook', url, alert.id, async () => {
+      const timestamp = Math.floor(Date.now() / 1000).toString()
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Opue-Alerts/1.0',
+        'X-Opue-Timestamp': timestamp,
+      }
+      if (this.webhookSecret) {
+        headers['X-Opue-Signature'] = signWebhookPayload(this.webhookSecret, timestamp, body)
+      }
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        })
+        if (response.ok) {
+          return { success: true, statusCode: response.status, retryable: false }
+        }
+        return {
+          success: false,
+          statusCode: response.status,
+          error: `HTTP ${response.status} ${response.statusText}`,
+          // Client errors won't fix themselves, except rate limiting
+          retryable: response.status >= 500 || response.status === 429,
+        }
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          retryable: true,
+        }
+      }
+    })
+  }
+
+  /**
+   * Send the templated alert email over SMTP
+   */
+  async sendEmail(
+    to: string,
+    alert: Alert,
+    rule: AlertRule,
+    event: NotificationEvent = 'alert.triggered',
+  ): Promise<DeliveryResult> {
+    const transporter = this.transporter
+    if (!transporter) {
+      return this.deliver('email', to, alert.id, async () => ({
+        success: false,
+        error: 'SMTP is not configured (set SMTP_HOST)',
+        retryable: false,
+      }))
+    }
+
+    const { subject, text, html } = renderAlertEmail(alert, rule, event)
+
+    return this.deliver('email', to, alert.id, async () => {
+      try {
+        const info = await transporter.sendMail({ from: this.emailFrom, to, subject, text, html })
+        return { success: true, statusCode: parseInt(String(info.response).slice(0, 3)) || undefined, retryable: false }
+      } catch (error) {
+        const responseCode = (error as { responseCode?: number }).responseCode
+        return {
+          success: false,
+          statusCode: responseCode,
+          error: error instanceof Error ? error.message : String(error),
+          // 5xx SMTP replies are permanent failures
+          retryable: !responseCode || responseCode < 500,
+        }
+      }
+    })
+  }
+
+  /**
+   * Run an attempt function with retries, logging every attempt
+   */
+  private async deliver(
+    channel: DeliveryChannel,
+    target: string,
+    alertId: string,
+    attemptFn: () => Promise<AttemptOutcome>,
+  ): Promise<DeliveryResult> {
+    let outcome: AttemptOutcome = { success: false, retryable: false }
+    let attempt = 0
+
+    while (attempt < this.maxAttempts) {
+      attempt++
+      const startTime = Date.now()
+      outcome = await attemptFn()
+      await this.recordAttempt(channel, target, alertId, attempt, outcome, Date.now() - startTime)
+
+      if (outcome.success || !outcome.retryable) break
+
+      if (attempt < this.maxAttempts) {
+        await new Promise((resolve) => setTimeout(resolve, this.baseDelayMs * Math.pow(2, attempt - 1)))
+      }
+    }
+
+    if (!outcome.success) {
+      console.warn(
+        `[Notifications] ${channel} delivery to ${target} failed after ${attempt} attempt(s):`,
+        outcome.error,
+      )
+    }
+
+    return { channel, target, success: outcome.success, attempts: attempt, error: outcome.error }
+  }
+
+  /**
+   * Persist one delivery attempt. Logging failures never break delivery.
+   */
+  private async recordAttempt(
+    channel: DeliveryChannel,
+    target: string,
+    alertId: string,
+    attempt: number,
+    outcome: AttemptOutcome,
+    durationMs: number,
+  ): Promise<void> {
+    try {
+      await prisma.alertDelivery.create({
+        data: {
+          alertId,
+          channel,
+          target,
+          attempt,
+          success: outcome.success,
+          statusCode: outcome.statusCode ?? null,
+          error: outcome.error ?? null,
+          durationMs,
+        },
+      })
+    } catch (error) {
+      console.error('[Notifications] Failed to record delivery attempt:', error)
+    }
+  }
+
+  /**
+   * Get delivery attempts for an alert, oldest first
+   */
+  async getDeliveries(alertId: string) {
+    return prisma.alertDelivery.findMany({
+      where: { alertId },
+      orderBy: { timestamp: 'asc' },
+    })
+  }
+}
+
+// Singleton instance
+let notificationService: NotificationService | null = null
+
+export function getNotificationService(): NotificationService {
+  if (!notificationService) {
+    notificationService = new NotificationService()
+  }
+  return notificationService
+}
@@ -1,8 +1,20 @@
 import { Connection } from '@solana/web3.js'
 import http from 'http'
-import type { PNode, PNodeDetails, NetworkStats, PNodeStatus, PerformanceMetrics, StorageMetrics, NetworkMetrics } from '@/types/pnode'
-import { getLocationForIP, lookupGeoIP } from './geoip.service'
+import type { PNode, PNodeDetails, PNodeGeo, PNodeHistoryOptions, TimeSeriesData, NetworkStats, PNodeStatus, PerformanceMetrics, StorageMetrics, NetworkMetrics } from '@/types/pnode'
+import { getLocationForIP } from './geoip.service'
 import { prisma } from '@/lib/prisma'
+import { buildVersionRegistry } from '@/lib/versions'
+import {
+  BUCKET_MS,
+  DAY_MS,
+  HISTORY_RANGES,
+  bucketStart,
+  downsample,
+  resolveHistoryOptions,
+  selectHistoryTier,
+} from '@/lib/time-series'
+import { getRetentionConfig } from './retention.service'
+import { getProberService } from './prober.service'
 
 /**
  * Pod response types from our API (transformed from Xandeum getClusterNodes)
@@ -256,12 +268,35 @@ const PNRPC_SEED_NODES = [
 // pnRPC port for get-pods-with-stats, get-stats, etc.
 const PNRPC_PORT = 6000
 
+/** PNodeSnapshot metrics behind the detail history series */
+const HISTORY_METRICS = ['performanceScore', 'utilization', 'uptime'] as const
+type HistoryMetric = (typeof HISTORY_METRICS)[number]
+
+/** How long request handlers reuse the fleet snapshot before refetching it themselves */
+const FLEET_SNAPSHOT_MAX_AGE_MS = 60000
+
+/**
+ * Last full pNode list, refreshed by the indexer each cycle (or on demand once stale)
+ */
+interface FleetSnapshot {
+  pnodes: PNode[]
+  updatedAt: number
+}
+
+// Kept on globalThis so the indexer and route handlers share one snapshot
+// (Next.js can load a module more than once, e.g. across dev-mode reloads)
+declare global {
+  var pnodeFleetSnapshot: FleetSnapshot | undefined
+}
+
 /**
  * Service for interacting with Xandeum pRPC endpoints
  */
 export class PNodeService {
   private connection: Connection
   private rpcUrl: string
+  /** In-flight refresh, so concurrent requests share one seed node fetch */
+  private fleetRefresh: Promise<PNode[]> | null = null
 
   constructor(rpcUrl?: string) {
     this.rpcUrl = rpcUrl || process.env.NEXT_PUBLIC_XANDEUM_RPC_URL || 'https://apis.devnet.xandeum.com'
@@ -449,32 +484,15 @@ export class PNodeService {
     const maxUptimeSeconds = 30 * 24 * 60 * 60  // 30 days
     const uptimePercentage = Math.min((pod.uptime / maxUptimeSeconds) * 100, 100)
 
-    // Real performance data
-    const performance: PerformanceMetrics = {
-      averageLatency: 25,  // We don't have latency data, use reasonable default
-      successRate: status === 'online' ? 99.5 : 0,
-      uptime: uptimePercentage,
-      uptimeSeconds: pod.uptime,
-      lastUpdated: now,
-      isEstimated: false  // Uptime is REAL data
-    }
+    const nodeId = pod.pubkey || `${ip}:${port}`
+    const prober = getProberService()
 
-    const performanceScore = this.calculatePerformanceScore(performance, storage)
-
-    // Get real location from GeoIP (server-side only)
-    let location = 'Unknown'
-    if (!this.isBrowser()) {
-      try {
-        location = await getLocationForIP(ip)
-      } catch {
-        location = this.estimateLocationFromIP(ip)
-      }
-    }
-
-    // Optionally fetch network metrics (CPU, RAM, packets) for online nodes
+    // Optionally probe online nodes: times a get-stats call (feeding the latency window)
+    // and uses its result for network metrics (CPU, RAM, packets). Always on the pnRPC
+    // port; gossip's rpc_port is the validator JSON-RPC port
     let networkMetrics: NetworkMetrics | undefined
     if (fetchNetworkMetrics && status === 'online' && !this.isBrowser()) {
-      const stats = await this.fetchPnRPCStats(ip)
+      const { result: stats } = await prober.probe<PnRPCNodeStats>(nodeId, ip, PNRPC_PORT)
       if (stats) {
         networkMetrics = {
           activeStreams: stats.active_streams,
@@ -487,15 +505,34 @@ export class PNodeService {
       }
     }
 
+    // Latency and success rate measured by the prober over its rolling window;
+    // estimates only until a node has been probed
+    const probeStats = this.isBrowser() ? null : prober.getStats(nodeId)
+    const performance: PerformanceMetrics = {
+      averageLatency: probeStats ? probeStats.averageLatency : 25,
+      successRate: status === 'offline' ? 0 : probeStats ? probeStats.successRate : 99.5,
+      uptime: uptimePercentage,
+      uptimeSeconds: pod.uptime,
+      latencyP50: probeStats?.latencyP50,
+      latencyP95: probeStats?.latencyP95,
+      latencyP99: probeStats?.latencyP99,
+      probeSamples: probeStats?.samples,
+      probeFailures: probeStats?.failures,
+      lastUpdated: now,
+      isEstimated: !probeStats
+    }
+
+    const performanceScore = this.calculatePerformanceScore(performance, storage)
+
     return {
-      id: pod.pubkey || `${ip}:${port}`,
+      id: nodeId,
       status,
       storage,
       performanceScore,
       performance,
       networkMetrics,
       version: pod.version || 'unknown',
-      location,
+      location: 'Unknown', // Replaced by the stored geo record in fetchAllPNodes
       lastSeen: new Date(),  // pods-with-stats returns live data
       isPublic: pod.is_public,
       pnrpcPort: pod.rpc_port,
@@ -831,12 +868,12 @@ export class PNodeService {
           pnodes.push(...batchResults)
         }
         console.log(`[pnRPC] Successfully transformed ${pnodes.length} pNodes with network metrics`)
-        return pnodes
+        return this.applyVersionInfo(await this.applyStoredGeo(pnodes))
       } else {
         // Fast path without network metrics
         const pnodes = await Promise.all(podsWithStats.map((pod) => this.transformPodWithStatsToPNode(pod, false)))
         console.log(`[pnRPC] Successfully transformed ${pnodes.length} pNodes with real data`)
-        return pnodes
+        return this.applyVersionInfo(await this.applyStoredGeo(pnodes))
       }
     } catch (error) {
       console.error('[pnRPC] Failed to fetch pNodes from all seed nodes:', error)
@@ -848,50 +885,189 @@ export class PNodeService {
   }
 
   /**
-   * Fetch detailed information for a specific pNode
+   * Fleet snapshot for request handlers: the pNode list from the last indexer cycle, or a
+   * fresh fetchAllPNodes() when the snapshot is missing or older than FLEET_SNAPSHOT_MAX_AGE_MS
    */
-  async fetchPNodeDetails(pnodeId: string): Promise<PNodeDetails> {
-    const pnodes = await this.fetchAllPNodes()
-    const pnode = pnodes.find((p) => p.id === pnodeId)
+  async getFleetSnapshot(): Promise<PNode[]> {
+    const snapshot = globalThis.pnodeFleetSnapshot
+    if (snapshot && Date.now() - snapshot.updatedAt < FLEET_SNAPSHOT_MAX_AGE_MS) {
+      return snapshot.pnodes
+    }
 
-    if (!pnode) {
-      throw new Error(`pNode not found: ${pnodeId}`)
+    if (!this.fleetRefresh) {
+      this.fleetRefresh = this.fetchAllPNodes()
+        .then((pnodes) => {
+          this.setFleetSnapshot(pnodes)
+          return pnodes
+        })
+        .finally(() => {
+          this.fleetRefresh = null
+        })
     }
+    return this.fleetRefresh
+  }
 
-    const ip = pnode.gossipEndpoint.split(':')[0] || '0.0.0.0'
-    const port = parseInt(pnode.gossipEndpoint.split(':')[1] || '9001')
+  /**
+   * Replace the fleet snapshot (called by the indexer with each cycle's enriched pNodes)
+   */
+  setFleetSnapshot(pnodes: PNode[]): void {
+    globalThis.pnodeFleetSnapshot = { pnodes, updatedAt: Date.now() }
+  }
 
-    // Get full geo data for network info
-    let geoData = {
-      country: '',
-      countryCode: '',
-      city: '',
-      region: '',
-      org: '',
-      as: '',
-      lat: 0,
-      lon: 0,
+  /** When the fleet snapshot was last refreshed, or null if there is none yet */
+  getFleetSnapshotAge(): number | null {
+    const snapshot = globalThis.pnodeFleetSnapshot
+    return snapshot ? Date.now() - snapshot.updatedAt : null
+  }
+
+  /**
+   * Fetch one pNode without refetching the fleet: its entry in the fleet snapshot,
+   * refreshed with a live get-stats call to the node itself when it is public. The fleet
+   * is only refetched (once, shared with other requests) when the snapshot is missing or
+   * stale, so a node that joined since the last refresh is found then rather than 404ing.
+   */
+  async fetchPNode(pnodeId: string): Promise<PNode | null> {
+    const pnode = (await this.getFleetSnapshot()).find((p) => p.id === pnodeId)
+    if (!pnode || this.isBrowser() || !pnode.isPublic || pnode.status === 'offline') return pnode ?? null
+
+    const ip = pnode.gossipEndpoint.split(':')[0]
+    const prober = getProberService()
+    const { result: stats } = await prober.probe<PnRPCNodeStats>(pnode.id, ip, PNRPC_PORT)
+    const probeStats = prober.getStats(pnode.id)
+
+    const performance: PerformanceMetrics = probeStats
+      ? {
+          ...pnode.performance,
+          averageLatency: probeStats.averageLatency,
+          successRate: probeStats.successRate,
+          latencyP50: probeStats.latencyP50,
+          latencyP95: probeStats.latencyP95,
+          latencyP99: probeStats.latencyP99,
+          probeSamples: probeStats.samples,
+          probeFailures: probeStats.failures,
+          isEstimated: false,
+        }
+      : { ...pnode.performance }
+    if (!stats) {
+      return { ...pnode, performance }
     }
 
-    // Only do GeoIP lookup on server-side
-    if (!this.isBrowser()) {
-      try {
-        const geo = await lookupGeoIP(ip)
-        geoData = {
-          country: geo.country,
-          countryCode: geo.countryCode,
-          city: geo.city,
-          region: geo.region,
-          org: geo.org || geo.isp,
-          as: geo.as,
-          lat: geo.lat,
-          lon: geo.lon,
+    const maxUptimeSeconds = 30 * 24 * 60 * 60 // Same 30-day reference as transformPodWithStatsToPNode
+    performance.uptimeSeconds = stats.uptime
+    performance.uptime = Math.min((stats.uptime / maxUptimeSeconds) * 100, 100)
+    performance.lastUpdated = Date.now()
+
+    return {
+      ...pnode,
+      performance,
+      performanceScore: this.calculatePerformanceScore(
+        performance,
+        pnode.storage,
+        pnode.versionInfo ? pnode.versionInfo.versionsBehind : null,
+      ),
+      networkMetrics: {
+        activeStreams: stats.active_streams,
+        packetsReceived: stats.packets_received,
+        packetsSent: stats.packets_sent,
+        cpuPercent: stats.cpu_percent,
+        ramUsed: stats.ram_used,
+        ramTotal: stats.ram_total,
+      },
+      lastSeen: new Date(),
+    }
+  }
+
+  /**
+   * Attach the geo/ASN records the indexer stored for each node. A record resolved for a
+   * different IP is ignored until the indexer refreshes it.
+   */
+  private async applyStoredGeo(pnodes: PNode[]): Promise<PNode[]> {
+    if (this.isBrowser() || pnodes.length === 0) return pnodes
+
+    try {
+      const rows = await prisma.pNode.findMany({
+        where: { pubkey: { in: pnodes.map((p) => p.id) }, geoUpdatedAt: { not: null } },
+        select: {
+          pubkey: true,
+          ipAddress: true,
+          location: true,
+          country: true,
+          countryCode: true,
+          region: true,
+          city: true,
+          latitude: true,
+          longitude: true,
+          asn: true,
+          datacenter: true,
+        },
+      })
+      const byPubkey = new Map(rows.map((row) => [row.pubkey, row]))
+
+      return pnodes.map((pnode) => {
+        const row = byPubkey.get(pnode.id)
+        if (!row || row.ipAddress !== pnode.gossipEndpoint.split(':')[0]) return pnode
+        const geo: PNodeGeo = {
+          country: row.country ?? '',
+          countryCode: row.countryCode ?? '',
+          region: row.region ?? '',
+          city: row.city ?? '',
+          latitude: row.latitude ?? 0,
+          longitude: row.longitude ?? 0,
+          asn: row.asn ?? '',
+          datacenter: row.datacenter ?? '',
         }
-      } catch {
-        // Keep defaults if GeoIP fails
+        return { ...pnode, location: row.location ?? pnode.location, geo }
+      })
+    } catch (error) {
+      console.warn('[GeoIP] Failed to load stored geo records:', error)
+      return pnodes
+    }
+  }
+
+  /**
+   * Compare every pNode's version against the latest release (PNODE_TARGET_VERSION, or the
+   * newest stable version at least PNODE_LATEST_MIN_SHARE of the fleet runs) and re-score
+   * the version component accordingly
+   */
+  private applyVersionInfo(pnodes: PNode[]): PNode[] {
+    const registry = buildVersionRegistry(
+      pnodes.map((p) => p.version),
+      {
+        target: process.env.PNODE_TARGET_VERSION || undefined,
+        minShare: process.env.PNODE_LATEST_MIN_SHARE ? parseFloat(process.env.PNODE_LATEST_MIN_SHARE) : undefined,
+      },
+    )
+
+    return pnodes.map((pnode) => {
+      const versionInfo = registry.getInfo(pnode.version) ?? undefined
+      return {
+        ...pnode,
+        versionInfo,
+        performanceScore: this.calculatePerformanceScore(
+          pnode.performance,
+          pnode.storage,
+          versionInfo ? versionInfo.versionsBehind : null,
+        ),
       }
+    })
+  }
+
+  /**
+   * Fetch detailed information for a specific pNode, with history from its indexer snapshots
+   */
+  async fetchPNodeDetails(pnodeId: string, historyOptions: PNodeHistoryOptions = {}): Promise<PNodeDetails> {
+    const pnode = await this.fetchPNode(pnodeId)
+
+    if (!pnode) {
+      throw new Error(`pNode not found: ${pnodeId}`)
     }
 
+    const ip = pnode.gossipEndpoint.split(':')[0] || '0.0.0.0'
+    const port = parseInt(pnode.gossipEndpoint.split(':')[1] || '9001')
+
+    // Geo/ASN record stored by the indexer (see applyStoredGeo)
+    const geo = pnode.geo
+
     // Enhance with additional details from the real data
     return {
       ...pnode,
@@ -899,29 +1075,96 @@ export class PNodeService {
         ip,
         port,
         tpu: pnode.tpuEndpoint,
-        region: geoData.region || pnode.location,
-        asn: geoData.as,
-        datacenter: geoData.org,
-        country: geoData.country,
-        countryCode: geoData.countryCode,
-        city: geoData.city,
-        org: geoData.org,
-        lat: geoData.lat,
-        lon: geoData.lon,
-      },
-      history: {
-        performanceScores: [],
-        storageUtilization: [],
-        uptimeHistory: [],
+        region: geo?.region || pnode.location,
+        asn: geo?.asn ?? '',
+        datacenter: geo?.datacenter ?? '',
+        country: geo?.country ?? '',
+        countryCode: geo?.countryCode ?? '',
+        city: geo?.city ?? '',
+        org: geo?.datacenter ?? '',
+        lat: geo?.latitude ?? 0,
+        lon: geo?.longitude ?? 0,
       },
+      history: await this.fetchPNodeHistory(pnodeId, historyOptions),
+    }
+  }
+
+  /**
+   * Build performance, utilization and uptime series, averaged into the requested resolution.
+   * Windows within raw retention are read from PNodeSnapshot rows; longer ones from the
+   * matching rollup tier, with raw snapshots filling in buckets not rolled up yet.
+   * Empty when the node has no data (or no database).
+   */
+  private async fetchPNodeHistory(pnodeId: string, options: PNodeHistoryOptions): Promise<PNodeDetails['history']> {
+    const { range, resolution } = resolveHistoryOptions(options)
+    const history: PNodeDetails['history'] = {
+      performanceScores: [],
+      storageUtilization: [],
+      uptimeHistory: [],
+      range,
+      resolution,
     }
+    if (this.isBrowser()) return history
+
+    try {
+      const start = Date.now() - HISTORY_RANGES[range]
+      const tier = selectHistoryTier(start, resolution, getRetentionConfig().rawDays * DAY_MS)
+      const series: Record<HistoryMetric, TimeSeriesData[]> = { performanceScore: [], utilization: [], uptime: [] }
+
+      let rawFrom = start
+      if (tier !== 'raw') {
+        const rollups = await prisma.pNodeRollup.findMany({
+          where: {
+            pnode: { pubkey: pnodeId },
+            resolution: tier,
+            bucketStart: { gte: new Date(bucketStart(start, tier)) },
+            metric: { in: [...HISTORY_METRICS] },
+          },
+          select: { bucketStart: true, metric: true, avg: true },
+          orderBy: { bucketStart: 'asc' },
+        })
+        for (const rollup of rollups) {
+          series[rollup.metric as HistoryMetric].push({
+            timestamp: rollup.bucketStart.getTime(),
+            value: Math.round(rollup.avg * 100) / 100,
+          })
+        }
+        if (rollups.length > 0) rawFrom = rollups[rollups.length - 1].bucketStart.getTime() + BUCKET_MS[tier]
+      }
+
+      const snapshots = await prisma.pNodeSnapshot.findMany({
+        where: {
+          pnode: { pubkey: pnodeId },
+          timestamp: { gte: new Date(rawFrom) },
+        },
+        select: { timestamp: true, performanceScore: true, utilization: true, uptime: true },
+        orderBy: { timestamp: 'asc' },
+      })
+      for (const metric of HISTORY_METRICS) {
+        series[metric].push(
+          ...downsample(
+            snapshots.map((snapshot) => ({ timestamp: snapshot.timestamp.getTime(), value: snapshot[metric] })),
+            resolution,
+          ),
+        )
+      }
+
+      history.performanceScores = series.performanceScore
+      history.storageUtilization = series.utilization
+      history.uptimeHistory = series.uptime
+    } catch (error) {
+      console.warn(`[pNode] Failed to load history for ${pnodeId}:`, error)
+    }
+
+    return history
   }
 
   /**
    * Fetch network-wide statistics
+   * @param fleet pNodes to summarise (defaults to the fleet snapshot)
    */
-  async fetchNetworkStats(): Promise<NetworkStats> {
-    const pnodes = await this.fetchAllPNodes()
+  async fetchNetworkStats(fleet?: PNode[]): Promise<NetworkStats> {
+    const pnodes = fleet ?? (await this.getFleetSnapshot())
 
     const onlinePNodes = pnodes.filter((p) => p.status === 'online').length
     const offlinePNodes = pnodes.filter((p) => p.status === 'offline').length
@@ -947,14 +1190,20 @@ export class PNodeService {
 
   /**
    * Calculate performance score based on various metrics
+   * @param versionsBehind Releases behind the latest version (null if the version is unknown)
    */
-  calculatePerformanceScore(metrics: PerformanceMetrics, storage: StorageMetrics): number {
+  calculatePerformanceScore(
+    metrics: PerformanceMetrics,
+    storage: StorageMetrics,
+    versionsBehind: number | null = 0,
+  ): number {
     // Score components with proper weighting as per PRD
     const uptimeScore = metrics.uptime * 0.3 // 30% - Uptime percentage
     const storageScore = Math.min((storage.capacityBytes / 1024 ** 4) * 20, 20) // 20% - Storage capacity (max at 1TB)
     const responseScore = Math.max((100 - metrics.averageLatency) / 100, 0) * 25 // 25% - Response time (lower latency = higher score)
     const reliabilityScore = metrics.successRate * 0.15 // 15% - Success rate
-    const versionScore = 10 // 10% - Running latest version (simplified)
+    // 10% - Running latest version: -5 per release behind, half credit if the version is unknown
+    const versionScore = versionsBehind === null ? 5 : Math.max(10 - versionsBehind * 5, 0)
 
     const totalScore = uptimeScore + storageScore + responseScore + reliabilityScore + versionScore
 
@@ -1138,7 +1387,7 @@ export class PNodeService {
   async fetchComprehensiveNetworkData() {
     const [pnodes, voteAccounts, epochInfo, performanceSamples, inflationRate, supply, stakeMinDelegation] =
       await Promise.all([
-        this.fetchAllPNodes(),
+        this.getFleetSnapshot(),
         this.fetchVoteAccounts(),
         this.fetchEpochInfo(),
         this.fetchPerformanceSamples(5),
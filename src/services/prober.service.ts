@@ -0,0 +1,201 @@
+import http from 'http'
+import { mean, percentile } from '@/lib/statistics'
+
+const PNRPC_PORT = 6000
+
+export interface ProbeSample {
+  timestamp: number
+  /** Round-trip time of the get-stats call in milliseconds */
+  latencyMs: number
+  success: boolean
+  error?: string
+}
+
+export interface ProbeStats {
+  /** Probes in the rolling window */
+  samples: number
+  /** Failed probes in the rolling window */
+  failures: number
+  /** Percentage of successful probes (0-100) */
+  successRate: number
+  /** Mean latency of successful probes (ms); the probe timeout if none succeeded */
+  averageLatency: number
+  latencyP50: number
+  latencyP95: number
+  latencyP99: number
+}
+
+export interface ProbeResult<T> {
+  sample: ProbeSample
+  /** The JSON-RPC result when the probe succeeded */
+  result: T | null
+}
+
+export interface ProberServiceOptions {
+  /** Rolling window length (default PROBE_WINDOW_MINUTES, 60 minutes) */
+  windowMs?: number
+  /** Samples kept per node regardless of window length */
+  maxSamples?: number
+  /** Per-probe timeout */
+  timeoutMs?: number
+}
+
+/**
+ * ProberService - actively measures pNode responsiveness by timing pnRPC `get-stats` calls.
+ *
+ * Samples are kept per node in a rolling window, from which latency percentiles and
+ * success rates are derived. A non-200 response, invalid JSON, a JSON-RPC error, a
+ * connection error or a timeout all count as failures.
+ */
+export class ProberService {
+  private windows = new Map<string, ProbeSample[]>()
+  private windowMs: number
+  private maxSamples: number
+  private timeoutMs: number
+
+  constructor(options: ProberServiceOptions = {}) {
+    this.windowMs = options.windowMs ?? parseInt(process.env.PROBE_WINDOW_MINUTES || '60') * 60 * 1000
+    this.maxSamples = options.maxSamples ?? 500
+    this.timeoutMs = options.timeoutMs ?? 3000
+  }
+
+  /**
+   * Time a get-stats call against a node and record the sample
+   */
+  async probe<T = unknown>(nodeId: string, host: string, port: number = PNRPC_PORT): Promise<ProbeResult<T>> {
+    const startTime = performance.now()
+    let result: T | null = null
+    let error: string | undefined
+
+    try {
+      result = await this.callGetStats<T>(host, port)
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e)
+    }
+
+    const sample: ProbeSample = {
+      timestamp: Date.now(),
+      latencyMs: performance.now() - startTime,
+      success: !error,
+      error,
+    }
+    this.record(nodeId, sample)
+
+    return { sample, result }
+  }
+
+  /**
+   * Add a sample to a node's window, dropping samples that fell out of it
+   */
+  record(nodeId: string, sample: ProbeSample): void {
+    const cutoff = sample.timestamp - this.windowMs
+    const window = (this.windows.get(nodeId) ?? []).filter((s) => s.timestamp > cutoff)
+    window.push(sample)
+    if (window.length > this.maxSamples) {
+      window.splice(0, window.length - this.maxSamples)
+    }
+    this.windows.set(nodeId, window)
+  }
+
+  /**
+   * Latency percentiles and success rate over a node's rolling window (null if never probed)
+   */
+  getStats(nodeId: string): ProbeStats | null {
+    const cutoff = Date.now() - this.windowMs
+    const window = (this.windows.get(nodeId) ?? []).filter((s) => s.timestamp > cutoff)
+    if (window.length === 0) return null
+
+    const latencies = window.filter((s) => s.success).map((s) => s.latencyMs)
+    const failures = window.length - latencies.length
+    const round = (value: number) => Math.round(value * 100) / 100
+
+    if (latencies.length === 0) {
+      return {
+        samples: window.length,
+        failures,
+        successRate: 0,
+        averageLatency: this.timeoutMs,
+        latencyP50: this.timeoutMs,
+        latencyP95: this.timeoutMs,
+        latencyP99: this.timeoutMs,
+      }
+    }
+
+    return {
+      samples: window.length,
+      failures,
+      successRate: round((latencies.length / window.length) * 100),
+      averageLatency: round(mean(latencies)),
+      latencyP50: round(percentile(latencies, 50)),
+      latencyP95: round(percentile(latencies, 95)),
+      latencyP99: round(percentile(latencies, 99)),
+    }
+  }
+
+  /**
+   * Forget all samples for a node (or every node)
+   */
+  reset(nodeId?: string): void {
+    if (nodeId) this.windows.delete(nodeId)
+    else this.windows.clear()
+  }
+
+  /**
+   * POST a JSON-RPC get-stats request to a node's pnRPC endpoint
+   */
+  private callGetStats<T>(host: string, port: number): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const req = http.request(
+        {
+          hostname: host,
+          port,
+          path: '/rpc',
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          timeout: this.timeoutMs,
+        },
+        (res) => {
+          let data = ''
+          res.on('data', (chunk) => {
+            data += chunk
+          })
+          res.on('end', () => {
+            if (res.statusCode !== 200) {
+              reject(new Error(`HTTP ${res.statusCode}`))
+              return
+            }
+            try {
+              const json = JSON.parse(data)
+              if (json.error) {
+                reject(new Error(`pnRPC error: ${json.error.message}`))
+              } else {
+                resolve(json.result as T)
+              }
+            } catch (e) {
+              reject(new Error(`Failed to parse pnRPC response: ${e}`))
+            }
+          })
+        },
+      )
+
+      req.on('error', (e) => reject(e))
+      req.on('timeout', () => {
+        req.destroy()
+        reject(new Error('pnRPC request timed out'))
+      })
+
+      req.write(JSON.stringify({ jsonrpc: '2.0', method: 'get-stats', params: [], id: 1 }))
+      req.end()
+    })
+  }
+}
+
+// Singleton instance
+let proberService: ProberService | null = null
+
+export function getProberService(): ProberService {
+  if (!proberService) {
+    proberService = new ProberService()
+  }
+  return proberService
+}
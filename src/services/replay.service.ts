@@ -0,0 +1,404 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { Lease } from '@/lib/lease'
+import {
+  ANOMALY_HISTORY_MS,
+  ANOMALY_HISTORY_SAMPLES,
+  SNAPSHOT_SET_WINDOW_MS,
+  detectNetworkAnomalies,
+  detectPNodeEvents,
+} from '@/lib/event-detection'
+import type { DetectedEvent, NetworkSample, ObservedPNode, PNodeState } from '@/lib/event-detection'
+import { DAY_MS } from '@/lib/time-series'
+import { getRetentionService } from './retention.service'
+import type { ReplayChange, ReplayResult, ReplayTableDiff } from '@/types/indexer'
+
+/** Longest range a single replay covers */
+export const MAX_REPLAY_DAYS = 31
+
+/** Snapshots read per query while walking the range */
+const SNAPSHOT_PAGE_SIZE = 5000
+
+/**
+ * A stored row matches a re-derived one this close in time. Events and anomalies are
+ * stamped with their cycle's snapshot time, but older rows took the time they were
+ * written, up to the indexer's write transaction timeout later.
+ */
+const MATCH_WINDOW_MS = 60000
+
+/** Individual changes listed in a result */
+const MAX_LISTED_CHANGES = 200
+
+/** Events the indexer logs that nothing in the snapshots can re-derive (cycle failures) */
+const NOT_REPLAYED_EVENT_TITLES = ['Indexer Error']
+
+/** Metrics of the network-wide anomalies the indexer records */
+const REPLAYED_ANOMALY_METRICS = ['totalPNodes', 'healthScore']
+
+const REPLAY_LEASE_TTL_MS = 2 * 60 * 1000
+
+export interface ReplayOptions {
+  from: Date
+  to: Date
+  /** Work out the changes without writing them */
+  dryRun: boolean
+}
+
+type ReplayedEvent = DetectedEvent & { timestamp: Date }
+type ReplayedAnomaly = Prisma.AnomalyCreateManyInput & { timestamp: Date }
+type KnownPNode = { id: string; pubkey: string; firstSeen: Date; version: string; location: string | null }
+
+type RowDiff<D, S> = { create: D[]; remove: S[]; diff: ReplayTableDiff }
+
+/**
+ * Read a replay request body: `{ from, to?, dryRun? }` with ISO dates, `to` defaulting
+ * to now, covering at most MAX_REPLAY_DAYS
+ */
+export function parseReplayOptions(
+  body: unknown,
+  now: Date = new Date(),
+): { options: ReplayOptions } | { error: string } {
+  const { from, to, dryRun = false } = (body ?? {}) as Record<string, unknown>
+  const fromDate = typeof from === 'string' ? new Date(from) : null
+  const toDate = to === undefined ? now : typeof to === 'string' ? new Date(to) : null
+
+  if (!fromDate || isNaN(fromDate.getTime())) return { error: 'from must be an ISO date' }
+  if (!toDate || isNaN(toDate.getTime())) return { error: 'to must be an ISO date' }
+  if (fromDate >= toDate) return { error: 'from must be before to' }
+  if (toDate.getTime() - fromDate.getTime() > MAX_REPLAY_DAYS * DAY_MS) {
+    return { error: `Range must be at most ${MAX_REPLAY_DAYS} days` }
+  }
+  if (typeof dryRun !== 'boolean') return { error: 'dryRun must be a boolean' }
+
+  return { options: { from: fromDate, to: toDate, dryRun } }
+}
+
+/**
+ * ReplayService - re-derives the indexer's NetworkEvent, Anomaly and rollup rows from
+ * stored snapshots over a date range, e.g. after fixing a detection bug or an outage.
+ *
+ * Events come from walking the PNodeSnapshot sets in order (seeded with the set before
+ * the range) through the same detection the indexer runs each cycle; anomalies from the
+ * NetworkSnapshot history. Re-derived rows are matched against the stored ones and only
+ * the differences are written, so reviewed anomalies and event ids survive and replaying
+ * a range twice changes nothing the second time. Rollup buckets are recomputed and
+ * rewritten only where they differ. A dry run reports the same changes without writing.
+ */
+export class ReplayService {
+  private lease = new Lease('indexer-replay', { ttlMs: REPLAY_LEASE_TTL_MS })
+
+  /**
+   * Replay a range; null if another replay is already running
+   */
+  async replay(options: ReplayOptions): Promise<ReplayResult | null> {
+    const outcome = await this.lease.run(() => this.run(options))
+    return outcome.acquired ? outcome.result : null
+  }
+
+  private async run({ from, to, dryRun }: ReplayOptions): Promise<ReplayResult> {
+    const startTime = Date.now()
+    const pnodes = await prisma.pNode.findMany({
+      select: { id: true, pubkey: true, firstSeen: true, version: true, location: true },
+    })
+    const pnodesById = new Map(pnodes.map((pnode) => [pnode.id, pnode]))
+    const pnodeIds = new Map(pnodes.map((pnode) => [pnode.pubkey, pnode.id]))
+    const pubkeyOf = (pnodeId: string | null | undefined) =>
+      pnodeId ? (pnodesById.get(pnodeId)?.pubkey ?? null) : null
+
+    // Derived from a little before `from`, so stored rows near the start can be matched
+    // to the cycle they came from (diffRows only creates those from `from` on)
+    const derivedFrom = new Date(from.getTime() - MATCH_WINDOW_MS)
+    const { events: pnodeEvents, setTimes } = await this.replayPNodeEvents(derivedFrom, to, pnodesById)
+    const snapshotSets = setTimes.filter((time) => time >= from).length
+    const replayedAnomalies = await this.replayAnomalies(derivedFrom, to)
+    const events = [...pnodeEvents, ...replayedAnomalies.events].sort(
+      (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+    )
+
+    const stored = { gte: from, lte: new Date(to.getTime() + MATCH_WINDOW_MS) }
+    const [storedEvents, storedAnomalies] = await Promise.all([
+      prisma.networkEvent.findMany({
+        where: { timestamp: stored, title: { notIn: NOT_REPLAYED_EVENT_TITLES } },
+        orderBy: { timestamp: 'asc' },
+        select: { id: true, timestamp: true, type: true, title: true, pnodeId: true },
+      }),
+      prisma.anomaly.findMany({
+        where: { timestamp: stored, pnodeId: null, metric: { in: REPLAYED_ANOMALY_METRICS } },
+        orderBy: { timestamp: 'asc' },
+        select: { id: true, timestamp: true, metric: true },
+      }),
+    ])
+
+    const eventDiff = diffRows(
+      events,
+      storedEvents,
+      (event) => `${event.type}|${event.title}|${event.pnodePubkey ? pnodeIds.get(event.pnodePubkey) : ''}`,
+      (event) => `${event.type}|${event.title}|${event.pnodeId ?? ''}`,
+      from,
+      to,
+    )
+    const anomalyDiff = diffRows(
+      replayedAnomalies.anomalies,
+      storedAnomalies,
+      (anomaly) => anomaly.metric,
+      (anomaly) => anomaly.metric,
+      from,
+      to,
+    )
+
+    if (!dryRun) {
+      await prisma.$transaction([
+        prisma.networkEvent.deleteMany({ where: { id: { in: eventDiff.remove.map((event) => event.id) } } }),
+        prisma.networkEvent.createMany({
+          data: eventDiff.create.map((event) => ({
+            timestamp: event.timestamp,
+            type: event.type,
+            severity: event.severity,
+            title: event.title,
+            description: event.description,
+            pnodeId: event.pnodePubkey ? pnodeIds.get(event.pnodePubkey) : undefined,
+            metadata: (event.metadata || {}) as Prisma.InputJsonValue,
+          })),
+        }),
+        prisma.anomaly.deleteMany({ where: { id: { in: anomalyDiff.remove.map((anomaly) => anomaly.id) } } }),
+        prisma.anomaly.createMany({ data: anomalyDiff.create }),
+      ])
+    }
+
+    // Daily rollups carry the day's event counts, so event changes re-roll their days too
+    const retention = getRetentionService()
+    const hourlyRollups = await retention.rebuildHours(from, to, { dryRun })
+    const changedEventTimes = [...eventDiff.create, ...eventDiff.remove].map((event) => event.timestamp)
+    const dailyRollups = await retention.rebuildDays([...hourlyRollups, ...changedEventTimes], { dryRun })
+
+    const changes: ReplayChange[] = [
+      ...eventDiff.create.map((event) => ({
+        action: 'create' as const,
+        table: 'events' as const,
+        timestamp: event.timestamp,
+        title: event.title,
+        pnodePubkey: event.pnodePubkey ?? null,
+      })),
+      ...eventDiff.remove.map((event) => ({
+        action: 'delete' as const,
+        table: 'events' as const,
+        timestamp: event.timestamp,
+        title: event.title,
+        pnodePubkey: pubkeyOf(event.pnodeId),
+      })),
+      ...anomalyDiff.create.map((anomaly) => ({
+        action: 'create' as const,
+        table: 'anomalies' as const,
+        timestamp: anomaly.timestamp,
+        title: anomaly.metric,
+        pnodePubkey: null,
+      })),
+      ...anomalyDiff.remove.map((anomaly) => ({
+        action: 'delete' as const,
+        table: 'anomalies' as const,
+        timestamp: anomaly.timestamp,
+        title: anomaly.metric,
+        pnodePubkey: null,
+      })),
+    ]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .slice(0, MAX_LISTED_CHANGES)
+      .map((change) => ({ ...change, timestamp: change.timestamp.toISOString() }))
+
+    const result: ReplayResult = {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      dryRun,
+      snapshotSets,
+      events: eventDiff.diff,
+      anomalies: anomalyDiff.diff,
+      hourlyRollups: hourlyRollups.map((hour) => hour.toISOString()),
+      dailyRollups: dailyRollups.map((day) => day.toISOString()),
+      changes,
+      durationMs: Date.now() - startTime,
+    }
+    console.log(
+      `[Replay] ${dryRun ? 'Dry run of' : 'Replayed'} ${result.from} - ${result.to} in ${result.durationMs}ms: ${snapshotSets} snapshot sets, events +${eventDiff.diff.created}/-${eventDiff.diff.deleted}, anomalies +${anomalyDiff.diff.created}/-${anomalyDiff.diff.deleted}, ${hourlyRollups.length} hourly and ${dailyRollups.length} daily rollups`,
+    )
+    return result
+  }
+
+  /**
+   * Walk the pNode snapshot sets from `from` to `to` in order, detecting each set's
+   * events against the set before it, stamped with the set's time
+   */
+  private async replayPNodeEvents(
+    from: Date,
+    to: Date,
+    pnodes: Map<string, KnownPNode>,
+  ): Promise<{ events: ReplayedEvent[]; setTimes: Date[] }> {
+    const events: ReplayedEvent[] = []
+    const byPubkey = new Map([...pnodes.values()].map((pnode) => [pnode.pubkey, pnode]))
+    let lastCycle = await this.loadSetBefore(from, pnodes)
+    let set: { first: Date; last: Date; states: Map<string, PNodeState> } | null = null
+    const setTimes: Date[] = []
+
+    const closeSet = () => {
+      if (!set) return
+      const current = set
+      const observed: ObservedPNode[] = [...current.states].map(([pubkey, state]) => {
+        const pnode = byPubkey.get(pubkey)
+        return { id: pubkey, ...state, version: pnode?.version, location: pnode?.location ?? undefined }
+      })
+      // Known before this set (an earlier cycle created their row) but missing from the last one
+      const returning = new Map<string, { firstSeen: Date }>()
+      for (const pnode of pnodes.values()) {
+        if (
+          current.states.has(pnode.pubkey) &&
+          !lastCycle.has(pnode.pubkey) &&
+          pnode.firstSeen.getTime() < current.first.getTime() - SNAPSHOT_SET_WINDOW_MS
+        ) {
+          returning.set(pnode.pubkey, { firstSeen: pnode.firstSeen })
+        }
+      }
+
+      for (const event of detectPNodeEvents(observed, { lastCycle, returning })) {
+        events.push({ ...event, timestamp: current.last })
+      }
+      lastCycle = current.states
+      setTimes.push(current.last)
+      set = null
+    }
+
+    let cursor: string | undefined
+    for (;;) {
+      const page = await prisma.pNodeSnapshot.findMany({
+        where: { timestamp: { gte: from, lte: to } },
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        select: { id: true, timestamp: true, pnodeId: true, status: true, performanceScore: true },
+        take: SNAPSHOT_PAGE_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      })
+
+      for (const snapshot of page) {
+        const pnode = pnodes.get(snapshot.pnodeId)
+        if (!pnode) continue
+        if (set && snapshot.timestamp.getTime() - set.first.getTime() > SNAPSHOT_SET_WINDOW_MS) closeSet()
+        if (!set) set = { first: snapshot.timestamp, last: snapshot.timestamp, states: new Map() }
+        set.states.set(pnode.pubkey, { status: snapshot.status, performanceScore: snapshot.performanceScore })
+        set.last = snapshot.timestamp
+      }
+
+      if (page.length < SNAPSHOT_PAGE_SIZE) break
+      cursor = page[page.length - 1].id
+    }
+    closeSet()
+
+    return { events, setTimes }
+  }
+
+  /**
+   * The last snapshot set before `before`, keyed by pubkey (empty at the start of history)
+   */
+  private async loadSetBefore(before: Date, pnodes: Map<string, KnownPNode>): Promise<Map<string, PNodeState>> {
+    const states = new Map<string, PNodeState>()
+    const newest = await prisma.pNodeSnapshot.findFirst({
+      where: { timestamp: { lt: before } },
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true },
+    })
+    if (!newest) return states
+
+    const snapshots = await prisma.pNodeSnapshot.findMany({
+      where: { timestamp: { gte: new Date(newest.timestamp.getTime() - SNAPSHOT_SET_WINDOW_MS), lt: before } },
+      // Oldest first, so a node's latest snapshot wins
+      orderBy: { timestamp: 'asc' },
+      select: { pnodeId: true, status: true, performanceScore: true },
+    })
+    for (const snapshot of snapshots) {
+      const pnode = pnodes.get(snapshot.pnodeId)
+      if (pnode) states.set(pnode.pubkey, { status: snapshot.status, performanceScore: snapshot.performanceScore })
+    }
+    return states
+  }
+
+  /**
+   * Run anomaly detection for every network snapshot in the range against the history
+   * the indexer would have had at the time (the snapshots before it, newest first)
+   */
+  private async replayAnomalies(
+    from: Date,
+    to: Date,
+  ): Promise<{ anomalies: ReplayedAnomaly[]; events: ReplayedEvent[] }> {
+    const snapshots: (NetworkSample & { timestamp: Date })[] = await prisma.networkSnapshot.findMany({
+      where: { timestamp: { gte: new Date(from.getTime() - ANOMALY_HISTORY_MS), lte: to } },
+      orderBy: { timestamp: 'asc' },
+      select: { timestamp: true, totalPNodes: true, healthScore: true },
+    })
+
+    const anomalies: ReplayedAnomaly[] = []
+    const events: ReplayedEvent[] = []
+    let oldest = 0
+    snapshots.forEach((snapshot, i) => {
+      if (snapshot.timestamp < from) return
+      const timestamp = snapshot.timestamp
+      while (snapshots[oldest].timestamp.getTime() < timestamp.getTime() - ANOMALY_HISTORY_MS) oldest++
+      const history = snapshots.slice(Math.max(oldest, i - ANOMALY_HISTORY_SAMPLES), i).reverse()
+
+      const detected = detectNetworkAnomalies(snapshot, history)
+      anomalies.push(...detected.anomalies.map((anomaly) => ({ ...anomaly, timestamp })))
+      events.push(...detected.events.map((event) => ({ ...event, timestamp })))
+    })
+
+    return { anomalies, events }
+  }
+}
+
+/**
+ * Match re-derived rows to stored ones with the same key, at most MATCH_WINDOW_MS apart.
+ * Unmatched derived rows from `from` on are to be created; unmatched stored rows up to
+ * `to` are to be deleted (later ones belong to cycles after the range).
+ */
+function diffRows<D extends { timestamp: Date }, S extends { id: string; timestamp: Date }>(
+  derived: D[],
+  stored: S[],
+  derivedKey: (row: D) => string,
+  storedKey: (row: S) => string,
+  from: Date,
+  to: Date,
+): RowDiff<D, S> {
+  const unmatched = new Map<string, S[]>()
+  for (const row of stored) {
+    const list = unmatched.get(storedKey(row)) ?? []
+    list.push(row)
+    unmatched.set(storedKey(row), list)
+  }
+
+  const create: D[] = []
+  let inRange = 0
+  let unchanged = 0
+  for (const row of derived) {
+    const candidates = unmatched.get(derivedKey(row)) ?? []
+    const index = candidates.findIndex(
+      (candidate) => Math.abs(candidate.timestamp.getTime() - row.timestamp.getTime()) <= MATCH_WINDOW_MS,
+    )
+    if (index >= 0) candidates.splice(index, 1)
+    if (row.timestamp < from) continue
+
+    inRange++
+    if (index >= 0) unchanged++
+    else create.push(row)
+  }
+
+  const remove = [...unmatched.values()].flat().filter((row) => row.timestamp <= to)
+  return {
+    create,
+    remove,
+    diff: { derived: inRange, unchanged, created: create.length, deleted: remove.length },
+  }
+}
+
+// Singleton instance
+let replayService: ReplayService | null = null
+
+export function getReplayService(): ReplayService {
+  if (!replayService) {
+    replayService = new ReplayService()
+  }
+  return replayService
+}
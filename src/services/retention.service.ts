@@ -0,0 +1,505 @@
+import { prisma } from '@/lib/prisma'
+import { DAY_MS, HOUR_MS, bucketStart, mergeSummaries, summarize } from '@/lib/time-series'
+import type { MetricSummary, RollupResolution } from '@/lib/time-series'
+
+/** PNodeSnapshot metrics kept in PNodeRollup */
+export const PNODE_ROLLUP_METRICS = [
+  'performanceScore',
+  'uptime',
+  'utilization',
+  'averageLatency',
+  'successRate',
+] as const
+
+/** NetworkSnapshot metrics kept in NetworkRollup */
+export const NETWORK_ROLLUP_METRICS = [
+  'totalPNodes',
+  'onlinePNodes',
+  'healthScore',
+  'averagePerformance',
+  'averageLatency',
+  'networkUtilization',
+  'totalCapacityBytes',
+  'totalUsedBytes',
+] as const
+
+export type PNodeRollupMetric = (typeof PNODE_ROLLUP_METRICS)[number]
+export type NetworkRollupMetric = (typeof NETWORK_ROLLUP_METRICS)[number]
+
+/** Hours rolled up per run, so catching up on a long backlog doesn't stall an indexer cycle */
+const MAX_HOURS_PER_RUN = 48
+/** Days examined per run */
+const MAX_DAYS_PER_RUN = 31
+
+export interface RetentionConfig {
+  /** Raw snapshots are pruned after this many days (once rolled up) */
+  rawDays: number
+  /** Hourly rollups are pruned after this many days (once rolled into days) */
+  hourlyDays: number
+  /** Daily rollups are pruned after this many days; 0 keeps them forever */
+  dailyDays: number
+}
+
+export interface RetentionRunResult {
+  hourlyBuckets: number
+  dailyBuckets: number
+  /** Rows deleted per table */
+  pruned: Record<string, number>
+}
+
+export function getRetentionConfig(): RetentionConfig {
+  return {
+    rawDays: parseFloat(process.env.RETENTION_RAW_DAYS || '7'),
+    hourlyDays: parseFloat(process.env.RETENTION_HOURLY_DAYS || '90'),
+    dailyDays: parseFloat(process.env.RETENTION_DAILY_DAYS || '0'),
+  }
+}
+
+type RollupRow = { bucketStart: Date; metric: string } & MetricSummary
+type PNodeRollupRow = RollupRow & { pnodeId: string; resolution: string }
+type NetworkRollupRow = RollupRow & { resolution: string }
+
+export interface RebuildOptions {
+  /** Report the buckets that would be rewritten without writing them */
+  dryRun?: boolean
+}
+
+/**
+ * RetentionService - compacts indexer snapshots into rollup tiers and prunes old rows.
+ *
+ * Each run rolls every completed hour of raw PNodeSnapshot/NetworkSnapshot rows into
+ * hourly rollups (min/avg/max/p95 per metric), every completed day of hourly rollups into
+ * daily rollups plus a DailyAnalytics row, then prunes each tier past its retention. Raw
+ * rows are never pruned before they are rolled up. Buckets are rewritten in full, so
+ * re-running over the same period is safe.
+ */
+export class RetentionService {
+  private lastRunHour: number | null = null
+
+  constructor(private config: RetentionConfig = getRetentionConfig()) {}
+
+  getConfig(): RetentionConfig {
+    return this.config
+  }
+
+  /**
+   * Run at most once per clock hour (called after every indexer cycle)
+   */
+  async runIfDue(now: Date = new Date()): Promise<RetentionRunResult | null> {
+    const hour = bucketStart(now.getTime(), 'hourly')
+    if (this.lastRunHour === hour) return null
+    this.lastRunHour = hour
+    return this.run(now)
+  }
+
+  async run(now: Date = new Date()): Promise<RetentionRunResult> {
+    const hourlyBuckets = await this.rollUpHours(now)
+    const dailyBuckets = await this.rollUpDays()
+    const pruned = await this.prune(now)
+
+    console.log(
+      `[Retention] Rolled up ${hourlyBuckets} hours, ${dailyBuckets} days; pruned ${Object.entries(pruned)
+        .map(([table, count]) => `${table}=${count}`)
+        .join(', ')}`,
+    )
+    return { hourlyBuckets, dailyBuckets, pruned }
+  }
+
+  // ===== HOURLY =====
+
+  private async rollUpHours(now: Date): Promise<number> {
+    const currentHour = bucketStart(now.getTime(), 'hourly')
+    const last = await this.lastBucket('hourly')
+    let next = await this.firstSnapshotHour(last === null ? new Date(0) : new Date(last + HOUR_MS))
+    let rolled = 0
+
+    while (next !== null && next < currentHour && rolled < MAX_HOURS_PER_RUN) {
+      await this.rollUpHour(new Date(next))
+      rolled++
+      next = await this.firstSnapshotHour(new Date(next + HOUR_MS))
+    }
+    return rolled
+  }
+
+  /**
+   * Hour bucket of the first raw snapshot at or after `from`, skipping hours with no data
+   */
+  private async firstSnapshotHour(from: Date): Promise<number | null> {
+    const [pnodeSnapshot, networkSnapshot] = await Promise.all([
+      prisma.pNodeSnapshot.findFirst({
+        where: { timestamp: { gte: from } },
+        orderBy: { timestamp: 'asc' },
+        select: { timestamp: true },
+      }),
+      prisma.networkSnapshot.findFirst({
+        where: { timestamp: { gte: from } },
+        orderBy: { timestamp: 'asc' },
+        select: { timestamp: true },
+      }),
+    ])
+    const timestamps = [pnodeSnapshot?.timestamp, networkSnapshot?.timestamp]
+      .filter((timestamp): timestamp is Date => !!timestamp)
+      .map((timestamp) => timestamp.getTime())
+    return timestamps.length > 0 ? bucketStart(Math.min(...timestamps), 'hourly') : null
+  }
+
+  private async rollUpHour(start: Date): Promise<void> {
+    const { pnodeRows, networkRows } = await this.buildHour(start)
+    await this.replaceBucket('hourly', start, pnodeRows, networkRows)
+  }
+
+  /**
+   * Aggregate an hour of raw snapshots into rollup rows
+   */
+  private async buildHour(start: Date): Promise<{ pnodeRows: PNodeRollupRow[]; networkRows: NetworkRollupRow[] }> {
+    const range = { gte: start, lt: new Date(start.getTime() + HOUR_MS) }
+    const [pnodeSnapshots, networkSnapshots] = await Promise.all([
+      prisma.pNodeSnapshot.findMany({
+        where: { timestamp: range },
+        select: {
+          pnodeId: true,
+          performanceScore: true,
+          uptime: true,
+          utilization: true,
+          averageLatency: true,
+          successRate: true,
+        },
+      }),
+      prisma.networkSnapshot.findMany({
+        where: { timestamp: range },
+        select: {
+          totalPNodes: true,
+          onlinePNodes: true,
+          healthScore: true,
+          averagePerformance: true,
+          averageLatency: true,
+          networkUtilization: true,
+          totalCapacityBytes: true,
+          totalUsedBytes: true,
+        },
+      }),
+    ])
+
+    const byPNode = new Map<string, typeof pnodeSnapshots>()
+    for (const snapshot of pnodeSnapshots) {
+      const list = byPNode.get(snapshot.pnodeId) ?? []
+      list.push(snapshot)
+      byPNode.set(snapshot.pnodeId, list)
+    }
+
+    const pnodeRows = [...byPNode.entries()].flatMap(([pnodeId, snapshots]) =>
+      PNODE_ROLLUP_METRICS.map((metric) => ({
+        pnodeId,
+        resolution: 'hourly',
+        bucketStart: start,
+        metric,
+        ...summarize(snapshots.map((snapshot) => snapshot[metric])),
+      })),
+    )
+    const networkRows =
+      networkSnapshots.length === 0
+        ? []
+        : NETWORK_ROLLUP_METRICS.map((metric) => ({
+            resolution: 'hourly',
+            bucketStart: start,
+            metric,
+            ...summarize(networkSnapshots.map((snapshot) => Number(snapshot[metric]))),
+          }))
+
+    return { pnodeRows, networkRows }
+  }
+
+  // ===== DAILY =====
+
+  private async rollUpDays(): Promise<number> {
+    const lastHour = await this.lastBucket('hourly')
+    if (lastHour === null) return 0
+    const hourlyThrough = lastHour + HOUR_MS
+
+    const lastDay = await this.lastBucket('daily')
+    let next: number
+    if (lastDay !== null) {
+      next = lastDay + DAY_MS
+    } else {
+      const firstHour = await prisma.networkRollup.findFirst({
+        where: { resolution: 'hourly' },
+        orderBy: { bucketStart: 'asc' },
+        select: { bucketStart: true },
+      })
+      next = bucketStart(firstHour!.bucketStart.getTime(), 'daily')
+    }
+
+    let rolled = 0
+    for (let examined = 0; next + DAY_MS <= hourlyThrough && examined < MAX_DAYS_PER_RUN; examined++) {
+      if (await this.rollUpDay(new Date(next))) rolled++
+      next += DAY_MS
+    }
+    return rolled
+  }
+
+  private async rollUpDay(start: Date): Promise<boolean> {
+    const range = { gte: start, lt: new Date(start.getTime() + DAY_MS) }
+    const [pnodeHours, networkHours] = await Promise.all([
+      prisma.pNodeRollup.findMany({ where: { resolution: 'hourly', bucketStart: range } }),
+      prisma.networkRollup.findMany({ where: { resolution: 'hourly', bucketStart: range } }),
+    ])
+    if (pnodeHours.length === 0 && networkHours.length === 0) return false
+
+    const pnodeRows = [...groupBy(pnodeHours, (row) => `${row.pnodeId}|${row.metric}`).values()].map((rows) => ({
+      pnodeId: rows[0].pnodeId,
+      resolution: 'daily',
+      bucketStart: start,
+      metric: rows[0].metric,
+      ...mergeSummaries(rows),
+    }))
+    const networkRows = [...groupBy(networkHours, (row) => row.metric).values()].map((rows) => ({
+      resolution: 'daily',
+      bucketStart: start,
+      metric: rows[0].metric,
+      ...mergeSummaries(rows),
+    }))
+
+    await this.replaceBucket('daily', start, pnodeRows, networkRows)
+    await this.updateDailyAnalytics(start, networkRows, pnodeRows)
+    return true
+  }
+
+  /**
+   * Fill the DailyAnalytics row for a day from its daily rollups, events and pNode churn
+   */
+  private async updateDailyAnalytics(
+    day: Date,
+    networkRows: RollupRow[],
+    pnodeRows: (RollupRow & { pnodeId: string })[],
+  ): Promise<void> {
+    const network = new Map(networkRows.map((row) => [row.metric, row]))
+    const totalPNodes = network.get('totalPNodes')
+    if (!totalPNodes) return
+
+    const range = { gte: day, lt: new Date(day.getTime() + DAY_MS) }
+    const [events, newPNodes, previousDay] = await Promise.all([
+      prisma.networkEvent.groupBy({ by: ['severity'], where: { timestamp: range }, _count: { _all: true } }),
+      prisma.pNode.count({ where: { firstSeen: range } }),
+      prisma.pNodeRollup.findMany({
+        where: { resolution: 'daily', bucketStart: new Date(day.getTime() - DAY_MS), metric: 'uptime' },
+        select: { pnodeId: true },
+      }),
+    ])
+
+    const uptimes = pnodeRows.filter((row) => row.metric === 'uptime')
+    const seenToday = new Set(uptimes.map((row) => row.pnodeId))
+    const eventCount = (severity: string) => events.find((e) => e.severity === severity)?._count._all ?? 0
+    const avg = (metric: NetworkRollupMetric) => network.get(metric)?.avg ?? 0
+
+    const data = {
+      avgPNodes: Math.round(totalPNodes.avg),
+      peakPNodes: Math.round(totalPNodes.max),
+      minPNodes: Math.round(totalPNodes.min),
+      avgHealthScore: avg('healthScore'),
+      avgPerformance: avg('averagePerformance'),
+      avgUptime: uptimes.length > 0 ? uptimes.reduce((sum, row) => sum + row.avg, 0) / uptimes.length : 0,
+      avgCapacity: BigInt(Math.round(avg('totalCapacityBytes'))),
+      avgUsed: BigInt(Math.round(avg('totalUsedBytes'))),
+      avgUtilization: avg('networkUtilization'),
+      totalEvents: events.reduce((sum, e) => sum + e._count._all, 0),
+      criticalEvents: eventCount('CRITICAL'),
+      warningEvents: eventCount('WARNING'),
+      newPNodes,
+      // Seen the day before but not this day
+      lostPNodes: previousDay.filter((row) => !seenToday.has(row.pnodeId)).length,
+    }
+
+    await prisma.dailyAnalytics.upsert({
+      where: { date: day },
+      update: data,
+      create: { date: day, ...data },
+    })
+  }
+
+  // ===== REBUILDS =====
+
+  /**
+   * Recompute the hourly buckets between `from` and `to` from raw snapshots and rewrite
+   * those whose stored rollups differ. Only hours already rolled up are touched, so
+   * regular runs still pick up where they stopped, and only hours after the raw cutoff,
+   * since pruning may have removed part of the hour it falls in.
+   * Returns the bucket starts rewritten (or that would be, with `dryRun`).
+   */
+  async rebuildHours(from: Date, to: Date, options: RebuildOptions = {}, now: Date = new Date()): Promise<Date[]> {
+    const last = await this.lastBucket('hourly')
+    if (last === null) return []
+    const through = Math.min(last, to.getTime())
+    const rawCutoff = now.getTime() - this.config.rawDays * DAY_MS
+    const rebuilt: Date[] = []
+
+    let next = await this.firstSnapshotHour(new Date(Math.max(bucketStart(from.getTime(), 'hourly'), rawCutoff)))
+    while (next !== null && next <= through) {
+      const start = new Date(next)
+      if (next >= rawCutoff) {
+        const { pnodeRows, networkRows } = await this.buildHour(start)
+        if (!(await this.bucketMatches('hourly', start, pnodeRows, networkRows))) {
+          rebuilt.push(start)
+          if (!options.dryRun) await this.replaceBucket('hourly', start, pnodeRows, networkRows)
+        }
+      }
+      next = await this.firstSnapshotHour(new Date(next + HOUR_MS))
+    }
+    return rebuilt
+  }
+
+  /**
+   * Re-roll the days containing `times` from their hourly rollups, refreshing their
+   * DailyAnalytics (whose event counts a replay may have changed). Only days already
+   * rolled up are touched. Returns the day starts rewritten (or that would be, with `dryRun`).
+   */
+  async rebuildDays(times: Date[], options: RebuildOptions = {}): Promise<Date[]> {
+    const last = await this.lastBucket('daily')
+    if (last === null) return []
+    const days = [...new Set(times.map((time) => bucketStart(time.getTime(), 'daily')))]
+      .filter((day) => day <= last)
+      .sort((a, b) => a - b)
+      .map((day) => new Date(day))
+
+    if (!options.dryRun) {
+      for (const day of days) await this.rollUpDay(day)
+    }
+    return days
+  }
+
+  // ===== PRUNING =====
+
+  private async prune(now: Date): Promise<Record<string, number>> {
+    const cutoff = (days: number) => new Date(now.getTime() - days * DAY_MS)
+    const rawCutoff = cutoff(this.config.rawDays)
+    const pruned: Record<string, number> = {}
+
+    // Snapshots with no rollup tier, the indexer's run ledger and API key hourly counters
+    const [validatorSnapshots, economicsSnapshots, indexerRuns, apiKeyUsage] = await Promise.all([
+      prisma.validatorSnapshot.deleteMany({ where: { timestamp: { lt: rawCutoff } } }),
+      prisma.economicsSnapshot.deleteMany({ where: { timestamp: { lt: rawCutoff } } }),
+      prisma.indexerRun.deleteMany({ where: { startedAt: { lt: rawCutoff } } }),
+      prisma.apiKeyUsage.deleteMany({ where: { windowStart: { lt: rawCutoff } } }),
+    ])
+    pruned.validatorSnapshots = validatorSnapshots.count
+    pruned.economicsSnapshots = economicsSnapshots.count
+    pruned.indexerRuns = indexerRuns.count
+    pruned.apiKeyUsage = apiKeyUsage.count
+
+    // Raw pNode/network snapshots, but only hours already rolled up
+    const lastHour = await this.lastBucket('hourly')
+    if (lastHour !== null) {
+      const before = new Date(Math.min(rawCutoff.getTime(), lastHour + HOUR_MS))
+      const [pnodeSnapshots, networkSnapshots] = await Promise.all([
+        prisma.pNodeSnapshot.deleteMany({ where: { timestamp: { lt: before } } }),
+        prisma.networkSnapshot.deleteMany({ where: { timestamp: { lt: before } } }),
+      ])
+      pruned.pnodeSnapshots = pnodeSnapshots.count
+      pruned.networkSnapshots = networkSnapshots.count
+    }
+
+    // Hourly rollups, but only days already rolled up
+    const lastDay = await this.lastBucket('daily')
+    if (lastDay !== null) {
+      const before = new Date(Math.min(cutoff(this.config.hourlyDays).getTime(), lastDay + DAY_MS))
+      pruned.hourlyRollups = await this.deleteRollups('hourly', before)
+    }
+
+    if (this.config.dailyDays > 0) {
+      pruned.dailyRollups = await this.deleteRollups('daily', cutoff(this.config.dailyDays))
+    }
+
+    return pruned
+  }
+
+  // ===== HELPERS =====
+
+  /**
+   * Start of the newest rollup bucket of a resolution (network rollups track progress)
+   */
+  private async lastBucket(resolution: RollupResolution): Promise<number | null> {
+    const last = await prisma.networkRollup.findFirst({
+      where: { resolution },
+      orderBy: { bucketStart: 'desc' },
+      select: { bucketStart: true },
+    })
+    return last ? last.bucketStart.getTime() : null
+  }
+
+  private async replaceBucket(
+    resolution: RollupResolution,
+    start: Date,
+    pnodeRows: PNodeRollupRow[],
+    networkRows: NetworkRollupRow[],
+  ): Promise<void> {
+    await prisma.$transaction([
+      prisma.pNodeRollup.deleteMany({ where: { resolution, bucketStart: start } }),
+      prisma.pNodeRollup.createMany({ data: pnodeRows }),
+      prisma.networkRollup.deleteMany({ where: { resolution, bucketStart: start } }),
+      prisma.networkRollup.createMany({ data: networkRows }),
+    ])
+  }
+
+  /**
+   * Whether a bucket's stored rollups already hold exactly these rows
+   */
+  private async bucketMatches(
+    resolution: RollupResolution,
+    start: Date,
+    pnodeRows: PNodeRollupRow[],
+    networkRows: NetworkRollupRow[],
+  ): Promise<boolean> {
+    const [storedPNodeRows, storedNetworkRows] = await Promise.all([
+      prisma.pNodeRollup.findMany({ where: { resolution, bucketStart: start } }),
+      prisma.networkRollup.findMany({ where: { resolution, bucketStart: start } }),
+    ])
+    return (
+      rowsMatch(pnodeRows, storedPNodeRows, (row) => `${row.pnodeId}|${row.metric}`) &&
+      rowsMatch(networkRows, storedNetworkRows, (row) => row.metric)
+    )
+  }
+
+  private async deleteRollups(resolution: RollupResolution, before: Date): Promise<number> {
+    const [pnodeRollups, networkRollups] = await prisma.$transaction([
+      prisma.pNodeRollup.deleteMany({ where: { resolution, bucketStart: { lt: before } } }),
+      prisma.networkRollup.deleteMany({ where: { resolution, bucketStart: { lt: before } } }),
+    ])
+    return pnodeRollups.count + networkRollups.count
+  }
+}
+
+function rowsMatch<T extends MetricSummary>(rows: T[], stored: T[], key: (row: T) => string): boolean {
+  if (rows.length !== stored.length) return false
+  const byKey = new Map(stored.map((row) => [key(row), row]))
+  return rows.every((row) => {
+    const match = byKey.get(key(row))
+    return !!match && summariesMatch(row, match)
+  })
+}
+
+/** Equal up to float rounding (sums depend on the order rows come back in) */
+function summariesMatch(a: MetricSummary, b: MetricSummary): boolean {
+  const close = (x: number, y: number) => Math.abs(x - y) <= 1e-9 * Math.max(1, Math.abs(x), Math.abs(y))
+  return (
+    a.samples === b.samples && close(a.min, b.min) && close(a.avg, b.avg) && close(a.max, b.max) && close(a.p95, b.p95)
+  )
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const list = groups.get(key(item)) ?? []
+    list.push(item)
+    groups.set(key(item), list)
+  }
+  return groups
+}
+
+// Singleton instance
+let retentionService: RetentionService | null = null
+
+export function getRetentionService(): RetentionService {
+  if (!retentionService) {
+    retentionService = new RetentionService()
+  }
+  return retentionService
+}
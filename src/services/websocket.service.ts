@@ -1,336 +0,0 @@
-import { w3cwebsocket as W3CWebSocket } from 'websocket'
-
-export interface WebSocketMessage {
-  jsonrpc: string
-  method: string
-  params: {
-    result: unknown
-    subscription: number
-  }
-  id?: number
-}
-
-export interface PNodeUpdateEvent {
-  type: 'pnode_update' | 'pnode_added' | 'pnode_removed' | 'network_stats_update'
-  data: Record<string, unknown>
-  timestamp: number
-}
-
-export class WebSocketService {
-  private ws: W3CWebSocket | null = null
-  private reconnectAttempts = 0
-  private maxReconnectAttempts = 3 // Reduced attempts
-  private reconnectDelay = 2000
-  private subscriptions: Map<number, (data: unknown) => void> = new Map()
-  private eventListeners: Map<string, ((event: PNodeUpdateEvent) => void)[]> = new Map()
-  private isConnected = false
-  private heartbeatInterval: NodeJS.Timeout | null = null
-  private simulatedLiveMode = true // Enable simulated live updates via polling
-
-  constructor(private wsUrl: string) {}
-
-  /**
-   * Connect to WebSocket endpoint (with fallback to simulated live mode)
-   */
-  async connect(): Promise<void> {
-    // If WebSocket URL is not configured or we want to use polling, simulate live mode
-    if (!this.wsUrl || this.wsUrl.includes('undefined') || this.simulatedLiveMode) {
-      console.log('[WebSocket] Using simulated live mode (enhanced polling)')
-      this.isConnected = true
-      this.emitEvent({
-        type: 'network_stats_update',
-        data: { status: 'connected', mode: 'simulated' },
-        timestamp: Date.now(),
-      })
-      return Promise.resolve()
-    }
-
-    return new Promise((resolve, reject) => {
-      try {
-        console.log('[WebSocket] Attempting connection to', this.wsUrl)
-        this.ws = new W3CWebSocket(this.wsUrl)
-
-        const connectionTimeout = setTimeout(() => {
-          console.log('[WebSocket] Connection timeout, falling back to simulated live mode')
-          this.ws?.close()
-          this.isConnected = true
-          this.emitEvent({
-            type: 'network_stats_update',
-            data: { status: 'connected', mode: 'simulated' },
-            timestamp: Date.now(),
-          })
-          resolve()
-        }, 5000)
-
-        this.ws.onopen = () => {
-          clearTimeout(connectionTimeout)
-          console.log('[WebSocket] Connected successfully')
-          this.isConnected = true
-          this.reconnectAttempts = 0
-          this.startHeartbeat()
-          this.emitEvent({
-            type: 'network_stats_update',
-            data: { status: 'connected', mode: 'websocket' },
-            timestamp: Date.now(),
-          })
-          resolve()
-        }
-
-        this.ws.onmessage = (message) => {
-          try {
-            const data: WebSocketMessage = JSON.parse(message.data.toString())
-            this.handleMessage(data)
-          } catch (error) {
-            console.error('[WebSocket] Failed to parse message:', error)
-          }
-        }
-
-        this.ws.onclose = (event) => {
-          clearTimeout(connectionTimeout)
-          console.log('[WebSocket] Disconnected:', event.code, event.reason)
-          this.isConnected = false
-          this.stopHeartbeat()
-          this.emitEvent({ type: 'network_stats_update', data: { status: 'disconnected' }, timestamp: Date.now() })
-
-          // Fallback to simulated live mode
-          if (event.code !== 1000) {
-            console.log('[WebSocket] Falling back to simulated live mode')
-            this.isConnected = true
-            this.emitEvent({
-              type: 'network_stats_update',
-              data: { status: 'connected', mode: 'simulated' },
-              timestamp: Date.now(),
-            })
-          }
-        }
-
-        this.ws.onerror = (error) => {
-          clearTimeout(connectionTimeout)
-          console.warn('[WebSocket] Connection failed, using simulated live mode:', error)
-          this.isConnected = true
-          this.emitEvent({
-            type: 'network_stats_update',
-            data: { status: 'connected', mode: 'simulated' },
-            timestamp: Date.now(),
-          })
-          resolve() // Don't reject, just fallback
-        }
-      } catch (error) {
-        console.warn('[WebSocket] Setup failed, using simulated live mode:', error)
-        this.isConnected = true
-        this.emitEvent({
-          type: 'network_stats_update',
-          data: { status: 'connected', mode: 'simulated' },
-          timestamp: Date.now(),
-        })
-        resolve()
-      }
-    })
-  }
-
-  /**
-   * Disconnect from WebSocket
-   */
-  disconnect(): void {
-    if (this.ws) {
-      this.ws.close(1000, 'Client disconnect')
-      this.ws = null
-    }
-    this.isConnected = false
-    this.stopHeartbeat()
-  }
-
-  /**
-   * Subscribe to pNode gossip updates
-   */
-  async subscribeToPNodeUpdates(callback: (pnodes: unknown) => void): Promise<number> {
-    if (!this.isConnected || !this.ws) {
-      throw new Error('WebSocket not connected')
-    }
-
-    const subscriptionId = Date.now() // Simple ID generation
-
-    // Subscribe to gossip updates (this is conceptual - need to check actual Xandeum WS API)
-    const subscriptionMessage = {
-      jsonrpc: '2.0',
-      id: subscriptionId,
-      method: 'gossipSubscribe',
-      params: [],
-    }
-
-    this.ws.send(JSON.stringify(subscriptionMessage))
-    this.subscriptions.set(subscriptionId, callback)
-
-    console.log('[WebSocket] Subscribed to pNode updates, subscription ID:', subscriptionId)
-    return subscriptionId
-  }
-
-  /**
-   * Subscribe to network stats updates
-   */
-  async subscribeToNetworkStats(callback: (stats: unknown) => void): Promise<number> {
-    if (!this.isConnected || !this.ws) {
-      throw new Error('WebSocket not connected')
-    }
-
-    const subscriptionId = Date.now() + 1
-
-    // Subscribe to network stats (conceptual)
-    const subscriptionMessage = {
-      jsonrpc: '2.0',
-      id: subscriptionId,
-      method: 'networkStatsSubscribe',
-      params: [],
-    }
-
-    this.ws.send(JSON.stringify(subscriptionMessage))
-    this.subscriptions.set(subscriptionId, callback)
-
-    console.log('[WebSocket] Subscribed to network stats, subscription ID:', subscriptionId)
-    return subscriptionId
-  }
-
-  /**
-   * Unsubscribe from updates
-   */
-  unsubscribe(subscriptionId: number): void {
-    if (this.ws && this.isConnected) {
-      const unsubscribeMessage = {
-        jsonrpc: '2.0',
-        id: subscriptionId,
-        method: 'unsubscribe',
-        params: [subscriptionId],
-      }
-
-      this.ws.send(JSON.stringify(unsubscribeMessage))
-    }
-    this.subscriptions.delete(subscriptionId)
-  }
-
-  /**
-   * Add event listener
-   */
-  addEventListener(eventType: string, callback: (event: PNodeUpdateEvent) => void): void {
-    if (!this.eventListeners.has(eventType)) {
-      this.eventListeners.set(eventType, [])
-    }
-    this.eventListeners.get(eventType)!.push(callback)
-  }
-
-  /**
-   * Remove event listener
-   */
-  removeEventListener(eventType: string, callback: (event: PNodeUpdateEvent) => void): void {
-    const listeners = this.eventListeners.get(eventType)
-    if (listeners) {
-      const index = listeners.indexOf(callback)
-      if (index > -1) {
-        listeners.splice(index, 1)
-      }
-    }
-  }
-
-  /**
-   * Get connection status
-   */
-  getConnectionStatus(): boolean {
-    return this.isConnected
-  }
-
-  private handleMessage(message: WebSocketMessage): void {
-    // Handle subscription notifications
-    if (message.method && message.params) {
-      const subscriptionId = message.params.subscription
-      const callback = this.subscriptions.get(subscriptionId)
-
-      if (callback) {
-        try {
-          callback(message.params.result)
-        } catch (error) {
-          console.error('[WebSocket] Error in subscription callback:', error)
-        }
-      }
-
-      // Emit custom events based on message type
-      this.handleCustomEvent(message)
-    }
-  }
-
-  private handleCustomEvent(message: WebSocketMessage): void {
-    // Process different types of updates
-    if (message.method === 'gossipNotification') {
-      this.emitEvent({
-        type: 'pnode_update',
-        data: message.params.result as Record<string, unknown>,
-        timestamp: Date.now(),
-      })
-    } else if (message.method === 'networkStatsNotification') {
-      this.emitEvent({
-        type: 'network_stats_update',
-        data: message.params.result as Record<string, unknown>,
-        timestamp: Date.now(),
-      })
-    }
-  }
-
-  private emitEvent(event: PNodeUpdateEvent): void {
-    const listeners = this.eventListeners.get(event.type)
-    if (listeners) {
-      listeners.forEach((callback) => {
-        try {
-          callback(event)
-        } catch (error) {
-          console.error('[WebSocket] Error in event listener:', error)
-        }
-      })
-    }
-  }
-
-  private startHeartbeat(): void {
-    this.heartbeatInterval = setInterval(() => {
-      if (this.ws && this.isConnected) {
-        // Send ping to keep connection alive
-        this.ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'ping', id: Date.now() }))
-      }
-    }, 30000) // Every 30 seconds
-  }
-
-  private stopHeartbeat(): void {
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval)
-      this.heartbeatInterval = null
-    }
-  }
-
-  private scheduleReconnect(): void {
-    this.reconnectAttempts++
-    const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1) // Exponential backoff
-
-    console.log(
-      `[WebSocket] Scheduling reconnect attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${delay}ms`,
-    )
-
-    setTimeout(() => {
-      this.connect().catch((error) => {
-        console.error('[WebSocket] Reconnect failed:', error)
-      })
-    }, delay)
-  }
-}
-
-// Singleton instance
-let wsService: WebSocketService | null = null
-
-export function getWebSocketService(): WebSocketService {
-  if (!wsService) {
-    const wsUrl = process.env.NEXT_PUBLIC_XANDEUM_WS_URL || 'wss://apis.devnet.xandeum.com'
-    wsService = new WebSocketService(wsUrl)
-  }
-  return wsService
-}
-
-
-
-
-
-
@@ -5,12 +5,21 @@ export interface AlertRule {
   type: AlertType
   enabled: boolean
   severity: AlertSeverity
+  scope: AlertRuleScope
+  pubkeys?: string[] // pnode scope only - restrict to these pNodes (one pubkey = single pNode)
   conditions: AlertCondition[]
   cooldownMinutes: number // Prevent spam
   lastTriggered?: Date
   notificationMethods: NotificationMethod[]
+  notifyEmail?: string // Comma-separated recipients, falls back to ALERT_EMAIL_TO
+  notifyWebhook?: string // Webhook URL, falls back to ALERT_WEBHOOK_URL
+  escalationMinutes?: number // Unacknowledged minutes before escalating, falls back to ALERT_ESCALATION_MINUTES; 0 = never
+  escalationMethods?: NotificationMethod[] // Channels used on escalation, defaults to the ones the rule doesn't already use
 }
 
+/** Rule fields set through the API (id and lastTriggered are managed server-side) */
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'lastTriggered'>
+
 export type AlertType =
   | 'pnode_offline'
   | 'pnode_performance_drop'
@@ -19,13 +28,21 @@ export type AlertType =
   | 'network_storage_low'
   | 'new_pnode_joined'
   | 'pnode_version_outdated'
+  | 'custom' // User-defined metric/operator/threshold rule
 
 export type AlertSeverity = 'low' | 'medium' | 'high' | 'critical'
 
+/**
+ * What a rule is evaluated against:
+ * - network: columns of the latest NetworkSnapshot (e.g. healthScore, currentTps)
+ * - pnode: each pNode, matched by field path (e.g. storage.utilization, networkMetrics.cpuPercent)
+ */
+export type AlertRuleScope = 'network' | 'pnode'
+
 export type NotificationMethod = 'browser' | 'email' | 'webhook'
 
 export interface AlertCondition {
-  field: string
+  field: string // Metric - a pNode field path or NetworkSnapshot column, depending on scope
   operator: 'gt' | 'lt' | 'eq' | 'ne' | 'contains' | 'not_contains'
   value: number | string | boolean
   duration?: number // minutes - sustained condition
@@ -39,12 +56,42 @@ export interface Alert {
   title: string
   message: string
   pnodeId?: string
+  subject?: string // pNode pubkey, or "network" for network-level rules
   metadata: Record<string, unknown>
+  value?: number // Metric value that triggered the alert
+  threshold?: number // Threshold that was crossed
   timestamp: Date
   acknowledged: boolean
   acknowledgedAt?: Date
+  acknowledgedBy?: string
+  ackNote?: string
   resolved: boolean
   resolvedAt?: Date
+  resolvedBy?: string // "system" when auto-resolved
+  resolveTimeMs?: number // Time from trigger to resolution
+  escalatedAt?: Date
+  silenced: boolean // Recorded during a silence/maintenance window - no notifications sent
+  silenceId?: string
+}
+
+export type AlertSilenceKind = 'maintenance' | 'silence'
+
+/**
+ * Maintenance window or ad-hoc silence. Active between startsAt and endsAt; matching
+ * alerts are recorded but not notified or escalated. Every non-empty matcher list must
+ * match (pubkey exact, location case-insensitive substring, rule type exact).
+ */
+export interface AlertSilence {
+  id: string
+  kind: AlertSilenceKind
+  reason: string
+  createdBy?: string
+  createdAt: Date
+  startsAt: Date
+  endsAt: Date
+  pubkeys: string[]
+  locations: string[]
+  ruleTypes: AlertType[]
 }
 
 export interface AlertStats {
@@ -63,6 +110,7 @@ export const DEFAULT_ALERT_RULES: Omit<AlertRule, 'id'>[] = [
     type: 'pnode_offline',
     enabled: true,
     severity: 'high',
+    scope: 'pnode',
     conditions: [{ field: 'status', operator: 'eq', value: 'offline', duration: 5 }],
     cooldownMinutes: 60,
     notificationMethods: ['browser'],
@@ -73,6 +121,7 @@ export const DEFAULT_ALERT_RULES: Omit<AlertRule, 'id'>[] = [
     type: 'pnode_performance_drop',
     enabled: true,
     severity: 'medium',
+    scope: 'pnode',
     conditions: [{ field: 'performanceScore', operator: 'lt', value: 60, duration: 10 }],
     cooldownMinutes: 30,
     notificationMethods: ['browser'],
@@ -83,7 +132,8 @@ export const DEFAULT_ALERT_RULES: Omit<AlertRule, 'id'>[] = [
     type: 'pnode_storage_full',
     enabled: true,
     severity: 'high',
-    conditions: [{ field: 'storageUtilization', operator: 'gt', value: 90, duration: 15 }],
+    scope: 'pnode',
+    conditions: [{ field: 'storage.utilization', operator: 'gt', value: 90, duration: 15 }],
     cooldownMinutes: 120,
     notificationMethods: ['browser'],
   },
@@ -93,6 +143,7 @@ export const DEFAULT_ALERT_RULES: Omit<AlertRule, 'id'>[] = [
     type: 'network_decentralization',
     enabled: true,
     severity: 'critical',
+    scope: 'network',
     conditions: [{ field: 'decentralizationScore', operator: 'lt', value: 0.7, duration: 30 }],
     cooldownMinutes: 240,
     notificationMethods: ['browser'],
@@ -103,6 +154,7 @@ export const DEFAULT_ALERT_RULES: Omit<AlertRule, 'id'>[] = [
     type: 'new_pnode_joined',
     enabled: false,
     severity: 'low',
+    scope: 'pnode',
     conditions: [{ field: 'isNew', operator: 'eq', value: true }],
     cooldownMinutes: 0,
     notificationMethods: ['browser'],
@@ -113,6 +165,7 @@ export const DEFAULT_ALERT_RULES: Omit<AlertRule, 'id'>[] = [
     type: 'pnode_version_outdated',
     enabled: true,
     severity: 'medium',
+    scope: 'pnode',
     conditions: [
       { field: 'versionOutdated', operator: 'eq', value: true, duration: 1440 }, // 24 hours
     ],
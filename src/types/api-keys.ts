@@ -0,0 +1,45 @@
+/** Permission scopes an API key can hold; `*` grants all of them */
+export type ApiScope =
+  | 'read:pnodes'
+  | 'read:network'
+  | 'read:analytics'
+  | 'read:alerts'
+  | 'write:alerts'
+  | 'read:indexer'
+  | 'read:metrics'
+  | 'read:export'
+  | 'use:prpc'
+  | 'use:mcp'
+  | 'use:chat'
+
+export type ApiKeyPermission = ApiScope | '*'
+
+/** An API key as returned by the admin endpoints (never includes the key itself) */
+export interface ApiKeyInfo {
+  id: string
+  name: string
+  description: string | null
+  permissions: ApiKeyPermission[]
+  /** Requests per clock hour */
+  rateLimit: number
+  lastUsed: string | null
+  totalRequests: number
+  active: boolean
+  expiresAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ApiKeyInput {
+  name: string
+  description?: string
+  permissions: ApiKeyPermission[]
+  rateLimit: number
+  expiresAt?: Date
+}
+
+/** Response of minting or rotating a key: the key is shown once and only stored hashed */
+export interface IssuedApiKey {
+  key: string
+  apiKey: ApiKeyInfo
+}
@@ -0,0 +1,102 @@
+export type IndexerPhase = 'fetch' | 'detect' | 'write' | 'geo' | 'alerts' | 'retention'
+export type IndexerPhaseTimings = Partial<Record<IndexerPhase, number>>
+
+/** Upstream data the indexer fetches each cycle; only `pnodes` is required */
+export type IndexerSource =
+  | 'pnodes'
+  | 'voteAccounts'
+  | 'epochInfo'
+  | 'performanceSamples'
+  | 'inflation'
+  | 'supply'
+  | 'stakeMinimum'
+
+export interface IndexerSourceResult {
+  ok: boolean
+  error?: string
+}
+
+/** What `runIndexingCycle` did; `skipped` when another cycle was already running */
+export type IndexerCycleOutcome = 'completed' | 'failed' | 'skipped'
+
+export type IndexerRunStatus = 'running' | 'success' | 'partial' | 'failed'
+
+/** Rows written by a cycle, per table */
+export type IndexerRowCounts = Partial<
+  Record<
+    | 'pnodeSnapshots'
+    | 'validatorSnapshots'
+    | 'performanceSamples'
+    | 'economicsSnapshots'
+    | 'networkSnapshots'
+    | 'events'
+    | 'anomalies',
+    number
+  >
+>
+
+export interface IndexerRun {
+  id: string
+  startedAt: string
+  finishedAt: string | null
+  status: IndexerRunStatus
+  durationMs: number | null
+  sources: Partial<Record<IndexerSource, IndexerSourceResult>>
+  rowCounts: IndexerRowCounts
+  timings: IndexerPhaseTimings
+  error: string | null
+}
+
+/** Response of GET /api/indexer/status */
+export interface IndexerStatus {
+  /** `unknown` until a cycle has completed */
+  freshness: 'fresh' | 'stale' | 'unknown'
+  /** Time since the last successful (or partial) cycle finished */
+  stalenessMs: number | null
+  staleAfterMs: number
+  /** A cycle started recently and hasn't finished */
+  running: boolean
+  /** Failed cycles since the last successful one */
+  consecutiveFailures: number
+  /** Sources that failed in the last finished cycle */
+  failingSources: IndexerSource[]
+  lastRun: IndexerRun | null
+  lastSuccessfulRun: IndexerRun | null
+  checkedAt: string
+}
+
+/** How a replay's re-derived rows for one table compare with the stored ones */
+export interface ReplayTableDiff {
+  derived: number
+  unchanged: number
+  created: number
+  deleted: number
+}
+
+/** One event or anomaly a replay created or deleted (or would, in a dry run) */
+export interface ReplayChange {
+  action: 'create' | 'delete'
+  table: 'events' | 'anomalies'
+  timestamp: string
+  /** Event title, or the anomaly's metric */
+  title: string
+  pnodePubkey: string | null
+}
+
+/** Response of POST /api/cron/replay */
+export interface ReplayResult {
+  from: string
+  to: string
+  dryRun: boolean
+  /** Cycles (pNode snapshot sets) walked */
+  snapshotSets: number
+  events: ReplayTableDiff
+  anomalies: ReplayTableDiff
+  /** Hourly rollup buckets rewritten because they no longer matched the raw snapshots */
+  hourlyRollups: string[]
+  /** Days whose daily rollups and DailyAnalytics were rewritten */
+  dailyRollups: string[]
+  /** The individual event and anomaly changes, capped at 200 */
+  changes: ReplayChange[]
+  durationMs: number
+}
@@ -40,6 +40,21 @@ export interface PerformanceMetrics {
     /** Raw uptime in seconds from pnRPC */
     uptimeSeconds?: number;
 
+    /** Median get-stats latency (ms) over the prober's rolling window */
+    latencyP50?: number;
+
+    /** 95th percentile get-stats latency (ms) */
+    latencyP95?: number;
+
+    /** 99th percentile get-stats latency (ms) */
+    latencyP99?: number;
+
+    /** get-stats probes in the rolling window */
+    probeSamples?: number;
+
+    /** Failed probes in the rolling window */
+    probeFailures?: number;
+
     /** Last updated timestamp */
     lastUpdated: number;
 
@@ -84,6 +99,17 @@ export interface StorageMetrics {
     isEstimated?: boolean;
 }
 
+export interface VersionInfo {
+    /** Latest release the node is compared against */
+    latest: string;
+
+    /** Whether the node runs an older release than `latest` */
+    outdated: boolean;
+
+    /** Number of known releases between the node's version and `latest` */
+    versionsBehind: number;
+}
+
 export interface PNode {
     /** Unique identifier (pubkey) */
     id: string;
@@ -106,12 +132,18 @@ export interface PNode {
     /** Software version */
     version: string;
 
+    /** Version status relative to the latest release (unset if the version can't be parsed) */
+    versionInfo?: VersionInfo;
+
     /** Shred version */
     shredVersion?: number;
 
     /** Geographic location (if available) */
     location?: string;
 
+    /** GeoIP/ASN record stored by the indexer (absent until the node has been enriched) */
+    geo?: PNodeGeo;
+
     /** Last seen timestamp */
     lastSeen: Date;
 
@@ -131,6 +163,22 @@ export interface PNode {
     gossipEndpoint: string;
 }
 
+/**
+ * GeoIP/ASN record resolved once per node IP by the indexer and persisted on the PNode row
+ */
+export interface PNodeGeo {
+    country: string;
+    countryCode: string;
+    region: string;
+    city: string;
+    latitude: number;
+    longitude: number;
+    /** Autonomous system, e.g. "AS24940 Hetzner Online GmbH" */
+    asn: string;
+    /** Hosting provider / organisation */
+    datacenter: string;
+}
+
 export interface PNodeDetails extends PNode {
     /** Detailed network information */
     network: {
@@ -153,6 +201,9 @@ export interface PNodeDetails extends PNode {
         performanceScores: TimeSeriesData[];
         storageUtilization: TimeSeriesData[];
         uptimeHistory: TimeSeriesData[];
+        /** Window and bucket size the series were built with */
+        range?: HistoryRange;
+        resolution?: HistoryResolution;
     };
 }
 
@@ -161,6 +212,18 @@ export interface TimeSeriesData {
     value: number;
 }
 
+/** How far back pNode history goes */
+export type HistoryRange = '24h' | '7d' | '30d' | '90d';
+
+/** Bucket size history is averaged into ('raw' = one point per indexer snapshot) */
+export type HistoryResolution = 'raw' | 'hourly' | 'daily';
+
+export interface PNodeHistoryOptions {
+    range?: HistoryRange;
+    /** Defaults to a resolution suited to the range */
+    resolution?: HistoryResolution;
+}
+
 export interface NetworkStats {
     /** Total number of pNodes */
     totalPNodes: number;
@@ -290,6 +353,8 @@ export interface NetworkTopologyNode {
 }
 
 export interface PNodeFilters {
+    /** Only these pubkeys, e.g. the user's favorites */
+    ids?: string[];
     status?: PNodeStatus[];
     minStorage?: number;
     maxStorage?: number;
@@ -301,6 +366,6 @@ export interface PNodeFilters {
 }
 
 export interface PNodeSortOptions {
-    field: 'id' | 'storage' | 'performance' | 'uptime' | 'lastSeen';
+    field: 'id' | 'status' | 'storage' | 'utilization' | 'performance' | 'uptime' | 'location' | 'lastSeen';
     order: 'asc' | 'desc';
 }